@@ -1,4 +1,4 @@
-import { logger } from '../utils/logger.js';
+import { logger, sanitizeForLogging } from '../utils/logger.js';
 import { EasyPostClient } from '../services/easypost-client.js';
 import {
   EasyPostShipment,
@@ -10,18 +10,54 @@ import {
   CreateShipmentRequest,
   AddressValidationRequest,
   SmartrateRequest,
+  CustomsInfoCreateRequest,
+  AddressVerificationRequest,
+  SelectBestRateRequest,
+  RateSelectionResult,
+  RateSelectionPolicy,
+  ReturnLabelResult,
+  ParcelInput,
+  SmartrateEstimateResponseSchema,
+  EasyPostBatch,
+  LabelFormat,
+  LabelDocument,
+  MergeLabelsRequest,
+  EasyPostWebhook,
+  EasyPostPickup,
+  CreatePickupRequest,
+  EasyPostCarrierAccount,
+  CarrierAccountCreateRequest,
+  CarrierAccountUpdateRequest,
+  CONSTANTS,
   EasyPostError
 } from '../types/index.js';
+import { selectRate, extractSmartrateTransitDays } from '../utils/rate-selection.js';
+import {
+  getLabelUrl,
+  concatenateLabels,
+  mergePdfs
+} from '../utils/label-documents.js';
+
+// Carrier account types EasyPost registers through dedicated endpoints
+const UPS_OAUTH_ACCOUNT_TYPES = ['UpsAccount', 'UpsMailInnovationsAccount', 'UpsSurepostAccount'];
+const REGISTERED_ACCOUNT_TYPES = ['FedexAccount', 'FedexSmartpostAccount'];
 
 /**
  * EasyPost API handlers implementing all shipping operations
  * Provides high-level interface for EasyPost API interactions
  */
 export class EasyPostHandlers {
-  private client: EasyPostClient;
+  private resolveClient: () => EasyPostClient;
+
+  /**
+   * @param client Client to use, or a function returning the client of the current account
+   */
+  constructor(client: EasyPostClient | (() => EasyPostClient)) {
+    this.resolveClient = typeof client === 'function' ? client : () => client;
+  }
 
-  constructor(client: EasyPostClient) {
-    this.client = client;
+  private get client(): EasyPostClient {
+    return this.resolveClient();
   }
 
   /**
@@ -40,8 +76,10 @@ export class EasyPostHandlers {
       const shipmentData = {
         to_address: this.formatAddress(request.to_address),
         from_address: this.formatAddress(request.from_address),
+        ...(request.return_address && { return_address: this.formatAddress(request.return_address) }),
         parcel: this.formatParcel(request.parcel),
         options: request.options || {},
+        ...(request.carrier_accounts && { carrier_accounts: request.carrier_accounts }),
         customs_info: request.customs_info ? this.formatCustomsInfo(request.customs_info) : undefined
       };
 
@@ -118,18 +156,94 @@ export class EasyPostHandlers {
     }
   }
 
+  /**
+   * Select the best rate for a shipment according to a rate selection policy
+   */
+  async selectBestRate(request: SelectBestRateRequest): Promise<RateSelectionResult> {
+    const startTime = Date.now();
+    const { shipmentId, policy } = request;
+
+    try {
+      logger.info('Selecting best rate', { shipmentId, strategy: policy.strategy });
+
+      const rates = await this.getShipmentRates(shipmentId);
+
+      // SmartRate transit data replaces carrier estimates whenever a percentile is in play
+      let smartrateTransitDays: Map<string, number> | undefined;
+      if (policy.strategy === 'smartrate_percentile' || policy.percentile !== undefined) {
+        const percentile = policy.percentile ?? CONSTANTS.DEFAULT_SMARTRATE_PERCENTILE;
+        const shipment = await this.getShipment(shipmentId);
+        const carriers = Array.from(new Set(rates.map(rate => rate.carrier)));
+        const estimates = await this.getSmartrateEstimates({
+          from_zip: shipment.from_address.zip,
+          to_zip: shipment.to_address.zip,
+          carriers: carriers.length > 0 ? carriers : undefined,
+          planned_ship_date: policy.planned_ship_date,
+          desired_delivery_date: policy.deliver_by
+        });
+
+        const parsed = SmartrateEstimateResponseSchema.safeParse(estimates);
+        if (!parsed.success) {
+          logger.warn('Unexpected SmartRate response shape', { shipmentId });
+        }
+        smartrateTransitDays = parsed.success
+          ? extractSmartrateTransitDays(parsed.data, percentile)
+          : new Map();
+      }
+
+      const result = selectRate(rates, policy, {
+        shipmentId,
+        smartrateTransitDays,
+        shipDate: policy.planned_ship_date ? new Date(`${policy.planned_ship_date}T00:00:00Z`) : undefined
+      });
+
+      const duration = Date.now() - startTime;
+      logger.info('Best rate selected', {
+        shipmentId,
+        strategy: policy.strategy,
+        rateId: result.selected_rate.id,
+        carrier: result.selected_rate.carrier,
+        service: result.selected_rate.service,
+        excludedCount: result.excluded.length,
+        duration
+      });
+
+      return result;
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error('Failed to select best rate', {
+        shipmentId,
+        strategy: policy.strategy,
+        error: error instanceof Error ? error.message : String(error),
+        duration
+      });
+
+      if (error instanceof EasyPostError && error.code === 'NO_ELIGIBLE_RATE') {
+        throw error;
+      }
+
+      throw new EasyPostError(
+        `Failed to select rate for shipment ${shipmentId}`,
+        'RATE_SELECTION_FAILED',
+        { shipmentId, policy, originalError: error }
+      );
+    }
+  }
+
   /**
    * Purchase a shipping label for a shipment
    */
-  async buyShipmentLabel(shipmentId: string, rateId: string): Promise<EasyPostShipment> {
+  async buyShipmentLabel(shipmentId: string, rateId: string, idempotencyKey?: string): Promise<EasyPostShipment> {
     const startTime = Date.now();
     
     try {
-      logger.info('Purchasing shipment label', { shipmentId, rateId });
+      logger.info('Purchasing shipment label', { shipmentId, rateId, idempotencyKey });
 
       const response = await this.client.post<EasyPostShipment>(
         `/shipments/${shipmentId}/buy`,
-        { rate: { id: rateId } }
+        { rate: { id: rateId } },
+        { idempotencyKey }
       );
       
       const duration = Date.now() - startTime;
@@ -168,6 +282,71 @@ export class EasyPostHandlers {
     }
   }
 
+  /**
+   * Create a return shipment for an outbound shipment and buy its label with the rate the policy selects.
+   * The return keeps the outbound addresses: with is_return set, EasyPost swaps them on the label so
+   * the customer ships from the original destination back to the return (or origin) address.
+   */
+  async createReturnLabel(
+    original: EasyPostShipment,
+    options: {
+      parcel?: ParcelInput | undefined;
+      policy: RateSelectionPolicy;
+      /**
+       * Called with the selected rate before it is bought; throw to stop the purchase
+       */
+      authorize?: ((rate: EasyPostRate) => Promise<void>) | undefined;
+    },
+    idempotencyKey?: string
+  ): Promise<ReturnLabelResult> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Creating return label', { originalShipmentId: original.id, idempotencyKey });
+
+      const returnShipment = await this.client.post<EasyPostShipment>('/shipments', {
+        to_address: this.formatAddress(original.to_address),
+        from_address: this.formatAddress(original.return_address ?? original.from_address),
+        parcel: this.formatParcel(options.parcel ?? original.parcel),
+        ...(original.customs_info && { customs_info: { id: original.customs_info.id } }),
+        is_return: true,
+        reference: `return:${original.id}`
+      });
+
+      const selection = await this.selectBestRate({ shipmentId: returnShipment.id, policy: options.policy });
+      await options.authorize?.(selection.selected_rate);
+      const purchased = await this.buyShipmentLabel(returnShipment.id, selection.selected_rate.id, idempotencyKey);
+
+      const duration = Date.now() - startTime;
+      logger.info('Return label purchased', {
+        originalShipmentId: original.id,
+        returnShipmentId: purchased.id,
+        rateId: selection.selected_rate.id,
+        duration
+      });
+
+      return { original_shipment_id: original.id, return_shipment: purchased, selection };
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error('Failed to create return label', {
+        originalShipmentId: original.id,
+        error: error instanceof Error ? error.message : String(error),
+        duration
+      });
+
+      if (error instanceof EasyPostError) {
+        throw error;
+      }
+
+      throw new EasyPostError(
+        `Failed to create return label for shipment ${original.id}`,
+        'RETURN_LABEL_FAILED',
+        { shipmentId: original.id, originalError: error }
+      );
+    }
+  }
+
   /**
    * Track a shipment by tracking code
    */
@@ -279,7 +458,9 @@ export class EasyPostHandlers {
       const smartrateData = {
         from_zip: request.from_zip,
         to_zip: request.to_zip,
-        carriers: request.carriers || ['USPS', 'UPS', 'FedEx']
+        carriers: request.carriers || ['USPS', 'UPS', 'FedEx'],
+        ...(request.planned_ship_date && { planned_ship_date: request.planned_ship_date }),
+        ...(request.desired_delivery_date && { desired_delivery_date: request.desired_delivery_date })
       };
 
       const response = await this.client.post('/smartrate/deliver_by', smartrateData);
@@ -379,6 +560,217 @@ export class EasyPostHandlers {
     }
   }
 
+  /**
+   * List the carrier accounts on the EasyPost account
+   */
+  async listCarrierAccounts(): Promise<EasyPostCarrierAccount[]> {
+    const startTime = Date.now();
+
+    try {
+      logger.debug('Listing carrier accounts');
+
+      const response = await this.client.get<EasyPostCarrierAccount[]>('/carrier_accounts', {
+        headers: { 'Cache-Control': 'no-cache' }
+      });
+
+      const duration = Date.now() - startTime;
+      logger.debug('Carrier accounts retrieved', {
+        count: Array.isArray(response) ? response.length : 0,
+        duration
+      });
+
+      return Array.isArray(response) ? response : [];
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error('Failed to list carrier accounts', {
+        error: error instanceof Error ? error.message : String(error),
+        duration
+      });
+
+      throw new EasyPostError(
+        'Failed to list carrier accounts',
+        'CARRIER_ACCOUNT_FETCH_FAILED',
+        { originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Get a carrier account by ID
+   */
+  async getCarrierAccount(carrierAccountId: string): Promise<EasyPostCarrierAccount> {
+    const startTime = Date.now();
+
+    try {
+      logger.debug('Fetching carrier account', { carrierAccountId });
+
+      const response = await this.client.get<EasyPostCarrierAccount>(`/carrier_accounts/${carrierAccountId}`, {
+        headers: { 'Cache-Control': 'no-cache' }
+      });
+
+      const duration = Date.now() - startTime;
+      logger.debug('Carrier account retrieved', { carrierAccountId, type: response.type, duration });
+
+      return response;
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error('Failed to get carrier account', {
+        carrierAccountId,
+        error: error instanceof Error ? error.message : String(error),
+        duration
+      });
+
+      throw new EasyPostError(
+        `Failed to get carrier account ${carrierAccountId}`,
+        'CARRIER_ACCOUNT_FETCH_FAILED',
+        { carrierAccountId, originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Create a carrier account. UPS accounts are registered through EasyPost's OAuth
+   * registration endpoint and FedEx accounts through carrier registration, with the
+   * credentials sent as their registration data.
+   */
+  async createCarrierAccount(request: CarrierAccountCreateRequest): Promise<EasyPostCarrierAccount> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Creating carrier account', sanitizeForLogging(request));
+
+      const fields = {
+        type: request.type,
+        ...(request.description !== undefined && { description: request.description }),
+        ...(request.reference !== undefined && { reference: request.reference })
+      };
+
+      let response: EasyPostCarrierAccount;
+      if (UPS_OAUTH_ACCOUNT_TYPES.includes(request.type)) {
+        response = await this.client.post<EasyPostCarrierAccount>('/ups_oauth_registrations', {
+          ups_oauth_registrations: { ...fields, ...request.credentials }
+        });
+      } else if (REGISTERED_ACCOUNT_TYPES.includes(request.type)) {
+        response = await this.client.post<EasyPostCarrierAccount>('/carrier_accounts/register', {
+          carrier_account: { ...fields, registration_data: request.credentials }
+        });
+      } else {
+        response = await this.client.post<EasyPostCarrierAccount>('/carrier_accounts', {
+          carrier_account: {
+            ...fields,
+            credentials: request.credentials,
+            ...(request.test_credentials && { test_credentials: request.test_credentials })
+          }
+        });
+      }
+
+      const duration = Date.now() - startTime;
+      logger.info('Carrier account created', { carrierAccountId: response.id, type: response.type, duration });
+
+      return response;
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error('Failed to create carrier account', {
+        type: request.type,
+        error: error instanceof Error ? error.message : String(error),
+        duration
+      });
+
+      throw new EasyPostError(
+        `Failed to create ${request.type} carrier account`,
+        'CARRIER_ACCOUNT_CREATION_FAILED',
+        // Only the message is kept: a transport error carries the request body and its credentials
+        { type: request.type, originalError: error instanceof Error ? error.message : String(error) }
+      );
+    }
+  }
+
+  /**
+   * Update a carrier account's description, reference or credentials
+   */
+  async updateCarrierAccount(request: CarrierAccountUpdateRequest): Promise<EasyPostCarrierAccount> {
+    const startTime = Date.now();
+    const { carrierAccountId } = request;
+
+    try {
+      logger.info('Updating carrier account', sanitizeForLogging(request));
+
+      const existing = await this.getCarrierAccount(carrierAccountId);
+      const fields = {
+        ...(request.description !== undefined && { description: request.description }),
+        ...(request.reference !== undefined && { reference: request.reference })
+      };
+
+      const response = UPS_OAUTH_ACCOUNT_TYPES.includes(existing.type)
+        ? await this.client.patch<EasyPostCarrierAccount>(`/ups_oauth_registrations/${carrierAccountId}`, {
+          ups_oauth_registrations: { type: existing.type, ...fields, ...request.credentials }
+        })
+        : await this.client.patch<EasyPostCarrierAccount>(`/carrier_accounts/${carrierAccountId}`, {
+          carrier_account: {
+            ...fields,
+            ...(request.credentials && { credentials: request.credentials }),
+            ...(request.test_credentials && { test_credentials: request.test_credentials })
+          }
+        });
+
+      const duration = Date.now() - startTime;
+      logger.info('Carrier account updated', { carrierAccountId, type: response.type, duration });
+
+      return response;
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error('Failed to update carrier account', {
+        carrierAccountId,
+        error: error instanceof Error ? error.message : String(error),
+        duration
+      });
+
+      if (error instanceof EasyPostError && error.code === 'CARRIER_ACCOUNT_FETCH_FAILED') {
+        throw error;
+      }
+
+      throw new EasyPostError(
+        `Failed to update carrier account ${carrierAccountId}`,
+        'CARRIER_ACCOUNT_UPDATE_FAILED',
+        { carrierAccountId, originalError: error instanceof Error ? error.message : String(error) }
+      );
+    }
+  }
+
+  /**
+   * Delete a carrier account
+   */
+  async deleteCarrierAccount(carrierAccountId: string): Promise<void> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Deleting carrier account', { carrierAccountId });
+
+      await this.client.delete(`/carrier_accounts/${carrierAccountId}`);
+
+      const duration = Date.now() - startTime;
+      logger.info('Carrier account deleted', { carrierAccountId, duration });
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error('Failed to delete carrier account', {
+        carrierAccountId,
+        error: error instanceof Error ? error.message : String(error),
+        duration
+      });
+
+      throw new EasyPostError(
+        `Failed to delete carrier account ${carrierAccountId}`,
+        'CARRIER_ACCOUNT_DELETION_FAILED',
+        { carrierAccountId, originalError: error }
+      );
+    }
+  }
+
   /**
    * Get shipment by ID
    */
@@ -456,15 +848,15 @@ export class EasyPostHandlers {
   /**
    * Buy insurance for a shipment
    */
-  async buyInsurance(shipmentId: string, amount: string): Promise<any> {
+  async buyInsurance(shipmentId: string, amount: string, idempotencyKey?: string): Promise<any> {
     const startTime = Date.now();
 
     try {
-      logger.info('Purchasing insurance', { shipmentId, amount });
+      logger.info('Purchasing insurance', { shipmentId, amount, idempotencyKey });
 
       const response = await this.client.post(`/shipments/${shipmentId}/insure`, {
         amount
-      });
+      }, { idempotencyKey });
 
       const duration = Date.now() - startTime;
       logger.info('Insurance purchased', { shipmentId, amount, duration });
@@ -557,13 +949,13 @@ export class EasyPostHandlers {
   /**
    * Buy all shipments in a batch
    */
-  async buyBatch(batchId: string): Promise<any> {
+  async buyBatch(batchId: string, idempotencyKey?: string): Promise<any> {
     const startTime = Date.now();
 
     try {
-      logger.info('Buying batch', { batchId });
+      logger.info('Buying batch', { batchId, idempotencyKey });
 
-      const response = await this.client.post(`/batches/${batchId}/buy`);
+      const response = await this.client.post(`/batches/${batchId}/buy`, undefined, { idempotencyKey });
 
       const duration = Date.now() - startTime;
       logger.info('Batch purchased', { batchId, duration });
@@ -587,129 +979,664 @@ export class EasyPostHandlers {
   }
 
   /**
-   * Create SCAN form for shipments
+   * Get a batch by ID
    */
-  async createScanForm(shipmentIds: string[]): Promise<any> {
+  async getBatch(batchId: string): Promise<EasyPostBatch> {
     const startTime = Date.now();
 
     try {
-      logger.info('Creating SCAN form', { shipmentCount: shipmentIds.length });
+      logger.debug('Fetching batch', { batchId });
 
-      const response = await this.client.post('/scan_forms', {
-        shipments: shipmentIds.map(id => ({ id }))
-      }) as any;
+      const response = await this.client.get<EasyPostBatch>(`/batches/${batchId}`, {
+        headers: { 'Cache-Control': 'no-cache' }
+      });
 
       const duration = Date.now() - startTime;
-      logger.info('SCAN form created', { scanFormId: response.id, shipmentCount: shipmentIds.length, duration });
+      logger.debug('Batch retrieved', {
+        batchId,
+        state: response.state,
+        shipmentCount: response.shipments?.length ?? 0,
+        duration
+      });
 
       return response;
 
     } catch (error) {
       const duration = Date.now() - startTime;
-      logger.error('Failed to create SCAN form', {
-        shipmentCount: shipmentIds.length,
+      logger.error('Failed to get batch', {
+        batchId,
         error: error instanceof Error ? error.message : String(error),
         duration
       });
 
       throw new EasyPostError(
-        'Failed to create SCAN form',
-        'SCAN_FORM_CREATION_FAILED',
-        { shipmentIds, originalError: error }
+        `Failed to get batch ${batchId}`,
+        'BATCH_FETCH_FAILED',
+        { batchId, originalError: error }
       );
     }
   }
 
   /**
-   * Get customs information
+   * Request a merged label document for a purchased batch. EasyPost generates it
+   * asynchronously and sets label_url on the batch when done.
    */
-  async getCustomsInfo(customsInfoId: string): Promise<any> {
+  async generateBatchLabel(batchId: string, format: Exclude<LabelFormat, 'PNG'>): Promise<EasyPostBatch> {
     const startTime = Date.now();
 
     try {
-      logger.info('Getting customs info', { customsInfoId });
+      logger.info('Requesting batch label', { batchId, format });
 
-      const response = await this.client.get(`/customs_infos/${customsInfoId}`);
+      const response = await this.client.post<EasyPostBatch>(`/batches/${batchId}/label`, {
+        file_format: format
+      });
 
       const duration = Date.now() - startTime;
-      logger.info('Customs info retrieved', { customsInfoId, duration });
+      logger.info('Batch label requested', { batchId, format, state: response.state, duration });
 
       return response;
 
     } catch (error) {
       const duration = Date.now() - startTime;
-      logger.error('Failed to get customs info', {
-        customsInfoId,
+      logger.error('Failed to request batch label', {
+        batchId,
+        format,
         error: error instanceof Error ? error.message : String(error),
         duration
       });
 
       throw new EasyPostError(
-        `Failed to get customs info ${customsInfoId}`,
-        'CUSTOMS_INFO_FETCH_FAILED',
-        { customsInfoId, originalError: error }
+        `Failed to request ${format} label for batch ${batchId}`,
+        'BATCH_LABEL_FAILED',
+        { batchId, format, originalError: error }
       );
     }
   }
 
   /**
-   * Create customs information
+   * Convert a purchased shipment's label to another file format
    */
-  async createCustomsInfo(customsData: any): Promise<any> {
+  async convertLabel(shipmentId: string, format: LabelFormat): Promise<EasyPostShipment> {
     const startTime = Date.now();
 
     try {
-      logger.info('Creating customs info');
+      logger.info('Converting label', { shipmentId, format });
 
-      const response = await this.client.post('/customs_infos', customsData) as any;
+      const response = await this.client.get<EasyPostShipment>(`/shipments/${shipmentId}/label`, {
+        params: { file_format: format }
+      });
+
+      if (!response.postage_label || !getLabelUrl(response.postage_label, format)) {
+        throw new EasyPostError(
+          `Shipment ${shipmentId} has no ${format} label`,
+          'LABEL_NOT_AVAILABLE',
+          { shipmentId, format }
+        );
+      }
 
       const duration = Date.now() - startTime;
-      logger.info('Customs info created', { customsInfoId: response.id, duration });
+      logger.info('Label converted', { shipmentId, format, duration });
 
       return response;
 
     } catch (error) {
       const duration = Date.now() - startTime;
-      logger.error('Failed to create customs info', {
+      logger.error('Failed to convert label', {
+        shipmentId,
+        format,
         error: error instanceof Error ? error.message : String(error),
         duration
       });
 
+      if (error instanceof EasyPostError && error.code === 'LABEL_NOT_AVAILABLE') {
+        throw error;
+      }
+
       throw new EasyPostError(
-        'Failed to create customs info',
-        'CUSTOMS_INFO_CREATION_FAILED',
-        { originalError: error }
+        `Failed to convert label for shipment ${shipmentId} to ${format}`,
+        'LABEL_CONVERSION_FAILED',
+        { shipmentId, format, originalError: error }
       );
     }
   }
 
   /**
-   * Advanced address verification
+   * Download a purchased shipment's label file in the given format
    */
-  async verifyAddress(addressData: any): Promise<any> {
-    const startTime = Date.now();
-
-    try {
-      logger.info('Verifying address');
-
-      const response = await this.client.post('/addresses', addressData) as any;
+  async downloadLabel(shipment: EasyPostShipment, format: LabelFormat): Promise<Buffer> {
+    const url = shipment.postage_label && getLabelUrl(shipment.postage_label, format);
 
-      const duration = Date.now() - startTime;
-      logger.info('Address verified', { addressId: response.id, duration });
-
-      return response;
+    if (!url) {
+      throw new EasyPostError(
+        `Shipment ${shipment.id} has no ${format} label`,
+        'LABEL_NOT_AVAILABLE',
+        { shipmentId: shipment.id, format }
+      );
+    }
 
+    try {
+      return await this.client.download(url);
     } catch (error) {
-      const duration = Date.now() - startTime;
-      logger.error('Failed to verify address', {
-        error: error instanceof Error ? error.message : String(error),
-        duration
+      logger.error('Failed to download label', {
+        shipmentId: shipment.id,
+        format,
+        error: error instanceof Error ? error.message : String(error)
       });
 
       throw new EasyPostError(
-        'Failed to verify address',
-        'ADDRESS_VERIFICATION_FAILED',
-        { originalError: error }
+        `Failed to download ${format} label for shipment ${shipment.id}`,
+        'LABEL_DOWNLOAD_FAILED',
+        { shipmentId: shipment.id, format, originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Fetch the labels of several shipments, or of a batch, and merge them into
+   * one multi-page PDF or one concatenated ZPL/EPL2 document
+   */
+  async mergeLabels(
+    request: MergeLabelsRequest
+  ): Promise<Omit<LabelDocument, 'uri' | 'byteLength' | 'createdAt' | 'expiresAt'>> {
+    const startTime = Date.now();
+    const { format, batchId } = request;
+
+    try {
+      logger.info('Merging labels', {
+        format,
+        batchId,
+        shipmentCount: request.shipmentIds?.length
+      });
+
+      const shipmentIds = request.shipmentIds ??
+        (await this.getBatch(batchId!)).shipments.map(shipment => shipment.id);
+
+      if (shipmentIds.length === 0) {
+        throw new EasyPostError(
+          `Batch ${batchId} has no shipments`,
+          'LABEL_NOT_AVAILABLE',
+          { batchId }
+        );
+      }
+
+      const labels: Buffer[] = [];
+
+      for (const shipmentId of shipmentIds) {
+        const shipment = await this.convertLabel(shipmentId, format);
+        labels.push(await this.client.download(getLabelUrl(shipment.postage_label!, format)!));
+      }
+
+      const content = format === 'PDF'
+        ? await mergePdfs(labels)
+        : Buffer.from(concatenateLabels(labels.map(label => label.toString('latin1'))), 'latin1');
+
+      const duration = Date.now() - startTime;
+      logger.info('Labels merged', {
+        format,
+        batchId,
+        labelCount: labels.length,
+        byteLength: content.length,
+        duration
+      });
+
+      return {
+        format,
+        mimeType: CONSTANTS.LABEL_MIME_TYPES[format],
+        shipmentIds,
+        batchId,
+        labelCount: labels.length,
+        content
+      };
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error('Failed to merge labels', {
+        format,
+        batchId,
+        error: error instanceof Error ? error.message : String(error),
+        duration
+      });
+
+      if (error instanceof EasyPostError &&
+        (error.code === 'LABEL_NOT_AVAILABLE' || error.code === 'LABEL_MERGE_FAILED')) {
+        throw error;
+      }
+
+      throw new EasyPostError(
+        'Failed to merge labels',
+        'LABEL_MERGE_FAILED',
+        { batchId, shipmentIds: request.shipmentIds, format, originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Create SCAN form for shipments
+   */
+  async createScanForm(shipmentIds: string[]): Promise<any> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Creating SCAN form', { shipmentCount: shipmentIds.length });
+
+      const response = await this.client.post('/scan_forms', {
+        shipments: shipmentIds.map(id => ({ id }))
+      }) as any;
+
+      const duration = Date.now() - startTime;
+      logger.info('SCAN form created', { scanFormId: response.id, shipmentCount: shipmentIds.length, duration });
+
+      return response;
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error('Failed to create SCAN form', {
+        shipmentCount: shipmentIds.length,
+        error: error instanceof Error ? error.message : String(error),
+        duration
+      });
+
+      throw new EasyPostError(
+        'Failed to create SCAN form',
+        'SCAN_FORM_CREATION_FAILED',
+        { shipmentIds, originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Create a pickup request for a purchased shipment or batch. The pickup is not booked
+   * until one of its rates is bought.
+   */
+  async createPickup(request: CreatePickupRequest): Promise<EasyPostPickup> {
+    const startTime = Date.now();
+    const target = request.shipmentId !== undefined
+      ? { shipmentId: request.shipmentId }
+      : { batchId: request.batchId };
+
+    try {
+      logger.info('Creating pickup', {
+        ...target,
+        min_datetime: request.min_datetime,
+        max_datetime: request.max_datetime
+      });
+
+      const response = await this.client.post<EasyPostPickup>('/pickups', {
+        pickup: {
+          address: this.formatAddress(request.address),
+          ...(request.shipmentId !== undefined && { shipment: { id: request.shipmentId } }),
+          ...(request.batchId !== undefined && { batch: { id: request.batchId } }),
+          min_datetime: request.min_datetime,
+          max_datetime: request.max_datetime,
+          is_account_address: request.is_account_address,
+          ...(request.instructions !== undefined && { instructions: request.instructions }),
+          ...(request.reference !== undefined && { reference: request.reference })
+        }
+      });
+
+      const duration = Date.now() - startTime;
+      logger.info('Pickup created', {
+        pickupId: response.id,
+        rateCount: response.pickup_rates?.length ?? 0,
+        duration
+      });
+
+      return response;
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error('Failed to create pickup', {
+        ...target,
+        error: error instanceof Error ? error.message : String(error),
+        duration
+      });
+
+      throw new EasyPostError(
+        'Failed to create pickup',
+        'PICKUP_CREATION_FAILED',
+        { ...target, originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Get a pickup with its available rates
+   */
+  async getPickup(pickupId: string): Promise<EasyPostPickup> {
+    const startTime = Date.now();
+
+    try {
+      logger.debug('Fetching pickup', { pickupId });
+
+      // Rates and status change as the pickup is bought or cancelled
+      const response = await this.client.get<EasyPostPickup>(`/pickups/${pickupId}`, {
+        headers: { 'Cache-Control': 'no-cache' }
+      });
+
+      const duration = Date.now() - startTime;
+      logger.debug('Pickup retrieved', { pickupId, status: response.status, duration });
+
+      return response;
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error('Failed to get pickup', {
+        pickupId,
+        error: error instanceof Error ? error.message : String(error),
+        duration
+      });
+
+      throw new EasyPostError(
+        `Failed to get pickup ${pickupId}`,
+        'PICKUP_FETCH_FAILED',
+        { pickupId, originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Book a pickup at one of its rates
+   */
+  async buyPickup(pickupId: string, carrier: string, service: string, idempotencyKey?: string): Promise<EasyPostPickup> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Purchasing pickup', { pickupId, carrier, service, idempotencyKey });
+
+      const response = await this.client.post<EasyPostPickup>(
+        `/pickups/${pickupId}/buy`,
+        { carrier, service },
+        { idempotencyKey }
+      );
+
+      const duration = Date.now() - startTime;
+      logger.info('Pickup purchased', {
+        pickupId,
+        status: response.status,
+        confirmation: response.confirmation,
+        duration
+      });
+
+      return response;
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error('Failed to purchase pickup', {
+        pickupId,
+        carrier,
+        service,
+        error: error instanceof Error ? error.message : String(error),
+        duration
+      });
+
+      throw new EasyPostError(
+        `Failed to buy pickup ${pickupId}`,
+        'PICKUP_PURCHASE_FAILED',
+        { pickupId, carrier, service, originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Cancel a booked pickup
+   */
+  async cancelPickup(pickupId: string): Promise<EasyPostPickup> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Cancelling pickup', { pickupId });
+
+      const response = await this.client.post<EasyPostPickup>(`/pickups/${pickupId}/cancel`, {});
+
+      const duration = Date.now() - startTime;
+      logger.info('Pickup cancelled', { pickupId, status: response.status, duration });
+
+      return response;
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error('Failed to cancel pickup', {
+        pickupId,
+        error: error instanceof Error ? error.message : String(error),
+        duration
+      });
+
+      throw new EasyPostError(
+        `Failed to cancel pickup ${pickupId}`,
+        'PICKUP_CANCELLATION_FAILED',
+        { pickupId, originalError: error }
+      );
+    }
+  }
+
+  /**
+   * List booked pickups whose window has not ended, soonest first
+   */
+  async listUpcomingPickups(now: Date = new Date()): Promise<EasyPostPickup[]> {
+    const startTime = Date.now();
+
+    try {
+      logger.debug('Listing upcoming pickups');
+
+      const response = await this.client.get<{ pickups?: EasyPostPickup[] }>('/pickups', {
+        params: { page_size: 100 },
+        headers: { 'Cache-Control': 'no-cache' }
+      });
+
+      const pickups = (response.pickups ?? [])
+        .filter(pickup => pickup.status === 'scheduled' && Date.parse(pickup.max_datetime) > now.getTime())
+        .sort((a, b) => Date.parse(a.min_datetime) - Date.parse(b.min_datetime));
+
+      const duration = Date.now() - startTime;
+      logger.debug('Upcoming pickups retrieved', { count: pickups.length, duration });
+
+      return pickups;
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error('Failed to list pickups', {
+        error: error instanceof Error ? error.message : String(error),
+        duration
+      });
+
+      throw new EasyPostError(
+        'Failed to list pickups',
+        'PICKUP_FETCH_FAILED',
+        { originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Get customs information
+   */
+  async getCustomsInfo(customsInfoId: string): Promise<any> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Getting customs info', { customsInfoId });
+
+      const response = await this.client.get(`/customs_infos/${customsInfoId}`);
+
+      const duration = Date.now() - startTime;
+      logger.info('Customs info retrieved', { customsInfoId, duration });
+
+      return response;
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error('Failed to get customs info', {
+        customsInfoId,
+        error: error instanceof Error ? error.message : String(error),
+        duration
+      });
+
+      throw new EasyPostError(
+        `Failed to get customs info ${customsInfoId}`,
+        'CUSTOMS_INFO_FETCH_FAILED',
+        { customsInfoId, originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Create customs information
+   */
+  async createCustomsInfo(customsData: CustomsInfoCreateRequest): Promise<any> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Creating customs info');
+
+      const response = await this.client.post('/customs_infos', customsData) as any;
+
+      const duration = Date.now() - startTime;
+      logger.info('Customs info created', { customsInfoId: response.id, duration });
+
+      return response;
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error('Failed to create customs info', {
+        error: error instanceof Error ? error.message : String(error),
+        duration
+      });
+
+      throw new EasyPostError(
+        'Failed to create customs info',
+        'CUSTOMS_INFO_CREATION_FAILED',
+        { originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Advanced address verification
+   */
+  async verifyAddress(addressData: AddressVerificationRequest): Promise<any> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Verifying address');
+
+      const response = await this.client.post('/addresses', addressData) as any;
+
+      const duration = Date.now() - startTime;
+      logger.info('Address verified', { addressId: response.id, duration });
+
+      return response;
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error('Failed to verify address', {
+        error: error instanceof Error ? error.message : String(error),
+        duration
+      });
+
+      throw new EasyPostError(
+        'Failed to verify address',
+        'ADDRESS_VERIFICATION_FAILED',
+        { originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Register a webhook URL for account events
+   */
+  async createWebhook(url: string, webhookSecret?: string): Promise<EasyPostWebhook> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Creating webhook', { url, signed: webhookSecret !== undefined });
+
+      const response = await this.client.post<EasyPostWebhook>('/webhooks', {
+        webhook: {
+          url,
+          ...(webhookSecret !== undefined && { webhook_secret: webhookSecret })
+        }
+      });
+
+      const duration = Date.now() - startTime;
+      logger.info('Webhook created', { webhookId: response.id, duration });
+
+      return response;
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error('Failed to create webhook', {
+        url,
+        error: error instanceof Error ? error.message : String(error),
+        duration
+      });
+
+      throw new EasyPostError(
+        'Failed to create webhook',
+        'WEBHOOK_CREATION_FAILED',
+        { url, originalError: error }
+      );
+    }
+  }
+
+  /**
+   * List registered webhooks
+   */
+  async listWebhooks(): Promise<EasyPostWebhook[]> {
+    const startTime = Date.now();
+
+    try {
+      logger.debug('Listing webhooks');
+
+      const response = await this.client.get<{ webhooks?: EasyPostWebhook[] }>('/webhooks', {
+        headers: { 'Cache-Control': 'no-cache' }
+      });
+
+      const duration = Date.now() - startTime;
+      logger.debug('Webhooks retrieved', { count: response.webhooks?.length ?? 0, duration });
+
+      return response.webhooks ?? [];
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error('Failed to list webhooks', {
+        error: error instanceof Error ? error.message : String(error),
+        duration
+      });
+
+      throw new EasyPostError(
+        'Failed to list webhooks',
+        'WEBHOOK_FETCH_FAILED',
+        { originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Delete a webhook
+   */
+  async deleteWebhook(webhookId: string): Promise<void> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Deleting webhook', { webhookId });
+
+      await this.client.delete(`/webhooks/${webhookId}`);
+
+      const duration = Date.now() - startTime;
+      logger.info('Webhook deleted', { webhookId, duration });
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error('Failed to delete webhook', {
+        webhookId,
+        error: error instanceof Error ? error.message : String(error),
+        duration
+      });
+
+      throw new EasyPostError(
+        `Failed to delete webhook ${webhookId}`,
+        'WEBHOOK_DELETION_FAILED',
+        { webhookId, originalError: error }
       );
     }
   }
@@ -68,12 +68,46 @@ async function main(): Promise<void> {
       name: 'easypost-mcp-server',
       version: process.env['npm_package_version'] || '1.0.0',
       apiKey: envValidation.data.EASYPOST_API_KEY,
+      testApiKey: envValidation.data.EASYPOST_TEST_API_KEY,
+      productionApiKey: envValidation.data.EASYPOST_PRODUCTION_API_KEY,
+      accounts: Object.entries(envValidation.data.EASYPOST_ACCOUNTS ?? {}).map(([name, account]) => ({
+        name,
+        description: account.description,
+        testApiKey: account.test_api_key,
+        productionApiKey: account.production_api_key
+      })),
+      defaultAccount: envValidation.data.EASYPOST_DEFAULT_ACCOUNT,
       environment: envValidation.data.NODE_ENV,
       timeout: envValidation.data.EASYPOST_TIMEOUT,
       retryAttempts: envValidation.data.EASYPOST_RETRY_ATTEMPTS,
       enableCache: envValidation.data.ENABLE_CACHE,
       logLevel: envValidation.data.LOG_LEVEL,
-      port: envValidation.data.PORT ?? undefined
+      port: envValidation.data.PORT ?? undefined,
+      mcpAuthToken: envValidation.data.MCP_AUTH_TOKEN,
+      mcpAllowedOrigins: envValidation.data.MCP_ALLOWED_ORIGINS,
+      mcpAllowedHosts: envValidation.data.MCP_ALLOWED_HOSTS,
+      mcpSessionIdleTimeout: envValidation.data.MCP_SESSION_IDLE_TIMEOUT,
+      mcpMaxSessions: envValidation.data.MCP_MAX_SESSIONS,
+      redisUrl: envValidation.data.REDIS_URL,
+      idempotencyTtl: envValidation.data.IDEMPOTENCY_TTL,
+      addressBookPath: envValidation.data.ADDRESS_BOOK_PATH,
+      boxCatalogPath: envValidation.data.BOX_CATALOG_PATH,
+      webhookSecret: envValidation.data.EASYPOST_WEBHOOK_SECRET,
+      smtpUrl: envValidation.data.SMTP_URL,
+      mailFrom: envValidation.data.MAIL_FROM,
+      spendingLimits: {
+        perCall: envValidation.data.SPEND_LIMIT_PER_CALL,
+        daily: envValidation.data.SPEND_LIMIT_DAILY,
+        monthly: envValidation.data.SPEND_LIMIT_MONTHLY,
+        confirmationThreshold: envValidation.data.SPEND_CONFIRMATION_THRESHOLD,
+        confirmationTtl: envValidation.data.SPEND_CONFIRMATION_TTL
+      },
+      dryRun: envValidation.data.EASYPOST_DRY_RUN,
+      databaseUrl: envValidation.data.DATABASE_URL,
+      auditLogPath: envValidation.data.AUDIT_LOG_PATH,
+      tracesExporter: envValidation.data.OTEL_TRACES_EXPORTER,
+      otlpEndpoint: envValidation.data.OTEL_EXPORTER_OTLP_ENDPOINT,
+      tracesFilePath: envValidation.data.OTEL_TRACES_FILE
     });
 
     // Start the server
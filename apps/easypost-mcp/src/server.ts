@@ -1,35 +1,62 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import { 
   CallToolRequestSchema,
   ErrorCode,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
-  ReadResourceRequestSchema
+  ReadResourceRequestSchema,
+  ServerNotification,
+  ServerRequest,
+  isInitializeRequest
 } from '@modelcontextprotocol/sdk/types.js';
-import express, { Express, Request, Response } from 'express';
+import express, { Express, NextFunction, Request, RequestHandler, Response } from 'express';
 import helmet from 'helmet';
 import cors from 'cors';
+import { randomUUID } from 'crypto';
 import { createServer, Server as HttpServer } from 'http';
-
-import { logger } from './utils/logger.js';
-import { EasyPostClient } from './services/easypost-client.js';
+import {
+  AuditLog,
+  bearerTokenMatches,
+  createAuditStore,
+  extractTraceContext,
+  HealthMonitor,
+  HealthProbe,
+  startTracing,
+  stopTracing,
+  withSpan
+} from '@mcp-shipping/shared';
+
+import { logger, sanitizeForLogging } from './utils/logger.js';
+import { metricsRegistry, mcpSessionsGauge, recordToolCall, recordWebhookEvent } from './utils/metrics.js';
+import { AccountRegistry } from './services/accounts.js';
 import { EasyPostHandlers } from './handlers/easypost.js';
+import { IdempotencyManager, createIdempotencyStore } from './services/idempotency.js';
+import { LabelDocumentStore } from './services/label-document-store.js';
+import { AddressBook } from './services/address-book.js';
+import { BoxCatalog } from './services/box-catalog.js';
+import { TrackingTimelineStore } from './services/tracking-timeline-store.js';
+import { WebhookProcessor, verifyWebhookSignature } from './services/webhooks.js';
+import { Mailer } from './services/mailer.js';
+import { SpendingPolicy, createSpendStore, SPENDING_POLICY_ERROR_CODES } from './services/spending-policy.js';
+import { createToolRegistry, ToolRegistry } from './tools/index.js';
 import {
   EasyPostMCPServerConfig,
   ToolDefinition,
   ResourceDefinition,
   EasyPostError,
-  HealthCheckResponse
+  HealthCheckResponse,
+  LivenessResponse,
+  MCPHttpSession,
+  TrackingTimeline,
+  ToolCallContext,
+  CONSTANTS
 } from './types/index.js';
-import {
-  validateShipmentCreation,
-  validateShipmentRatesFetch,
-  validateShipmentLabelPurchase,
-  validateShipmentTracking,
-  validateAddressVerification
-} from './utils/validation.js';
 
 /**
  * Production-ready EasyPost MCP Server
@@ -40,8 +67,21 @@ export class EasyPostMCPServer {
   private httpServer?: HttpServer;
   private app?: Express;
   private config: EasyPostMCPServerConfig;
-  private easyPostClient: EasyPostClient;
+  private accounts: AccountRegistry;
   private handlers: EasyPostHandlers;
+  private idempotency: IdempotencyManager;
+  private spending: SpendingPolicy;
+  private audit: AuditLog;
+  private health: HealthMonitor;
+  private labelDocuments: LabelDocumentStore;
+  private addressBook: AddressBook;
+  private boxCatalog: BoxCatalog;
+  private trackingTimelines: TrackingTimelineStore;
+  private webhookProcessor: WebhookProcessor;
+  private mailer: Mailer;
+  private tools: ToolRegistry;
+  private httpSessions = new Map<string, MCPHttpSession>();
+  private sessionSweep?: ReturnType<typeof setInterval> | undefined;
   private isRunning = false;
   private startTime: Date;
 
@@ -49,36 +89,71 @@ export class EasyPostMCPServer {
     this.config = config;
     this.startTime = new Date();
     
-    // Initialize MCP server with metadata
-    this.server = new Server(
-      {
-        name: config.name,
-        version: config.version
-      },
-      {
-        capabilities: {
-          tools: {},
-          resources: {}
-        }
+    // EasyPost accounts and their test and production clients
+    this.accounts = new AccountRegistry(config);
+
+    // Initialize handlers against the account of the current tool call
+    this.handlers = new EasyPostHandlers(() => this.accounts.client());
+
+    // Initialize idempotency store for money-spending tools, keyed per account and mode
+    this.idempotency = new IdempotencyManager(
+      createIdempotencyStore(config.redisUrl),
+      config.idempotencyTtl,
+      () => {
+        const { account, mode } = this.accounts.current();
+        return `${account}:${mode}`;
       }
     );
 
-    // Initialize EasyPost client
-    this.easyPostClient = new EasyPostClient({
-      apiKey: config.apiKey,
-      timeout: config.timeout,
-      retryAttempts: config.retryAttempts,
-      enableCache: config.enableCache,
-      baseURL: config.environment === 'production' 
-        ? 'https://api.easypost.com/v2'
-        : 'https://api.easypost.com/v2' // EasyPost uses same URL for both
-    });
+    // Audit trail of state-changing tool calls, shared with the other MCP servers
+    this.audit = new AuditLog(createAuditStore(config.databaseUrl, config.auditLogPath, logger), 'easypost-mcp', logger);
+
+    // Spending limits and confirmations for purchases, per account and mode
+    this.spending = new SpendingPolicy(
+      createSpendStore(config.redisUrl),
+      config.spendingLimits,
+      () => this.accounts.current(),
+      amount => this.audit.addCost(amount)
+    );
+
+    // Merged label documents served as resources
+    this.labelDocuments = new LabelDocumentStore();
+
+    // Named addresses for "@name" references
+    this.addressBook = new AddressBook(config.addressBookPath);
+
+    // Shipping boxes for the packing solver
+    this.boxCatalog = new BoxCatalog(config.boxCatalogPath);
 
-    // Initialize handlers
-    this.handlers = new EasyPostHandlers(this.easyPostClient);
+    // Tracking timelines fed by tracker, batch and refund webhooks, which also drop stale cached responses
+    this.trackingTimelines = new TrackingTimelineStore();
+    this.webhookProcessor = new WebhookProcessor(
+      this.trackingTimelines,
+      tags => this.accounts.invalidateCache(tags)
+    );
 
-    // Setup MCP handlers
-    this.setupMCPHandlers();
+    // Outgoing email for return labels
+    this.mailer = new Mailer(config.smtpUrl, config.mailFrom, config.timeout);
+
+    // Initialize tool registry
+    this.tools = createToolRegistry({
+      handlers: this.handlers,
+      idempotency: this.idempotency,
+      labelDocuments: this.labelDocuments,
+      addressBook: this.addressBook,
+      boxCatalog: this.boxCatalog,
+      trackingTimelines: this.trackingTimelines,
+      mailer: this.mailer,
+      spending: this.spending,
+      audit: this.audit,
+      webhookSecret: config.webhookSecret
+    }, this.accounts);
+
+    // Dependency probes behind the readiness endpoint
+    this.health = new HealthMonitor(this.createHealthProbes(), logger);
+
+    // Initialize MCP server for the stdio transport
+    this.server = this.createMCPServer();
 
     // Setup HTTP server for health checks if port is provided
     if (config.port) {
@@ -89,121 +164,106 @@ export class EasyPostMCPServer {
       name: config.name,
       version: config.version,
       environment: config.environment,
+      defaultAccount: this.accounts.defaultSelection(),
+      dryRun: config.dryRun === true,
       port: config.port,
       enableCache: config.enableCache
     });
   }
 
+  /**
+   * Create an MCP server instance with all protocol handlers registered.
+   * The stdio transport and every Streamable HTTP session get their own instance,
+   * since an MCP server can only be connected to a single transport.
+   */
+  private createMCPServer(): Server {
+    const server = new Server(
+      {
+        name: this.config.name,
+        version: this.config.version
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: {}
+        }
+      }
+    );
+
+    this.setupMCPHandlers(server);
+
+    return server;
+  }
+
   /**
    * Setup MCP protocol handlers
    */
-  private setupMCPHandlers(): void {
+  private setupMCPHandlers(server: Server): void {
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
         tools: this.getToolDefinitions()
       };
     });
 
     // List available resources  
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
       return {
         resources: this.getResourceDefinitions()
       };
     });
 
+    // List parameterized resources
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: [
+          {
+            uriTemplate: `${CONSTANTS.TRACKING_TIMELINE_URI_PREFIX}{shipment_id}/timeline`,
+            name: 'Shipment Tracking Timeline',
+            description: 'Full status history of a shipment from tracker, batch and refund events',
+            mimeType: 'application/json'
+          }
+        ]
+      };
+    });
+
     // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
+      const metricLabel = this.tools.has(name) ? name : 'unknown';
+      const startTime = Date.now();
+      const attributes = { 'mcp.tool.name': name, 'mcp.request.id': String(extra.requestId) };
+
+      // Continue the trace of the HTTP request that carried the call, if any
+      return withSpan('easypost-mcp', `tools/call ${name}`, attributes, async span => {
+        try {
+          logger.info('Tool called', {
+            tool: name,
+            arguments: sanitizeForLogging(args),
+            requestId: (request as any).id ?? 'unknown'
+          });
 
-      try {
-        logger.info('Tool called', {
-          tool: name,
-          arguments: args,
-          requestId: (request as any).id ?? 'unknown'
-        });
-
-        switch (name) {
-          case 'create_shipment':
-            return await this.handleCreateShipment(args);
-          
-          case 'get_shipment_rates':
-            return await this.handleGetShipmentRates(args);
-          
-          case 'buy_shipment_label':
-            return await this.handleBuyShipmentLabel(args);
-          
-          case 'track_shipment':
-            return await this.handleTrackShipment(args);
-          
-          case 'validate_address':
-            return await this.handleValidateAddress(args);
-          
-          case 'get_smartrate_estimates':
-            return await this.handleGetSmartrateEstimates(args);
-
-          case 'refund_shipment':
-            return await this.handleRefundShipment(args);
-
-          case 'buy_insurance':
-            return await this.handleBuyInsurance(args);
-
-          case 'create_batch':
-            return await this.handleCreateBatch();
-
-          case 'add_shipments_to_batch':
-            return await this.handleAddShipmentsToBatch(args);
-
-          case 'buy_batch':
-            return await this.handleBuyBatch(args);
-
-          case 'scan_form_create':
-            return await this.handleCreateScanForm(args);
-
-          case 'get_customs_info':
-            return await this.handleGetCustomsInfo(args);
-
-          case 'create_customs_info':
-            return await this.handleCreateCustomsInfo(args);
-
-          case 'verify_address':
-            return await this.handleVerifyAddress(args);
-
-          default:
-            throw new McpError(
-              ErrorCode.MethodNotFound,
-              `Unknown tool: ${name}`
-            );
-        }
-      } catch (error) {
-        logger.error('Tool execution failed', {
-          tool: name,
-          error: error instanceof Error ? error.message : String(error),
-          stack: error instanceof Error ? error.stack : undefined,
-          requestId: (request as any).id ?? 'unknown'
-        });
-
-        if (error instanceof McpError) {
-          throw error;
-        }
+          const result = await this.tools.call(name, args, this.getToolCallContext(server, extra));
+          recordToolCall(metricLabel, Date.now() - startTime);
+          return result;
+        } catch (error) {
+          logger.error('Tool execution failed', {
+            tool: name,
+            error: error instanceof Error ? error.message : String(error),
+            stack: error instanceof Error ? error.stack : undefined,
+            requestId: (request as any).id ?? 'unknown'
+          });
 
-        if (error instanceof EasyPostError) {
-          throw new McpError(
-            ErrorCode.InvalidRequest,
-            `EasyPost API error: ${error.message}`,
-            error.details
-          );
+          const mcpError = this.toMcpError(error);
+          span.setAttribute('mcp.error.code', mcpError.code);
+          recordToolCall(metricLabel, Date.now() - startTime, mcpError.code);
+          throw mcpError;
         }
-
-        throw new McpError(
-          ErrorCode.InternalError,
-          'Internal server error occurred'
-        );
-      }
+      }, extractTraceContext(extra.requestInfo?.headers));
     });
 
     // Handle resource reads
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       const { uri } = request.params;
 
       try {
@@ -238,6 +298,111 @@ export class EasyPostMCPServer {
           };
         }
 
+        const timelineMatch = uri.match(/^easypost:\/\/shipments\/([^/]+)\/timeline$/);
+        if (timelineMatch) {
+          const timeline = await this.getTrackingTimeline(decodeURIComponent(timelineMatch[1]!));
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'application/json',
+                text: JSON.stringify(timeline, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (uri === 'easypost://accounts') {
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'application/json',
+                text: JSON.stringify({
+                  default: this.accounts.defaultSelection(),
+                  dryRun: this.accounts.simulator !== undefined,
+                  accounts: this.accounts.list()
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (uri === 'easypost://spend') {
+          const selections = this.accounts.list().flatMap(account =>
+            account.modes.map(mode => ({ account: account.name, mode })));
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'application/json',
+                text: JSON.stringify({
+                  currency: 'USD',
+                  limits: this.spending.getLimits(),
+                  accounts: await this.spending.summary(selections)
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (uri === 'easypost://pickups') {
+          const pickups = await this.handlers.listUpcomingPickups();
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'application/json',
+                text: JSON.stringify(pickups, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (uri === 'easypost://boxes') {
+          const boxes = await this.boxCatalog.list();
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'application/json',
+                text: JSON.stringify(boxes, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (uri === 'easypost://addresses') {
+          const addresses = await this.addressBook.list();
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'application/json',
+                text: JSON.stringify(addresses, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (this.labelDocuments.handles(uri)) {
+          const document = this.labelDocuments.get(uri);
+          if (!document) {
+            throw new McpError(
+              ErrorCode.InvalidRequest,
+              `Label document not found or expired: ${uri}`
+            );
+          }
+
+          return {
+            contents: [
+              document.format === 'PDF' || document.format === 'PNG'
+                ? { uri, mimeType: document.mimeType, blob: document.content.toString('base64') }
+                : { uri, mimeType: document.mimeType, text: document.content.toString('latin1') }
+            ]
+          };
+        }
+
         throw new McpError(
           ErrorCode.InvalidRequest,
           `Unknown resource URI: ${uri}`
@@ -254,6 +419,14 @@ export class EasyPostMCPServer {
           throw error;
         }
 
+        if (error instanceof EasyPostError) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `EasyPost API error: ${error.message}`,
+            error.details
+          );
+        }
+
         throw new McpError(
           ErrorCode.InternalError,
           'Failed to read resource'
@@ -270,39 +443,71 @@ export class EasyPostMCPServer {
 
     // Security middleware
     this.app.use(helmet());
-    this.app.use(cors());
+    this.app.use(cors({
+      origin: this.config.mcpAllowedOrigins?.length ? this.config.mcpAllowedOrigins : false,
+      exposedHeaders: ['Mcp-Session-Id']
+    }));
+
+    // EasyPost webhooks are signed over the raw body, so they are registered ahead of the JSON parser
+    this.app.post(CONSTANTS.WEBHOOK_PATH, express.raw({ type: '*/*', limit: '1mb' }), (req: Request, res: Response) => {
+      this.handleWebhook(req, res);
+    });
+
     this.app.use(express.json({ limit: '1mb' }));
 
     // Health check endpoint
-    this.app.get('/health', (_req: Request, res: Response) => {
-      const healthCheck: HealthCheckResponse = {
-        status: 'healthy',
+    this.app.get('/health', async (_req: Request, res: Response) => {
+      res.json(await this.getHealth());
+    });
+
+    // Liveness: the process serves requests, whatever the state of its dependencies
+    this.app.get('/health/live', (_req: Request, res: Response) => {
+      const liveness: LivenessResponse = {
+        status: 'alive',
         timestamp: new Date().toISOString(),
         uptime: Date.now() - this.startTime.getTime(),
         version: this.config.version,
-        service: this.config.name,
-        dependencies: {
-          easypost: 'healthy' // Could implement actual EasyPost API health check
-        }
+        service: this.config.name
       };
 
-      res.json(healthCheck);
+      res.json(liveness);
     });
 
-    // Metrics endpoint
-    this.app.get('/metrics', (_req: Request, res: Response) => {
-      const metrics = {
-        uptime: Date.now() - this.startTime.getTime(),
-        memory: process.memoryUsage(),
-        cpu: process.cpuUsage(),
-        version: this.config.version,
-        tools: this.getAvailableTools(),
-        resources: this.getAvailableResources()
-      };
+    // Readiness: 503 while a critical dependency is unhealthy
+    this.app.get('/health/ready', async (_req: Request, res: Response) => {
+      const health = await this.getHealth();
+      res.status(health.status === 'unhealthy' ? 503 : 200).json(health);
+    });
 
-      res.json(metrics);
+    // Metrics endpoint
+    this.app.get('/metrics', async (_req: Request, res: Response) => {
+      mcpSessionsGauge.set(this.httpSessions.size);
+      res.type(metricsRegistry.contentType);
+      res.send(await metricsRegistry.metrics());
     });
 
+    // The MCP Streamable HTTP endpoint runs tools with the server's EasyPost keys, so it is only served behind a token
+    if (this.config.mcpAuthToken) {
+      const authorize = this.requireBearerToken(this.config.mcpAuthToken);
+
+      // MCP Streamable HTTP endpoint: client-to-server messages
+      this.app.post('/mcp', authorize, async (req: Request, res: Response) => {
+        await this.handleMCPPost(req, res);
+      });
+
+      // MCP Streamable HTTP endpoint: server-to-client SSE stream
+      this.app.get('/mcp', authorize, async (req: Request, res: Response) => {
+        await this.handleMCPSessionRequest(req, res);
+      });
+
+      // MCP Streamable HTTP endpoint: session termination
+      this.app.delete('/mcp', authorize, async (req: Request, res: Response) => {
+        await this.handleMCPSessionRequest(req, res);
+      });
+    } else {
+      logger.warn('Streamable HTTP endpoint disabled: MCP_AUTH_TOKEN is not set');
+    }
+
     // 404 handler
     this.app.use('*', (req: Request, res: Response) => {
       res.status(404).json({
@@ -316,745 +521,570 @@ export class EasyPostMCPServer {
   }
 
   /**
-   * Start the MCP server
+   * Handle an EasyPost webhook delivery: verify the HMAC signature, then apply the event.
+   * Any 2xx tells EasyPost to stop retrying, so only bad signatures and payloads are rejected.
    */
-  async start(): Promise<void> {
-    if (this.isRunning) {
-      logger.warn('Server is already running');
+  private handleWebhook(req: Request, res: Response): void {
+    const secret = this.config.webhookSecret;
+    if (!secret) {
+      res.status(503).json({
+        error: 'Service Unavailable',
+        message: 'Webhook receiver is not configured: set EASYPOST_WEBHOOK_SECRET',
+        timestamp: new Date().toISOString()
+      });
       return;
     }
 
-    try {
-      // Test EasyPost connection (optional during startup)
-      try {
-        await this.handlers.getAccount();
-        logger.info('EasyPost API connection verified');
-      } catch (accountError) {
-        logger.warn('Account verification failed during startup, but continuing', {
-          error: accountError instanceof Error ? accountError.message : String(accountError)
-        });
-      }
-
-      // Start HTTP server if configured
-      if (this.httpServer && this.config.port) {
-        await new Promise<void>((resolve, reject) => {
-          this.httpServer!.listen(this.config.port, (error?: Error) => {
-            if (error) {
-              reject(error);
-            } else {
-              logger.info('HTTP server started', { port: this.config.port });
-              resolve();
-            }
-          });
-        });
-      }
+    const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    const signature = req.headers['x-hmac-signature'];
 
-      // Connect MCP server to stdio transport
-      const transport = new StdioServerTransport();
-      await this.server.connect(transport);
+    if (!verifyWebhookSignature(rawBody, Array.isArray(signature) ? signature[0] : signature, secret)) {
+      logger.warn('Webhook signature verification failed', { ip: req.ip ?? 'unknown' });
+      recordWebhookEvent('unknown', 'unauthorized');
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Invalid webhook signature',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
 
-      this.isRunning = true;
-      logger.info('MCP Server connected and ready');
+    try {
+      const outcome = this.webhookProcessor.process(JSON.parse(rawBody.toString('utf8')));
+      recordWebhookEvent(outcome.description, outcome.status);
+      res.json({ received: true, ...outcome });
 
     } catch (error) {
-      logger.error('Failed to start server', {
-        error: error instanceof Error ? error.message : String(error),
-        stack: error instanceof Error ? error.stack : undefined
+      logger.warn('Webhook event rejected', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      recordWebhookEvent('unknown', 'rejected');
+
+      res.status(400).json({
+        error: 'Bad Request',
+        message: error instanceof EasyPostError ? error.message : 'Webhook body is not valid JSON',
+        timestamp: new Date().toISOString()
       });
-      throw error;
     }
   }
 
   /**
-   * Stop the server
+   * Get a shipment's tracking timeline, seeding it from the shipment's tracker
+   * when no webhook has been received for it yet
    */
-  async stop(): Promise<void> {
-    if (!this.isRunning) {
-      return;
+  private async getTrackingTimeline(shipmentId: string): Promise<TrackingTimeline> {
+    const stored = this.trackingTimelines.get(shipmentId);
+    if (stored) {
+      return stored;
     }
 
-    try {
-      // Close HTTP server
-      if (this.httpServer) {
-        await new Promise<void>((resolve) => {
-          this.httpServer!.close(() => {
-            logger.info('HTTP server closed');
-            resolve();
-          });
-        });
+    const shipment = await this.handlers.getShipment(shipmentId);
+    if (shipment.tracking_code) {
+      const tracker = await this.handlers.trackShipment(shipment.tracking_code, shipment.selected_rate?.carrier);
+      const timeline = this.trackingTimelines.recordTracker({ ...tracker, shipment_id: shipmentId });
+      if (timeline) {
+        return timeline;
       }
-
-      // Close MCP server
-      await this.server.close();
-      
-      this.isRunning = false;
-      logger.info('MCP Server stopped');
-
-    } catch (error) {
-      logger.error('Error stopping server', {
-        error: error instanceof Error ? error.message : String(error)
-      });
-      throw error;
     }
+
+    return { shipment_id: shipmentId, events: [], updated_at: new Date().toISOString() };
   }
 
   /**
-   * Tool handler implementations
+   * Identify the caller of a tool call for the audit log: the authenticated client
+   * when the transport has one, otherwise the MCP client named at initialization
    */
-  
-  private async handleCreateShipment(args: unknown) {
-    const validation = validateShipmentCreation(args);
-    if (!validation.success) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        'Invalid shipment creation parameters',
-        validation.error.errors
-      );
-    }
+  private getToolCallContext(server: Server, extra: RequestHandlerExtra<ServerRequest, ServerNotification>): ToolCallContext {
+    const client = server.getClientVersion();
+    const userAgent = extra.requestInfo?.headers['user-agent'];
 
-    const result = await this.handlers.createShipment(validation.data);
-    
     return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Shipment created successfully with ID: ${result.id}`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
+      requestId: String(extra.requestId),
+      caller: extra.authInfo?.clientId ?? (client ? `${client.name}/${client.version}` : undefined),
+      userAgent: Array.isArray(userAgent) ? userAgent.join(', ') : userAgent
     };
   }
 
-  private async handleGetShipmentRates(args: unknown) {
-    const validation = validateShipmentRatesFetch(args);
-    if (!validation.success) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        'Invalid shipment rates parameters',
-        validation.error.errors
-      );
-    }
+  /**
+   * Handle a POST to the Streamable HTTP endpoint.
+   * Initialize requests without a session ID open a new session; every other
+   * request is routed to the transport of the session named in the header.
+   */
+  private async handleMCPPost(req: Request, res: Response): Promise<void> {
+    const sessionId = this.getSessionId(req);
+    let created: MCPHttpSession | undefined;
 
-    const result = await this.handlers.getShipmentRates(validation.data.shipmentId);
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Found ${result.length} rates for shipment ${validation.data.shipmentId}`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
+    try {
+      let session = sessionId ? this.httpSessions.get(sessionId) : undefined;
+
+      if (!session) {
+        if (sessionId) {
+          this.sendJsonRpcError(res, 404, ErrorCode.InvalidRequest, `Unknown MCP session: ${sessionId}`);
+          return;
         }
-      ]
-    };
-  }
 
-  private async handleBuyShipmentLabel(args: unknown) {
-    const validation = validateShipmentLabelPurchase(args);
-    if (!validation.success) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        'Invalid label purchase parameters',
-        validation.error.errors
-      );
-    }
+        if (!isInitializeRequest(req.body)) {
+          this.sendJsonRpcError(res, 400, ErrorCode.InvalidRequest, 'No MCP session ID provided and request is not an initialize request');
+          return;
+        }
 
-    const result = await this.handlers.buyShipmentLabel(
-      validation.data.shipmentId,
-      validation.data.rateId
-    );
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Label purchased successfully for shipment ${validation.data.shipmentId}`
-        },
-        {
-          type: 'text' as const,
-          text: `Tracking Code: ${result.tracking_code || 'N/A'}`
-        },
-        {
-          type: 'text' as const,
-          text: `Label URL: ${result.postage_label?.label_url || 'N/A'}`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
+        if (this.httpSessions.size >= (this.config.mcpMaxSessions ?? CONSTANTS.MCP_MAX_SESSIONS)) {
+          this.sendJsonRpcError(res, 503, ErrorCode.InternalError, 'Too many open MCP sessions, retry later');
+          return;
         }
-      ]
-    };
-  }
 
-  private async handleTrackShipment(args: unknown) {
-    const validation = validateShipmentTracking(args);
-    if (!validation.success) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        'Invalid tracking parameters',
-        validation.error.errors
-      );
-    }
+        session = created = await this.createHttpSession();
+      }
 
-    const result = await this.handlers.trackShipment(
-      validation.data.trackingCode,
-      validation.data.carrier
-    );
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Tracking Status: ${result.status || 'Unknown'}`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+      session.lastActivityAt = new Date();
+      await session.transport.handleRequest(req, res, req.body);
+
+      // An initialize the transport rejected, e.g. for its Host header, leaves a session nobody can use
+      if (created && !created.server.getClientVersion()) {
+        await this.closeHttpSession(created, 'initialize failed');
+      }
+
+    } catch (error) {
+      logger.error('MCP HTTP request failed', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined
+      });
+
+      if (created) {
+        await this.closeHttpSession(created, 'initialize failed');
+      }
+
+      if (!res.headersSent) {
+        this.sendJsonRpcError(res, 500, ErrorCode.InternalError, 'Internal server error occurred');
+      }
+    }
   }
 
-  private async handleValidateAddress(args: unknown) {
-    const validation = validateAddressVerification(args);
-    if (!validation.success) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        'Invalid address validation parameters',
-        validation.error.errors
+  /**
+   * Handle GET (SSE stream) and DELETE (termination) requests for an existing session
+   */
+  private async handleMCPSessionRequest(req: Request, res: Response): Promise<void> {
+    const sessionId = this.getSessionId(req);
+    const session = sessionId ? this.httpSessions.get(sessionId) : undefined;
+
+    if (!session) {
+      this.sendJsonRpcError(
+        res,
+        sessionId ? 404 : 400,
+        ErrorCode.InvalidRequest,
+        sessionId ? `Unknown MCP session: ${sessionId}` : 'MCP session ID header is required'
       );
+      return;
     }
 
-    const result = await this.handlers.validateAddress(validation.data);
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: 'Address validation complete'
-        },
-        {
-          type: 'text' as const,
-          text: `Valid: ${result.verifications?.delivery?.success ? 'Yes' : 'No'}`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
+    try {
+      session.lastActivityAt = new Date();
+      await session.transport.handleRequest(req, res);
+    } catch (error) {
+      logger.error('MCP HTTP session request failed', {
+        sessionId,
+        method: req.method,
+        error: error instanceof Error ? error.message : String(error)
+      });
 
-  private async handleGetSmartrateEstimates(args: unknown) {
-    // For now, pass through the args directly since we don't have validation imported
-    // TODO: Add proper validation using validateSmartrateRequest
-    const result = await this.handlers.getSmartrateEstimates(args as any);
+      if (!res.headersSent) {
+        this.sendJsonRpcError(res, 500, ErrorCode.InternalError, 'Internal server error occurred');
+      }
+    }
+  }
 
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: 'SmartRate estimates retrieved successfully'
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
+  /**
+   * Create a Streamable HTTP session backed by its own MCP server instance
+   */
+  private async createHttpSession(): Promise<MCPHttpSession> {
+    const server = this.createMCPServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId: string) => {
+        this.httpSessions.set(sessionId, session);
+        logger.info('MCP HTTP session initialized', {
+          sessionId,
+          activeSessions: this.httpSessions.size
+        });
+      },
+      // DNS rebinding protection: a page on another site cannot reach the endpoint through a name resolving to this host
+      enableDnsRebindingProtection: true,
+      allowedHosts: this.getAllowedHosts(),
+      allowedOrigins: this.config.mcpAllowedOrigins ?? []
+    });
+    const session: MCPHttpSession = { server, transport, createdAt: new Date(), lastActivityAt: new Date() };
+
+    transport.onclose = () => {
+      const sessionId = transport.sessionId;
+      if (sessionId && this.httpSessions.delete(sessionId)) {
+        logger.info('MCP HTTP session closed', {
+          sessionId,
+          activeSessions: this.httpSessions.size
+        });
+      }
     };
-  }
 
-  private async handleRefundShipment(args: unknown) {
-    const { shipmentId } = args as { shipmentId: string };
-    const result = await this.handlers.refundShipment(shipmentId);
+    // The SDK declares optional callbacks without `| undefined`, which trips exactOptionalPropertyTypes
+    await server.connect(transport as Transport);
 
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Refund initiated for shipment ${shipmentId}`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    return session;
   }
 
-  private async handleBuyInsurance(args: unknown) {
-    const { shipmentId, amount } = args as { shipmentId: string; amount: string };
-    const result = await this.handlers.buyInsurance(shipmentId, amount);
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Insurance purchased for shipment ${shipmentId}`
-        },
-        {
-          type: 'text' as const,
-          text: `Coverage Amount: $${amount}`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+  /**
+   * Close a Streamable HTTP session; its transport's onclose drops it from the session map
+   */
+  private async closeHttpSession(session: MCPHttpSession, reason: string): Promise<void> {
+    logger.info('Closing MCP HTTP session', { sessionId: session.transport.sessionId, reason });
+    await session.server.close().catch((error: unknown) => {
+      logger.warn('Failed to close MCP HTTP session', {
+        sessionId: session.transport.sessionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
   }
 
-  private async handleCreateBatch() {
-    const result = await this.handlers.createBatch();
+  /**
+   * Close the Streamable HTTP sessions that have had no request within the idle timeout
+   */
+  private async closeIdleHttpSessions(): Promise<void> {
+    const idleTimeoutMs = (this.config.mcpSessionIdleTimeout ?? CONSTANTS.MCP_SESSION_IDLE_TIMEOUT) * 1000;
+    const idle = Array.from(this.httpSessions.values())
+      .filter(session => Date.now() - session.lastActivityAt.getTime() > idleTimeoutMs);
 
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Batch created successfully with ID: ${result.id}`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    await Promise.all(idle.map(session => this.closeHttpSession(session, 'idle')));
   }
 
-  private async handleAddShipmentsToBatch(args: unknown) {
-    const { batchId, shipmentIds } = args as { batchId: string; shipmentIds: string[] };
-    const result = await this.handlers.addShipmentsToBatch(batchId, shipmentIds);
+  /**
+   * Host header values the Streamable HTTP endpoint answers to: the configured
+   * hosts, else localhost on the HTTP port
+   */
+  private getAllowedHosts(): string[] {
+    if (this.config.mcpAllowedHosts?.length) {
+      return this.config.mcpAllowedHosts;
+    }
 
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Added ${shipmentIds.length} shipments to batch ${batchId}`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    return ['localhost', '127.0.0.1', '[::1]'].map(host => `${host}:${this.config.port}`);
   }
 
-  private async handleBuyBatch(args: unknown) {
-    const { batchId } = args as { batchId: string };
-    const result = await this.handlers.buyBatch(batchId);
+  /**
+   * Middleware rejecting requests without the bearer token
+   */
+  private requireBearerToken(token: string): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (bearerTokenMatches(req.headers.authorization, token)) {
+        next();
+        return;
+      }
 
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Batch ${batchId} purchased successfully`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendJsonRpcError(res, 401, ErrorCode.InvalidRequest, 'Missing or invalid bearer token');
     };
   }
 
-  private async handleCreateScanForm(args: unknown) {
-    const { shipmentIds } = args as { shipmentIds: string[] };
-    const result = await this.handlers.createScanForm(shipmentIds);
+  /**
+   * Close every open Streamable HTTP session
+   */
+  private async closeHttpSessions(): Promise<void> {
+    const sessions = Array.from(this.httpSessions.values());
+    this.httpSessions.clear();
+
+    await Promise.allSettled(sessions.map(session => session.server.close()));
 
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Scan form created for ${shipmentIds.length} shipments`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    if (sessions.length > 0) {
+      logger.info('MCP HTTP sessions closed', { count: sessions.length });
+    }
   }
 
-  private async handleGetCustomsInfo(args: unknown) {
-    const { customsInfoId } = args as { customsInfoId: string };
-    const result = await this.handlers.getCustomsInfo(customsInfoId);
+  /**
+   * Read the MCP session ID header from a request
+   */
+  private getSessionId(req: Request): string | undefined {
+    const header = req.headers['mcp-session-id'];
+    return Array.isArray(header) ? header[0] : header;
+  }
 
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Customs info retrieved for ID: ${customsInfoId}`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+  /**
+   * Send a JSON-RPC error envelope over HTTP
+   */
+  private sendJsonRpcError(res: Response, status: number, code: number, message: string): void {
+    res.status(status).json({
+      jsonrpc: '2.0',
+      error: {
+        code,
+        message
+      },
+      id: null
+    });
   }
 
-  private async handleCreateCustomsInfo(args: unknown) {
-    const result = await this.handlers.createCustomsInfo(args as any);
+  /**
+   * Start the MCP server
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      logger.warn('Server is already running');
+      return;
+    }
 
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Customs info created with ID: ${result.id}`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    startTracing({
+      serviceName: 'easypost-mcp',
+      serviceVersion: this.config.version,
+      exporter: this.config.tracesExporter ?? 'none',
+      otlpEndpoint: this.config.otlpEndpoint,
+      filePath: this.config.tracesFilePath
+    });
+
+    try {
+      // Test EasyPost connection (optional during startup)
+      try {
+        await this.handlers.getAccount();
+        logger.info('EasyPost API connection verified');
+      } catch (accountError) {
+        logger.warn('Account verification failed during startup, but continuing', {
+          error: accountError instanceof Error ? accountError.message : String(accountError)
+        });
+      }
+
+      // Start HTTP server if configured
+      if (this.httpServer && this.config.port) {
+        await new Promise<void>((resolve, reject) => {
+          this.httpServer!.listen(this.config.port, (error?: Error) => {
+            if (error) {
+              reject(error);
+            } else {
+              logger.info('HTTP server started', { port: this.config.port });
+              resolve();
+            }
+          });
+        });
+
+        this.sessionSweep = setInterval(() => {
+          void this.closeIdleHttpSessions();
+        }, CONSTANTS.MCP_SESSION_SWEEP_MS);
+        this.sessionSweep.unref();
+      }
+
+      // Connect MCP server to stdio transport
+      const transport = new StdioServerTransport();
+      await this.server.connect(transport);
+
+      this.isRunning = true;
+      logger.info('MCP Server connected and ready');
+
+    } catch (error) {
+      logger.error('Failed to start server', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined
+      });
+      throw error;
+    }
   }
 
-  private async handleVerifyAddress(args: unknown) {
-    const result = await this.handlers.verifyAddress(args as any);
+  /**
+   * Stop the server
+   */
+  async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
 
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: 'Address verification complete'
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    try {
+      // Close Streamable HTTP sessions before the listener goes away
+      clearInterval(this.sessionSweep);
+      await this.closeHttpSessions();
+
+      // Close HTTP server
+      if (this.httpServer) {
+        await new Promise<void>((resolve) => {
+          this.httpServer!.close(() => {
+            logger.info('HTTP server closed');
+            resolve();
+          });
+        });
+      }
+
+      // Close MCP server
+      await this.server.close();
+
+      await this.idempotency.close();
+      await this.spending.close();
+      await this.audit.close();
+      this.labelDocuments.close();
+      this.webhookProcessor.close();
+      this.trackingTimelines.close();
+      await this.accounts.close();
+      await stopTracing();
+      
+      this.isRunning = false;
+      logger.info('MCP Server stopped');
+
+    } catch (error) {
+      logger.error('Error stopping server', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
   }
 
   /**
    * Get tool definitions for MCP
    */
   private getToolDefinitions(): ToolDefinition[] {
+    return this.tools.getDefinitions();
+  }
+
+  /**
+   * Get resource definitions for MCP
+   */
+  private getResourceDefinitions(): ResourceDefinition[] {
     return [
       {
-        name: 'create_shipment',
-        description: 'Create a new shipment with EasyPost API',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            to_address: {
-              type: 'object',
-              description: 'Destination address'
-            },
-            from_address: {
-              type: 'object',
-              description: 'Origin address'
-            },
-            parcel: {
-              type: 'object',
-              description: 'Package dimensions and weight'
-            },
-            options: {
-              type: 'object',
-              description: 'Additional shipping options'
-            }
-          },
-          required: ['to_address', 'from_address', 'parcel']
-        }
-      },
-      {
-        name: 'get_shipment_rates',
-        description: 'Get available shipping rates for a shipment',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            shipmentId: {
-              type: 'string',
-              description: 'EasyPost shipment ID'
-            }
-          },
-          required: ['shipmentId']
-        }
-      },
-      {
-        name: 'buy_shipment_label',
-        description: 'Purchase shipping label for a shipment',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            shipmentId: {
-              type: 'string',
-              description: 'EasyPost shipment ID'
-            },
-            rateId: {
-              type: 'string',
-              description: 'Selected rate ID'
-            }
-          },
-          required: ['shipmentId', 'rateId']
-        }
-      },
-      {
-        name: 'track_shipment',
-        description: 'Track a shipment by tracking code',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            trackingCode: {
-              type: 'string',
-              description: 'Tracking code'
-            },
-            carrier: {
-              type: 'string',
-              description: 'Carrier name (optional)'
-            }
-          },
-          required: ['trackingCode']
-        }
-      },
-      {
-        name: 'validate_address',
-        description: 'Validate and normalize an address',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            street1: {
-              type: 'string',
-              description: 'Street address line 1'
-            },
-            street2: {
-              type: 'string',
-              description: 'Street address line 2'
-            },
-            city: {
-              type: 'string',
-              description: 'City'
-            },
-            state: {
-              type: 'string',
-              description: 'State or province'
-            },
-            zip: {
-              type: 'string',
-              description: 'Postal code'
-            },
-            country: {
-              type: 'string',
-              description: 'Country code'
-            }
-          },
-          required: ['street1', 'city', 'state', 'zip', 'country']
-        }
-      },
-      {
-        name: 'get_smartrate_estimates',
-        description: 'Get SmartRate time-in-transit estimates',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            from_zip: {
-              type: 'string',
-              description: 'Origin ZIP code'
-            },
-            to_zip: {
-              type: 'string',
-              description: 'Destination ZIP code'
-            },
-            carriers: {
-              type: 'array',
-              items: {
-                type: 'string'
-              },
-              description: 'Array of carrier names'
-            }
-          },
-          required: ['from_zip', 'to_zip']
-        }
-      },
-      {
-        name: 'refund_shipment',
-        description: 'Request a refund for a shipped package',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            shipmentId: {
-              type: 'string',
-              description: 'EasyPost shipment ID to refund'
-            }
-          },
-          required: ['shipmentId']
-        }
-      },
-      {
-        name: 'buy_insurance',
-        description: 'Purchase insurance for a shipment',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            shipmentId: {
-              type: 'string',
-              description: 'EasyPost shipment ID'
-            },
-            amount: {
-              type: 'string',
-              description: 'Insurance coverage amount'
-            }
-          },
-          required: ['shipmentId', 'amount']
-        }
+        uri: 'easypost://account',
+        name: 'EasyPost Account',
+        description: 'Current EasyPost account information and settings',
+        mimeType: 'application/json'
       },
       {
-        name: 'create_batch',
-        description: 'Create a batch for bulk shipment processing',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-          required: []
-        }
+        uri: 'easypost://accounts',
+        name: 'EasyPost Accounts',
+        description: 'Configured EasyPost accounts and modes selectable with the account and mode tool parameters',
+        mimeType: 'application/json'
       },
       {
-        name: 'add_shipments_to_batch',
-        description: 'Add multiple shipments to a batch',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            batchId: {
-              type: 'string',
-              description: 'Batch ID to add shipments to'
-            },
-            shipmentIds: {
-              type: 'array',
-              items: {
-                type: 'string'
-              },
-              description: 'Array of shipment IDs to add'
-            }
-          },
-          required: ['batchId', 'shipmentIds']
-        }
+        uri: 'easypost://carriers',
+        name: 'Available Carriers',
+        description: 'List of available shipping carriers and their capabilities',
+        mimeType: 'application/json'
       },
       {
-        name: 'buy_batch',
-        description: 'Purchase all shipments in a batch',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            batchId: {
-              type: 'string',
-              description: 'Batch ID to purchase'
-            }
-          },
-          required: ['batchId']
-        }
+        uri: 'easypost://addresses',
+        name: 'Address Book',
+        description: 'Saved, verified addresses usable as "@name" in create_shipment',
+        mimeType: 'application/json'
       },
       {
-        name: 'scan_form_create',
-        description: 'Create a SCAN form for shipments',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            shipmentIds: {
-              type: 'array',
-              items: {
-                type: 'string'
-              },
-              description: 'Array of shipment IDs for the SCAN form'
-            }
-          },
-          required: ['shipmentIds']
-        }
+        uri: 'easypost://boxes',
+        name: 'Box Catalog',
+        description: 'Shipping boxes available to the packing solver',
+        mimeType: 'application/json'
       },
       {
-        name: 'get_customs_info',
-        description: 'Retrieve customs information by ID',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            customsInfoId: {
-              type: 'string',
-              description: 'Customs info ID'
-            }
-          },
-          required: ['customsInfoId']
-        }
+        uri: 'easypost://spend',
+        name: 'Spend',
+        description: 'Spend today and this month (UTC) per account and mode, against the spending limits',
+        mimeType: 'application/json'
       },
       {
-        name: 'create_customs_info',
-        description: 'Create customs information for international shipments',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            customs_items: {
-              type: 'array',
-              description: 'Array of customs items'
-            },
-            contents_type: {
-              type: 'string',
-              description: 'Type of contents (merchandise, documents, etc.)'
-            },
-            contents_explanation: {
-              type: 'string',
-              description: 'Explanation of contents'
-            },
-            customs_certify: {
-              type: 'boolean',
-              description: 'Customs certification'
-            },
-            customs_signer: {
-              type: 'string',
-              description: 'Name of customs signer'
-            }
-          },
-          required: ['customs_items', 'contents_type', 'customs_certify', 'customs_signer']
-        }
+        uri: 'easypost://pickups',
+        name: 'Upcoming Pickups',
+        description: 'Booked carrier pickups whose window has not ended, soonest first',
+        mimeType: 'application/json'
       },
-      {
-        name: 'verify_address',
-        description: 'Advanced address verification with carrier validation',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            address: {
-              type: 'object',
-              description: 'Address to verify'
-            },
-            carrier: {
-              type: 'string',
-              description: 'Specific carrier to verify against'
-            }
-          },
-          required: ['address']
-        }
-      }
+      ...this.labelDocuments.getResourceDefinitions()
     ];
   }
 
   /**
-   * Get resource definitions for MCP
+   * Health of the server and its dependencies, from the cached probe results
    */
-  private getResourceDefinitions(): ResourceDefinition[] {
-    return [
-      {
-        uri: 'easypost://account',
-        name: 'EasyPost Account',
-        description: 'Current EasyPost account information and settings',
-        mimeType: 'application/json'
+  async getHealth(): Promise<HealthCheckResponse> {
+    const { status, dependencies } = await this.health.check();
+
+    return {
+      status,
+      timestamp: new Date().toISOString(),
+      uptime: Date.now() - this.startTime.getTime(),
+      version: this.config.version,
+      service: this.config.name,
+      tools: this.tools.names().length,
+      dependencies
+    };
+  }
+
+  /**
+   * Dependencies probed for readiness: the EasyPost API of the default account,
+   * and Redis when the idempotency store uses it
+   */
+  private createHealthProbes(): HealthProbe[] {
+    const probes: HealthProbe[] = [{
+      name: 'easypost',
+      critical: true,
+      check: async () => {
+        await this.accounts.client(this.accounts.defaultSelection()).get('/account', { headers: { 'Cache-Control': 'no-cache' } });
+        return this.config.dryRun ? 'Simulated (dry run)' : undefined;
       },
-      {
-        uri: 'easypost://carriers',
-        name: 'Available Carriers',
-        description: 'List of available shipping carriers and their capabilities',
-        mimeType: 'application/json'
-      }
-    ];
+      circuits: () => this.accounts.circuits.states()
+    }];
+
+    if (this.config.redisUrl) {
+      probes.push({ name: 'redis', critical: false, check: () => this.idempotency.ping() });
+    }
+
+    return probes;
+  }
+
+  /**
+   * Map a tool execution failure to the MCP error returned to the client
+   */
+  private toMcpError(error: unknown): McpError {
+    if (error instanceof McpError) {
+      return error;
+    }
+
+    if (error instanceof EasyPostError && SPENDING_POLICY_ERROR_CODES.includes(error.code)) {
+      return new McpError(
+        ErrorCode.InvalidRequest,
+        `Spending policy: ${error.message}`,
+        { code: error.code, ...(error.details as Record<string, unknown>) }
+      );
+    }
+
+    // The endpoint kept failing upstream; the call was not sent
+    const circuitOpen = this.findCircuitOpenError(error);
+    if (circuitOpen) {
+      return new McpError(
+        ErrorCode.InternalError,
+        circuitOpen.message,
+        { code: circuitOpen.code, ...(circuitOpen.details as Record<string, unknown>) }
+      );
+    }
+
+    if (error instanceof EasyPostError) {
+      return new McpError(
+        ErrorCode.InvalidRequest,
+        `EasyPost API error: ${error.message}`,
+        error.details
+      );
+    }
+
+    return new McpError(
+      ErrorCode.InternalError,
+      'Internal server error occurred'
+    );
+  }
+
+  /**
+   * The CIRCUIT_OPEN error behind a failure, which handlers may have wrapped as its originalError
+   */
+  private findCircuitOpenError(error: unknown): EasyPostError | undefined {
+    if (!(error instanceof EasyPostError)) {
+      return undefined;
+    }
+
+    if (error.code === 'CIRCUIT_OPEN') {
+      return error;
+    }
+
+    const details = error.details as { originalError?: unknown } | undefined;
+    return this.findCircuitOpenError(details?.originalError);
   }
 
   /**
    * Get available tools list
    */
   getAvailableTools(): string[] {
-    return this.getToolDefinitions().map(tool => tool.name);
+    return this.tools.names();
   }
 
   /**
@@ -1064,6 +1094,13 @@ export class EasyPostMCPServer {
     return this.getResourceDefinitions().map(resource => resource.uri);
   }
 
+  /**
+   * Get number of active Streamable HTTP sessions
+   */
+  getActiveSessionCount(): number {
+    return this.httpSessions.size;
+  }
+
   /**
    * Get server status
    */
@@ -0,0 +1,274 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  CacheStore,
+  CircuitBreakerRegistry,
+  ResponseCache,
+  cacheNamespace,
+  createCacheStore,
+  createUpstreamCircuits
+} from '@mcp-shipping/shared';
+import { logger } from '../utils/logger.js';
+import { registerCircuitBreakers, unregisterCircuitBreakers } from '../utils/metrics.js';
+import { EasyPostClient } from './easypost-client.js';
+import { EasyPostSimulator } from './easypost-simulator.js';
+import {
+  EasyPostMCPServerConfig,
+  EasyPostAccountConfig,
+  EasyPostMode,
+  AccountSelection,
+  AccountSelectionInput,
+  AccountSummary,
+  EasyPostError,
+  CONSTANTS
+} from '../types/index.js';
+
+/**
+ * Mode of an EasyPost API key from its prefix: EZTK test keys, EZAK production keys
+ */
+export function apiKeyMode(apiKey: string): EasyPostMode | undefined {
+  if (apiKey.startsWith('EZTK')) {
+    return 'test';
+  }
+
+  return apiKey.startsWith('EZAK') ? 'production' : undefined;
+}
+
+/**
+ * Named EasyPost accounts and their test and production keys.
+ * Tool calls run against one account and mode, held in async context so every
+ * API request made while handling the call uses that account's client.
+ * Without an explicit mode, calls use test keys outside production.
+ * In dry runs every client talks to one in-memory EasyPost simulator instead.
+ * All clients cache responses in one store, each under the namespace of its key.
+ */
+export class AccountRegistry {
+  private accounts = new Map<string, EasyPostAccountConfig>();
+  private clients = new Map<string, EasyPostClient>();
+  private context = new AsyncLocalStorage<AccountSelection>();
+  private config: EasyPostMCPServerConfig;
+  private defaultAccount: string;
+  readonly defaultMode: EasyPostMode;
+  readonly simulator: EasyPostSimulator | undefined;
+  /**
+   * Endpoint circuits shared by the clients of every account and mode, as they all call the same API
+   */
+  readonly circuits: CircuitBreakerRegistry = createUpstreamCircuits();
+  private cacheStore: CacheStore | undefined;
+
+  constructor(config: EasyPostMCPServerConfig) {
+    this.config = config;
+    this.defaultMode = config.environment === 'production' ? 'production' : 'test';
+    this.simulator = config.dryRun ? new EasyPostSimulator() : undefined;
+    this.cacheStore = config.enableCache ? createCacheStore(config.redisUrl, logger) : undefined;
+    registerCircuitBreakers(this.circuits);
+
+    const primary: EasyPostAccountConfig = {
+      name: CONSTANTS.DEFAULT_ACCOUNT_NAME,
+      testApiKey: config.testApiKey,
+      productionApiKey: config.productionApiKey
+    };
+
+    // Single-key setups: slot the key by its prefix, or into the default mode
+    if (config.apiKey !== undefined) {
+      const mode = apiKeyMode(config.apiKey) ?? this.defaultMode;
+      if (mode === 'test') {
+        primary.testApiKey ??= config.apiKey;
+      } else {
+        primary.productionApiKey ??= config.apiKey;
+      }
+    }
+
+    // Dry runs need no keys, but always have the default account to run against
+    if (primary.testApiKey !== undefined || primary.productionApiKey !== undefined || (this.simulator && !config.accounts?.length)) {
+      this.accounts.set(primary.name, primary);
+    }
+
+    for (const account of config.accounts ?? []) {
+      if (this.accounts.has(account.name)) {
+        throw new EasyPostError(`EasyPost account ${account.name} is configured twice`, 'ACCOUNT_CONFIG_INVALID');
+      }
+      this.accounts.set(account.name, account);
+    }
+
+    this.defaultAccount = config.defaultAccount
+      ?? (this.accounts.has(CONSTANTS.DEFAULT_ACCOUNT_NAME) ? CONSTANTS.DEFAULT_ACCOUNT_NAME : this.accounts.keys().next().value)
+      ?? CONSTANTS.DEFAULT_ACCOUNT_NAME;
+
+    if (this.accounts.size > 0 && !this.accounts.has(this.defaultAccount)) {
+      throw new EasyPostError(`Default EasyPost account ${this.defaultAccount} is not configured`, 'ACCOUNT_CONFIG_INVALID');
+    }
+
+    // Create the default client up front so configuration problems surface at startup
+    if (this.accounts.size > 0) {
+      this.client(this.defaultSelection());
+    }
+
+    logger.info('EasyPost accounts configured', {
+      accounts: this.list().map(account => `${account.name} (${account.modes.join(', ')})`),
+      defaultAccount: this.defaultAccount,
+      defaultMode: this.defaultMode,
+      dryRun: this.simulator !== undefined
+    });
+  }
+
+  /**
+   * Resolve a tool call's account and mode. Never falls back to another mode:
+   * a call without a test key fails rather than silently using the live key.
+   */
+  resolve(input: AccountSelectionInput = {}): AccountSelection {
+    const name = input.account ?? this.defaultAccount;
+    const account = this.accounts.get(name);
+
+    if (!account) {
+      throw new EasyPostError(
+        `EasyPost account ${name} is not configured`,
+        'ACCOUNT_NOT_FOUND',
+        { account: name, available: Array.from(this.accounts.keys()) }
+      );
+    }
+
+    const mode = input.mode ?? this.defaultMode;
+    if (this.apiKey(account, mode) === undefined) {
+      const hint = mode === 'test'
+        ? 'pass mode "production" to use its live key, which buys real postage'
+        : 'only test mode is available';
+
+      throw new EasyPostError(
+        `EasyPost account ${name} has no ${mode} API key; ${hint}`,
+        'ACCOUNT_MODE_UNAVAILABLE',
+        { account: name, mode, available: this.modes(account) }
+      );
+    }
+
+    return { account: name, mode };
+  }
+
+  /**
+   * Account and mode for requests outside a tool call (resources, health checks).
+   * Prefers the default mode but uses whichever key the default account has.
+   */
+  defaultSelection(): AccountSelection {
+    const account = this.accounts.get(this.defaultAccount);
+    const modes = account ? this.modes(account) : [];
+    const mode = modes.length === 0 || modes.includes(this.defaultMode) ? this.defaultMode : modes[0]!;
+
+    return { account: this.defaultAccount, mode };
+  }
+
+  /**
+   * Run a function with every EasyPost request it makes bound to the selected account and mode
+   */
+  run<T>(selection: AccountSelection, fn: () => Promise<T>): Promise<T> {
+    return this.context.run(selection, fn);
+  }
+
+  /**
+   * Account and mode of the current tool call, or the default outside one
+   */
+  current(): AccountSelection {
+    return this.context.getStore() ?? this.defaultSelection();
+  }
+
+  /**
+   * EasyPost client for an account and mode, created on first use
+   */
+  client(selection: AccountSelection = this.current()): EasyPostClient {
+    const cacheKey = `${selection.account}:${selection.mode}`;
+    const existing = this.clients.get(cacheKey);
+    if (existing) {
+      return existing;
+    }
+
+    const account = this.accounts.get(selection.account);
+    const apiKey = account ? this.apiKey(account, selection.mode) : undefined;
+    if (apiKey === undefined) {
+      throw new EasyPostError(
+        `No EasyPost API key configured for account ${selection.account} in ${selection.mode} mode`,
+        'ACCOUNT_MODE_UNAVAILABLE',
+        { ...selection }
+      );
+    }
+
+    // EasyPost serves test and production from the same URL; the key decides the mode
+    const client = new EasyPostClient({
+      apiKey,
+      timeout: this.config.timeout,
+      retryAttempts: this.config.retryAttempts,
+      enableCache: this.config.enableCache,
+      baseURL: this.config.baseURL ?? 'https://api.easypost.com/v2',
+      adapter: this.simulator?.adapter(selection.account, selection.mode),
+      circuitBreakers: this.circuits,
+      cacheStore: this.cacheStore
+    });
+    this.clients.set(cacheKey, client);
+
+    return client;
+  }
+
+  /**
+   * Configured accounts and their available modes, without keys
+   */
+  list(): AccountSummary[] {
+    return Array.from(this.accounts.values()).map(account => ({
+      name: account.name,
+      ...(account.description !== undefined ? { description: account.description } : {}),
+      modes: this.modes(account),
+      isDefault: account.name === this.defaultAccount
+    }));
+  }
+
+  /**
+   * Drop the cached responses carrying one of the tags under every account and mode,
+   * including clients not created yet in this process. Webhook events do not say
+   * which key they belong to. Created clients invalidate through their own cache,
+   * so responses they are loading meanwhile are not cached either.
+   */
+  async invalidateCache(tags: string[]): Promise<void> {
+    const store = this.cacheStore;
+    if (!store) {
+      return;
+    }
+
+    const invalidations: Array<Promise<void>> = [];
+    const apiKeys = new Set<string>();
+    for (const account of this.accounts.values()) {
+      for (const mode of this.modes(account)) {
+        const client = this.clients.get(`${account.name}:${mode}`);
+        if (client) {
+          invalidations.push(client.invalidateCache(tags));
+        } else {
+          apiKeys.add(this.apiKey(account, mode)!);
+        }
+      }
+    }
+
+    for (const apiKey of apiKeys) {
+      invalidations.push(new ResponseCache(store, cacheNamespace('easypost-mcp', apiKey), { logger }).invalidate(tags));
+    }
+
+    await Promise.all(invalidations);
+  }
+
+  /**
+   * Release the clients and the cache store
+   */
+  async close(): Promise<void> {
+    this.clients.forEach(client => client.dispose());
+    this.clients.clear();
+    unregisterCircuitBreakers(this.circuits);
+    await this.cacheStore?.close();
+  }
+
+  /**
+   * Key of an account in a mode. Dry runs never send keys, so every account has both modes,
+   * each with a placeholder of its own so accounts never share cached responses.
+   */
+  private apiKey(account: EasyPostAccountConfig, mode: EasyPostMode): string | undefined {
+    const apiKey = mode === 'test' ? account.testApiKey : account.productionApiKey;
+    return apiKey ?? (this.simulator ? `dry_run_${account.name}_${mode}` : undefined);
+  }
+
+  private modes(account: EasyPostAccountConfig): EasyPostMode[] {
+    return (['test', 'production'] as const).filter(mode => this.apiKey(account, mode) !== undefined);
+  }
+}
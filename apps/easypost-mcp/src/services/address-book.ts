@@ -0,0 +1,245 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { logger } from '../utils/logger.js';
+import {
+  EasyPostError,
+  SavedAddress,
+  ShipmentAddress,
+  CONSTANTS
+} from '../types/index.js';
+
+interface AddressBookFile {
+  version: 1;
+  addresses: Record<string, SavedAddress>;
+}
+
+/**
+ * Named address book persisted as a JSON file.
+ * Entries are keyed by lowercase name and referenced in requests as "@name".
+ */
+export class AddressBook {
+  private filePath: string;
+  private addresses?: Map<string, SavedAddress>;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string = CONSTANTS.DEFAULT_ADDRESS_BOOK_PATH) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * List saved addresses sorted by name
+   */
+  async list(): Promise<SavedAddress[]> {
+    const addresses = await this.load();
+    return Array.from(addresses.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get a saved address by name. Throws ADDRESS_NOT_FOUND if missing.
+   */
+  async get(name: string): Promise<SavedAddress> {
+    const addresses = await this.load();
+    const entry = addresses.get(normalizeName(name));
+
+    if (!entry) {
+      throw new EasyPostError(
+        `Address "@${normalizeName(name)}" is not in the address book`,
+        'ADDRESS_NOT_FOUND',
+        { name: normalizeName(name), available: Array.from(addresses.keys()) }
+      );
+    }
+
+    return entry;
+  }
+
+  /**
+   * Save a verified address. Throws ADDRESS_EXISTS unless overwrite is set.
+   */
+  async save(entry: Omit<SavedAddress, 'created_at' | 'updated_at'>, overwrite = false): Promise<SavedAddress> {
+    return this.mutate(addresses => {
+      const name = normalizeName(entry.name);
+      const existing = addresses.get(name);
+
+      if (existing && !overwrite) {
+        throw new EasyPostError(
+          `Address "@${name}" already exists; pass overwrite to replace it`,
+          'ADDRESS_EXISTS',
+          { name }
+        );
+      }
+
+      const now = new Date().toISOString();
+      const saved: SavedAddress = {
+        ...entry,
+        name,
+        created_at: existing?.created_at ?? now,
+        updated_at: now
+      };
+
+      addresses.set(name, saved);
+      return saved;
+    });
+  }
+
+  /**
+   * Replace a saved address, optionally under a new name
+   */
+  async update(
+    name: string,
+    entry: Omit<SavedAddress, 'name' | 'created_at' | 'updated_at'>,
+    renameTo?: string
+  ): Promise<SavedAddress> {
+    return this.mutate(addresses => {
+      const currentName = normalizeName(name);
+      const existing = addresses.get(currentName);
+
+      if (!existing) {
+        throw new EasyPostError(
+          `Address "@${currentName}" is not in the address book`,
+          'ADDRESS_NOT_FOUND',
+          { name: currentName }
+        );
+      }
+
+      const newName = renameTo ? normalizeName(renameTo) : currentName;
+      if (newName !== currentName && addresses.has(newName)) {
+        throw new EasyPostError(
+          `Address "@${newName}" already exists`,
+          'ADDRESS_EXISTS',
+          { name: newName }
+        );
+      }
+
+      const updated: SavedAddress = {
+        ...entry,
+        name: newName,
+        created_at: existing.created_at,
+        updated_at: new Date().toISOString()
+      };
+
+      addresses.delete(currentName);
+      addresses.set(newName, updated);
+      return updated;
+    });
+  }
+
+  /**
+   * Delete a saved address
+   */
+  async delete(name: string): Promise<SavedAddress> {
+    return this.mutate(addresses => {
+      const key = normalizeName(name);
+      const existing = addresses.get(key);
+
+      if (!existing) {
+        throw new EasyPostError(
+          `Address "@${key}" is not in the address book`,
+          'ADDRESS_NOT_FOUND',
+          { name: key }
+        );
+      }
+
+      addresses.delete(key);
+      return existing;
+    });
+  }
+
+  /**
+   * Resolve an address or "@name" reference to address fields
+   */
+  async resolve(address: string | ShipmentAddress): Promise<ShipmentAddress> {
+    if (typeof address !== 'string') {
+      return address;
+    }
+
+    return (await this.get(address)).address;
+  }
+
+  /**
+   * Load the book from disk on first use. A missing file is an empty book.
+   */
+  private async load(): Promise<Map<string, SavedAddress>> {
+    if (this.addresses) {
+      return this.addresses;
+    }
+
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      const file = JSON.parse(content) as AddressBookFile;
+      this.addresses = new Map(Object.entries(file.addresses ?? {}));
+
+      logger.info('Address book loaded', { path: this.filePath, count: this.addresses.size });
+
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'ENOENT') {
+        logger.error('Failed to load address book', {
+          path: this.filePath,
+          error: error instanceof Error ? error.message : String(error)
+        });
+
+        throw new EasyPostError(
+          'Failed to load address book',
+          'ADDRESS_BOOK_UNAVAILABLE',
+          { path: this.filePath, originalError: error }
+        );
+      }
+
+      this.addresses = new Map();
+    }
+
+    return this.addresses;
+  }
+
+  /**
+   * Apply a change and persist it. Changes are serialized so concurrent
+   * tool calls cannot overwrite each other's writes.
+   */
+  private async mutate<T>(change: (addresses: Map<string, SavedAddress>) => T): Promise<T> {
+    const run = this.writeQueue.then(async () => {
+      const addresses = await this.load();
+      const next = new Map(addresses);
+      const result = change(next);
+
+      await this.persist(next);
+      this.addresses = next;
+
+      return result;
+    });
+
+    this.writeQueue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  /**
+   * Write the book atomically via a temporary file
+   */
+  private async persist(addresses: Map<string, SavedAddress>): Promise<void> {
+    const file: AddressBookFile = {
+      version: 1,
+      addresses: Object.fromEntries(addresses)
+    };
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+
+    try {
+      await fs.mkdir(dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(file, null, 2), 'utf8');
+      await fs.rename(tempPath, this.filePath);
+
+    } catch (error) {
+      logger.error('Failed to save address book', {
+        path: this.filePath,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      throw new EasyPostError(
+        'Failed to save address book',
+        'ADDRESS_BOOK_UNAVAILABLE',
+        { path: this.filePath, originalError: error }
+      );
+    }
+  }
+}
+
+function normalizeName(name: string): string {
+  return name.replace(/^@/, '').toLowerCase();
+}
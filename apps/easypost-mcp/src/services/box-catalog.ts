@@ -0,0 +1,126 @@
+import { promises as fs } from 'fs';
+import { logger } from '../utils/logger.js';
+import { packItems } from '../utils/packing.js';
+import {
+  BoxCatalogSchema,
+  BoxDefinition,
+  EasyPostError,
+  PackItemsRequest,
+  PackingResult
+} from '../types/index.js';
+
+/**
+ * Boxes used when no catalog file is configured. Inner dimensions in inches, weights in ounces.
+ */
+export const DEFAULT_BOXES: BoxDefinition[] = [
+  { id: 'small', name: 'Small box', length: 8, width: 6, height: 4, tare_weight: 4, max_weight: 320 },
+  { id: 'medium', name: 'Medium box', length: 12, width: 10, height: 6, tare_weight: 8, max_weight: 640 },
+  { id: 'large', name: 'Large box', length: 16, width: 12, height: 10, tare_weight: 14, max_weight: 960 },
+  { id: 'xlarge', name: 'Extra large box', length: 24, width: 18, height: 12, tare_weight: 24, max_weight: 1120 }
+];
+
+/**
+ * Catalog of shipping boxes, loaded from a JSON file (an array of box definitions)
+ * or the built-in defaults, and the entry point for the packing solver
+ */
+export class BoxCatalog {
+  private filePath: string | undefined;
+  private boxes?: BoxDefinition[];
+
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * List catalog boxes from smallest to largest
+   */
+  async list(): Promise<BoxDefinition[]> {
+    return this.load();
+  }
+
+  /**
+   * Pack line items into the smallest box, or set of boxes, from the catalog
+   */
+  async pack(request: Pick<PackItemsRequest, 'items' | 'box_ids'> & { allow_multiple_boxes?: boolean | undefined }): Promise<PackingResult> {
+    const startTime = Date.now();
+    const catalog = await this.load();
+    const boxes = request.box_ids ? this.select(catalog, request.box_ids) : catalog;
+
+    logger.info('Packing items', {
+      itemCount: request.items.length,
+      boxCount: boxes.length
+    });
+
+    const result = packItems(request.items, boxes, { allowMultipleBoxes: request.allow_multiple_boxes });
+
+    logger.info('Items packed', {
+      boxes: result.boxes.map(box => box.box_id),
+      totalWeight: result.total_weight,
+      duration: Date.now() - startTime
+    });
+
+    return result;
+  }
+
+  private select(catalog: BoxDefinition[], boxIds: string[]): BoxDefinition[] {
+    const unknown = boxIds.filter(id => !catalog.some(box => box.id === id));
+    if (unknown.length > 0) {
+      throw new EasyPostError(
+        `Unknown box ids: ${unknown.join(', ')}`,
+        'BOX_NOT_FOUND',
+        { unknown, available: catalog.map(box => box.id) }
+      );
+    }
+
+    return catalog.filter(box => boxIds.includes(box.id));
+  }
+
+  /**
+   * Load and validate the catalog on first use
+   */
+  private async load(): Promise<BoxDefinition[]> {
+    if (this.boxes) {
+      return this.boxes;
+    }
+
+    let boxes: BoxDefinition[] = DEFAULT_BOXES;
+
+    if (this.filePath) {
+      try {
+        const content = await fs.readFile(this.filePath, 'utf8');
+        const parsed = BoxCatalogSchema.safeParse(JSON.parse(content));
+
+        if (!parsed.success) {
+          throw new EasyPostError(
+            'Box catalog file is invalid',
+            'BOX_CATALOG_INVALID',
+            { path: this.filePath, errors: parsed.error.errors }
+          );
+        }
+
+        boxes = parsed.data;
+
+      } catch (error) {
+        logger.error('Failed to load box catalog', {
+          path: this.filePath,
+          error: error instanceof Error ? error.message : String(error)
+        });
+
+        if (error instanceof EasyPostError) {
+          throw error;
+        }
+
+        throw new EasyPostError(
+          'Failed to load box catalog',
+          'BOX_CATALOG_INVALID',
+          { path: this.filePath, originalError: error }
+        );
+      }
+    }
+
+    this.boxes = [...boxes].sort((a, b) => a.length * a.width * a.height - b.length * b.width * b.height);
+    logger.info('Box catalog loaded', { source: this.filePath ?? 'defaults', count: this.boxes.length });
+
+    return this.boxes;
+  }
+}
@@ -1,12 +1,41 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosError, InternalAxiosRequestConfig } from 'axios';
-import NodeCache from 'node-cache';
+import type { Span } from '@opentelemetry/api';
 import { logger } from '../utils/logger.js';
+import {
+  CachePolicy,
+  CacheStore,
+  CircuitOpenError,
+  MemoryCacheStore,
+  ResponseCache,
+  UpstreamFailure,
+  UpstreamResilience,
+  cacheNamespace,
+  createUpstreamCircuits,
+  endRequestSpan,
+  normalizeEndpoint,
+  parseRetryAfter,
+  resourceTags,
+  startRequestSpan
+} from '@mcp-shipping/shared';
+import { recordCacheLookup, recordCircuitRejection, recordUpstreamRequest, recordUpstreamRetry } from '../utils/metrics.js';
 import {
   EasyPostClientConfig,
   EasyPostError,
   CONSTANTS
 } from '../types/index.js';
 
+/**
+ * Cached endpoints and how long their responses stay fresh, then stale, in seconds.
+ * Carrier types and addresses never change; shipments and trackers change with
+ * purchases and carrier scans, which writes and webhooks invalidate.
+ */
+const CACHE_POLICIES: Record<string, CachePolicy> = {
+  '/account': { ttl: 300, staleTtl: 600 },
+  '/carrier_types': { ttl: 3600, staleTtl: 86400 },
+  '/addresses/:id': { ttl: 3600, staleTtl: 86400 },
+  '/shipments/:id': { ttl: 60, staleTtl: 300 },
+  '/trackers/:id': { ttl: 30, staleTtl: 120 }
+};
 
 /**
  * Extended InternalAxiosRequestConfig with metadata
@@ -14,9 +43,21 @@ import {
 interface ExtendedInternalAxiosRequestConfig extends InternalAxiosRequestConfig {
   metadata?: {
     startTime: number;
+    span?: Span;
   };
 }
 
+/**
+ * Request options accepted by EasyPostClient
+ */
+export interface EasyPostRequestConfig extends AxiosRequestConfig {
+  /**
+   * Idempotency key of a money-spending request, logged with its attempts. Like
+   * every POST it is only retried when EasyPost cannot have processed it.
+   */
+  idempotencyKey?: string | undefined;
+}
+
 /**
  * Production-ready EasyPost API client with comprehensive error handling,
  * retry logic, caching, and performance optimization
@@ -24,28 +65,34 @@ interface ExtendedInternalAxiosRequestConfig extends InternalAxiosRequestConfig
 export class EasyPostClient {
   private client: AxiosInstance;
   private config: EasyPostClientConfig;
-  private cache?: NodeCache;
-  private readonly maxRetryDelay = CONSTANTS.MAX_RETRY_DELAY;
+  private cache?: ResponseCache;
+  private ownCacheStore: CacheStore | undefined;
+  private resilience: UpstreamResilience;
 
   constructor(config: EasyPostClientConfig) {
     this.config = config;
 
-    // Initialize cache if enabled
+    // Initialize cache if enabled, in the shared store when one is passed
     if (config.enableCache) {
-      this.cache = new NodeCache({
-        stdTTL: CONSTANTS.CACHE_TTL,
-        checkperiod: 120,
-        useClones: false,
-        deleteOnExpire: true,
-        maxKeys: 1000
-      });
+      const store = config.cacheStore ?? new MemoryCacheStore();
+      this.ownCacheStore = store === config.cacheStore ? undefined : store;
+      this.cache = new ResponseCache(store, cacheNamespace('easypost-mcp', config.apiKey), { logger, onLookup: recordCacheLookup });
 
-      logger.info('EasyPost client cache enabled', {
-        ttl: CONSTANTS.CACHE_TTL,
-        maxKeys: 1000
-      });
+      logger.info('EasyPost client cache enabled', { backend: store.kind });
     }
 
+    // Retries and per-endpoint circuit breakers
+    this.resilience = new UpstreamResilience(
+      {
+        retries: config.retryAttempts,
+        baseDelayMs: CONSTANTS.RETRY_BASE_DELAY_MS,
+        maxDelayMs: CONSTANTS.MAX_RETRY_DELAY
+      },
+      config.circuitBreakers ?? createUpstreamCircuits(),
+      error => this.describeFailure(error),
+      { logger, onRetry: recordUpstreamRetry, onCircuitRejection: recordCircuitRejection }
+    );
+
     // Create axios instance with base configuration
     this.client = axios.create({
       baseURL: config.baseURL,
@@ -62,7 +109,8 @@ export class EasyPostClient {
       },
       validateStatus: (status) => status < 500, // Don't throw on 4xx errors
       maxContentLength: 10 * 1024 * 1024, // 10MB
-      maxBodyLength: 10 * 1024 * 1024 // 10MB
+      maxBodyLength: 10 * 1024 * 1024, // 10MB
+      ...(config.adapter ? { adapter: config.adapter } : {})
     });
 
     // Setup request interceptor
@@ -89,142 +137,138 @@ export class EasyPostClient {
    * GET request with caching support
    */
   async get<T = unknown>(url: string, config?: AxiosRequestConfig): Promise<T> {
-    const cacheKey = this.getCacheKey('GET', url, config?.params);
-
-    // Check cache first
-    if (this.cache && !config?.headers?.['Cache-Control']) {
-      const cached = this.cache.get<T>(cacheKey);
-      if (cached) {
-        logger.debug('Cache hit', { url, cacheKey });
-        return cached;
-      }
-    }
-
-    const response = await this.makeRequest<T>('GET', url, undefined, config);
+    const policy = this.cachePolicy(url);
 
-    // Cache successful responses
-    if (this.cache && response && this.isCacheable('GET', url)) {
-      this.cache.set(cacheKey, response, CONSTANTS.CACHE_TTL);
-      logger.debug('Response cached', { url, cacheKey });
+    // A Cache-Control header asks for a fresh response
+    if (!this.cache || !policy || config?.headers?.['Cache-Control']) {
+      return this.makeRequest<T>('GET', url, undefined, config);
     }
 
-    return response;
+    return this.cache.getOrLoad(
+      this.getCacheKey('GET', url, config?.params),
+      resourceTags(url),
+      policy,
+      () => this.makeRequest<T>('GET', url, undefined, config)
+    );
   }
 
   /**
    * POST request
    */
-  async post<T = unknown>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<T> {
-    // Invalidate related cache entries
-    if (this.cache) {
-      this.invalidateCache(url);
-    }
-
-    return this.makeRequest<T>('POST', url, data, config);
+  async post<T = unknown>(url: string, data?: unknown, config?: EasyPostRequestConfig): Promise<T> {
+    return this.write(url, () => this.makeRequest<T>('POST', url, data, config));
   }
 
   /**
    * PUT request
    */
-  async put<T = unknown>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<T> {
-    // Invalidate related cache entries
-    if (this.cache) {
-      this.invalidateCache(url);
-    }
-
-    return this.makeRequest<T>('PUT', url, data, config);
+  async put<T = unknown>(url: string, data?: unknown, config?: EasyPostRequestConfig): Promise<T> {
+    return this.write(url, () => this.makeRequest<T>('PUT', url, data, config));
   }
 
   /**
    * PATCH request
    */
-  async patch<T = unknown>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<T> {
-    // Invalidate related cache entries
-    if (this.cache) {
-      this.invalidateCache(url);
-    }
-
-    return this.makeRequest<T>('PATCH', url, data, config);
+  async patch<T = unknown>(url: string, data?: unknown, config?: EasyPostRequestConfig): Promise<T> {
+    return this.write(url, () => this.makeRequest<T>('PATCH', url, data, config));
   }
 
   /**
    * DELETE request
    */
   async delete<T = unknown>(url: string, config?: AxiosRequestConfig): Promise<T> {
-    // Invalidate related cache entries
-    if (this.cache) {
-      this.invalidateCache(url);
-    }
+    return this.write(url, () => this.makeRequest<T>('DELETE', url, undefined, config));
+  }
 
-    return this.makeRequest<T>('DELETE', url, undefined, config);
+  /**
+   * Drop the cached responses carrying one of the tags, e.g. after a webhook
+   */
+  async invalidateCache(tags: string[]): Promise<void> {
+    await this.cache?.invalidate(tags);
   }
 
   /**
-   * Make HTTP request with retry logic
+   * Download a generated file (label, form) from its EasyPost-hosted URL.
+   * These URLs are pre-signed, so the API key is not sent.
+   */
+  async download(url: string): Promise<Buffer> {
+    const startTime = Date.now();
+
+    try {
+      const response = await axios.get<ArrayBuffer>(url, {
+        responseType: 'arraybuffer',
+        timeout: this.config.timeout,
+        maxContentLength: 10 * 1024 * 1024, // 10MB
+        ...(this.config.adapter ? { adapter: this.config.adapter } : {})
+      });
+
+      const content = Buffer.from(response.data);
+      logger.performance('GET file', Date.now() - startTime, { bytes: content.length });
+
+      return content;
+
+    } catch (error) {
+      logger.warn('File download failed', {
+        url,
+        error: error instanceof Error ? error.message : String(error),
+        duration: Date.now() - startTime
+      });
+
+      throw this.convertToEasyPostError(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Make HTTP request with retries and the circuit breaker of its endpoint
    */
   private async makeRequest<T>(
     method: string,
     url: string,
     data?: unknown,
-    config?: AxiosRequestConfig
+    config?: EasyPostRequestConfig
   ): Promise<T> {
-    let lastError: Error | undefined;
     const startTime = Date.now();
+    const { idempotencyKey, ...requestConfig } = config ?? {};
 
-    for (let attempt = 1; attempt <= this.config.retryAttempts + 1; attempt++) {
-      try {
+    try {
+      const response = await this.resilience.execute({ method, url }, attempt => {
         logger.debug('Making request', {
           method,
           url,
           attempt,
-          maxAttempts: this.config.retryAttempts + 1
+          maxAttempts: this.config.retryAttempts + 1,
+          idempotencyKey
         });
 
-        const response = await this.client.request<T>({
+        return this.client.request<T>({
           method,
           url,
           data,
-          ...config
-        });
-
-        const duration = Date.now() - startTime;
-        logger.performance(`${method} ${url}`, duration, {
-          attempt,
-          statusCode: response.status
+          ...requestConfig
         });
+      });
 
-        return response.data;
-
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        const duration = Date.now() - startTime;
-
-        logger.warn('Request attempt failed', {
-          method,
-          url,
-          attempt,
-          error: lastError.message,
-          duration
-        });
+      const duration = Date.now() - startTime;
+      logger.performance(`${method} ${url}`, duration, {
+        statusCode: response.status
+      });
 
-        // Don't retry on final attempt or non-retryable errors
-        if (attempt > this.config.retryAttempts || !this.isRetryableError(error)) {
-          break;
-        }
+      return response.data;
 
-        // Calculate delay with exponential backoff and jitter
-        const delay = Math.min(
-          Math.pow(2, attempt - 1) * 1000 + Math.random() * 1000,
-          this.maxRetryDelay
-        );
+    } catch (error) {
+      const easyPostError = this.convertToEasyPostError(error instanceof Error ? error : new Error(String(error)));
+
+      logger.warn('Request failed', {
+        method,
+        url,
+        code: easyPostError.code,
+        error: easyPostError.message,
+        duration: Date.now() - startTime,
+        idempotencyKey
+      });
 
-        logger.debug('Retrying request', { method, url, attempt, delay });
-        await this.sleep(delay);
-      }
+      throw easyPostError;
     }
-
-    // Convert to EasyPostError and throw
-    throw this.convertToEasyPostError(lastError!);
   }
 
   /**
@@ -234,7 +278,7 @@ export class EasyPostClient {
     const extendedConfig = config as ExtendedInternalAxiosRequestConfig;
 
     // Add request timing
-    extendedConfig.metadata = { startTime: Date.now() };
+    extendedConfig.metadata = { startTime: Date.now(), span: startRequestSpan('easypost-mcp', extendedConfig) };
 
     // Add request ID for tracing
     if (extendedConfig.headers) {
@@ -277,6 +321,8 @@ export class EasyPostClient {
       status: response.status,
       duration
     });
+    recordUpstreamRequest(extendedConfig.method?.toUpperCase() ?? 'unknown', extendedConfig.url ?? 'unknown', response.status, duration);
+    endRequestSpan(extendedConfig.metadata?.span, response.status);
 
     // Check for EasyPost-specific error responses
     if (response.status >= 400) {
@@ -302,6 +348,8 @@ export class EasyPostClient {
       duration,
       error: error.message
     });
+    recordUpstreamRequest(extendedConfig?.method?.toUpperCase() ?? 'unknown', extendedConfig?.url ?? 'unknown', error.response?.status, duration);
+    endRequestSpan(extendedConfig?.metadata?.span, error.response?.status, error);
 
     return Promise.reject(this.convertToEasyPostError(error));
   }
@@ -314,6 +362,16 @@ export class EasyPostClient {
       return error;
     }
 
+    if (error instanceof CircuitOpenError) {
+      return new EasyPostError(
+        `EasyPost API unavailable: ${error.message}`,
+        'CIRCUIT_OPEN',
+        { endpoint: error.endpoint, retryAfterMs: error.retryAfterMs },
+        503,
+        error.retryAfterMs
+      );
+    }
+
     if (axios.isAxiosError(error)) {
       if (error.response) {
         return this.createEasyPostErrorFromResponse(error.response);
@@ -350,6 +408,7 @@ export class EasyPostClient {
    */
   private createEasyPostErrorFromResponse(response: AxiosResponse): EasyPostError {
     const { status, data } = response;
+    const retryAfterMs = status === 429 || status === 503 ? parseRetryAfter(response.headers?.['retry-after']) : undefined;
 
     // Handle EasyPost API error format
     if (data && typeof data === 'object') {
@@ -358,7 +417,8 @@ export class EasyPostClient {
           data.error.message || `HTTP ${status} Error`,
           data.error.code || `HTTP_${status}`,
           data.error,
-          status
+          status,
+          retryAfterMs
         );
       }
 
@@ -368,7 +428,8 @@ export class EasyPostClient {
           messages || `HTTP ${status} Error`,
           'VALIDATION_ERROR',
           data,
-          status
+          status,
+          retryAfterMs
         );
       }
     }
@@ -379,7 +440,8 @@ export class EasyPostClient {
       message,
       `HTTP_${status}`,
       { response: data },
-      status
+      status,
+      retryAfterMs
     );
   }
 
@@ -407,33 +469,30 @@ export class EasyPostClient {
   }
 
   /**
-   * Check if error is retryable
+   * Describe a failed request for the retry and circuit breaker decisions. The
+   * interceptors have already turned it into an EasyPostError.
    */
-  private isRetryableError(error: unknown): boolean {
-    if (axios.isAxiosError(error)) {
-      // Network errors are retryable
-      if (!error.response) {
-        return true;
-      }
-
-      // Server errors (5xx) are retryable
-      const status = error.response.status;
-      if (status >= 500) {
-        return true;
-      }
-
-      // Rate limiting is retryable
-      if (status === 429) {
-        return true;
-      }
+  private describeFailure(error: unknown): UpstreamFailure {
+    if (!(error instanceof EasyPostError)) {
+      return { unprocessed: false };
+    }
 
-      // Timeout errors are retryable
-      if (error.code === 'ECONNABORTED') {
-        return true;
-      }
+    switch (error.code) {
+      // Never connected, so EasyPost cannot have processed the request
+      case 'CONNECTION_FAILED':
+        return { unprocessed: true };
+      case 'REQUEST_TIMEOUT':
+        return { status: 408, unprocessed: false };
+      case 'UNKNOWN_ERROR':
+        return { unprocessed: false };
     }
 
-    return false;
+    return {
+      status: error.statusCode,
+      retryAfterMs: error.retryAfterMs,
+      // Rate limited, or unavailable with an explicit request to come back later
+      unprocessed: error.statusCode === 429 || (error.statusCode === 503 && error.retryAfterMs !== undefined)
+    };
   }
 
   /**
@@ -445,40 +504,24 @@ export class EasyPostClient {
   }
 
   /**
-   * Check if response is cacheable
+   * Cache policy of a GET endpoint and its sub-resources, undefined when it is not cached
    */
-  private isCacheable(method: string, url: string): boolean {
-    // Only cache GET requests
-    if (method !== 'GET') {
-      return false;
-    }
+  private cachePolicy(url: string): CachePolicy | undefined {
+    const endpoint = normalizeEndpoint(url);
+    const match = Object.keys(CACHE_POLICIES).find(prefix => endpoint === prefix || endpoint.startsWith(`${prefix}/`));
 
-    // Cache safe endpoints
-    const cacheableEndpoints = [
-      '/account',
-      '/carrier_types',
-      '/addresses/',
-      '/shipments/'
-    ];
-
-    return cacheableEndpoints.some(endpoint => url.includes(endpoint));
+    return match ? CACHE_POLICIES[match] : undefined;
   }
 
   /**
-   * Invalidate cache entries
+   * Send a write and drop the cached responses of the resource it changes. A failed
+   * write may still have gone through, so they are dropped either way.
    */
-  private invalidateCache(url: string): void {
-    if (!this.cache) return;
-
-    const keys = this.cache.keys();
-    const relatedKeys = keys.filter(key => key.includes(url.split('/')[1] || ''));
-
-    relatedKeys.forEach(key => {
-      this.cache!.del(key);
-    });
-
-    if (relatedKeys.length > 0) {
-      logger.debug('Cache invalidated', { url, invalidatedKeys: relatedKeys.length });
+  private async write<T>(url: string, send: () => Promise<T>): Promise<T> {
+    try {
+      return await send();
+    } finally {
+      await this.cache?.invalidate(resourceTags(url, true));
     }
   }
 
@@ -489,20 +532,13 @@ export class EasyPostClient {
     return `ep_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
   }
 
-  /**
-   * Sleep utility for retry delays
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * Get client statistics
    */
   public getStats(): {
     cacheEnabled: boolean;
     cacheStats?: {
-      keys: number;
+      backend: CacheStore['kind'];
       hits: number;
       misses: number;
     };
@@ -523,9 +559,8 @@ export class EasyPostClient {
 
     if (this.cache) {
       stats.cacheStats = {
-        keys: this.cache.keys().length,
-        hits: this.cache.getStats().hits,
-        misses: this.cache.getStats().misses
+        backend: this.cache.kind,
+        ...this.cache.stats
       };
     }
 
@@ -533,13 +568,10 @@ export class EasyPostClient {
   }
 
   /**
-   * Clear cache
+   * Clear this client's cached responses, leaving other namespaces in the store alone
    */
-  public clearCache(): void {
-    if (this.cache) {
-      this.cache.flushAll();
-      logger.info('EasyPost client cache cleared');
-    }
+  public async clearCache(): Promise<void> {
+    await this.cache?.clear();
   }
 
   /**
@@ -565,9 +597,7 @@ export class EasyPostClient {
    * Dispose resources
    */
   public dispose(): void {
-    if (this.cache) {
-      this.cache.close();
-    }
+    void this.ownCacheStore?.close();
     logger.info('EasyPost client disposed');
   }
 }
@@ -0,0 +1,1163 @@
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { createHash } from 'crypto';
+import { deflateSync } from 'zlib';
+import { logger } from '../utils/logger.js';
+import { buildPdfFromPngs, concatenateLabels, labelSizeToPoints } from '../utils/label-documents.js';
+import {
+  EasyPostMode,
+  EasyPostShipment,
+  EasyPostRate,
+  EasyPostTracker,
+  EasyPostAddress,
+  EasyPostBatch,
+  EasyPostCarrierAccount,
+  EasyPostError,
+  LabelFormat
+} from '../types/index.js';
+
+/**
+ * Host of the label and form files the simulator generates. The .invalid TLD never
+ * resolves, so a simulated URL cannot reach a real server.
+ */
+export const SIMULATOR_FILES_ORIGIN = 'https://files.easypost-simulator.invalid';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Simulated carrier service: price = base + per pound over the first + per zone over the first
+ */
+interface SimulatedService {
+  carrier: string;
+  service: string;
+  base: number;
+  perPound: number;
+  perZone: number;
+  days: number;
+}
+
+const SERVICES: SimulatedService[] = [
+  { carrier: 'USPS', service: 'GroundAdvantage', base: 4.75, perPound: 0.85, perZone: 0.45, days: 4 },
+  { carrier: 'USPS', service: 'Priority', base: 8.1, perPound: 1.2, perZone: 0.7, days: 2 },
+  { carrier: 'USPS', service: 'Express', base: 27.45, perPound: 2.4, perZone: 1.35, days: 1 },
+  { carrier: 'UPS', service: 'Ground', base: 9.6, perPound: 0.95, perZone: 0.6, days: 4 },
+  { carrier: 'UPS', service: '2ndDayAir', base: 18.3, perPound: 2.1, perZone: 1.1, days: 2 },
+  { carrier: 'UPS', service: 'NextDayAir', base: 34.9, perPound: 3.6, perZone: 1.9, days: 1 },
+  { carrier: 'FedEx', service: 'FEDEX_GROUND', base: 9.35, perPound: 0.9, perZone: 0.55, days: 4 },
+  { carrier: 'FedEx', service: 'FEDEX_2_DAY', base: 19.1, perPound: 2.2, perZone: 1.15, days: 2 },
+  { carrier: 'FedEx', service: 'STANDARD_OVERNIGHT', base: 38.2, perPound: 3.9, perZone: 2.05, days: 1 }
+];
+
+const CARRIERS = [
+  { carrier: 'USPS', type: 'UspsAccount', readable: 'USPS' },
+  { carrier: 'UPS', type: 'UpsAccount', readable: 'UPS' },
+  { carrier: 'FedEx', type: 'FedexAccount', readable: 'FedEx' }
+];
+
+/**
+ * Statuses of EasyPost's test tracking codes EZ1000000001 through EZ7000000007
+ */
+const TEST_TRACKING_STATUSES = [
+  'pre_transit',
+  'in_transit',
+  'out_for_delivery',
+  'delivered',
+  'return_to_sender',
+  'failure',
+  'unknown'
+];
+
+const TRACKING_STAGES = [
+  { status: 'pre_transit', message: 'Shipping label created, carrier awaiting item', destination: false },
+  { status: 'in_transit', message: 'Arrived at carrier facility', destination: false },
+  { status: 'out_for_delivery', message: 'Out for delivery', destination: true },
+  { status: 'delivered', message: 'Delivered', destination: true }
+];
+
+const LABEL_FILE_TYPES: Record<LabelFormat, string> = {
+  PNG: 'image/png',
+  PDF: 'application/pdf',
+  ZPL: 'application/zpl',
+  EPL2: 'application/epl2'
+};
+
+export interface EasyPostSimulatorOptions {
+  /**
+   * Clock for timestamps, delivery dates and tracking progress
+   */
+  now?: (() => Date) | undefined;
+  /**
+   * Starting account balance in dollars
+   */
+  balance?: number | undefined;
+}
+
+interface SimulatedFile {
+  content: Promise<Buffer>;
+  contentType: string;
+}
+
+interface SimulatedBatch {
+  id: string;
+  mode: EasyPostMode;
+  state: string;
+  shipmentIds: string[];
+  failedIds: Set<string>;
+  labelUrl: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Objects of one account and mode. Like EasyPost, each API key only sees its own.
+ */
+interface SimulatorState {
+  shipments: Map<string, EasyPostShipment>;
+  batches: Map<string, SimulatedBatch>;
+  customsInfos: Map<string, NonNullable<EasyPostShipment['customs_info']>>;
+  scanForms: Map<string, Record<string, unknown>>;
+  trackerIds: Map<string, string>;
+  scannedShipmentIds: Set<string>;
+  balance: number;
+}
+
+interface SimulatedRequest {
+  state: SimulatorState;
+  mode: EasyPostMode;
+  params: string[];
+  body: Record<string, any>;
+  query: Record<string, string>;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  status?: number;
+  handle: (request: SimulatedRequest) => unknown;
+}
+
+/**
+ * In-memory EasyPost API for dry runs, demos and tests. Implements the endpoints the
+ * handlers use with consistent state: shipments get deterministic rates from their
+ * weight and zip codes, bought labels get tracking codes and downloadable label files,
+ * and trackers, batches, SCAN forms, refunds and insurance act on those shipments.
+ * Plugs into EasyPostClient as its axios adapter, so requests never leave the process.
+ */
+export class EasyPostSimulator {
+  private states = new Map<string, SimulatorState>();
+  private files = new Map<string, SimulatedFile>();
+  private sequence = 0;
+  private now: () => Date;
+  private startingBalance: number;
+
+  private routes: Route[] = [
+    { method: 'POST', pattern: /^\/shipments$/, status: 201, handle: request => this.createShipment(request) },
+    { method: 'GET', pattern: /^\/shipments\/([^/]+)$/, handle: request => this.shipment(request) },
+    { method: 'POST', pattern: /^\/shipments\/([^/]+)\/buy$/, handle: request => this.buyShipment(request) },
+    { method: 'GET', pattern: /^\/shipments\/([^/]+)\/label$/, handle: request => this.convertLabel(request) },
+    { method: 'POST', pattern: /^\/shipments\/([^/]+)\/refund$/, handle: request => this.refundShipment(request) },
+    { method: 'POST', pattern: /^\/shipments\/([^/]+)\/insure$/, handle: request => this.insureShipment(request) },
+    { method: 'POST', pattern: /^\/trackers$/, status: 201, handle: request => this.createTracker(request) },
+    { method: 'POST', pattern: /^\/addresses$/, status: 201, handle: request => this.createAddress(request) },
+    { method: 'POST', pattern: /^\/smartrate\/deliver_by$/, handle: request => this.estimateDeliveryDays(request) },
+    { method: 'GET', pattern: /^\/account$/, handle: request => this.account(request) },
+    { method: 'GET', pattern: /^\/carrier_types$/, handle: () => this.carrierTypes() },
+    { method: 'GET', pattern: /^\/carrier_accounts$/, handle: request => this.carrierAccounts(request.mode) },
+    { method: 'GET', pattern: /^\/carrier_accounts\/([^/]+)$/, handle: request => this.carrierAccount(request) },
+    { method: 'POST', pattern: /^\/batches$/, status: 201, handle: request => this.createBatch(request) },
+    { method: 'GET', pattern: /^\/batches\/([^/]+)$/, handle: request => this.batchView(request.state, this.batch(request)) },
+    { method: 'POST', pattern: /^\/batches\/([^/]+)\/add_shipments$/, handle: request => this.addShipmentsToBatch(request) },
+    { method: 'POST', pattern: /^\/batches\/([^/]+)\/buy$/, handle: request => this.buyBatch(request) },
+    { method: 'POST', pattern: /^\/batches\/([^/]+)\/label$/, handle: request => this.generateBatchLabel(request) },
+    { method: 'POST', pattern: /^\/scan_forms$/, status: 201, handle: request => this.createScanForm(request) },
+    { method: 'POST', pattern: /^\/customs_infos$/, status: 201, handle: request => this.createCustomsInfo(request.state, request.body) },
+    { method: 'GET', pattern: /^\/customs_infos\/([^/]+)$/, handle: request => this.customsInfo(request.state, request.params[0]!) }
+  ];
+
+  constructor(options: EasyPostSimulatorOptions = {}) {
+    this.now = options.now ?? (() => new Date());
+    this.startingBalance = options.balance ?? 1000;
+  }
+
+  /**
+   * Axios adapter answering requests from the simulator. Each scope (account) and
+   * mode has its own objects; generated files are served to every scope.
+   */
+  adapter(scope = 'default', mode: EasyPostMode = 'test'): AxiosAdapter {
+    return async config => this.handle(config, `${scope}:${mode}`, mode);
+  }
+
+  /**
+   * Forget all simulated objects and files
+   */
+  reset(): void {
+    this.states.clear();
+    this.files.clear();
+    this.sequence = 0;
+  }
+
+  private async handle(config: InternalAxiosRequestConfig, key: string, mode: EasyPostMode): Promise<AxiosResponse> {
+    const method = (config.method ?? 'get').toUpperCase();
+    const target = new URL(config.url ?? '', 'https://api.easypost.com');
+    let status = 200;
+    let data: unknown;
+    let contentType = 'application/json';
+
+    if (target.origin === SIMULATOR_FILES_ORIGIN) {
+      const file = method === 'GET' ? this.files.get(target.pathname) : undefined;
+      if (file) {
+        data = await file.content;
+        contentType = file.contentType;
+      } else {
+        status = 404;
+        data = Buffer.from('Not Found');
+        contentType = 'text/plain';
+      }
+    } else {
+      const path = target.pathname.replace(/^\/v2(?=\/)/, '');
+      const query: Record<string, string> = Object.fromEntries(target.searchParams);
+      for (const [name, value] of Object.entries(config.params ?? {})) {
+        if (value !== undefined && value !== null) {
+          query[name] = String(value);
+        }
+      }
+
+      let route: Route | undefined;
+      let match: RegExpMatchArray | null = null;
+      for (const candidate of this.routes) {
+        match = candidate.method === method ? path.match(candidate.pattern) : null;
+        if (match) {
+          route = candidate;
+          break;
+        }
+      }
+
+      try {
+        if (!route || !match) {
+          throw new EasyPostError(
+            `${method} ${path} is not supported by the EasyPost simulator`,
+            'SIMULATOR.ENDPOINT_UNSUPPORTED',
+            undefined,
+            404
+          );
+        }
+
+        const body = typeof config.data === 'string' && config.data.length > 0
+          ? JSON.parse(config.data)
+          : config.data ?? {};
+
+        data = route.handle({ state: this.state(key), mode, params: match.slice(1), body, query });
+        status = route.status ?? 200;
+      } catch (error) {
+        if (!(error instanceof EasyPostError)) {
+          throw error;
+        }
+
+        status = error.statusCode ?? 422;
+        data = { error: { code: error.code, message: error.message, ...(error.details as Record<string, unknown> | undefined) } };
+      }
+
+      // Serialized like an HTTP body, so callers never share objects with the simulator
+      data = JSON.stringify(data);
+    }
+
+    logger.debug('Simulated EasyPost request', { method, url: target.pathname, status });
+
+    const response: AxiosResponse = {
+      data,
+      status,
+      statusText: status < 400 ? 'OK' : 'Error',
+      headers: { 'content-type': contentType },
+      config
+    };
+
+    if (config.validateStatus && !config.validateStatus(status)) {
+      throw new AxiosError(
+        `Request failed with status code ${status}`,
+        status < 500 ? AxiosError.ERR_BAD_REQUEST : AxiosError.ERR_BAD_RESPONSE,
+        config,
+        undefined,
+        response
+      );
+    }
+
+    return response;
+  }
+
+  private createShipment({ state, mode, body }: SimulatedRequest): EasyPostShipment {
+    if (!body['to_address'] || !body['from_address'] || !body['parcel']) {
+      throw new EasyPostError('Missing required parameter: to_address, from_address and parcel', 'PARAMETER.REQUIRED', undefined, 422);
+    }
+
+    const timestamp = this.timestamp();
+    const shipment: EasyPostShipment = {
+      id: this.id('shp'),
+      object: 'Shipment',
+      mode,
+      to_address: this.address(body['to_address']),
+      from_address: this.address(body['from_address']),
+      ...(body['return_address'] ? { return_address: this.address(body['return_address']) } : {}),
+      parcel: {
+        id: this.id('prcl'),
+        object: 'Parcel',
+        length: Number(body['parcel'].length),
+        width: Number(body['parcel'].width),
+        height: Number(body['parcel'].height),
+        weight: Number(body['parcel'].weight),
+        created_at: timestamp,
+        updated_at: timestamp
+      },
+      ...(body['customs_info'] ? { customs_info: this.resolveCustomsInfo(state, body['customs_info']) } : {}),
+      options: body['options'] ?? {},
+      ...(body['reference'] ? { reference: String(body['reference']) } : {}),
+      is_return: body['is_return'] === true,
+      status: 'unknown',
+      rates: [],
+      messages: [],
+      fees: [],
+      created_at: timestamp,
+      updated_at: timestamp
+    };
+
+    const carrierAccounts: string[] | undefined = Array.isArray(body['carrier_accounts'])
+      ? body['carrier_accounts'].map((account: string | { id: string }) => typeof account === 'string' ? account : account.id)
+      : undefined;
+    shipment.rates = this.quote(shipment, carrierAccounts);
+    state.shipments.set(shipment.id, shipment);
+
+    return shipment;
+  }
+
+  private shipment({ state, params }: SimulatedRequest): EasyPostShipment {
+    return this.findShipment(state, params[0]!);
+  }
+
+  private buyShipment(request: SimulatedRequest): EasyPostShipment {
+    const shipment = this.findShipment(request.state, request.params[0]!);
+    const rateId = request.body['rate']?.id ?? request.body['rate'];
+    const rate = shipment.rates?.find(candidate => candidate.id === rateId);
+
+    if (shipment.postage_label) {
+      throw new EasyPostError(`Shipment ${shipment.id} already has postage`, 'SHIPMENT.POSTAGE.EXISTS', undefined, 422);
+    }
+
+    if (!rate) {
+      throw new EasyPostError(`Rate ${String(rateId)} does not belong to shipment ${shipment.id}`, 'SHIPMENT.RATE.INVALID', undefined, 422);
+    }
+
+    return this.purchase(request.state, shipment, rate);
+  }
+
+  private convertLabel({ state, params, query }: SimulatedRequest): EasyPostShipment {
+    const shipment = this.findShipment(state, params[0]!);
+    const format = (query['file_format'] ?? '').toUpperCase();
+
+    if (!shipment.postage_label) {
+      throw new EasyPostError(`Shipment ${shipment.id} has no postage label`, 'SHIPMENT.POSTAGE.REQUIRED', undefined, 422);
+    }
+
+    if (!(format in LABEL_FILE_TYPES)) {
+      throw new EasyPostError(`Unsupported label file format ${format}`, 'SHIPMENT.LABEL.FORMAT_INVALID', undefined, 422);
+    }
+
+    this.renderLabel(shipment, format as LabelFormat);
+    shipment.updated_at = this.timestamp();
+
+    return shipment;
+  }
+
+  private refundShipment({ state, params }: SimulatedRequest): EasyPostShipment {
+    const shipment = this.findShipment(state, params[0]!);
+
+    if (!shipment.postage_label) {
+      throw new EasyPostError(`Shipment ${shipment.id} has no postage to refund`, 'SHIPMENT.REFUND.UNAVAILABLE', undefined, 422);
+    }
+
+    if (shipment.refund_status) {
+      throw new EasyPostError(`A refund was already requested for shipment ${shipment.id}`, 'SHIPMENT.REFUND.UNAVAILABLE', undefined, 422);
+    }
+
+    shipment.refund_status = 'submitted';
+    shipment.updated_at = this.timestamp();
+
+    return shipment;
+  }
+
+  private insureShipment({ state, params, body }: SimulatedRequest): EasyPostShipment {
+    const shipment = this.findShipment(state, params[0]!);
+    const amount = parseFloat(String(body['amount']));
+
+    if (!shipment.postage_label) {
+      throw new EasyPostError(`Shipment ${shipment.id} must be purchased before it is insured`, 'SHIPMENT.INSURANCE.UNAVAILABLE', undefined, 422);
+    }
+
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new EasyPostError('Insurance amount must be a positive number', 'SHIPMENT.INSURANCE.AMOUNT_INVALID', undefined, 422);
+    }
+
+    // EasyPost charges 0.5% of the insured value, at least $1
+    const fee = Math.max(1, amount * 0.005);
+    state.balance -= fee;
+    shipment.insurance = money(amount);
+    shipment.fees = [...(shipment.fees ?? []), { object: 'Fee', type: 'InsuranceFee', amount: money(fee), charged: true, refunded: false }];
+    shipment.updated_at = this.timestamp();
+
+    return shipment;
+  }
+
+  /**
+   * Trackers for simulated labels progress with the clock: pre_transit when bought,
+   * in transit after half a day and delivered after the rate's delivery days.
+   * EasyPost's test codes (EZ1000000001 to EZ7000000007) return their fixed status.
+   */
+  private createTracker({ state, mode, body }: SimulatedRequest): EasyPostTracker {
+    const trackingCode = String(body['tracking_code'] ?? '');
+    if (trackingCode.length === 0) {
+      throw new EasyPostError('Missing required parameter: tracking_code', 'PARAMETER.REQUIRED', undefined, 422);
+    }
+
+    const shipment = Array.from(state.shipments.values()).find(candidate => candidate.tracking_code === trackingCode);
+    const testCode = trackingCode.match(/^EZ([1-7])\d{9}$/);
+    const now = this.now().getTime();
+
+    let status = 'unknown';
+    let stage = -1;
+    let start = now;
+    let transitDays = 2;
+
+    if (shipment?.postage_label) {
+      start = Date.parse(shipment.postage_label.label_date);
+      transitDays = Math.max(1, shipment.selected_rate?.delivery_days ?? 3);
+      const elapsed = (now - start) / DAY;
+      stage = elapsed >= transitDays ? 3 : elapsed >= transitDays - 0.25 ? 2 : elapsed >= 0.5 ? 1 : 0;
+      status = TRACKING_STAGES[stage]!.status;
+    } else if (testCode) {
+      status = TEST_TRACKING_STATUSES[Number(testCode[1]) - 1]!;
+      const index = TRACKING_STAGES.findIndex(candidate => candidate.status === status);
+      // Returned and failed shipments were in transit before their final event
+      stage = index >= 0 ? index : status === 'unknown' ? -1 : 1;
+      start = now - transitDays * DAY;
+    }
+
+    const tracking_details = TRACKING_STAGES.slice(0, stage + 1).map((detail, index) => {
+      const offset = [0, 0.5, transitDays - 0.25, transitDays][index]!;
+      const address = detail.destination ? shipment?.to_address : shipment?.from_address;
+      return {
+        object: 'TrackingDetail',
+        message: detail.message,
+        status: detail.status,
+        datetime: this.timestamp(new Date(start + offset * DAY)),
+        source: 'EasyPostSimulator',
+        ...(address ? {
+          tracking_location: { object: 'TrackingLocation', city: address.city, state: address.state, country: address.country, zip: address.zip }
+        } : {})
+      };
+    });
+
+    if (status === 'return_to_sender' || status === 'failure') {
+      tracking_details.push({
+        object: 'TrackingDetail',
+        message: status === 'failure' ? 'Delivery attempt failed' : 'Returned to sender',
+        status,
+        datetime: this.timestamp(new Date(now)),
+        source: 'EasyPostSimulator'
+      });
+    }
+
+    let trackerId = state.trackerIds.get(trackingCode);
+    if (!trackerId) {
+      trackerId = this.id('trk');
+      state.trackerIds.set(trackingCode, trackerId);
+    }
+
+    const timestamp = this.timestamp();
+    return {
+      id: trackerId,
+      object: 'Tracker',
+      mode,
+      tracking_code: trackingCode,
+      status,
+      carrier: shipment?.selected_rate?.carrier ?? String(body['carrier'] ?? 'USPS'),
+      tracking_details,
+      fees: [],
+      ...(stage >= 0 ? { est_delivery_date: this.timestamp(new Date(start + transitDays * DAY)) } : {}),
+      ...(shipment ? { shipment_id: shipment.id } : {}),
+      created_at: timestamp,
+      updated_at: timestamp
+    };
+  }
+
+  /**
+   * Addresses verify when the street starts with a house number and, in the US,
+   * the zip code has five digits. Verified addresses come back upper-cased with ZIP+4.
+   */
+  private createAddress({ body }: SimulatedRequest): EasyPostAddress {
+    const input = body['address'] ?? body;
+    const address = this.address(input);
+    const verify = body['address'] !== undefined || body['verify_strict'] !== undefined || body['verify'] !== undefined;
+
+    if (!verify) {
+      return address;
+    }
+
+    const errors: Array<{ code: string; field: string; message: string }> = [];
+    if (!/^\d+[A-Za-z]?\s+\S/.test(address.street1)) {
+      errors.push({ code: 'E.ADDRESS.NOT_FOUND', field: 'address', message: 'Address not found' });
+    }
+    if (address.country === 'US' && !/^\d{5}(-\d{4})?$/.test(address.zip)) {
+      errors.push({ code: 'E.ZIP.NOT_FOUND', field: 'zip', message: 'Zip not found' });
+    }
+
+    if (errors.length > 0 && body['verify_strict']) {
+      throw new EasyPostError('Unable to verify address.', 'ADDRESS.VERIFY.FAILURE', { errors }, 422);
+    }
+
+    const success = errors.length === 0;
+    const verified: EasyPostAddress = success
+      ? {
+        ...address,
+        street1: address.street1.toUpperCase(),
+        ...(address.street2 !== undefined ? { street2: address.street2.toUpperCase() } : {}),
+        city: address.city.toUpperCase(),
+        state: address.state.toUpperCase(),
+        zip: address.country === 'US' ? `${address.zip.slice(0, 5)}-${digits(address.street1 + address.zip, 4)}` : address.zip
+      }
+      : address;
+
+    return {
+      ...verified,
+      verifications: {
+        zip4: { success, errors: success ? [] : errors.filter(error => error.field === 'zip') },
+        delivery: { success, errors }
+      }
+    };
+  }
+
+  private estimateDeliveryDays({ body }: SimulatedRequest): Record<string, unknown> {
+    const fromZip = String(body['from_zip'] ?? '');
+    const toZip = String(body['to_zip'] ?? '');
+    const carriers: string[] = Array.isArray(body['carriers']) ? body['carriers'] : CARRIERS.map(carrier => carrier.carrier);
+    const plannedShipDate = body['planned_ship_date'] ?? this.timestamp().slice(0, 10);
+    const zone = shippingZone(fromZip, toZip, false);
+
+    const results = SERVICES
+      .filter(service => carriers.some(carrier => carrier.toLowerCase() === service.carrier.toLowerCase()))
+      .map(service => {
+        const days = transitDays(service, zone, false);
+        const slow = service.days >= 3 ? 1 : 0;
+        return {
+          carrier: service.carrier,
+          service: service.service,
+          easypost_time_in_transit_data: {
+            days_in_transit: {
+              percentile_50: days,
+              percentile_75: days + slow,
+              percentile_85: days + 1,
+              percentile_90: days + 1,
+              percentile_95: days + 1 + slow,
+              percentile_97: days + 2,
+              percentile_99: days + 2 + slow
+            },
+            planned_ship_date: plannedShipDate,
+            easypost_estimated_delivery_date: this.timestamp(new Date(Date.parse(`${plannedShipDate}T00:00:00Z`) + days * DAY)).slice(0, 10)
+          }
+        };
+      });
+
+    return {
+      from_zip: fromZip,
+      to_zip: toZip,
+      carriers,
+      planned_ship_date: plannedShipDate,
+      ...(body['desired_delivery_date'] ? { desired_delivery_date: body['desired_delivery_date'] } : {}),
+      results
+    };
+  }
+
+  private account({ state }: SimulatedRequest): Record<string, unknown> {
+    const timestamp = this.timestamp();
+    return {
+      id: 'user_simulator',
+      object: 'Account',
+      name: 'EasyPost Simulator',
+      email: 'simulator@example.com',
+      balance: money(state.balance),
+      price_per_shipment: '0.00',
+      verified: true,
+      created_at: timestamp,
+      updated_at: timestamp
+    };
+  }
+
+  private carrierTypes(): Array<Record<string, unknown>> {
+    return CARRIERS.map(carrier => ({
+      object: 'CarrierType',
+      type: carrier.type,
+      readable: carrier.readable,
+      fields: {}
+    }));
+  }
+
+  private carrierAccounts(mode: EasyPostMode): EasyPostCarrierAccount[] {
+    return CARRIERS.map(carrier => ({
+      id: carrierAccountId(carrier.carrier),
+      object: 'CarrierAccount',
+      type: carrier.type,
+      readable: carrier.readable,
+      description: `Simulated ${carrier.readable} account`,
+      reference: null,
+      credentials: {},
+      test_credentials: {},
+      mode
+    }));
+  }
+
+  private carrierAccount({ mode, params }: SimulatedRequest): EasyPostCarrierAccount {
+    const account = this.carrierAccounts(mode).find(candidate => candidate.id === params[0]);
+    if (!account) {
+      throw notFound('CarrierAccount', params[0]!);
+    }
+
+    return account;
+  }
+
+  private createBatch({ state, mode }: SimulatedRequest): EasyPostBatch {
+    const timestamp = this.timestamp();
+    const batch: SimulatedBatch = {
+      id: this.id('batch'),
+      mode,
+      state: 'created',
+      shipmentIds: [],
+      failedIds: new Set(),
+      labelUrl: null,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+    state.batches.set(batch.id, batch);
+
+    return this.batchView(state, batch);
+  }
+
+  private addShipmentsToBatch(request: SimulatedRequest): EasyPostBatch {
+    const batch = this.batch(request);
+    const ids: string[] = (request.body['shipments'] ?? []).map((shipment: { id: string }) => shipment.id);
+
+    ids.forEach(id => this.findShipment(request.state, id));
+    batch.shipmentIds = Array.from(new Set([...batch.shipmentIds, ...ids]));
+    batch.updatedAt = this.timestamp();
+
+    return this.batchView(request.state, batch);
+  }
+
+  /**
+   * Buy every unpurchased shipment in the batch at its lowest rate
+   */
+  private buyBatch(request: SimulatedRequest): EasyPostBatch {
+    const batch = this.batch(request);
+
+    if (batch.state !== 'created') {
+      throw new EasyPostError(`Batch ${batch.id} is already ${batch.state}`, 'BATCH.STATE.INVALID', undefined, 422);
+    }
+
+    if (batch.shipmentIds.length === 0) {
+      throw new EasyPostError(`Batch ${batch.id} has no shipments`, 'BATCH.SHIPMENTS.REQUIRED', undefined, 422);
+    }
+
+    for (const id of batch.shipmentIds) {
+      const shipment = this.findShipment(request.state, id);
+      if (shipment.postage_label) {
+        continue;
+      }
+
+      const [cheapest] = [...(shipment.rates ?? [])].sort((a, b) => parseFloat(a.rate) - parseFloat(b.rate));
+      if (cheapest) {
+        this.purchase(request.state, shipment, cheapest);
+      } else {
+        batch.failedIds.add(id);
+      }
+    }
+
+    batch.state = 'purchased';
+    batch.updatedAt = this.timestamp();
+
+    return this.batchView(request.state, batch);
+  }
+
+  private generateBatchLabel(request: SimulatedRequest): EasyPostBatch {
+    const batch = this.batch(request);
+    const format = String(request.body['file_format'] ?? 'PDF').toUpperCase();
+
+    if (batch.state !== 'purchased' && batch.state !== 'label_generated') {
+      throw new EasyPostError(`Batch ${batch.id} must be purchased before its label is generated`, 'BATCH.STATE.INVALID', undefined, 422);
+    }
+
+    if (format !== 'PDF' && format !== 'ZPL' && format !== 'EPL2') {
+      throw new EasyPostError(`Unsupported batch label file format ${format}`, 'BATCH.LABEL.FORMAT_INVALID', undefined, 422);
+    }
+
+    const shipments = batch.shipmentIds
+      .map(id => this.findShipment(request.state, id))
+      .filter(shipment => shipment.postage_label);
+
+    const content = format === 'PDF'
+      ? buildPdfFromPngs(shipments.map(shipment => ({ png: renderLabelPng(shipment.tracking_code ?? shipment.id), ...labelSizeToPoints('4x6') })))
+      : Buffer.from(concatenateLabels(shipments.map(shipment => renderThermalLabel(shipment, format))));
+
+    batch.labelUrl = this.file(`${batch.id}.${format.toLowerCase()}`, LABEL_FILE_TYPES[format], content);
+    batch.state = 'label_generated';
+    batch.updatedAt = this.timestamp();
+
+    return this.batchView(request.state, batch);
+  }
+
+  private createScanForm({ state, body }: SimulatedRequest): Record<string, unknown> {
+    const shipments = (body['shipments'] ?? []).map((shipment: { id: string }) => this.findShipment(state, shipment.id)) as EasyPostShipment[];
+
+    if (shipments.length === 0) {
+      throw new EasyPostError('Missing required parameter: shipments', 'PARAMETER.REQUIRED', undefined, 422);
+    }
+
+    for (const shipment of shipments) {
+      if (!shipment.postage_label || shipment.refund_status) {
+        throw new EasyPostError(`Shipment ${shipment.id} has no active postage`, 'SCAN_FORM.SHIPMENT.INVALID', undefined, 422);
+      }
+
+      if (state.scannedShipmentIds.has(shipment.id)) {
+        throw new EasyPostError(`Shipment ${shipment.id} is already on a SCAN form`, 'SCAN_FORM.SHIPMENT.INVALID', undefined, 422);
+      }
+    }
+
+    const id = this.id('sf');
+    const timestamp = this.timestamp();
+    const scanForm = {
+      id,
+      object: 'ScanForm',
+      status: 'created',
+      message: null,
+      address: shipments[0]!.from_address,
+      tracking_codes: shipments.map(shipment => shipment.tracking_code),
+      form_url: this.file(`${id}.pdf`, 'application/pdf', buildPdfFromPngs([{ png: renderLabelPng(id), ...labelSizeToPoints('8.5x11') }])),
+      form_file_type: 'application/pdf',
+      batch_id: null,
+      created_at: timestamp,
+      updated_at: timestamp
+    };
+
+    shipments.forEach(shipment => state.scannedShipmentIds.add(shipment.id));
+    state.scanForms.set(id, scanForm);
+
+    return scanForm;
+  }
+
+  private createCustomsInfo(state: SimulatorState, body: Record<string, any>): NonNullable<EasyPostShipment['customs_info']> {
+    const items: Array<Record<string, any>> = Array.isArray(body['customs_items']) ? body['customs_items'] : [];
+    if (items.length === 0) {
+      throw new EasyPostError('Customs info needs at least one customs item', 'CUSTOMS_INFO.ITEMS.REQUIRED', undefined, 422);
+    }
+
+    const timestamp = this.timestamp();
+    const customsInfo: NonNullable<EasyPostShipment['customs_info']> = {
+      id: this.id('cstinfo'),
+      object: 'CustomsInfo',
+      contents_type: String(body['contents_type'] ?? 'merchandise'),
+      ...(body['contents_explanation'] ? { contents_explanation: String(body['contents_explanation']) } : {}),
+      customs_certify: body['customs_certify'] === true,
+      customs_signer: String(body['customs_signer'] ?? ''),
+      non_delivery_option: String(body['non_delivery_option'] ?? 'return'),
+      ...(body['restriction_type'] ? { restriction_type: String(body['restriction_type']) } : {}),
+      ...(body['restriction_comments'] ? { restriction_comments: String(body['restriction_comments']) } : {}),
+      customs_items: items.map(item => ({
+        id: this.id('cstitem'),
+        object: 'CustomsItem' as const,
+        description: String(item['description']),
+        quantity: Number(item['quantity']),
+        weight: Number(item['weight']),
+        value: money(Number(item['value'])),
+        ...(item['hs_tariff_number'] ? { hs_tariff_number: String(item['hs_tariff_number']) } : {}),
+        origin_country: String(item['origin_country'] ?? 'US'),
+        created_at: timestamp,
+        updated_at: timestamp
+      })),
+      created_at: timestamp,
+      updated_at: timestamp
+    };
+    state.customsInfos.set(customsInfo.id, customsInfo);
+
+    return customsInfo;
+  }
+
+  private customsInfo(state: SimulatorState, id: string): NonNullable<EasyPostShipment['customs_info']> {
+    const customsInfo = state.customsInfos.get(id);
+    if (!customsInfo) {
+      throw notFound('CustomsInfo', id);
+    }
+
+    return customsInfo;
+  }
+
+  private resolveCustomsInfo(state: SimulatorState, input: Record<string, any>): NonNullable<EasyPostShipment['customs_info']> {
+    return typeof input['id'] === 'string' && !input['customs_items']
+      ? this.customsInfo(state, input['id'])
+      : this.createCustomsInfo(state, input);
+  }
+
+  /**
+   * Buy a rate: assigns a tracking code, renders the label and charges the balance
+   */
+  private purchase(state: SimulatorState, shipment: EasyPostShipment, rate: EasyPostRate): EasyPostShipment {
+    const timestamp = this.timestamp();
+    const format = String((shipment.options as Record<string, unknown> | undefined)?.['label_format'] ?? 'PNG').toUpperCase();
+
+    shipment.selected_rate = rate;
+    shipment.tracking_code = this.trackingCode(rate.carrier);
+    shipment.status = 'pre_transit';
+    shipment.postage_label = {
+      id: this.id('pl'),
+      object: 'PostageLabel',
+      date_advance: 0,
+      integrated_form: 'none',
+      label_date: timestamp,
+      label_file_type: LABEL_FILE_TYPES.PNG,
+      label_resolution: 300,
+      label_size: '4x6',
+      label_type: 'default',
+      label_url: '',
+      created_at: timestamp,
+      updated_at: timestamp
+    };
+    this.renderLabel(shipment, 'PNG');
+
+    if (format !== 'PNG' && format in LABEL_FILE_TYPES) {
+      this.renderLabel(shipment, format as LabelFormat);
+    }
+
+    state.balance -= parseFloat(rate.rate);
+    shipment.fees = [
+      { object: 'Fee', type: 'LabelFee', amount: '0.00', charged: true, refunded: false },
+      { object: 'Fee', type: 'PostageFee', amount: rate.rate, charged: true, refunded: false }
+    ];
+    shipment.updated_at = timestamp;
+
+    return shipment;
+  }
+
+  /**
+   * Render a purchased shipment's label in a format and point the label URLs at it
+   */
+  private renderLabel(shipment: EasyPostShipment, format: LabelFormat): void {
+    const label = shipment.postage_label!;
+    const png = renderLabelPng(shipment.tracking_code ?? shipment.id);
+    const name = `${label.id}.${format.toLowerCase()}`;
+    let url: string;
+
+    switch (format) {
+      case 'PDF':
+        url = this.file(name, LABEL_FILE_TYPES.PDF, buildPdfFromPngs([{ png, ...labelSizeToPoints(label.label_size) }]));
+        label.label_pdf_url = url;
+        break;
+      case 'ZPL':
+        url = this.file(name, LABEL_FILE_TYPES.ZPL, Buffer.from(renderThermalLabel(shipment, 'ZPL')));
+        label.label_zpl_url = url;
+        break;
+      case 'EPL2':
+        url = this.file(name, LABEL_FILE_TYPES.EPL2, Buffer.from(renderThermalLabel(shipment, 'EPL2')));
+        label.label_epl2_url = url;
+        break;
+      default:
+        url = this.file(name, LABEL_FILE_TYPES.PNG, png);
+        label.label_png_url = url;
+    }
+
+    label.label_url = url;
+    label.label_file_type = LABEL_FILE_TYPES[format];
+    label.updated_at = this.timestamp();
+  }
+
+  /**
+   * Deterministic rates for every simulated service, or those of the given carrier accounts
+   */
+  private quote(shipment: EasyPostShipment, carrierAccounts?: string[]): EasyPostRate[] {
+    const international = shipment.to_address.country !== shipment.from_address.country;
+    const zone = shippingZone(shipment.from_address.zip, shipment.to_address.zip, international);
+    const pounds = Math.max(1, Math.ceil(shipment.parcel.weight / 16));
+    const shipDate = this.now().getTime();
+
+    return SERVICES
+      .filter(service => !carrierAccounts || carrierAccounts.includes(carrierAccountId(service.carrier)))
+      .map(service => {
+        const price = (service.base + service.perPound * (pounds - 1) + service.perZone * (zone - 1)) * (international ? 2.5 : 1);
+        const days = transitDays(service, zone, international);
+        return {
+          id: this.id('rate'),
+          object: 'Rate' as const,
+          mode: shipment.mode,
+          service: service.service,
+          service_name: service.service,
+          carrier: service.carrier,
+          carrier_account_id: carrierAccountId(service.carrier),
+          shipment_id: shipment.id,
+          rate: money(price),
+          currency: 'USD',
+          retail_rate: money(price * 1.15),
+          retail_currency: 'USD',
+          list_rate: money(price * 1.05),
+          list_currency: 'USD',
+          delivery_days: days,
+          delivery_date: this.timestamp(new Date(shipDate + days * DAY)),
+          delivery_date_guaranteed: service.days === 1,
+          est_delivery_days: days,
+          created_at: shipment.created_at,
+          updated_at: shipment.created_at
+        };
+      });
+  }
+
+  private address(input: Record<string, any>): EasyPostAddress {
+    const timestamp = this.timestamp();
+    const address: Record<string, unknown> = { id: this.id('adr'), object: 'Address' };
+
+    for (const field of ['name', 'company', 'street1', 'street2', 'city', 'state', 'zip', 'country', 'phone', 'email', 'residential']) {
+      if (input[field] !== undefined && input[field] !== null) {
+        address[field] = input[field];
+      }
+    }
+
+    return {
+      street1: '',
+      city: '',
+      state: '',
+      zip: '',
+      country: 'US',
+      ...address,
+      created_at: timestamp,
+      updated_at: timestamp
+    } as EasyPostAddress;
+  }
+
+  private batchView(state: SimulatorState, batch: SimulatedBatch): EasyPostBatch {
+    const shipments = batch.shipmentIds.map(id => {
+      const shipment = state.shipments.get(id);
+      const batchStatus = batch.failedIds.has(id)
+        ? 'postage_purchase_failed'
+        : shipment?.postage_label ? 'postage_purchased' : 'queued_for_purchase';
+
+      return { id, batch_status: batchStatus, tracking_code: shipment?.tracking_code ?? null };
+    });
+
+    const status: Record<string, number> = { queued_for_purchase: 0, postage_purchased: 0, postage_purchase_failed: 0 };
+    shipments.forEach(shipment => {
+      status[shipment.batch_status] = (status[shipment.batch_status] ?? 0) + 1;
+    });
+
+    return {
+      id: batch.id,
+      object: 'Batch',
+      mode: batch.mode,
+      state: batch.state,
+      num_shipments: shipments.length,
+      shipments,
+      status,
+      label_url: batch.labelUrl,
+      created_at: batch.createdAt,
+      updated_at: batch.updatedAt
+    };
+  }
+
+  private batch({ state, params }: SimulatedRequest): SimulatedBatch {
+    const batch = state.batches.get(params[0]!);
+    if (!batch) {
+      throw notFound('Batch', params[0]!);
+    }
+
+    return batch;
+  }
+
+  private findShipment(state: SimulatorState, id: string): EasyPostShipment {
+    const shipment = state.shipments.get(id);
+    if (!shipment) {
+      throw notFound('Shipment', id);
+    }
+
+    return shipment;
+  }
+
+  private state(key: string): SimulatorState {
+    let state = this.states.get(key);
+    if (!state) {
+      state = {
+        shipments: new Map(),
+        batches: new Map(),
+        customsInfos: new Map(),
+        scanForms: new Map(),
+        trackerIds: new Map(),
+        scannedShipmentIds: new Set(),
+        balance: this.startingBalance
+      };
+      this.states.set(key, state);
+    }
+
+    return state;
+  }
+
+  /**
+   * Store a generated file, or one still being rendered, and return its URL
+   */
+  private file(name: string, contentType: string, content: Buffer | Promise<Buffer>): string {
+    const path = `/files/${name}`;
+    this.files.set(path, { content: Promise.resolve(content), contentType });
+    return `${SIMULATOR_FILES_ORIGIN}${path}`;
+  }
+
+  /**
+   * IDs in EasyPost's prefix_hex format, derived from a counter so runs repeat exactly
+   */
+  private id(prefix: string): string {
+    return `${prefix}_${createHash('sha256').update(`${prefix}:${++this.sequence}`).digest('hex').slice(0, 32)}`;
+  }
+
+  private trackingCode(carrier: string): string {
+    const serial = String(++this.sequence).padStart(10, '0');
+    switch (carrier) {
+      case 'UPS':
+        return `1ZSIM${digits(serial, 3)}${serial}`;
+      case 'FedEx':
+        return `77${serial}`;
+      default:
+        return `9400111${digits(serial, 5)}${serial}`;
+    }
+  }
+
+  private timestamp(date: Date = this.now()): string {
+    return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  }
+}
+
+function notFound(type: string, id: string): EasyPostError {
+  return new EasyPostError(`The requested ${type} ${id} could not be found.`, 'NOT_FOUND', undefined, 404);
+}
+
+function carrierAccountId(carrier: string): string {
+  return `ca_simulated_${carrier.toLowerCase()}`;
+}
+
+function money(amount: number): string {
+  return amount.toFixed(2);
+}
+
+/**
+ * Deterministic run of decimal digits derived from a seed
+ */
+function digits(seed: string, length: number): string {
+  return BigInt(`0x${createHash('sha256').update(seed).digest('hex').slice(0, 12)}`).toString().slice(-length).padStart(length, '0');
+}
+
+/**
+ * Shipping zone 1-8 from the distance between the zip codes' first digits; 9 for international
+ */
+function shippingZone(fromZip: string, toZip: string, international: boolean): number {
+  if (international) {
+    return 9;
+  }
+
+  const from = parseInt(fromZip.charAt(0), 10);
+  const to = parseInt(toZip.charAt(0), 10);
+  return Number.isNaN(from) || Number.isNaN(to) ? 5 : 1 + Math.min(7, Math.abs(from - to));
+}
+
+function transitDays(service: SimulatedService, zone: number, international: boolean): number {
+  return service.days + (service.days >= 3 ? Math.floor((zone - 1) / 3) : 0) + (international ? 4 : 0);
+}
+
+const LABEL_WIDTH = 400;
+const LABEL_HEIGHT = 600;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+/**
+ * Render a 4x6 label as an 8-bit grayscale PNG: a border, address dividers and
+ * barcode stripes derived from the seed, so each tracking code has its own image
+ */
+function renderLabelPng(seed: string): Buffer {
+  const pattern = createHash('sha256').update(seed).digest();
+  const stride = LABEL_WIDTH + 1;
+  const pixels = Buffer.alloc(stride * LABEL_HEIGHT, 0xff);
+
+  for (let y = 0; y < LABEL_HEIGHT; y++) {
+    pixels[y * stride] = 0; // No filter
+
+    for (let x = 0; x < LABEL_WIDTH; x++) {
+      const border = x < 6 || y < 6 || x >= LABEL_WIDTH - 6 || y >= LABEL_HEIGHT - 6;
+      const divider = (y >= 196 && y < 200) || (y >= 396 && y < 400);
+      const module = Math.floor((x - 40) / 2);
+      const bar = y >= 430 && y < 560 && x >= 40 && x < 360 && ((pattern[module >> 3]! >> (module & 7)) & 1) === 1;
+
+      if (border || divider || bar) {
+        pixels[y * stride + 1 + x] = 0;
+      }
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(LABEL_WIDTH, 0);
+  header.writeUInt32BE(LABEL_HEIGHT, 4);
+  header[8] = 8;
+  header[9] = 0;
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(pixels)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+
+  const typeAndData = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+  let crc = 0xffffffff;
+  for (const byte of typeAndData) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  }
+
+  const checksum = Buffer.alloc(4);
+  checksum.writeUInt32BE((crc ^ 0xffffffff) >>> 0);
+
+  return Buffer.concat([length, typeAndData, checksum]);
+}
+
+/**
+ * Render a ZPL or EPL2 label with the service, destination and tracking barcode
+ */
+function renderThermalLabel(shipment: EasyPostShipment, format: 'ZPL' | 'EPL2'): string {
+  const to = shipment.to_address;
+  const lines = [
+    `${shipment.selected_rate?.carrier ?? ''} ${shipment.selected_rate?.service ?? ''}`.trim(),
+    to.name ?? to.company ?? '',
+    to.street1,
+    `${to.city} ${to.state} ${to.zip}`
+  ].filter(line => line.length > 0);
+  const trackingCode = shipment.tracking_code ?? shipment.id;
+
+  if (format === 'ZPL') {
+    return [
+      '^XA',
+      ...lines.map((line, index) => `^FO50,${50 + index * 50}^A0N,40,40^FD${line}^FS`),
+      `^FO50,${100 + lines.length * 50}^BCN,150,Y,N,N^FD${trackingCode}^FS`,
+      '^XZ'
+    ].join('\n');
+  }
+
+  return [
+    'N',
+    ...lines.map((line, index) => `A50,${50 + index * 50},0,4,1,1,N,"${line}"`),
+    `B50,${100 + lines.length * 50},0,1,3,7,150,B,"${trackingCode}"`,
+    'P1'
+  ].join('\n');
+}
@@ -0,0 +1,303 @@
+import { createHash } from 'crypto';
+import NodeCache from 'node-cache';
+import Redis from 'ioredis';
+import stringify from 'fast-json-stable-stringify';
+import { logger } from '../utils/logger.js';
+import {
+  EasyPostError,
+  IdempotencyRecord,
+  IdempotentResult,
+  CONSTANTS
+} from '../types/index.js';
+
+/**
+ * Storage backend for idempotency records and in-flight locks
+ */
+export interface IdempotencyStore {
+  readonly kind: 'memory' | 'redis';
+  get(key: string): Promise<IdempotencyRecord | undefined>;
+  set(record: IdempotencyRecord, ttlSeconds: number): Promise<void>;
+  /**
+   * Claim a key for an in-flight request. Returns false if another request holds it.
+   */
+  acquire(key: string, ttlSeconds: number): Promise<boolean>;
+  release(key: string): Promise<void>;
+  /**
+   * Throws when the backend is unreachable
+   */
+  ping(): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Process-local idempotency store
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  readonly kind = 'memory' as const;
+  private records = new NodeCache({ checkperiod: 120, useClones: false, deleteOnExpire: true });
+  private locks = new NodeCache({ checkperiod: 60, useClones: false, deleteOnExpire: true });
+
+  async get(key: string): Promise<IdempotencyRecord | undefined> {
+    return this.records.get<IdempotencyRecord>(key);
+  }
+
+  async set(record: IdempotencyRecord, ttlSeconds: number): Promise<void> {
+    this.records.set(record.key, record, ttlSeconds);
+  }
+
+  async acquire(key: string, ttlSeconds: number): Promise<boolean> {
+    if (this.locks.has(key)) {
+      return false;
+    }
+
+    this.locks.set(key, true, ttlSeconds);
+    return true;
+  }
+
+  async release(key: string): Promise<void> {
+    this.locks.del(key);
+  }
+
+  async ping(): Promise<void> {
+    // Always reachable
+  }
+
+  async close(): Promise<void> {
+    this.records.close();
+    this.locks.close();
+  }
+}
+
+/**
+ * Redis-backed idempotency store, shared by all server instances
+ */
+export class RedisIdempotencyStore implements IdempotencyStore {
+  readonly kind = 'redis' as const;
+  private redis: Redis;
+  private readonly prefix = 'easypost-mcp:idempotency:';
+
+  constructor(redisUrl: string) {
+    this.redis = new Redis(redisUrl, {
+      maxRetriesPerRequest: 3,
+      lazyConnect: true,
+      keepAlive: 30000
+    });
+
+    this.redis.on('connect', () => {
+      logger.info('Redis idempotency store connected');
+    });
+
+    this.redis.on('error', (error) => {
+      logger.error('Redis idempotency store error', { error: error.message });
+    });
+  }
+
+  async get(key: string): Promise<IdempotencyRecord | undefined> {
+    const value = await this.redis.get(`${this.prefix}${key}`);
+    return value ? JSON.parse(value) as IdempotencyRecord : undefined;
+  }
+
+  async set(record: IdempotencyRecord, ttlSeconds: number): Promise<void> {
+    await this.redis.set(`${this.prefix}${record.key}`, JSON.stringify(record), 'EX', ttlSeconds);
+  }
+
+  async acquire(key: string, ttlSeconds: number): Promise<boolean> {
+    const result = await this.redis.set(`${this.prefix}lock:${key}`, '1', 'EX', ttlSeconds, 'NX');
+    return result === 'OK';
+  }
+
+  async release(key: string): Promise<void> {
+    await this.redis.del(`${this.prefix}lock:${key}`);
+  }
+
+  async ping(): Promise<void> {
+    await this.redis.ping();
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
+
+/**
+ * Create the idempotency store: Redis when a URL is configured, in-memory otherwise
+ */
+export function createIdempotencyStore(redisUrl?: string): IdempotencyStore {
+  return redisUrl ? new RedisIdempotencyStore(redisUrl) : new MemoryIdempotencyStore();
+}
+
+/**
+ * Runs money-spending operations at most once per idempotency key.
+ * A repeated key within the TTL returns the stored result of the first call;
+ * reusing a key with different parameters is rejected. Failed calls are not
+ * recorded, so a caller can retry them with the same key.
+ */
+export class IdempotencyManager {
+  private store: IdempotencyStore;
+  private ttlSeconds: number;
+  private scope: (() => string) | undefined;
+  private inFlight = new Map<string, Promise<IdempotentResult<unknown>>>();
+
+  /**
+   * @param scope Returns the scope requests belong to, e.g. the EasyPost account and mode.
+   * A key reused in another scope is rejected instead of replaying a result from elsewhere.
+   */
+  constructor(store: IdempotencyStore, ttlSeconds: number = CONSTANTS.IDEMPOTENCY_TTL, scope?: () => string) {
+    this.store = store;
+    this.ttlSeconds = ttlSeconds;
+    this.scope = scope;
+
+    logger.info('Idempotency store initialized', { store: store.kind, ttl: ttlSeconds });
+  }
+
+  /**
+   * Execute an operation under an idempotency key. When no key is passed, one is
+   * derived from the operation name and parameters, so identical retries dedupe.
+   */
+  async execute<T>(
+    operation: string,
+    params: Record<string, unknown>,
+    idempotencyKey: string | undefined,
+    fn: (idempotencyKey: string) => Promise<T>
+  ): Promise<IdempotentResult<T>> {
+    const scope = this.scope?.();
+    const request = scope === undefined ? { operation, params } : { operation, params, scope };
+    const fingerprint = createHash('sha256').update(stringify(request)).digest('hex');
+    const key = idempotencyKey ?? `${operation}:${fingerprint.slice(0, 32)}`;
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      logger.info('Awaiting in-flight request for idempotency key', { operation, idempotencyKey: key });
+      const outcome = await pending;
+      this.assertSameRequest(key, operation, fingerprint, outcome.operation, outcome.fingerprint);
+      return { ...outcome, replayed: true } as IdempotentResult<T>;
+    }
+
+    const promise = this.run(operation, key, fingerprint, fn);
+    this.inFlight.set(key, promise);
+
+    try {
+      return await promise;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * Check that the underlying store is reachable
+   */
+  async ping(): Promise<void> {
+    await this.store.ping();
+  }
+
+  /**
+   * Close the underlying store
+   */
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+
+  private async run<T>(
+    operation: string,
+    key: string,
+    fingerprint: string,
+    fn: (idempotencyKey: string) => Promise<T>
+  ): Promise<IdempotentResult<T>> {
+    const existing = await this.lookup(key);
+    if (existing) {
+      this.assertSameRequest(key, operation, fingerprint, existing.operation, existing.fingerprint);
+      logger.info('Replaying stored result for idempotency key', { operation, idempotencyKey: key });
+      return { ...existing, result: existing.result as T, replayed: true };
+    }
+
+    if (!await this.storeCall(() => this.store.acquire(key, CONSTANTS.IDEMPOTENCY_LOCK_TTL))) {
+      // Another instance may have finished between the lookup and the lock attempt
+      const completed = await this.lookup(key);
+      if (completed) {
+        this.assertSameRequest(key, operation, fingerprint, completed.operation, completed.fingerprint);
+        return { ...completed, result: completed.result as T, replayed: true };
+      }
+
+      throw new EasyPostError(
+        `A request with idempotency key ${key} is already in progress`,
+        'IDEMPOTENCY_KEY_IN_PROGRESS',
+        { idempotencyKey: key, operation },
+        409
+      );
+    }
+
+    try {
+      const result = await fn(key);
+      const record: IdempotencyRecord = {
+        key,
+        operation,
+        fingerprint,
+        result,
+        createdAt: new Date().toISOString()
+      };
+
+      try {
+        await this.store.set(record, this.ttlSeconds);
+      } catch (error) {
+        // The purchase went through; failing now would invite a duplicate retry
+        logger.error('Failed to record idempotent result', {
+          operation,
+          idempotencyKey: key,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+
+      return { ...record, result, replayed: false };
+
+    } finally {
+      await this.store.release(key).catch((error: unknown) => {
+        logger.warn('Failed to release idempotency lock', {
+          idempotencyKey: key,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    }
+  }
+
+  private async lookup(key: string): Promise<IdempotencyRecord | undefined> {
+    return this.storeCall(() => this.store.get(key));
+  }
+
+  /**
+   * Fail closed: without the store we cannot rule out a duplicate purchase
+   */
+  private async storeCall<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      logger.error('Idempotency store unavailable', {
+        store: this.store.kind,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      throw new EasyPostError(
+        'Idempotency store unavailable; purchase not attempted',
+        'IDEMPOTENCY_STORE_UNAVAILABLE',
+        { store: this.store.kind, originalError: error },
+        503
+      );
+    }
+  }
+
+  private assertSameRequest(
+    key: string,
+    operation: string,
+    fingerprint: string,
+    storedOperation: string,
+    storedFingerprint: string
+  ): void {
+    if (operation !== storedOperation || fingerprint !== storedFingerprint) {
+      throw new EasyPostError(
+        `Idempotency key ${key} was already used for a different request`,
+        'IDEMPOTENCY_KEY_CONFLICT',
+        { idempotencyKey: key, operation, originalOperation: storedOperation },
+        422
+      );
+    }
+  }
+}
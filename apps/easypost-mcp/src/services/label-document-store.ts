@@ -0,0 +1,98 @@
+import { randomUUID } from 'crypto';
+import NodeCache from 'node-cache';
+import { logger } from '../utils/logger.js';
+import {
+  LabelDocument,
+  LabelDocumentSummary,
+  ResourceDefinition,
+  CONSTANTS
+} from '../types/index.js';
+
+/**
+ * In-memory store of merged label documents, exposed as MCP resources
+ * under easypost://labels/{id} until they expire
+ */
+export class LabelDocumentStore {
+  private documents: NodeCache;
+  private ttlSeconds: number;
+
+  constructor(ttlSeconds: number = CONSTANTS.LABEL_DOCUMENT_TTL) {
+    this.ttlSeconds = ttlSeconds;
+    this.documents = new NodeCache({
+      stdTTL: ttlSeconds,
+      checkperiod: 300,
+      useClones: false,
+      deleteOnExpire: true,
+      maxKeys: 100
+    });
+  }
+
+  /**
+   * Store a label document and assign its resource URI
+   */
+  save(document: Omit<LabelDocument, 'uri' | 'byteLength' | 'createdAt' | 'expiresAt'>): LabelDocumentSummary {
+    const now = Date.now();
+    const stored: LabelDocument = {
+      ...document,
+      uri: `${CONSTANTS.LABEL_DOCUMENT_URI_PREFIX}${randomUUID()}.${document.format.toLowerCase()}`,
+      byteLength: document.content.length,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttlSeconds * 1000).toISOString()
+    };
+
+    this.documents.set(stored.uri, stored);
+    logger.info('Label document stored', {
+      uri: stored.uri,
+      format: stored.format,
+      labelCount: stored.labelCount,
+      byteLength: stored.byteLength
+    });
+
+    return toSummary(stored);
+  }
+
+  /**
+   * Get a stored document by resource URI
+   */
+  get(uri: string): LabelDocument | undefined {
+    return this.documents.get<LabelDocument>(uri);
+  }
+
+  /**
+   * Check whether a URI belongs to this store
+   */
+  handles(uri: string): boolean {
+    return uri.startsWith(CONSTANTS.LABEL_DOCUMENT_URI_PREFIX);
+  }
+
+  /**
+   * Resource definitions for the documents currently held
+   */
+  getResourceDefinitions(): ResourceDefinition[] {
+    return this.documents.keys()
+      .map(uri => this.documents.get<LabelDocument>(uri))
+      .filter((document): document is LabelDocument => document !== undefined)
+      .map(document => ({
+        uri: document.uri,
+        name: document.title ?? `Merged ${document.format} labels (${document.labelCount})`,
+        description: document.title
+          ? `${document.title}, available until ${document.expiresAt}`
+          : document.batchId
+          ? `Merged labels for batch ${document.batchId}, available until ${document.expiresAt}`
+          : `Merged labels for ${document.labelCount} shipments, available until ${document.expiresAt}`,
+        mimeType: document.mimeType
+      }));
+  }
+
+  /**
+   * Release the expiry timer
+   */
+  close(): void {
+    this.documents.close();
+  }
+}
+
+function toSummary(document: LabelDocument): LabelDocumentSummary {
+  const { content: _content, ...summary } = document;
+  return summary;
+}
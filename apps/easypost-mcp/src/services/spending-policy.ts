@@ -0,0 +1,518 @@
+import { createHash, randomBytes } from 'crypto';
+import NodeCache from 'node-cache';
+import Redis from 'ioredis';
+import stringify from 'fast-json-stable-stringify';
+import { logger } from '../utils/logger.js';
+import {
+  AccountSelection,
+  EasyPostError,
+  SpendingLimits,
+  SpendSummary,
+  SpendWindow,
+  CONSTANTS
+} from '../types/index.js';
+
+/**
+ * Error codes of purchases rejected by the spending policy
+ */
+export const SPENDING_POLICY_ERROR_CODES = [
+  'SPEND_LIMIT_EXCEEDED',
+  'SPEND_CONFIRMATION_REQUIRED',
+  'SPEND_CONFIRMATION_INVALID',
+  'SPEND_STORE_UNAVAILABLE',
+  'SPEND_CURRENCY_UNSUPPORTED'
+];
+
+/**
+ * Approval issued for one purchase above the confirmation threshold
+ */
+export interface SpendConfirmation {
+  token: string;
+  fingerprint: string; // SHA-256 of operation, parameters and account
+  cents: number;
+  expiresAt: string;
+}
+
+/**
+ * Storage backend for spend counters and confirmation tokens. Amounts are in cents.
+ */
+export interface SpendStore {
+  readonly kind: 'memory' | 'redis';
+  /**
+   * Add to a counter and return its new total
+   */
+  add(key: string, cents: number, ttlSeconds: number): Promise<number>;
+  get(key: string): Promise<number>;
+  saveConfirmation(confirmation: SpendConfirmation, ttlSeconds: number): Promise<void>;
+  /**
+   * Remove and return a confirmation. Tokens are single-use.
+   */
+  takeConfirmation(token: string): Promise<SpendConfirmation | undefined>;
+  close(): Promise<void>;
+}
+
+/**
+ * Process-local spend store
+ */
+export class MemorySpendStore implements SpendStore {
+  readonly kind = 'memory' as const;
+  private counters = new NodeCache({ checkperiod: 600, useClones: false, deleteOnExpire: true });
+  private confirmations = new NodeCache({ checkperiod: 60, useClones: false, deleteOnExpire: true });
+
+  async add(key: string, cents: number, ttlSeconds: number): Promise<number> {
+    const total = (this.counters.get<number>(key) ?? 0) + cents;
+    this.counters.set(key, total, ttlSeconds);
+    return total;
+  }
+
+  async get(key: string): Promise<number> {
+    return this.counters.get<number>(key) ?? 0;
+  }
+
+  async saveConfirmation(confirmation: SpendConfirmation, ttlSeconds: number): Promise<void> {
+    this.confirmations.set(confirmation.token, confirmation, ttlSeconds);
+  }
+
+  async takeConfirmation(token: string): Promise<SpendConfirmation | undefined> {
+    const confirmation = this.confirmations.get<SpendConfirmation>(token);
+    this.confirmations.del(token);
+    return confirmation;
+  }
+
+  async close(): Promise<void> {
+    this.counters.close();
+    this.confirmations.close();
+  }
+}
+
+/**
+ * Redis-backed spend store, shared by all server instances
+ */
+export class RedisSpendStore implements SpendStore {
+  readonly kind = 'redis' as const;
+  private redis: Redis;
+  private readonly prefix = 'easypost-mcp:spend:';
+
+  constructor(redisUrl: string) {
+    this.redis = new Redis(redisUrl, {
+      maxRetriesPerRequest: 3,
+      lazyConnect: true,
+      keepAlive: 30000
+    });
+
+    this.redis.on('error', (error) => {
+      logger.error('Redis spend store error', { error: error.message });
+    });
+  }
+
+  async add(key: string, cents: number, ttlSeconds: number): Promise<number> {
+    const total = await this.redis.incrby(`${this.prefix}${key}`, cents);
+    await this.redis.expire(`${this.prefix}${key}`, ttlSeconds);
+    return total;
+  }
+
+  async get(key: string): Promise<number> {
+    const value = await this.redis.get(`${this.prefix}${key}`);
+    return value ? parseInt(value, 10) : 0;
+  }
+
+  async saveConfirmation(confirmation: SpendConfirmation, ttlSeconds: number): Promise<void> {
+    await this.redis.set(`${this.prefix}confirmation:${confirmation.token}`, JSON.stringify(confirmation), 'EX', ttlSeconds);
+  }
+
+  async takeConfirmation(token: string): Promise<SpendConfirmation | undefined> {
+    const value = await this.redis.getdel(`${this.prefix}confirmation:${token}`);
+    return value ? JSON.parse(value) as SpendConfirmation : undefined;
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
+
+/**
+ * Create the spend store: Redis when a URL is configured, in-memory otherwise
+ */
+export function createSpendStore(redisUrl?: string): SpendStore {
+  return redisUrl ? new RedisSpendStore(redisUrl) : new MemorySpendStore();
+}
+
+/**
+ * A purchase to authorize. The amount is the expected cost in USD.
+ */
+export interface SpendRequest {
+  operation: string;
+  description: string;
+  amount: number;
+  params: Record<string, unknown>;
+  confirmationToken?: string | undefined;
+}
+
+/**
+ * Spend held against the daily and monthly counters until the purchase settles
+ */
+export interface SpendReservation {
+  operation: string;
+  cents: number;
+  counters: Array<{ key: string; ttlSeconds: number }>;
+}
+
+interface SpendCounter {
+  name: 'daily' | 'monthly';
+  key: string;
+  period: string;
+  limit: number | undefined;
+  ttlSeconds: number;
+}
+
+/**
+ * Enforces per-call, daily and monthly spending limits on purchases, per EasyPost
+ * account and mode, and asks for confirmation above a threshold. Spend is reserved
+ * before a purchase and released if it fails, so concurrent purchases cannot
+ * overrun a limit. Days and months are UTC.
+ */
+export class SpendingPolicy {
+  private store: SpendStore;
+  private limits: SpendingLimits;
+  private scope: () => AccountSelection;
+  private onSpend: ((amount: number) => void) | undefined;
+
+  /**
+   * @param onSpend Called with the actual cost of every completed purchase, e.g. to audit it
+   */
+  constructor(
+    store: SpendStore,
+    limits: SpendingLimits = {},
+    scope: () => AccountSelection = () => ({ account: CONSTANTS.DEFAULT_ACCOUNT_NAME, mode: 'test' }),
+    onSpend?: (amount: number) => void
+  ) {
+    this.store = store;
+    this.limits = limits;
+    this.scope = scope;
+    this.onSpend = onSpend;
+
+    logger.info('Spending policy initialized', { store: store.kind, ...limits });
+  }
+
+  /**
+   * Run a purchase under the policy. Its spend is recorded at the actual cost when
+   * the result reports one, otherwise at the requested amount.
+   */
+  async spend<T>(request: SpendRequest, purchase: () => Promise<T>, actualAmount?: (result: T) => number | undefined): Promise<T> {
+    const reservation = await this.reserve(request);
+
+    let result: T;
+    try {
+      result = await purchase();
+    } catch (error) {
+      await this.release(reservation);
+      throw error;
+    }
+
+    await this.commit(reservation, actualAmount?.(result));
+    return result;
+  }
+
+  /**
+   * Check a purchase against the limits and hold its amount.
+   * Throws SPEND_LIMIT_EXCEEDED, SPEND_CONFIRMATION_REQUIRED or SPEND_CONFIRMATION_INVALID.
+   */
+  async reserve(request: SpendRequest, now: Date = new Date()): Promise<SpendReservation> {
+    const cents = toCents(request.amount);
+    const selection = this.scope();
+    const counters = this.counters(selection, now);
+
+    if (this.limits.perCall !== undefined && cents > toCents(this.limits.perCall)) {
+      throw this.limitExceeded(request, 'per_call', this.limits.perCall, 0);
+    }
+
+    // Check before asking for confirmation: approving a purchase over a limit is pointless
+    for (const counter of counters) {
+      const spent = await this.storeCall(() => this.store.get(counter.key));
+      if (counter.limit !== undefined && spent + cents > toCents(counter.limit)) {
+        throw this.limitExceeded(request, counter.name, counter.limit, spent);
+      }
+    }
+
+    const confirmation = await this.confirm(request, selection, cents);
+
+    // A total over the limit now means a concurrent purchase reserved first
+    const added: SpendCounter[] = [];
+    for (const counter of counters) {
+      const total = await this.storeCall(() => this.store.add(counter.key, cents, counter.ttlSeconds));
+      added.push(counter);
+
+      if (counter.limit !== undefined && total > toCents(counter.limit)) {
+        await Promise.all(added.map(entry => this.store.add(entry.key, -cents, entry.ttlSeconds)));
+        // Nothing was bought, so the approval stays usable for a retry
+        if (confirmation) {
+          await this.restoreConfirmation(confirmation);
+        }
+        throw this.limitExceeded(request, counter.name, counter.limit, total - cents);
+      }
+    }
+
+    logger.info('Spend reserved', {
+      operation: request.operation,
+      account: selection.account,
+      mode: selection.mode,
+      amount: cents / 100
+    });
+
+    return {
+      operation: request.operation,
+      cents,
+      counters: counters.map(({ key, ttlSeconds }) => ({ key, ttlSeconds }))
+    };
+  }
+
+  /**
+   * Record a completed purchase, correcting the reserved amount to the actual cost
+   */
+  async commit(reservation: SpendReservation, actualAmount?: number): Promise<void> {
+    const actual = actualAmount !== undefined && Number.isFinite(actualAmount) ? toCents(actualAmount) : reservation.cents;
+
+    if (actual !== reservation.cents) {
+      await this.adjust(reservation, actual - reservation.cents);
+    }
+
+    logger.info('Spend recorded', { operation: reservation.operation, amount: actual / 100 });
+    this.onSpend?.(actual / 100);
+  }
+
+  /**
+   * Return the reserved amount of a purchase that did not go through
+   */
+  async release(reservation: SpendReservation): Promise<void> {
+    await this.adjust(reservation, -reservation.cents);
+  }
+
+  /**
+   * Spend against the daily and monthly limits for each account and mode
+   */
+  async summary(selections: AccountSelection[], now: Date = new Date()): Promise<SpendSummary[]> {
+    return Promise.all(selections.map(async selection => {
+      const [daily, monthly] = await Promise.all(
+        this.counters(selection, now).map(async (counter): Promise<SpendWindow> => {
+          const spent = await this.storeCall(() => this.store.get(counter.key));
+          return {
+            period: counter.period,
+            spent: spent / 100,
+            limit: counter.limit ?? null,
+            remaining: counter.limit !== undefined ? Math.max(0, toCents(counter.limit) - spent) / 100 : null
+          };
+        })
+      );
+
+      return { account: selection.account, mode: selection.mode, daily: daily!, monthly: monthly! };
+    }));
+  }
+
+  /**
+   * Configured limits
+   */
+  getLimits(): SpendingLimits {
+    return { ...this.limits };
+  }
+
+  /**
+   * Close the underlying store
+   */
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+
+  /**
+   * Require a confirmation token for purchases above the threshold. A token approves
+   * one purchase with the same parameters, account and mode, up to the approved amount.
+   * Returns the confirmation the purchase used, if it needed one.
+   */
+  private async confirm(request: SpendRequest, selection: AccountSelection, cents: number): Promise<SpendConfirmation | undefined> {
+    const threshold = this.limits.confirmationThreshold;
+    if (threshold === undefined || cents <= toCents(threshold)) {
+      return undefined;
+    }
+
+    const fingerprint = createHash('sha256')
+      .update(stringify({ operation: request.operation, params: request.params, selection }))
+      .digest('hex');
+
+    if (request.confirmationToken) {
+      const confirmation = await this.storeCall(() => this.store.takeConfirmation(request.confirmationToken!));
+
+      if (!confirmation || confirmation.fingerprint !== fingerprint) {
+        throw new EasyPostError(
+          'Confirmation token is expired, already used or was issued for a different purchase',
+          'SPEND_CONFIRMATION_INVALID',
+          { operation: request.operation }
+        );
+      }
+
+      if (cents <= confirmation.cents) {
+        logger.info('Purchase confirmed', { operation: request.operation, amount: cents / 100 });
+        return confirmation;
+      }
+      // The price rose since approval: ask again for the new amount
+    }
+
+    const ttlSeconds = this.limits.confirmationTtl ?? CONSTANTS.SPEND_CONFIRMATION_TTL;
+    const confirmation: SpendConfirmation = {
+      token: `spc_${randomBytes(16).toString('hex')}`,
+      fingerprint,
+      cents,
+      expiresAt: new Date(Date.now() + ttlSeconds * 1000).toISOString()
+    };
+    await this.storeCall(() => this.store.saveConfirmation(confirmation, ttlSeconds));
+
+    logger.warn('Purchase needs confirmation', { operation: request.operation, amount: cents / 100, threshold });
+
+    throw new EasyPostError(
+      `${request.description} costs ${formatUsd(cents / 100)}, above the confirmation threshold of ${formatUsd(threshold)}. ` +
+      `Ask the user to approve it, then repeat the call with confirmationToken "${confirmation.token}"`,
+      'SPEND_CONFIRMATION_REQUIRED',
+      {
+        operation: request.operation,
+        amount: cents / 100,
+        threshold,
+        confirmationToken: confirmation.token,
+        expiresAt: confirmation.expiresAt
+      }
+    );
+  }
+
+  /**
+   * Put back a confirmation taken for a purchase that was then refused
+   */
+  private async restoreConfirmation(confirmation: SpendConfirmation): Promise<void> {
+    const ttlSeconds = Math.ceil((Date.parse(confirmation.expiresAt) - Date.now()) / 1000);
+    if (ttlSeconds <= 0) {
+      return;
+    }
+
+    try {
+      await this.store.saveConfirmation(confirmation, ttlSeconds);
+    } catch (error) {
+      logger.error('Failed to restore confirmation', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private counters(selection: AccountSelection, now: Date): SpendCounter[] {
+    const scope = `${selection.account}:${selection.mode}`;
+    const day = now.toISOString().slice(0, 10);
+    const month = now.toISOString().slice(0, 7);
+
+    return [
+      { name: 'daily', key: `${scope}:${day}`, period: day, limit: this.limits.daily, ttlSeconds: 2 * 86400 },
+      { name: 'monthly', key: `${scope}:${month}`, period: month, limit: this.limits.monthly, ttlSeconds: 32 * 86400 }
+    ];
+  }
+
+  private limitExceeded(request: SpendRequest, limit: 'per_call' | 'daily' | 'monthly', limitAmount: number, spentCents: number): EasyPostError {
+    const remaining = Math.max(0, toCents(limitAmount) - spentCents) / 100;
+    const label = limit === 'per_call' ? 'per-call' : limit;
+
+    logger.warn('Purchase rejected by spending policy', {
+      operation: request.operation,
+      limit,
+      amount: request.amount,
+      remaining
+    });
+
+    return new EasyPostError(
+      limit === 'per_call'
+        ? `${request.description} costs ${formatUsd(request.amount)}, over the per-call limit of ${formatUsd(limitAmount)}`
+        : `${request.description} costs ${formatUsd(request.amount)}, but only ${formatUsd(remaining)} of the ${label} limit of ${formatUsd(limitAmount)} remains`,
+      'SPEND_LIMIT_EXCEEDED',
+      { operation: request.operation, limit, limitAmount, spent: spentCents / 100, requested: request.amount, remaining },
+      403
+    );
+  }
+
+  private async adjust(reservation: SpendReservation, cents: number): Promise<void> {
+    try {
+      await Promise.all(reservation.counters.map(counter => this.store.add(counter.key, cents, counter.ttlSeconds)));
+    } catch (error) {
+      // The purchase outcome stands; a stale counter is logged rather than failing it
+      logger.error('Failed to adjust spend counters', {
+        operation: reservation.operation,
+        cents,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Fail closed: without the store we cannot tell how much has been spent
+   */
+  private async storeCall<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      logger.error('Spend store unavailable', {
+        store: this.store.kind,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      throw new EasyPostError(
+        'Spend store unavailable; purchase not attempted',
+        'SPEND_STORE_UNAVAILABLE',
+        { store: this.store.kind, originalError: error },
+        503
+      );
+    }
+  }
+}
+
+/**
+ * USD cost of a rate. Limits are in USD, so a rate in another currency is refused
+ * rather than counted as dollars.
+ */
+export function rateCost(rate: { rate: string; currency?: string | undefined }, description: string): number {
+  if (!isUsd(rate.currency)) {
+    throw new EasyPostError(
+      `${description} is priced in ${rate.currency}; spending limits are in USD, so only USD rates can be bought`,
+      'SPEND_CURRENCY_UNSUPPORTED',
+      { description, currency: rate.currency },
+      422
+    );
+  }
+
+  return parseFloat(rate.rate);
+}
+
+/**
+ * USD cost of the rate a purchase was made at; undefined for another currency
+ */
+export function purchasedRateCost(rate: { rate: string; currency?: string | undefined } | undefined): number | undefined {
+  return rate && isUsd(rate.currency) ? parseFloat(rate.rate) : undefined;
+}
+
+/**
+ * Insurance fee to hold for a coverage amount before the purchase reports the
+ * fee actually charged
+ */
+export function estimateInsuranceFee(coverage: number): number {
+  return Math.max(coverage * CONSTANTS.INSURANCE_FEE_RATE, CONSTANTS.INSURANCE_FEE_MINIMUM);
+}
+
+/**
+ * Insurance fee charged on an insured shipment, if it reports one
+ */
+export function chargedInsuranceFee(shipment: { fees?: Array<{ type: string; amount: string; charged: boolean }> | undefined }): number | undefined {
+  const fees = (shipment.fees ?? []).filter(fee => fee.type === 'InsuranceFee' && fee.charged);
+  return fees.length > 0 ? fees.reduce((total, fee) => total + parseFloat(fee.amount), 0) : undefined;
+}
+
+function isUsd(currency: string | undefined): boolean {
+  return !currency || currency.toUpperCase() === 'USD';
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
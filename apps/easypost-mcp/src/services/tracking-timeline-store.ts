@@ -0,0 +1,182 @@
+import NodeCache from 'node-cache';
+import { logger } from '../utils/logger.js';
+import {
+  EasyPostRefund,
+  EasyPostShipment,
+  EasyPostTracker,
+  TrackingTimeline,
+  TrackingTimelineEvent,
+  CONSTANTS
+} from '../types/index.js';
+
+/**
+ * Per-shipment status history built from tracker, batch, refund and return updates.
+ * Tracker updates carry the carrier's full scan history, so each update is merged
+ * into the stored timeline rather than appended. Timelines expire after
+ * CONSTANTS.TRACKING_TIMELINE_TTL without updates.
+ */
+export class TrackingTimelineStore {
+  private timelines: NodeCache;
+
+  constructor(ttlSeconds: number = CONSTANTS.TRACKING_TIMELINE_TTL) {
+    this.timelines = new NodeCache({
+      stdTTL: ttlSeconds,
+      checkperiod: 3600,
+      useClones: false,
+      deleteOnExpire: true
+    });
+  }
+
+  /**
+   * Get the timeline of a shipment
+   */
+  get(shipmentId: string): TrackingTimeline | undefined {
+    return this.timelines.get<TrackingTimeline>(shipmentId);
+  }
+
+  /**
+   * Merge a tracker's scan history into its shipment's timeline.
+   * Trackers not attached to a shipment are not recorded.
+   */
+  recordTracker(tracker: EasyPostTracker): TrackingTimeline | undefined {
+    if (!tracker.shipment_id) {
+      logger.debug('Tracker has no shipment, not recorded', { trackerId: tracker.id });
+      return undefined;
+    }
+
+    const events: TrackingTimelineEvent[] = tracker.tracking_details.map(detail => ({
+      type: 'tracking',
+      datetime: detail.datetime,
+      status: detail.status,
+      status_detail: detail.status_detail,
+      message: detail.message,
+      source: detail.source,
+      location: detail.tracking_location && {
+        city: detail.tracking_location.city,
+        state: detail.tracking_location.state,
+        country: detail.tracking_location.country,
+        zip: detail.tracking_location.zip
+      }
+    }));
+
+    return this.update(tracker.shipment_id, timeline => ({
+      ...timeline,
+      tracker_id: tracker.id,
+      tracking_code: tracker.tracking_code,
+      carrier: tracker.carrier,
+      status: tracker.status ?? timeline.status,
+      status_detail: tracker.status_detail ?? timeline.status_detail,
+      est_delivery_date: tracker.est_delivery_date ?? timeline.est_delivery_date,
+      events: mergeEvents(timeline.events, events)
+    }));
+  }
+
+  /**
+   * Record a shipment's status within a batch, e.g. "postage_purchased"
+   */
+  recordBatchStatus(shipmentId: string, batchId: string, batchStatus: string, datetime: string, message?: string): TrackingTimeline {
+    return this.update(shipmentId, timeline => ({
+      ...timeline,
+      batch_id: batchId,
+      events: mergeEvents(timeline.events, [{
+        type: 'batch',
+        datetime,
+        status: batchStatus,
+        message: message ?? `Batch ${batchId}: ${batchStatus}`
+      }])
+    }));
+  }
+
+  /**
+   * Record a completed postage refund
+   */
+  recordRefund(refund: EasyPostRefund): TrackingTimeline {
+    return this.update(refund.shipment_id, timeline => ({
+      ...timeline,
+      refund_status: refund.status,
+      events: mergeEvents(timeline.events, [{
+        type: 'refund',
+        datetime: refund.updated_at ?? refund.created_at ?? new Date().toISOString(),
+        status: refund.status,
+        message: refund.confirmation_number
+          ? `Postage refund ${refund.status} (confirmation ${refund.confirmation_number})`
+          : `Postage refund ${refund.status}`
+      }])
+    }));
+  }
+
+  /**
+   * Link a return shipment to its outbound shipment, on both timelines
+   */
+  recordReturn(originalShipmentId: string, returnShipment: EasyPostShipment): TrackingTimeline {
+    this.update(returnShipment.id, timeline => ({
+      ...timeline,
+      tracking_code: returnShipment.tracking_code ?? timeline.tracking_code,
+      carrier: returnShipment.selected_rate?.carrier ?? timeline.carrier,
+      original_shipment_id: originalShipmentId
+    }));
+
+    return this.update(originalShipmentId, timeline => ({
+      ...timeline,
+      return_shipment_ids: [...new Set([...(timeline.return_shipment_ids ?? []), returnShipment.id])],
+      events: mergeEvents(timeline.events, [{
+        type: 'return',
+        datetime: returnShipment.updated_at,
+        status: 'return_label_created',
+        message: returnShipment.tracking_code
+          ? `Return shipment ${returnShipment.id} created (tracking ${returnShipment.tracking_code})`
+          : `Return shipment ${returnShipment.id} created`
+      }])
+    }));
+  }
+
+  /**
+   * Number of timelines held
+   */
+  size(): number {
+    return this.timelines.keys().length;
+  }
+
+  /**
+   * Release the expiry timer
+   */
+  close(): void {
+    this.timelines.close();
+  }
+
+  private update(shipmentId: string, change: (timeline: TrackingTimeline) => TrackingTimeline): TrackingTimeline {
+    const current = this.get(shipmentId) ?? { shipment_id: shipmentId, events: [], updated_at: new Date().toISOString() };
+    const updated = { ...change(current), updated_at: new Date().toISOString() };
+
+    this.timelines.set(shipmentId, updated);
+    logger.debug('Tracking timeline updated', {
+      shipmentId,
+      status: updated.status,
+      eventCount: updated.events.length
+    });
+
+    return updated;
+  }
+}
+
+/**
+ * Add events not already present, keeping the timeline in chronological order.
+ * Batch and refund statuses are recorded once each, however often they are redelivered;
+ * return events once per return shipment.
+ */
+function mergeEvents(existing: TrackingTimelineEvent[], incoming: TrackingTimelineEvent[]): TrackingTimelineEvent[] {
+  const key = (event: TrackingTimelineEvent) => event.type === 'tracking' || event.type === 'return'
+    ? `${event.type}|${event.datetime}|${event.status}|${event.message ?? ''}`
+    : `${event.type}|${event.status}`;
+  const seen = new Set(existing.map(key));
+  const merged = [...existing];
+
+  for (const event of incoming) {
+    if (!seen.has(key(event))) {
+      seen.add(key(event));
+      merged.push(event);
+    }
+  }
+
+  return merged.sort((a, b) => Date.parse(a.datetime) - Date.parse(b.datetime));
+}
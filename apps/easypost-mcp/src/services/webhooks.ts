@@ -0,0 +1,174 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import NodeCache from 'node-cache';
+import { z } from 'zod';
+import { logger } from '../utils/logger.js';
+import { TrackingTimelineStore } from './tracking-timeline-store.js';
+import {
+  EasyPostBatchEventResultSchema,
+  EasyPostError,
+  EasyPostEventSchema,
+  EasyPostRefundSchema,
+  EasyPostTrackerSchema,
+  CONSTANTS
+} from '../types/index.js';
+
+const SIGNATURE_PREFIX = 'hmac-sha256-hex=';
+
+export type WebhookEventStatus = 'processed' | 'duplicate' | 'ignored';
+
+export interface WebhookOutcome {
+  eventId: string;
+  description: string;
+  status: WebhookEventStatus;
+}
+
+/**
+ * Verify the X-Hmac-Signature header EasyPost sends with each event:
+ * an HMAC-SHA256 of the raw body keyed with the NFKD-normalized webhook secret
+ */
+export function verifyWebhookSignature(rawBody: Buffer, signature: string | undefined, secret: string): boolean {
+  if (!signature?.startsWith(SIGNATURE_PREFIX)) {
+    return false;
+  }
+
+  const expected = createHmac('sha256', secret.normalize('NFKD')).update(rawBody).digest();
+  const received = Buffer.from(signature.slice(SIGNATURE_PREFIX.length), 'hex');
+
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+/**
+ * Drops the cached responses carrying one of the tags
+ */
+export type CacheInvalidator = (tags: string[]) => Promise<void>;
+
+/**
+ * Applies verified EasyPost events to the tracking timelines and drops the cached
+ * responses of the shipments, trackers and batches they change.
+ * EasyPost retries deliveries until it gets a 2xx, so redelivered event IDs are
+ * acknowledged without being applied again, and unhandled event types are acknowledged too.
+ */
+export class WebhookProcessor {
+  private timelines: TrackingTimelineStore;
+  private seenEvents: NodeCache;
+  private invalidateCache: CacheInvalidator | undefined;
+
+  constructor(timelines: TrackingTimelineStore, invalidateCache?: CacheInvalidator) {
+    this.timelines = timelines;
+    this.invalidateCache = invalidateCache;
+    this.seenEvents = new NodeCache({
+      stdTTL: CONSTANTS.WEBHOOK_EVENT_TTL,
+      checkperiod: 600,
+      useClones: false,
+      deleteOnExpire: true
+    });
+  }
+
+  /**
+   * Apply one event. Throws INVALID_WEBHOOK_EVENT when the payload is not an EasyPost event.
+   */
+  process(payload: unknown): WebhookOutcome {
+    const envelope = EasyPostEventSchema.safeParse(payload);
+    if (!envelope.success) {
+      throw new EasyPostError(
+        'Webhook payload is not an EasyPost event',
+        'INVALID_WEBHOOK_EVENT',
+        { errors: envelope.error.errors }
+      );
+    }
+
+    const event = envelope.data;
+    if (this.seenEvents.has(event.id)) {
+      logger.info('Duplicate webhook event ignored', { eventId: event.id, description: event.description });
+      return { eventId: event.id, description: event.description, status: 'duplicate' };
+    }
+
+    const status = this.apply(event.description, event.result, event.created_at);
+    this.seenEvents.set(event.id, true);
+
+    logger.info('Webhook event handled', {
+      eventId: event.id,
+      description: event.description,
+      mode: event.mode,
+      status
+    });
+
+    return { eventId: event.id, description: event.description, status };
+  }
+
+  /**
+   * Release the expiry timer
+   */
+  close(): void {
+    this.seenEvents.close();
+  }
+
+  private apply(description: string, result: Record<string, unknown>, createdAt?: string): WebhookEventStatus {
+    switch (description) {
+      case 'tracker.updated': {
+        const tracker = this.parseResult(EasyPostTrackerSchema, result, description);
+        this.timelines.recordTracker(tracker);
+        this.invalidate([
+          `tracker:${tracker.id}`,
+          'tracker:*',
+          ...(tracker.shipment_id ? [`shipment:${tracker.shipment_id}`] : [])
+        ]);
+        return 'processed';
+      }
+
+      case 'batch.updated': {
+        const batch = this.parseResult(EasyPostBatchEventResultSchema, result, description);
+        const datetime = batch.updated_at ?? createdAt ?? new Date().toISOString();
+
+        for (const shipment of batch.shipments) {
+          if (shipment.batch_status) {
+            this.timelines.recordBatchStatus(
+              shipment.id,
+              batch.id,
+              shipment.batch_status,
+              datetime,
+              shipment.batch_message ?? undefined
+            );
+          }
+        }
+        this.invalidate([`batch:${batch.id}`, 'batch:*', ...batch.shipments.map(shipment => `shipment:${shipment.id}`)]);
+        return 'processed';
+      }
+
+      case 'refund.successful': {
+        const refund = this.parseResult(EasyPostRefundSchema, result, description);
+        this.timelines.recordRefund(refund);
+        this.invalidate([`shipment:${refund.shipment_id}`, 'shipment:*', 'refund:*']);
+        return 'processed';
+      }
+
+      default:
+        return 'ignored';
+    }
+  }
+
+  /**
+   * Drop cached responses in the background; events are acknowledged without waiting
+   */
+  private invalidate(tags: string[]): void {
+    this.invalidateCache?.(tags).catch(error => {
+      logger.warn('Failed to invalidate cached responses for webhook event', {
+        tags,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+  }
+
+  private parseResult<S extends z.ZodTypeAny>(schema: S, result: unknown, description: string): z.output<S> {
+    const parsed = schema.safeParse(result);
+    if (!parsed.success) {
+      throw new EasyPostError(
+        `Webhook ${description} event has an unexpected result`,
+        'INVALID_WEBHOOK_EVENT',
+        { description, errors: parsed.error.errors }
+      );
+    }
+
+    return parsed.data;
+  }
+}
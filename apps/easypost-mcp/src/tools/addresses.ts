@@ -0,0 +1,132 @@
+import {
+  AddressValidationRequest,
+  AddressValidationRequestSchema,
+  AddressVerificationRequestSchema,
+  EasyPostAddress,
+  SaveAddressRequestSchema,
+  UpdateAddressRequestSchema,
+  AddressNameRequestSchema,
+  ListAddressesRequestSchema,
+  SavedAddress
+} from '../types/index.js';
+import { defineTool, toolResult, ToolSpec } from './registry.js';
+import type { ToolContext } from './index.js';
+
+/**
+ * Address validation, verification and address book tools
+ */
+export function createAddressTools({ handlers, addressBook }: ToolContext): ToolSpec[] {
+  /**
+   * Verify an address with EasyPost and keep the normalized fields
+   */
+  const verify = async (address: AddressValidationRequest): Promise<Omit<SavedAddress, 'name' | 'created_at' | 'updated_at'>> => {
+    const verified = await handlers.validateAddress(address);
+    return {
+      address: normalizedAddress(verified, address),
+      easypost_address_id: verified.id,
+      verified: verified.verifications?.delivery?.success ?? false
+    };
+  };
+
+  return [
+    defineTool({
+      name: 'validate_address',
+      description: 'Validate and normalize an address',
+      inputSchema: AddressValidationRequestSchema,
+      annotations: { readOnlyHint: true },
+      handler: async (args) => {
+        const result = await handlers.validateAddress(args);
+        return toolResult([
+          'Address validation complete',
+          `Valid: ${result.verifications?.delivery?.success ? 'Yes' : 'No'}`
+        ], result);
+      }
+    }),
+
+    defineTool({
+      name: 'verify_address',
+      description: 'Advanced address verification with carrier validation',
+      inputSchema: AddressVerificationRequestSchema,
+      annotations: { readOnlyHint: true },
+      handler: async (args) => {
+        const result = await handlers.verifyAddress(args);
+        return toolResult('Address verification complete', result);
+      }
+    }),
+
+    defineTool({
+      name: 'save_address',
+      description: 'Verify an address and save it to the address book under a name. Use it in create_shipment as "@name".',
+      inputSchema: SaveAddressRequestSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+      handler: async ({ name, address, overwrite }) => {
+        const saved = await addressBook.save({ name, ...await verify(address) }, overwrite);
+        return toolResult([
+          `Address saved as @${saved.name}`,
+          `Verified: ${saved.verified ? 'Yes' : 'No'}`
+        ], saved);
+      }
+    }),
+
+    defineTool({
+      name: 'list_addresses',
+      description: 'List saved addresses in the address book',
+      inputSchema: ListAddressesRequestSchema,
+      annotations: { readOnlyHint: true },
+      handler: async () => {
+        const addresses = await addressBook.list();
+        return toolResult(`Found ${addresses.length} saved addresses`, addresses);
+      }
+    }),
+
+    defineTool({
+      name: 'update_address',
+      description: 'Update and re-verify a saved address, or rename it',
+      inputSchema: UpdateAddressRequestSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+      handler: async ({ name, address, rename_to }) => {
+        const existing = await addressBook.get(name);
+        const entry = address
+          ? await verify(AddressValidationRequestSchema.parse({ ...existing.address, ...address }))
+          : {
+              address: existing.address,
+              easypost_address_id: existing.easypost_address_id,
+              verified: existing.verified
+            };
+
+        const updated = await addressBook.update(name, entry, rename_to);
+        return toolResult(`Address @${existing.name} updated${updated.name !== existing.name ? ` and renamed to @${updated.name}` : ''}`, updated);
+      }
+    }),
+
+    defineTool({
+      name: 'delete_address',
+      description: 'Delete a saved address from the address book',
+      inputSchema: AddressNameRequestSchema,
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+      handler: async ({ name }) => {
+        const deleted = await addressBook.delete(name);
+        return toolResult(`Address @${deleted.name} deleted`, deleted);
+      }
+    })
+  ];
+}
+
+/**
+ * Prefer EasyPost's normalized fields, falling back to what was submitted
+ */
+function normalizedAddress(verified: EasyPostAddress, submitted: AddressValidationRequest): SavedAddress['address'] {
+  return {
+    name: verified.name ?? submitted.name,
+    company: verified.company ?? submitted.company,
+    street1: verified.street1 || submitted.street1,
+    street2: verified.street2 ?? submitted.street2,
+    city: verified.city || submitted.city,
+    state: verified.state || submitted.state,
+    zip: verified.zip || submitted.zip,
+    country: verified.country || submitted.country,
+    phone: verified.phone ?? submitted.phone,
+    email: verified.email ?? submitted.email,
+    residential: verified.residential ?? submitted.residential
+  };
+}
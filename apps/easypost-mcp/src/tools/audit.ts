@@ -0,0 +1,28 @@
+import { AuditLogQueryRequestSchema } from '../types/index.js';
+import { defineTool, toolResult, ToolSpec } from './registry.js';
+import type { ToolContext } from './index.js';
+
+/**
+ * Audit tools: query the trail of state-changing tool calls
+ */
+export function createAuditTools({ audit }: ToolContext): ToolSpec[] {
+  return [
+    defineTool({
+      name: 'query_audit_log',
+      description: 'Query the audit trail of state-changing tool calls of this server (purchases, refunds, address book and webhook changes), newest first. Each record has the tool, sanitized arguments, result summary or error, duration, request ID, caller and cost.',
+      inputSchema: AuditLogQueryRequestSchema,
+      annotations: { readOnlyHint: true },
+      handler: async ({ from, to, tool, outcome, limit }) => {
+        const records = await audit.query({
+          from: from ? new Date(from) : undefined,
+          to: to ? new Date(to) : undefined,
+          tool,
+          outcome,
+          limit
+        });
+
+        return toolResult(`Found ${records.length} audit records (${audit.kind} store)`, records);
+      }
+    })
+  ];
+}
@@ -0,0 +1,122 @@
+import {
+  BatchCreateRequestSchema,
+  BatchAddShipmentsRequestSchema,
+  BatchPurchaseRequestSchema,
+  ScanFormCreateRequestSchema,
+  EasyPostBatch
+} from '../types/index.js';
+import { defineTool, toolResult, idempotencySummary, ToolSpec } from './registry.js';
+import { rateCost } from '../services/spending-policy.js';
+import type { EasyPostHandlers } from '../handlers/easypost.js';
+import type { ToolContext } from './index.js';
+
+/**
+ * Batch and SCAN form tools for bulk shipment processing
+ */
+export function createBatchTools({ handlers, idempotency, spending }: ToolContext): ToolSpec[] {
+  return [
+    defineTool({
+      name: 'create_batch',
+      description: 'Create a batch for bulk shipment processing',
+      inputSchema: BatchCreateRequestSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+      handler: async () => {
+        const result = await handlers.createBatch();
+        return toolResult(`Batch created successfully with ID: ${result.id}`, result);
+      }
+    }),
+
+    defineTool({
+      name: 'add_shipments_to_batch',
+      description: 'Add multiple shipments to a batch',
+      inputSchema: BatchAddShipmentsRequestSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+      handler: async ({ batchId, shipmentIds }) => {
+        const result = await handlers.addShipmentsToBatch(batchId, shipmentIds);
+        return toolResult(`Added ${shipmentIds.length} shipments to batch ${batchId}`, result);
+      }
+    }),
+
+    defineTool({
+      name: 'buy_batch',
+      description: 'Purchase all shipments in a batch. Spending limits count each unpurchased shipment at its most expensive rate. Repeating an idempotency key returns the original result instead of buying again.',
+      inputSchema: BatchPurchaseRequestSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+      handler: async ({ batchId, labelFormat, idempotencyKey, confirmationToken }) => {
+        const outcome = await idempotency.execute(
+          'buy_batch',
+          { batchId },
+          idempotencyKey,
+          async key => {
+            const batch = await handlers.getBatch(batchId);
+            return spending.spend(
+              {
+                operation: 'buy_batch',
+                description: `Batch ${batchId} of ${batch.shipments.length} shipments`,
+                amount: await estimateBatchCost(handlers, batch),
+                params: { batchId },
+                confirmationToken
+              },
+              () => handlers.buyBatch(batchId, key)
+            );
+          }
+        );
+        const summary = [
+          `Batch ${batchId} purchased successfully`,
+          idempotencySummary(outcome)
+        ];
+
+        if (labelFormat) {
+          // The purchase stands even if the label cannot be requested yet
+          try {
+            await handlers.generateBatchLabel(batchId, labelFormat);
+            summary.push(`${labelFormat} batch label requested; label_url is set on the batch once generated`);
+          } catch (error) {
+            summary.push(
+              `${labelFormat} batch label not requested (${error instanceof Error ? error.message : String(error)}); ` +
+              'use merge_labels once the batch shipments are purchased'
+            );
+          }
+        }
+
+        return toolResult(summary, outcome.result);
+      }
+    }),
+
+    defineTool({
+      name: 'scan_form_create',
+      description: 'Create a SCAN form for shipments',
+      inputSchema: ScanFormCreateRequestSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+      handler: async ({ shipmentIds }) => {
+        const result = await handlers.createScanForm(shipmentIds);
+        return toolResult(`Scan form created for ${shipmentIds.length} shipments`, result);
+      }
+    })
+  ];
+}
+
+/**
+ * Upper bound of a batch purchase: EasyPost picks each shipment's rate at purchase,
+ * so unpurchased shipments count at their most expensive rate
+ */
+async function estimateBatchCost(handlers: EasyPostHandlers, batch: EasyPostBatch): Promise<number> {
+  let total = 0;
+
+  // Fetched a few at a time to stay within EasyPost rate limits on large batches
+  for (let index = 0; index < batch.shipments.length; index += 10) {
+    const shipments = await Promise.all(
+      batch.shipments.slice(index, index + 10).map(entry => handlers.getShipment(entry.id))
+    );
+
+    for (const shipment of shipments) {
+      if (!shipment.selected_rate) {
+        total += Math.max(0, ...(shipment.rates ?? []).map(rate =>
+          rateCost(rate, `${rate.carrier} ${rate.service} rate of shipment ${shipment.id}`)
+        ));
+      }
+    }
+  }
+
+  return total;
+}
@@ -0,0 +1,66 @@
+import {
+  CarrierAccountListRequestSchema,
+  CarrierAccountCreateRequestSchema,
+  CarrierAccountUpdateRequestSchema,
+  CarrierAccountDeleteRequestSchema,
+  EasyPostCarrierAccount
+} from '../types/index.js';
+import { defineTool, toolResult, ToolSpec } from './registry.js';
+import { sanitizeForLogging } from '../utils/logger.js';
+import type { ToolContext } from './index.js';
+
+/**
+ * Carrier account tools for onboarding and rotating carrier contracts.
+ * Credentials go to EasyPost only; results are returned with them redacted.
+ */
+export function createCarrierAccountTools({ handlers }: ToolContext): ToolSpec[] {
+  return [
+    defineTool({
+      name: 'list_carrier_accounts',
+      description: 'List the carrier accounts on the EasyPost account, with credentials redacted. Use their IDs to restrict rating with carrier_accounts.',
+      inputSchema: CarrierAccountListRequestSchema,
+      annotations: { readOnlyHint: true },
+      handler: async () => {
+        const accounts = await handlers.listCarrierAccounts();
+        return toolResult(`Found ${accounts.length} carrier accounts`, accounts.map(redact));
+      }
+    }),
+
+    defineTool({
+      name: 'create_carrier_account',
+      description: 'Add a carrier account, e.g. your own UPS or FedEx contract. Credential fields per carrier are listed in easypost://carriers.',
+      inputSchema: CarrierAccountCreateRequestSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+      handler: async (args) => {
+        const account = await handlers.createCarrierAccount(args);
+        return toolResult(`Carrier account created with ID: ${account.id} (${account.type})`, redact(account));
+      }
+    }),
+
+    defineTool({
+      name: 'update_carrier_account',
+      description: 'Update a carrier account description or reference, or rotate its credentials',
+      inputSchema: CarrierAccountUpdateRequestSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+      handler: async (args) => {
+        const account = await handlers.updateCarrierAccount(args);
+        return toolResult(`Carrier account ${account.id} updated`, redact(account));
+      }
+    }),
+
+    defineTool({
+      name: 'delete_carrier_account',
+      description: 'Delete a carrier account. Shipments can no longer be rated or bought with it.',
+      inputSchema: CarrierAccountDeleteRequestSchema,
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+      handler: async ({ carrierAccountId }) => {
+        await handlers.deleteCarrierAccount(carrierAccountId);
+        return toolResult(`Carrier account ${carrierAccountId} deleted`, { id: carrierAccountId, deleted: true });
+      }
+    })
+  ];
+}
+
+function redact(account: EasyPostCarrierAccount): EasyPostCarrierAccount {
+  return sanitizeForLogging(account) as EasyPostCarrierAccount;
+}
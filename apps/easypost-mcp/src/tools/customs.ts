@@ -0,0 +1,35 @@
+import {
+  CustomsInfoFetchRequestSchema,
+  CustomsInfoCreateRequestSchema
+} from '../types/index.js';
+import { defineTool, toolResult, ToolSpec } from './registry.js';
+import type { ToolContext } from './index.js';
+
+/**
+ * Customs information tools for international shipments
+ */
+export function createCustomsTools({ handlers }: ToolContext): ToolSpec[] {
+  return [
+    defineTool({
+      name: 'get_customs_info',
+      description: 'Retrieve customs information by ID',
+      inputSchema: CustomsInfoFetchRequestSchema,
+      annotations: { readOnlyHint: true },
+      handler: async ({ customsInfoId }) => {
+        const result = await handlers.getCustomsInfo(customsInfoId);
+        return toolResult(`Customs info retrieved for ID: ${customsInfoId}`, result);
+      }
+    }),
+
+    defineTool({
+      name: 'create_customs_info',
+      description: 'Create customs information for international shipments',
+      inputSchema: CustomsInfoCreateRequestSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+      handler: async (args) => {
+        const result = await handlers.createCustomsInfo(args);
+        return toolResult(`Customs info created with ID: ${result.id}`, result);
+      }
+    })
+  ];
+}
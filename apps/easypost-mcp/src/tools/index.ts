@@ -0,0 +1,64 @@
+import type { EasyPostHandlers } from '../handlers/easypost.js';
+import type { IdempotencyManager } from '../services/idempotency.js';
+import type { LabelDocumentStore } from '../services/label-document-store.js';
+import type { AddressBook } from '../services/address-book.js';
+import type { BoxCatalog } from '../services/box-catalog.js';
+import type { TrackingTimelineStore } from '../services/tracking-timeline-store.js';
+import type { Mailer } from '../services/mailer.js';
+import type { AccountRegistry } from '../services/accounts.js';
+import type { SpendingPolicy } from '../services/spending-policy.js';
+import type { AuditLog } from '@mcp-shipping/shared';
+import { logger } from '../utils/logger.js';
+import { AccountToolRegistry, ToolRegistry } from './registry.js';
+import { createShipmentTools } from './shipments.js';
+import { createAddressTools } from './addresses.js';
+import { createBatchTools } from './batches.js';
+import { createPickupTools } from './pickups.js';
+import { createCarrierAccountTools } from './carrier-accounts.js';
+import { createLabelTools } from './labels.js';
+import { createCustomsTools } from './customs.js';
+import { createPackingTools } from './packing.js';
+import { createWebhookTools } from './webhooks.js';
+import { createAuditTools } from './audit.js';
+
+export { ToolRegistry, AccountToolRegistry, defineTool, toolResult, idempotencySummary, accountSummary } from './registry.js';
+export type { ToolSpec } from './registry.js';
+
+/**
+ * Dependencies available to tool handlers
+ */
+export interface ToolContext {
+  handlers: EasyPostHandlers;
+  idempotency: IdempotencyManager;
+  labelDocuments: LabelDocumentStore;
+  addressBook: AddressBook;
+  boxCatalog: BoxCatalog;
+  trackingTimelines: TrackingTimelineStore;
+  mailer: Mailer;
+  spending: SpendingPolicy;
+  audit: AuditLog;
+  webhookSecret?: string | undefined;
+}
+
+/**
+ * Build the registry of all EasyPost MCP tools, selecting the EasyPost account per call
+ * and recording state-changing calls in the audit log
+ */
+export function createToolRegistry(context: ToolContext, accounts?: AccountRegistry): ToolRegistry {
+  const specs = [
+    ...createShipmentTools(context),
+    ...createAddressTools(context),
+    ...createBatchTools(context),
+    ...createPickupTools(context),
+    ...createCarrierAccountTools(context),
+    ...createLabelTools(context),
+    ...createCustomsTools(context),
+    ...createPackingTools(context),
+    ...createWebhookTools(context),
+    ...createAuditTools(context)
+  ];
+
+  const options = { audit: context.audit, logger };
+
+  return accounts ? new AccountToolRegistry(specs, accounts, options) : new ToolRegistry(specs, options);
+}
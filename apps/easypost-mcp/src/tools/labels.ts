@@ -0,0 +1,24 @@
+import { MergeLabelsRequestSchema } from '../types/index.js';
+import { defineTool, toolResult, ToolSpec } from './registry.js';
+import type { ToolContext } from './index.js';
+
+/**
+ * Label document tools: merge labels for printing
+ */
+export function createLabelTools({ handlers, labelDocuments }: ToolContext): ToolSpec[] {
+  return [
+    defineTool({
+      name: 'merge_labels',
+      description: 'Fetch the labels of purchased shipments or a batch and merge them into one multi-page PDF or one concatenated ZPL/EPL2 document. The document is served as an MCP resource.',
+      inputSchema: MergeLabelsRequestSchema,
+      annotations: { readOnlyHint: true },
+      handler: async (args) => {
+        const document = labelDocuments.save(await handlers.mergeLabels(args));
+        return toolResult([
+          `Merged ${document.labelCount} labels into one ${document.format} document (${document.byteLength} bytes)`,
+          `Resource URI: ${document.uri} (available until ${document.expiresAt})`
+        ], document);
+      }
+    })
+  ];
+}
@@ -0,0 +1,24 @@
+import { PackItemsRequestSchema } from '../types/index.js';
+import { defineTool, toolResult, ToolSpec } from './registry.js';
+import type { ToolContext } from './index.js';
+
+/**
+ * Packing tools: choose catalog boxes for line items
+ */
+export function createPackingTools({ boxCatalog }: ToolContext): ToolSpec[] {
+  return [
+    defineTool({
+      name: 'pack_items',
+      description: 'Pack line items (dimensions in inches, weight in ounces) into the smallest box, or set of boxes, from the box catalog. Each box comes with a ready-to-use parcel for create_shipment.',
+      inputSchema: PackItemsRequestSchema,
+      annotations: { readOnlyHint: true },
+      handler: async (args) => {
+        const result = await boxCatalog.pack(args);
+        return toolResult([
+          `Packed into ${result.box_count} box${result.box_count === 1 ? '' : 'es'}: ${result.boxes.map(box => box.box_id).join(', ')}`,
+          `Total weight: ${result.total_weight} oz`
+        ], result);
+      }
+    })
+  ];
+}
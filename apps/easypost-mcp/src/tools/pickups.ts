@@ -0,0 +1,133 @@
+import {
+  PickupCreateRequestSchema,
+  PickupRatesRequestSchema,
+  PickupPurchaseRequestSchema,
+  PickupCancelRequestSchema,
+  ShipmentAddress,
+  EasyPostError
+} from '../types/index.js';
+import { defineTool, toolResult, idempotencySummary, ToolSpec } from './registry.js';
+import { validatePhoneNumber, validatePostalCode } from '../utils/validation.js';
+import { rateCost } from '../services/spending-policy.js';
+import type { ToolContext } from './index.js';
+
+/**
+ * Carrier pickup tools: request a collection, compare its rates, book and cancel it
+ */
+export function createPickupTools({ handlers, idempotency, addressBook, spending }: ToolContext): ToolSpec[] {
+  return [
+    defineTool({
+      name: 'create_pickup',
+      description: 'Request a carrier pickup for a purchased shipment or batch within a time window. Returns the available pickup rates; nothing is booked until buy_pickup.',
+      inputSchema: PickupCreateRequestSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+      handler: async ({ address, ...args }) => {
+        const resolved = await addressBook.resolve(address);
+        const problems = pickupAddressProblems(resolved);
+        if (problems.length > 0) {
+          throw new EasyPostError(
+            `Pickup address is incomplete: ${problems.join('; ')}`,
+            'PICKUP_ADDRESS_INVALID',
+            { problems }
+          );
+        }
+
+        const result = await handlers.createPickup({ ...args, address: resolved });
+        return toolResult([
+          `Pickup created with ID: ${result.id}`,
+          `${result.pickup_rates?.length ?? 0} pickup rates available; book one with buy_pickup`
+        ], result);
+      }
+    }),
+
+    defineTool({
+      name: 'get_pickup_rates',
+      description: 'List the rates a carrier pickup can be booked at',
+      inputSchema: PickupRatesRequestSchema,
+      annotations: { readOnlyHint: true },
+      handler: async ({ pickupId }) => {
+        const pickup = await handlers.getPickup(pickupId);
+        const rates = [...(pickup.pickup_rates ?? [])].sort((a, b) => parseFloat(a.rate) - parseFloat(b.rate));
+        return toolResult(`Found ${rates.length} rates for pickup ${pickupId} (status: ${pickup.status})`, rates);
+      }
+    }),
+
+    defineTool({
+      name: 'buy_pickup',
+      description: 'Book a carrier pickup at one of its rates (carrier and service from get_pickup_rates). Repeating an idempotency key returns the original booking instead of buying again.',
+      inputSchema: PickupPurchaseRequestSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+      handler: async ({ pickupId, carrier, service, idempotencyKey, confirmationToken }) => {
+        const outcome = await idempotency.execute(
+          'buy_pickup',
+          { pickupId, carrier, service },
+          idempotencyKey,
+          async key => {
+            // Reject unknown rates with the alternatives rather than EasyPost's generic error
+            const pickup = await handlers.getPickup(pickupId);
+            const rates = pickup.pickup_rates ?? [];
+            const rate = rates.find(candidate => candidate.carrier === carrier && candidate.service === service);
+            if (!rate) {
+              throw new EasyPostError(
+                `Pickup ${pickupId} has no ${carrier} ${service} rate`,
+                'PICKUP_RATE_NOT_FOUND',
+                { pickupId, available: rates.map(candidate => `${candidate.carrier} ${candidate.service}`) }
+              );
+            }
+
+            const description = `${carrier} ${service} for pickup ${pickupId}`;
+            return spending.spend(
+              {
+                operation: 'buy_pickup',
+                description,
+                amount: rateCost(rate, description),
+                params: { pickupId, carrier, service },
+                confirmationToken
+              },
+              () => handlers.buyPickup(pickupId, carrier, service, key)
+            );
+          }
+        );
+
+        return toolResult([
+          `Pickup ${pickupId} booked with ${carrier} ${service}`,
+          `Confirmation: ${outcome.result.confirmation || 'N/A'}`,
+          `Window: ${outcome.result.min_datetime} to ${outcome.result.max_datetime}`,
+          idempotencySummary(outcome)
+        ], outcome.result);
+      }
+    }),
+
+    defineTool({
+      name: 'cancel_pickup',
+      description: 'Cancel a booked carrier pickup',
+      inputSchema: PickupCancelRequestSchema,
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+      handler: async ({ pickupId }) => {
+        const result = await handlers.cancelPickup(pickupId);
+        return toolResult(`Pickup ${pickupId} cancelled (status: ${result.status})`, result);
+      }
+    })
+  ];
+}
+
+/**
+ * Carriers need someone to ask for and a number to call at the collection address
+ */
+function pickupAddressProblems(address: ShipmentAddress): string[] {
+  const problems: string[] = [];
+
+  if (!address.name && !address.company) {
+    problems.push('a contact name or company is required');
+  }
+  if (!address.phone) {
+    problems.push('a contact phone number is required');
+  } else if (!validatePhoneNumber(address.phone)) {
+    problems.push(`phone number ${address.phone} is not valid`);
+  }
+  if (!validatePostalCode(address.zip, address.country ?? 'US')) {
+    problems.push(`postal code ${address.zip} is not valid for ${address.country ?? 'US'}`);
+  }
+
+  return problems;
+}
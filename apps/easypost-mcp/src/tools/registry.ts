@@ -0,0 +1,70 @@
+import { ToolRegistry, toInputJsonSchema, type ToolRegistryOptions, type ToolSpec } from '@mcp-shipping/shared';
+import { AccountSelectionInputSchema } from '../types/index.js';
+import type { AccountRegistry } from '../services/accounts.js';
+import type { ToolDefinition, ToolResult, IdempotentResult, AccountSelection } from '../types/index.js';
+
+export { ToolRegistry, defineTool, toolResult } from '@mcp-shipping/shared';
+export type { ToolSpec } from '@mcp-shipping/shared';
+
+/**
+ * Summary line reporting the idempotency key of a purchase and whether it was replayed
+ */
+export function idempotencySummary(outcome: IdempotentResult<unknown>): string {
+  return outcome.replayed
+    ? `Idempotency Key: ${outcome.key} (replayed result from ${outcome.createdAt}; nothing was purchased)`
+    : `Idempotency Key: ${outcome.key}`;
+}
+
+/**
+ * Summary line naming the account and mode a tool call ran against
+ */
+export function accountSummary(selection: AccountSelection, dryRun = false): string {
+  if (dryRun) {
+    return `Account: ${selection.account} (DRY RUN in ${selection.mode} mode: requests go to the offline EasyPost simulator, nothing is purchased)`;
+  }
+
+  return selection.mode === 'production'
+    ? `Account: ${selection.account} (PRODUCTION mode: purchases buy live postage and are billed)`
+    : `Account: ${selection.account} (test mode: no real postage is purchased)`;
+}
+
+/**
+ * Tool registry where every tool also accepts "account" and "mode", runs against
+ * that EasyPost account and reports it in the first line of its result
+ */
+export class AccountToolRegistry extends ToolRegistry {
+  private accounts: AccountRegistry;
+  private selection: Record<string, unknown>;
+
+  constructor(specs: ToolSpec[], accounts: AccountRegistry, options: ToolRegistryOptions = {}) {
+    super(specs, options);
+    this.accounts = accounts;
+    this.selection = toInputJsonSchema(AccountSelectionInputSchema).properties;
+  }
+
+  protected override definition(spec: ToolSpec): ToolDefinition {
+    const definition = super.definition(spec);
+    if (Object.keys(this.selection).some(property => property in definition.inputSchema.properties)) {
+      throw new Error(`Tool ${spec.name} declares a reserved account selection parameter`);
+    }
+
+    return {
+      ...definition,
+      inputSchema: { ...definition.inputSchema, properties: { ...definition.inputSchema.properties, ...this.selection } }
+    };
+  }
+
+  protected override async invoke(spec: ToolSpec, args: unknown): Promise<ToolResult> {
+    const { name } = spec;
+    const { account, mode, ...toolArgs } = (args ?? {}) as Record<string, unknown>;
+    const selection = this.accounts.resolve(this.validate(name, AccountSelectionInputSchema, { account, mode }));
+    this.audit?.annotate(selection);
+    const input = this.validate(name, spec.inputSchema, toolArgs);
+
+    const result = await this.accounts.run(selection, () => spec.handler(input));
+    return {
+      ...result,
+      content: [{ type: 'text', text: accountSummary(selection, this.accounts.simulator !== undefined) }, ...result.content]
+    };
+  }
+}
@@ -0,0 +1,330 @@
+import {
+  CreateShipmentRequestSchema,
+  ShipmentRatesFetchRequestSchema,
+  SelectBestRateRequestSchema,
+  ShipmentLabelPurchaseRequestSchema,
+  ShipmentTrackingRequestSchema,
+  SmartrateRequestSchema,
+  ShipmentRefundRequestSchema,
+  ReturnLabelRequestSchema,
+  InsurancePurchaseRequestSchema,
+  EasyPostRate,
+  EasyPostError,
+  CONSTANTS
+} from '../types/index.js';
+import { defineTool, toolResult, idempotencySummary, ToolSpec } from './registry.js';
+import { getLabelUrl } from '../utils/label-documents.js';
+import { normalizeTracker } from '../utils/tracking-status.js';
+import { chargedInsuranceFee, estimateInsuranceFee, purchasedRateCost, rateCost } from '../services/spending-policy.js';
+import type { SpendReservation } from '../services/spending-policy.js';
+import type { ToolContext } from './index.js';
+
+/**
+ * Shipment lifecycle tools: create, rate, select, buy, track, refund, return and insure
+ */
+export function createShipmentTools({
+  handlers,
+  idempotency,
+  labelDocuments,
+  addressBook,
+  boxCatalog,
+  trackingTimelines,
+  mailer,
+  spending
+}: ToolContext): ToolSpec[] {
+  return [
+    defineTool({
+      name: 'create_shipment',
+      description: 'Create a new shipment with EasyPost API. Addresses may be "@name" references to the address book. Pass items instead of parcel to pack them into the smallest catalog box.',
+      inputSchema: CreateShipmentRequestSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+      handler: async ({ items, box_ids, parcel, ...args }) => {
+        // A shipment has one parcel, so items must fit a single box
+        const packing = items
+          ? await boxCatalog.pack({ items, box_ids, allow_multiple_boxes: false })
+          : undefined;
+
+        const result = await handlers.createShipment({
+          ...args,
+          to_address: await addressBook.resolve(args.to_address),
+          from_address: await addressBook.resolve(args.from_address),
+          return_address: args.return_address ? await addressBook.resolve(args.return_address) : undefined,
+          parcel: packing ? packing.boxes[0]!.parcel : parcel!
+        });
+        return toolResult([
+          `Shipment created successfully with ID: ${result.id}`,
+          ...(packing ? [`Packed ${packing.boxes[0]!.item_count} items into box ${packing.boxes[0]!.box_id}`] : [])
+        ], result);
+      }
+    }),
+
+    defineTool({
+      name: 'get_shipment_rates',
+      description: 'Get available shipping rates for a shipment, optionally only from some carrier accounts',
+      inputSchema: ShipmentRatesFetchRequestSchema,
+      annotations: { readOnlyHint: true },
+      handler: async ({ shipmentId, carrier_accounts }) => {
+        const rates = await handlers.getShipmentRates(shipmentId);
+        const result = carrier_accounts
+          ? rates.filter(rate => carrier_accounts.includes(rate.carrier_account_id))
+          : rates;
+        return toolResult(`Found ${result.length} rates for shipment ${shipmentId}`, result);
+      }
+    }),
+
+    defineTool({
+      name: 'select_best_rate',
+      description: 'Select the best rate for a shipment by policy (cheapest, fastest, cheapest delivered by a date, or SmartRate percentile) with carrier/service allow/deny lists and a price cap. Returns the chosen rate with a justification.',
+      inputSchema: SelectBestRateRequestSchema,
+      annotations: { readOnlyHint: true },
+      handler: async (args) => {
+        const result = await handlers.selectBestRate(args);
+        const rate = result.selected_rate;
+        return toolResult([
+          `Selected ${rate.carrier} ${rate.service} at $${rate.rate} (rate ID: ${rate.id})`,
+          result.justification
+        ], result);
+      }
+    }),
+
+    defineTool({
+      name: 'buy_shipment_label',
+      description: 'Purchase shipping label for a shipment. Repeating an idempotency key returns the original label instead of buying another.',
+      inputSchema: ShipmentLabelPurchaseRequestSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+      handler: async ({ shipmentId, rateId, labelFormat, idempotencyKey, confirmationToken }) => {
+        const outcome = await idempotency.execute(
+          'buy_shipment_label',
+          { shipmentId, rateId },
+          idempotencyKey,
+          async key => {
+            const shipment = await handlers.getShipment(shipmentId);
+            const rate = shipment.rates?.find(candidate => candidate.id === rateId);
+            if (!rate) {
+              throw new EasyPostError(`Shipment ${shipmentId} has no rate ${rateId}`, 'RATE_NOT_FOUND', { shipmentId, rateId });
+            }
+
+            const description = `${rate.carrier} ${rate.service} label for shipment ${shipmentId}`;
+            return spending.spend(
+              {
+                operation: 'buy_shipment_label',
+                description,
+                amount: rateCost(rate, description),
+                params: { shipmentId, rateId },
+                confirmationToken
+              },
+              () => handlers.buyShipmentLabel(shipmentId, rateId, key),
+              result => purchasedRateCost(result.selected_rate)
+            );
+          }
+        );
+
+        // Conversion spends nothing, so it runs outside the idempotent purchase
+        const result = labelFormat
+          ? await handlers.convertLabel(shipmentId, labelFormat)
+          : outcome.result;
+        const labelUrl = labelFormat && result.postage_label
+          ? getLabelUrl(result.postage_label, labelFormat)
+          : result.postage_label?.label_url;
+
+        return toolResult([
+          `Label purchased successfully for shipment ${shipmentId}`,
+          `Tracking Code: ${result.tracking_code || 'N/A'}`,
+          `Label URL${labelFormat ? ` (${labelFormat})` : ''}: ${labelUrl || 'N/A'}`,
+          idempotencySummary(outcome)
+        ], result);
+      }
+    }),
+
+    defineTool({
+      name: 'track_shipment',
+      description: 'Track a shipment by tracking code. Returns a carrier-independent status, ETA, last location and exception category (delayed, address_issue, returned_to_sender, damaged, stalled) alongside the raw tracker.',
+      inputSchema: ShipmentTrackingRequestSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+      handler: async ({ trackingCode, carrier, stalled_after_hours }) => {
+        const tracker = await handlers.trackShipment(trackingCode, carrier);
+        trackingTimelines.recordTracker(tracker);
+
+        const normalized = normalizeTracker(tracker, { stalledAfterHours: stalled_after_hours });
+        return toolResult([
+          `Tracking Status: ${normalized.status} (carrier: ${tracker.status || 'unknown'})`,
+          ...(normalized.estimated_delivery_date ? [`Estimated delivery: ${normalized.estimated_delivery_date}`] : []),
+          ...(normalized.last_location ? [`Last location: ${normalized.last_location.description}`] : []),
+          ...(normalized.exception ? [`Exception: ${normalized.exception.category} - ${normalized.exception.reason}`] : [])
+        ], { normalized, tracker });
+      }
+    }),
+
+    defineTool({
+      name: 'get_smartrate_estimates',
+      description: 'Get SmartRate time-in-transit estimates',
+      inputSchema: SmartrateRequestSchema,
+      annotations: { readOnlyHint: true },
+      handler: async (args) => {
+        const result = await handlers.getSmartrateEstimates(args);
+        return toolResult('SmartRate estimates retrieved successfully', result);
+      }
+    }),
+
+    defineTool({
+      name: 'refund_shipment',
+      description: 'Request a refund for a shipped package',
+      inputSchema: ShipmentRefundRequestSchema,
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+      handler: async ({ shipmentId }) => {
+        const result = await handlers.refundShipment(shipmentId);
+        return toolResult(`Refund initiated for shipment ${shipmentId}`, result);
+      }
+    }),
+
+    defineTool({
+      name: 'create_return_label',
+      description: 'Buy a return label for an outbound shipment: the customer ships from the original destination back to the return (or origin) address. Reuses the original parcel unless one is given, picks the rate by policy, and can email the label or keep it as an easypost://labels resource. Repeating an idempotency key returns the original return label instead of buying another.',
+      inputSchema: ReturnLabelRequestSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+      handler: async ({ shipmentId, parcel, rate_policy, labelFormat, email_to, attach, idempotencyKey, confirmationToken }) => {
+        const original = await handlers.getShipment(shipmentId);
+        const recipient = email_to === 'customer' ? original.to_address.email : email_to;
+
+        // Check delivery before anything is bought
+        if (email_to && !recipient) {
+          throw new EasyPostError(
+            `Shipment ${shipmentId} has no recipient email to send the return label to`,
+            'RECIPIENT_EMAIL_MISSING',
+            { shipmentId }
+          );
+        }
+        if (email_to && !mailer.isConfigured()) {
+          throw new EasyPostError(
+            'Email is not configured; set SMTP_URL and MAIL_FROM',
+            'MAILER_NOT_CONFIGURED'
+          );
+        }
+
+        const outcome = await idempotency.execute(
+          'create_return_label',
+          { shipmentId, parcel, rate_policy },
+          idempotencyKey,
+          async key => {
+            // The rate is only known once selected, so spend is reserved between selection and purchase
+            let reservation: SpendReservation | undefined;
+            const authorize = async (rate: EasyPostRate) => {
+              const description = `${rate.carrier} ${rate.service} return label for shipment ${shipmentId}`;
+              reservation = await spending.reserve({
+                operation: 'create_return_label',
+                description,
+                amount: rateCost(rate, description),
+                params: { shipmentId, parcel, rate_policy },
+                confirmationToken
+              });
+            };
+
+            try {
+              const result = await handlers.createReturnLabel(original, { parcel, policy: rate_policy, authorize }, key);
+              if (reservation) {
+                await spending.commit(reservation, purchasedRateCost(result.return_shipment.selected_rate));
+              }
+              return result;
+            } catch (error) {
+              if (reservation) {
+                await spending.release(reservation);
+              }
+              throw error;
+            }
+          }
+        );
+        const purchased = outcome.result.return_shipment;
+        trackingTimelines.recordReturn(original.id, purchased);
+
+        const format = labelFormat ?? 'PNG';
+        const returnShipment = labelFormat
+          ? await handlers.convertLabel(purchased.id, labelFormat)
+          : purchased;
+        const content = attach || recipient
+          ? await handlers.downloadLabel(returnShipment, format)
+          : undefined;
+
+        const document = attach && content
+          ? labelDocuments.save({
+            format,
+            mimeType: CONSTANTS.LABEL_MIME_TYPES[format],
+            title: `Return label for shipment ${original.id}`,
+            shipmentIds: [returnShipment.id],
+            labelCount: 1,
+            content
+          })
+          : undefined;
+
+        const email = recipient && content
+          ? await mailer.send({
+            to: recipient,
+            subject: 'Your return shipping label',
+            text: [
+              'Your return label is attached. Print it, attach it to the package and hand it to',
+              `${returnShipment.selected_rate?.carrier ?? 'the carrier'}.`,
+              '',
+              `Tracking code: ${returnShipment.tracking_code ?? 'N/A'}`
+            ].join('\n'),
+            attachments: [{
+              filename: `return-label-${returnShipment.id}.${format.toLowerCase()}`,
+              contentType: CONSTANTS.LABEL_MIME_TYPES[format],
+              content
+            }]
+          })
+          : undefined;
+
+        const rate = outcome.result.selection.selected_rate;
+        const labelUrl = labelFormat && returnShipment.postage_label
+          ? getLabelUrl(returnShipment.postage_label, labelFormat)
+          : returnShipment.postage_label?.label_url;
+
+        return toolResult([
+          `Return label purchased for shipment ${original.id}: return shipment ${returnShipment.id}`,
+          `Rate: ${rate.carrier} ${rate.service} at $${rate.rate}`,
+          `Tracking Code: ${returnShipment.tracking_code || 'N/A'}`,
+          `Label URL${labelFormat ? ` (${labelFormat})` : ''}: ${labelUrl || 'N/A'}`,
+          ...(document ? [`Label resource: ${document.uri} (expires ${document.expiresAt})`] : []),
+          ...(email ? [`Label emailed to ${recipient}`] : []),
+          idempotencySummary(outcome)
+        ], {
+          original_shipment_id: original.id,
+          return_shipment: returnShipment,
+          selection: outcome.result.selection,
+          document,
+          emailed_to: email ? recipient : undefined
+        });
+      }
+    }),
+
+    defineTool({
+      name: 'buy_insurance',
+      description: 'Purchase insurance for a shipment. The fee, not the coverage, counts against spending limits. Repeating an idempotency key returns the original purchase instead of insuring again.',
+      inputSchema: InsurancePurchaseRequestSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+      handler: async ({ shipmentId, amount, idempotencyKey, confirmationToken }) => {
+        const outcome = await idempotency.execute(
+          'buy_insurance',
+          { shipmentId, amount },
+          idempotencyKey,
+          // The fee is only known once bought, so an estimate is held until then
+          key => spending.spend(
+            {
+              operation: 'buy_insurance',
+              description: `Insurance of $${amount} for shipment ${shipmentId}`,
+              amount: estimateInsuranceFee(parseFloat(amount)),
+              params: { shipmentId, amount },
+              confirmationToken
+            },
+            () => handlers.buyInsurance(shipmentId, amount, key),
+            chargedInsuranceFee
+          )
+        );
+        return toolResult([
+          `Insurance purchased for shipment ${shipmentId}`,
+          `Coverage Amount: $${amount}`,
+          idempotencySummary(outcome)
+        ], outcome.result);
+      }
+    })
+  ];
+}
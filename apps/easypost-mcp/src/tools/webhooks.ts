@@ -0,0 +1,56 @@
+import {
+  EasyPostError,
+  WebhookCreateRequestSchema,
+  WebhookDeleteRequestSchema,
+  WebhookListRequestSchema
+} from '../types/index.js';
+import { defineTool, toolResult, ToolSpec } from './registry.js';
+import type { ToolContext } from './index.js';
+
+/**
+ * Webhook tools: register, list and delete EasyPost webhooks
+ */
+export function createWebhookTools({ handlers, webhookSecret }: ToolContext): ToolSpec[] {
+  return [
+    defineTool({
+      name: 'register_webhook',
+      description: 'Register a URL to receive EasyPost events (tracker.updated, batch.updated, refund.successful). Point it at the /webhooks/easypost endpoint of this server to keep tracking timelines up to date.',
+      inputSchema: WebhookCreateRequestSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+      handler: async ({ url, webhook_secret }) => {
+        const secret = webhook_secret ?? webhookSecret;
+        if (!secret) {
+          throw new EasyPostError(
+            'A webhook secret is required: pass webhook_secret or set EASYPOST_WEBHOOK_SECRET',
+            'WEBHOOK_SECRET_REQUIRED'
+          );
+        }
+
+        const result = await handlers.createWebhook(url, secret);
+        return toolResult(`Webhook registered with ID: ${result.id}`, result);
+      }
+    }),
+
+    defineTool({
+      name: 'list_webhooks',
+      description: 'List registered EasyPost webhooks',
+      inputSchema: WebhookListRequestSchema,
+      annotations: { readOnlyHint: true },
+      handler: async () => {
+        const result = await handlers.listWebhooks();
+        return toolResult(`Found ${result.length} webhooks`, result);
+      }
+    }),
+
+    defineTool({
+      name: 'delete_webhook',
+      description: 'Delete an EasyPost webhook',
+      inputSchema: WebhookDeleteRequestSchema,
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+      handler: async ({ webhookId }) => {
+        await handlers.deleteWebhook(webhookId);
+        return toolResult(`Webhook ${webhookId} deleted`, { id: webhookId, deleted: true });
+      }
+    })
+  ];
+}
@@ -1,4 +1,8 @@
 import { z } from 'zod';
+import type { AxiosAdapter } from 'axios';
+import type { CacheStore, CircuitBreakerRegistry, CircuitState, DependencyHealth, HealthState, TracesExporter } from '@mcp-shipping/shared';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 
 /**
  * EasyPost MCP Server Configuration
@@ -6,16 +10,63 @@ import { z } from 'zod';
 export interface EasyPostMCPServerConfig {
   name: string;
   version: string;
-  apiKey: string;
+  /**
+   * Single-key setup. Its mode is inferred from the key, falling back to the environment's default mode.
+   */
+  apiKey?: string | undefined;
+  testApiKey?: string | undefined;
+  productionApiKey?: string | undefined;
+  /**
+   * Additional named accounts, e.g. one per brand or client
+   */
+  accounts?: EasyPostAccountConfig[] | undefined;
+  defaultAccount?: string | undefined;
   environment: 'development' | 'production' | 'test';
   timeout: number;
   retryAttempts: number;
   enableCache: boolean;
   logLevel: string;
   port?: number | undefined;
+  /**
+   * Streamable HTTP endpoint (/mcp): served only with a bearer token. Browsers may
+   * call it from the allowed origins, and requests must name an allowed host
+   * (default localhost on the configured port) to defeat DNS rebinding.
+   */
+  mcpAuthToken?: string | undefined;
+  mcpAllowedOrigins?: string[] | undefined;
+  mcpAllowedHosts?: string[] | undefined;
+  /**
+   * Seconds without a request after which a Streamable HTTP session is closed
+   */
+  mcpSessionIdleTimeout?: number | undefined;
+  mcpMaxSessions?: number | undefined;
   baseURL?: string | undefined;
+  redisUrl?: string | undefined;
+  idempotencyTtl?: number | undefined;
+  addressBookPath?: string | undefined;
+  boxCatalogPath?: string | undefined;
+  webhookSecret?: string | undefined;
+  smtpUrl?: string | undefined;
+  mailFrom?: string | undefined;
+  spendingLimits?: SpendingLimits | undefined;
+  /**
+   * Audit trail of state-changing tool calls: PostgreSQL when a database URL is set, a JSON Lines file otherwise
+   */
+  databaseUrl?: string | undefined;
+  auditLogPath?: string | undefined;
+  /**
+   * Serve every EasyPost request from the in-memory simulator instead of api.easypost.com
+   */
+  dryRun?: boolean | undefined;
+  /**
+   * OpenTelemetry trace export: an OTLP/HTTP collector or a local JSON Lines file
+   */
+  tracesExporter?: TracesExporter | undefined;
+  otlpEndpoint?: string | undefined;
+  tracesFilePath?: string | undefined;
 }
 
+
 /**
  * EasyPost Client Configuration
  */
@@ -25,6 +76,51 @@ export interface EasyPostClientConfig {
   timeout: number;
   retryAttempts: number;
   enableCache: boolean;
+  /**
+   * Answers requests in place of the HTTP transport, e.g. the EasyPost simulator in dry runs
+   */
+  adapter?: AxiosAdapter | undefined;
+  /**
+   * Endpoint circuits shared with the clients of other accounts, which call the same API
+   */
+  circuitBreakers?: CircuitBreakerRegistry | undefined;
+  /**
+   * Response cache store shared with the clients of other accounts, namespaced per API key
+   */
+  cacheStore?: CacheStore | undefined;
+}
+
+/**
+ * EasyPost API mode. Test keys never buy real postage.
+ */
+export type EasyPostMode = 'test' | 'production';
+
+/**
+ * Named EasyPost account with its test and production API keys
+ */
+export interface EasyPostAccountConfig {
+  name: string;
+  description?: string | undefined;
+  testApiKey?: string | undefined;
+  productionApiKey?: string | undefined;
+}
+
+/**
+ * Account and mode a tool call runs against
+ */
+export interface AccountSelection {
+  account: string;
+  mode: EasyPostMode;
+}
+
+/**
+ * Configured account as listed to clients; keys are never included
+ */
+export interface AccountSummary {
+  name: string;
+  description?: string | undefined;
+  modes: EasyPostMode[];
+  isDefault: boolean;
 }
 
 /**
@@ -34,31 +130,25 @@ export class EasyPostError extends Error {
   public readonly code: string;
   public readonly details?: unknown;
   public readonly statusCode?: number | undefined;
+  /**
+   * Wait asked for by the API before trying again (Retry-After)
+   */
+  public readonly retryAfterMs?: number | undefined;
 
-  constructor(message: string, code: string = 'EASYPOST_ERROR', details?: unknown, statusCode?: number) {
+  constructor(message: string, code: string = 'EASYPOST_ERROR', details?: unknown, statusCode?: number, retryAfterMs?: number) {
     super(message);
     this.name = 'EasyPostError';
     this.code = code;
     this.details = details;
     this.statusCode = statusCode ?? undefined;
+    this.retryAfterMs = retryAfterMs;
     
     // Ensure prototype chain is correct
     Object.setPrototypeOf(this, EasyPostError.prototype);
   }
 }
 
-/**
- * MCP Tool Definition
- */
-export interface ToolDefinition {
-  name: string;
-  description: string;
-  inputSchema: {
-    type: string;
-    properties: Record<string, unknown>;
-    required?: string[];
-  };
-}
+export type { ToolAnnotations, ToolDefinition, ToolResult } from '@mcp-shipping/shared';
 
 /**
  * MCP Resource Definition
@@ -74,12 +164,36 @@ export interface ResourceDefinition {
  * Health Check Response
  */
 export interface HealthCheckResponse {
-  status: 'healthy' | 'unhealthy' | 'degraded';
+  status: HealthState;
+  timestamp: string;
+  uptime: number;
+  version: string;
+  service: string;
+  tools: number;
+  dependencies: Record<string, DependencyHealth>;
+}
+
+export type { CircuitState, DependencyHealth, HealthState };
+
+/**
+ * Liveness Response: the process is up and serving requests
+ */
+export interface LivenessResponse {
+  status: 'alive';
   timestamp: string;
   uptime: number;
   version: string;
   service: string;
-  dependencies: Record<string, 'healthy' | 'unhealthy'>;
+}
+
+/**
+ * Streamable HTTP MCP Session
+ */
+export interface MCPHttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  createdAt: Date;
+  lastActivityAt: Date;
 }
 
 /**
@@ -258,6 +372,7 @@ export const EasyPostShipmentSchema = z.object({
     message: z.string()
   })).optional(),
   reference: z.string().optional(),
+  is_return: z.boolean().optional(),
   created_at: z.string().datetime(),
   updated_at: z.string().datetime()
 });
@@ -374,13 +489,92 @@ export type EasyPostCarrier = z.infer<typeof EasyPostCarrierSchema>;
  * Request Types
  */
 
+// Parcel fields accepted in requests
+export const ParcelInputSchema = EasyPostParcelSchema.omit({ id: true, object: true, created_at: true, updated_at: true });
+
+export type ParcelInput = z.infer<typeof ParcelInputSchema>;
+
+// Box catalog entry. Dimensions in inches, weights in ounces.
+export const BoxDefinitionSchema = z.object({
+  id: z.string().min(1).describe('Box identifier'),
+  name: z.string().optional().describe('Display name'),
+  length: z.number().positive().describe('Inner length'),
+  width: z.number().positive().describe('Inner width'),
+  height: z.number().positive().describe('Inner height'),
+  outer_dimensions: z.object({
+    length: z.number().positive(),
+    width: z.number().positive(),
+    height: z.number().positive()
+  }).optional().describe('Outer dimensions sent to carriers (defaults to the inner dimensions)'),
+  tare_weight: z.number().nonnegative().default(0).describe('Weight of the empty box'),
+  max_weight: z.number().positive().describe('Maximum gross weight including the box'),
+  predefined_package: z.string().optional().describe('Carrier predefined package, e.g. "FlatRateBox"')
+});
+
+export type BoxDefinition = z.infer<typeof BoxDefinitionSchema>;
+
+export const BoxCatalogSchema = z.array(BoxDefinitionSchema)
+  .min(1)
+  .refine(boxes => new Set(boxes.map(box => box.id)).size === boxes.length, 'Box ids must be unique');
+
+// Line item to pack. Dimensions in inches, weight in ounces per unit.
+export const PackingItemSchema = z.object({
+  name: z.string().optional().describe('Item name or SKU'),
+  length: z.number().positive(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  weight: z.number().positive().describe('Weight of one unit in ounces'),
+  quantity: z.number().int().positive().max(500).default(1)
+});
+
+export type PackingItem = z.infer<typeof PackingItemSchema>;
+
+const BoxIdsSchema = z.array(z.string()).min(1).optional().describe('Only consider these catalog boxes');
+
+// Pack Items Request
+export const PackItemsRequestSchema = z.object({
+  items: z.array(PackingItemSchema).min(1).max(100).describe('Line items to pack'),
+  box_ids: BoxIdsSchema,
+  allow_multiple_boxes: z.boolean().default(true).describe('Split items across boxes when no single box fits')
+});
+
+export type PackItemsRequest = z.infer<typeof PackItemsRequestSchema>;
+
 // Create Shipment Request
+// Address fields accepted in requests
+export const ShipmentAddressSchema = EasyPostAddressSchema.omit({ id: true, object: true, created_at: true, updated_at: true, verifications: true });
+
+export type ShipmentAddress = z.infer<typeof ShipmentAddressSchema>;
+
+// Address book entry name, accepted with or without the leading "@"
+export const AddressBookNameSchema = z.string()
+  .regex(/^@?[a-z0-9][a-z0-9._-]{0,63}$/i, 'Address names use letters, digits, ".", "_" and "-" (max 64 characters)')
+  .transform(name => name.replace(/^@/, '').toLowerCase())
+  .describe('Address book name, e.g. "warehouse-east"');
+
+// Address or "@name" reference to a saved address
+const AddressInputSchema = z.union([
+  z.string()
+    .regex(/^@[a-z0-9][a-z0-9._-]{0,63}$/i, 'Address references look like "@warehouse-east"')
+    .describe('Saved address reference, e.g. "@warehouse-east"'),
+  ShipmentAddressSchema
+]);
+
+// Carrier account IDs a call may rate with
+const CarrierAccountIdsSchema = z.array(z.string().regex(/^ca_\w+$/, 'Carrier account IDs look like "ca_..."'))
+  .min(1)
+  .max(50);
+
 export const CreateShipmentRequestSchema = z.object({
-  to_address: EasyPostAddressSchema.omit({ id: true, object: true, created_at: true, updated_at: true, verifications: true }),
-  from_address: EasyPostAddressSchema.omit({ id: true, object: true, created_at: true, updated_at: true, verifications: true }),
-  return_address: EasyPostAddressSchema.omit({ id: true, object: true, created_at: true, updated_at: true, verifications: true }).optional(),
-  parcel: EasyPostParcelSchema.omit({ id: true, object: true, created_at: true, updated_at: true }),
-  options: z.record(z.unknown()).optional(),
+  to_address: AddressInputSchema.describe('Destination address, or "@name" of a saved address'),
+  from_address: AddressInputSchema.describe('Origin address, or "@name" of a saved address'),
+  return_address: AddressInputSchema.optional().describe('Return address, or "@name" of a saved address (defaults to origin)'),
+  parcel: ParcelInputSchema.optional().describe('Package dimensions and weight'),
+  items: z.array(PackingItemSchema).min(1).max(100).optional().describe('Line items to pack into the smallest catalog box, instead of parcel'),
+  box_ids: BoxIdsSchema,
+  options: z.record(z.unknown()).optional().describe('Additional shipping options'),
+  carrier_accounts: CarrierAccountIdsSchema.optional()
+    .describe('Only rate with these carrier account IDs (defaults to all accounts)'),
   customs_info: z.object({
     contents_type: z.string(),
     contents_explanation: z.string().optional(),
@@ -398,9 +592,19 @@ export const CreateShipmentRequestSchema = z.object({
       origin_country: z.string()
     }))
   }).optional()
+}).refine(data => (data.parcel === undefined) !== (data.items === undefined), {
+  message: 'Provide either parcel or items'
 });
 
-export type CreateShipmentRequest = z.infer<typeof CreateShipmentRequestSchema>;
+export type CreateShipmentInput = z.infer<typeof CreateShipmentRequestSchema>;
+
+// Shipment request with address book references and packed items resolved
+export type CreateShipmentRequest = Omit<CreateShipmentInput, 'to_address' | 'from_address' | 'return_address' | 'parcel' | 'items' | 'box_ids'> & {
+  to_address: ShipmentAddress;
+  from_address: ShipmentAddress;
+  return_address?: ShipmentAddress | undefined;
+  parcel: ParcelInput;
+};
 
 // Address Validation Request
 export const AddressValidationRequestSchema = z.object({
@@ -419,52 +623,906 @@ export const AddressValidationRequestSchema = z.object({
 
 export type AddressValidationRequest = z.infer<typeof AddressValidationRequestSchema>;
 
+// Address Book Requests
+export const SaveAddressRequestSchema = z.object({
+  name: AddressBookNameSchema,
+  address: AddressValidationRequestSchema.describe('Address to verify and save'),
+  overwrite: z.boolean().default(false).describe('Replace an existing address with the same name')
+});
+
+export type SaveAddressRequest = z.infer<typeof SaveAddressRequestSchema>;
+
+export const UpdateAddressRequestSchema = z.object({
+  name: AddressBookNameSchema,
+  address: AddressValidationRequestSchema.partial().optional()
+    .describe('Fields to change; the merged address is verified again'),
+  rename_to: AddressBookNameSchema.optional().describe('New name for the address')
+}).refine(
+  request => request.address !== undefined || request.rename_to !== undefined,
+  { message: 'Provide address fields to change or rename_to' }
+);
+
+export type UpdateAddressRequest = z.infer<typeof UpdateAddressRequestSchema>;
+
+export const AddressNameRequestSchema = z.object({
+  name: AddressBookNameSchema
+});
+
+export type AddressNameRequest = z.infer<typeof AddressNameRequestSchema>;
+
+export const ListAddressesRequestSchema = z.object({});
+
 // Shipment Rates Fetch Request
 export const ShipmentRatesFetchRequestSchema = z.object({
-  shipmentId: z.string()
+  shipmentId: z.string().describe('EasyPost shipment ID'),
+  carrier_accounts: CarrierAccountIdsSchema.optional().describe('Only return rates from these carrier account IDs')
 });
 
 export type ShipmentRatesFetchRequest = z.infer<typeof ShipmentRatesFetchRequestSchema>;
 
+// Idempotency key accepted by money-spending tools
+const IdempotencyKeySchema = z.string()
+  .min(1)
+  .max(255)
+  .optional()
+  .describe('Idempotency key. Repeating a key returns the original result instead of purchasing again; derived from the parameters when omitted');
+
+// Spending-policy approval for purchases above the confirmation threshold
+const ConfirmationTokenSchema = z.string()
+  .regex(/^spc_[a-f0-9]{32}$/, 'Confirmation tokens look like spc_ followed by 32 hex digits')
+  .optional()
+  .describe('Confirmation token from a SPEND_CONFIRMATION_REQUIRED error. Only pass it once the user has approved the amount');
+
+// Label file formats EasyPost can produce
+export const LabelFormatSchema = z.enum(['PNG', 'PDF', 'ZPL', 'EPL2']);
+
+export type LabelFormat = z.infer<typeof LabelFormatSchema>;
+
 // Shipment Label Purchase Request
 export const ShipmentLabelPurchaseRequestSchema = z.object({
-  shipmentId: z.string(),
-  rateId: z.string(),
-  insurance: z.string().optional()
+  shipmentId: z.string().describe('EasyPost shipment ID'),
+  rateId: z.string().describe('Selected rate ID'),
+  insurance: z.string().optional().describe('Insurance amount to add with the label'),
+  labelFormat: LabelFormatSchema.optional().describe('Label file format (PNG, PDF, ZPL or EPL2). Defaults to the format EasyPost generates, usually PNG'),
+  idempotencyKey: IdempotencyKeySchema,
+  confirmationToken: ConfirmationTokenSchema
 });
 
 export type ShipmentLabelPurchaseRequest = z.infer<typeof ShipmentLabelPurchaseRequestSchema>;
 
 // Shipment Tracking Request
 export const ShipmentTrackingRequestSchema = z.object({
-  trackingCode: z.string(),
-  carrier: z.string().optional()
+  trackingCode: z.string().describe('Tracking code'),
+  carrier: z.string().optional().describe('Carrier name (optional)'),
+  stalled_after_hours: z.number().int().positive().max(720).default(72)
+    .describe('Flag the shipment as stalled when no scan has been received for this many hours')
 });
 
 export type ShipmentTrackingRequest = z.infer<typeof ShipmentTrackingRequestSchema>;
 
 // SmartRate Request
 export const SmartrateRequestSchema = z.object({
-  from_zip: z.string(),
-  to_zip: z.string(),
-  carriers: z.array(z.string()).optional(),
-  planned_ship_date: z.string().optional(),
-  desired_delivery_date: z.string().optional()
+  from_zip: z.string().describe('Origin ZIP code'),
+  to_zip: z.string().describe('Destination ZIP code'),
+  carriers: z.array(z.string()).optional().describe('Array of carrier names'),
+  planned_ship_date: z.string().optional().describe('Planned ship date (YYYY-MM-DD)'),
+  desired_delivery_date: z.string().optional().describe('Desired delivery date (YYYY-MM-DD)')
 });
 
 export type SmartrateRequest = z.infer<typeof SmartrateRequestSchema>;
 
+// Shipment Refund Request
+export const ShipmentRefundRequestSchema = z.object({
+  shipmentId: z.string().describe('EasyPost shipment ID to refund')
+});
+
+export type ShipmentRefundRequest = z.infer<typeof ShipmentRefundRequestSchema>;
+
+// Insurance Purchase Request
+export const InsurancePurchaseRequestSchema = z.object({
+  shipmentId: z.string().describe('EasyPost shipment ID'),
+  amount: z.string()
+    .regex(/^\d+(\.\d{1,2})?$/, 'Amount must be a decimal string such as "100.00"')
+    .describe('Insurance coverage amount'),
+  idempotencyKey: IdempotencyKeySchema,
+  confirmationToken: ConfirmationTokenSchema
+});
+
+export type InsurancePurchaseRequest = z.infer<typeof InsurancePurchaseRequestSchema>;
+
+// Batch Creation Request
+export const BatchCreateRequestSchema = z.object({});
+
+export type BatchCreateRequest = z.infer<typeof BatchCreateRequestSchema>;
+
+// Add Shipments To Batch Request
+export const BatchAddShipmentsRequestSchema = z.object({
+  batchId: z.string().describe('Batch ID to add shipments to'),
+  shipmentIds: z.array(z.string()).min(1).describe('Array of shipment IDs to add')
+});
+
+export type BatchAddShipmentsRequest = z.infer<typeof BatchAddShipmentsRequestSchema>;
+
+// Batch Purchase Request
+export const BatchPurchaseRequestSchema = z.object({
+  batchId: z.string().describe('Batch ID to purchase'),
+  labelFormat: z.enum(['PDF', 'ZPL', 'EPL2']).optional().describe('Also request a merged batch label in this format once purchased'),
+  idempotencyKey: IdempotencyKeySchema,
+  confirmationToken: ConfirmationTokenSchema
+});
+
+export type BatchPurchaseRequest = z.infer<typeof BatchPurchaseRequestSchema>;
+
+// Carrier credentials are secrets: redacted by sanitizeForLogging and never returned by tools
+const CarrierCredentialsSchema = z.record(z.string());
+
+// Carrier Account Creation Request
+export const CarrierAccountCreateRequestSchema = z.object({
+  type: z.string().regex(/^[A-Za-z]+Account$/, 'Carrier account types look like "UpsAccount"')
+    .describe('Carrier account type from easypost://carriers, e.g. "UpsAccount" or "FedexAccount"'),
+  description: z.string().max(255).optional().describe('Description, e.g. "UPS contract - east"'),
+  reference: z.string().max(255).optional().describe('Your reference for the account'),
+  credentials: CarrierCredentialsSchema
+    .describe('Production credentials using the carrier fields listed in easypost://carriers (FedEx: registration data)'),
+  test_credentials: CarrierCredentialsSchema.optional().describe('Test credentials, for carriers that have them')
+});
+
+export type CarrierAccountCreateRequest = z.infer<typeof CarrierAccountCreateRequestSchema>;
+
+// Carrier Account Update Request
+export const CarrierAccountUpdateRequestSchema = z.object({
+  carrierAccountId: z.string().describe('EasyPost carrier account ID'),
+  description: z.string().max(255).optional().describe('New description'),
+  reference: z.string().max(255).optional().describe('New reference'),
+  credentials: CarrierCredentialsSchema.optional().describe('Replacement credentials, e.g. after a password rotation'),
+  test_credentials: CarrierCredentialsSchema.optional().describe('Replacement test credentials')
+}).refine(
+  request => request.description !== undefined || request.reference !== undefined ||
+    request.credentials !== undefined || request.test_credentials !== undefined,
+  { message: 'Provide at least one field to update' }
+);
+
+export type CarrierAccountUpdateRequest = z.infer<typeof CarrierAccountUpdateRequestSchema>;
+
+export const CarrierAccountListRequestSchema = z.object({});
+
+// Carrier Account Deletion Request
+export const CarrierAccountDeleteRequestSchema = z.object({
+  carrierAccountId: z.string().describe('EasyPost carrier account ID to delete')
+});
+
+export type CarrierAccountDeleteRequest = z.infer<typeof CarrierAccountDeleteRequestSchema>;
+
+// Pickup window bound: ISO 8601 with a UTC offset, so the carrier books the intended local time
+const PickupDateTimeSchema = z.string().datetime({ offset: true });
+
+// Pickup Creation Request
+export const PickupCreateRequestSchema = z.object({
+  shipmentId: z.string().optional().describe('Purchased shipment to collect'),
+  batchId: z.string().optional().describe('Purchased batch to collect'),
+  address: AddressInputSchema.describe('Collection address with contact name and phone, or "@name" of a saved address'),
+  min_datetime: PickupDateTimeSchema.describe('Start of the pickup window, e.g. 2026-10-20T09:00:00-07:00'),
+  max_datetime: PickupDateTimeSchema.describe('End of the pickup window, e.g. 2026-10-20T17:00:00-07:00'),
+  instructions: z.string().max(500).optional().describe('Instructions for the driver, e.g. "Ring the dock bell"'),
+  reference: z.string().max(100).optional().describe('Your reference for the pickup'),
+  is_account_address: z.boolean().default(false).describe('The address is the one on file with the carrier account')
+}).superRefine((request, ctx) => {
+  if ((request.shipmentId === undefined) === (request.batchId === undefined)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['shipmentId'],
+      message: 'Provide either shipmentId or batchId'
+    });
+  }
+
+  const start = Date.parse(request.min_datetime);
+  const end = Date.parse(request.max_datetime);
+  if (end <= start) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['max_datetime'],
+      message: 'max_datetime must be after min_datetime'
+    });
+  } else if (end - start > 7 * 24 * 3600 * 1000) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['max_datetime'],
+      message: 'The pickup window cannot be longer than 7 days'
+    });
+  }
+
+  if (end <= Date.now()) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['max_datetime'],
+      message: 'The pickup window has already ended'
+    });
+  }
+  if (start - Date.now() > 30 * 24 * 3600 * 1000) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['min_datetime'],
+      message: 'Pickups can be scheduled at most 30 days ahead'
+    });
+  }
+});
+
+export type PickupCreateRequest = z.infer<typeof PickupCreateRequestSchema>;
+
+// Pickup with its address book reference resolved
+export type CreatePickupRequest = Omit<PickupCreateRequest, 'address'> & {
+  address: ShipmentAddress;
+};
+
+// Pickup Rates Request
+export const PickupRatesRequestSchema = z.object({
+  pickupId: z.string().describe('EasyPost pickup ID')
+});
+
+export type PickupRatesRequest = z.infer<typeof PickupRatesRequestSchema>;
+
+// Pickup Purchase Request
+export const PickupPurchaseRequestSchema = z.object({
+  pickupId: z.string().describe('EasyPost pickup ID'),
+  carrier: z.string().describe('Carrier of the chosen pickup rate, e.g. "UPS"'),
+  service: z.string().describe('Service of the chosen pickup rate, e.g. "Same-day Pickup"'),
+  idempotencyKey: IdempotencyKeySchema,
+  confirmationToken: ConfirmationTokenSchema
+});
+
+export type PickupPurchaseRequest = z.infer<typeof PickupPurchaseRequestSchema>;
+
+// Pickup Cancellation Request
+export const PickupCancelRequestSchema = z.object({
+  pickupId: z.string().describe('EasyPost pickup ID to cancel')
+});
+
+export type PickupCancelRequest = z.infer<typeof PickupCancelRequestSchema>;
+
+// Merged Labels Request
+export const MergeLabelsRequestSchema = z.object({
+  shipmentIds: z.array(z.string()).min(1).max(100).optional()
+    .describe('Purchased shipment IDs whose labels to merge, in print order (up to 100)'),
+  batchId: z.string().optional().describe('Batch ID whose labels to merge'),
+  format: z.enum(['PDF', 'ZPL', 'EPL2']).default('PDF')
+    .describe('Merged document format: one multi-page PDF, or one concatenated ZPL/EPL2 document')
+}).refine(
+  request => (request.shipmentIds === undefined) !== (request.batchId === undefined),
+  { message: 'Provide either shipmentIds or batchId' }
+);
+
+export type MergeLabelsRequest = z.infer<typeof MergeLabelsRequestSchema>;
+
+// Scan Form Creation Request
+export const ScanFormCreateRequestSchema = z.object({
+  shipmentIds: z.array(z.string()).min(1).describe('Array of shipment IDs for the SCAN form')
+});
+
+export type ScanFormCreateRequest = z.infer<typeof ScanFormCreateRequestSchema>;
+
+// Webhook Registration Request
+export const WebhookCreateRequestSchema = z.object({
+  url: z.string().url().describe('URL EasyPost will POST events to, e.g. https://mcp.example.com/webhooks/easypost'),
+  webhook_secret: z.string().min(1).optional()
+    .describe('Secret EasyPost signs events with (defaults to EASYPOST_WEBHOOK_SECRET)')
+});
+
+export type WebhookCreateRequest = z.infer<typeof WebhookCreateRequestSchema>;
+
+export const WebhookListRequestSchema = z.object({});
+
+// Webhook Deletion Request
+export const WebhookDeleteRequestSchema = z.object({
+  webhookId: z.string().describe('EasyPost webhook ID')
+});
+
+export type WebhookDeleteRequest = z.infer<typeof WebhookDeleteRequestSchema>;
+
+// Customs Info Fetch Request
+export const CustomsInfoFetchRequestSchema = z.object({
+  customsInfoId: z.string().describe('Customs info ID')
+});
+
+export type CustomsInfoFetchRequest = z.infer<typeof CustomsInfoFetchRequestSchema>;
+
+// Customs Info Creation Request
+export const CustomsInfoCreateRequestSchema = z.object({
+  customs_items: z.array(z.object({
+    description: z.string(),
+    quantity: z.number().int().positive(),
+    weight: z.number().positive(),
+    value: z.number().positive(),
+    hs_tariff_number: z.string().optional(),
+    origin_country: z.string()
+  })).min(1).describe('Array of customs items'),
+  contents_type: z.string().describe('Type of contents (merchandise, documents, etc.)'),
+  contents_explanation: z.string().optional().describe('Explanation of contents'),
+  customs_certify: z.boolean().describe('Customs certification'),
+  customs_signer: z.string().describe('Name of customs signer'),
+  non_delivery_option: z.string().optional().describe('What to do if the package cannot be delivered (return or abandon)'),
+  restriction_type: z.string().optional(),
+  restriction_comments: z.string().optional()
+});
+
+export type CustomsInfoCreateRequest = z.infer<typeof CustomsInfoCreateRequestSchema>;
+
+// Advanced Address Verification Request
+export const AddressVerificationRequestSchema = z.object({
+  address: AddressValidationRequestSchema.describe('Address to verify'),
+  carrier: z.string().optional().describe('Specific carrier to verify against')
+});
+
+export type AddressVerificationRequest = z.infer<typeof AddressVerificationRequestSchema>;
+
+// Rate Selection Policy
+export const RateSelectionPolicySchema = z.object({
+  strategy: z.enum(['cheapest', 'fastest', 'cheapest_by_date', 'smartrate_percentile'])
+    .default('cheapest')
+    .describe('cheapest: lowest price; fastest: fewest transit days; cheapest_by_date: lowest price delivering by deliver_by; smartrate_percentile: rank by SmartRate transit days at the given percentile'),
+  deliver_by: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'deliver_by must be a YYYY-MM-DD date')
+    .optional()
+    .describe('Latest acceptable delivery date (YYYY-MM-DD), required for cheapest_by_date'),
+  percentile: z.union([
+    z.literal(50), z.literal(75), z.literal(85), z.literal(90),
+    z.literal(95), z.literal(97), z.literal(99)
+  ])
+    .optional()
+    .describe('SmartRate confidence percentile for transit days. Defaults to 90 for smartrate_percentile; with other strategies, replaces carrier estimates with SmartRate data'),
+  max_days: z.number().int().positive().optional()
+    .describe('Maximum transit days; with smartrate_percentile, picks the cheapest rate within this many days'),
+  currency: z.string()
+    .regex(/^[A-Za-z]{3}$/, 'currency must be a three-letter currency code')
+    .default('USD')
+    .describe('Currency of the rates to consider; rates in other currencies are excluded since their prices cannot be compared'),
+  max_price: z.number().positive().optional().describe('Maximum acceptable rate, in the policy currency'),
+  carriers_allow: z.array(z.string()).optional().describe('Only consider these carriers'),
+  carriers_deny: z.array(z.string()).optional().describe('Never consider these carriers'),
+  services_allow: z.array(z.string()).optional().describe('Only consider these services'),
+  services_deny: z.array(z.string()).optional().describe('Never consider these services'),
+  carrier_accounts: CarrierAccountIdsSchema.optional().describe('Only consider rates from these carrier account IDs'),
+  planned_ship_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'planned_ship_date must be a YYYY-MM-DD date')
+    .optional()
+    .describe('Date the parcel will be handed to the carrier (defaults to today)')
+}).superRefine((policy, ctx) => {
+  if (policy.strategy === 'cheapest_by_date' && !policy.deliver_by) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['deliver_by'],
+      message: 'deliver_by is required for the cheapest_by_date strategy'
+    });
+  }
+});
+
+export type RateSelectionPolicy = z.infer<typeof RateSelectionPolicySchema>;
+
+// Rate Selection Request
+export const SelectBestRateRequestSchema = z.object({
+  shipmentId: z.string().describe('EasyPost shipment ID'),
+  policy: RateSelectionPolicySchema.default({}).describe('Rate selection policy')
+});
+
+export type SelectBestRateRequest = z.infer<typeof SelectBestRateRequestSchema>;
+
+// Return Label Request
+export const ReturnLabelRequestSchema = z.object({
+  shipmentId: z.string().describe('Original outbound EasyPost shipment ID'),
+  parcel: ParcelInputSchema.optional().describe('Parcel for the return (defaults to the original parcel)'),
+  rate_policy: RateSelectionPolicySchema.default({}).describe('How to choose the return rate (defaults to cheapest)'),
+  labelFormat: LabelFormatSchema.optional().describe('Label file format (defaults to the carrier default, usually PNG)'),
+  email_to: z.union([z.literal('customer'), z.string().email()]).optional()
+    .describe('Email the label: an address, or "customer" to use the email of the original recipient'),
+  attach: z.boolean().default(false).describe('Keep the label file as an easypost://labels resource'),
+  idempotencyKey: IdempotencyKeySchema,
+  confirmationToken: ConfirmationTokenSchema
+});
+
+export type ReturnLabelRequest = z.infer<typeof ReturnLabelRequestSchema>;
+
+// SmartRate deliver_by estimate response (only the fields rate selection relies on)
+export const SmartrateEstimateResponseSchema = z.object({
+  results: z.array(z.object({
+    carrier: z.string(),
+    service: z.string(),
+    easypost_time_in_transit_data: z.object({
+      days_in_transit: z.record(z.number().nullable())
+    }).passthrough()
+  }).passthrough()).default([])
+}).passthrough();
+
+export type SmartrateEstimateResponse = z.infer<typeof SmartrateEstimateResponseSchema>;
+
+/**
+ * Rate Selection Result
+ */
+export interface RateSelectionCandidate {
+  rate_id: string;
+  carrier: string;
+  service: string;
+  rate: string;
+  transit_days?: number | undefined;
+  estimated_delivery_date?: string | undefined;
+}
+
+export interface RateSelectionResult {
+  shipment_id: string;
+  strategy: RateSelectionPolicy['strategy'];
+  selected_rate: EasyPostRate;
+  transit_days?: number | undefined;
+  estimated_delivery_date?: string | undefined;
+  transit_source: 'smartrate' | 'carrier_estimate' | 'unknown';
+  justification: string;
+  alternatives: RateSelectionCandidate[];
+  excluded: Array<RateSelectionCandidate & { reason: string }>;
+}
+
+/**
+ * Saved address book entry
+ */
+export interface SavedAddress {
+  name: string;
+  address: ShipmentAddress;
+  easypost_address_id?: string | undefined;
+  verified: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Box chosen by the packing solver and its contents
+ */
+export interface PackedBox {
+  box_id: string;
+  box_name?: string | undefined;
+  items: Array<{ name?: string | undefined; quantity: number }>;
+  item_count: number;
+  // Share of the box's inner volume used by items, 0-1
+  fill_rate: number;
+  parcel: ParcelInput;
+}
+
+/**
+ * Packing solver result
+ */
+export interface PackingResult {
+  boxes: PackedBox[];
+  box_count: number;
+  total_weight: number;
+}
+
+/**
+ * EasyPost Batch (fields used by label merging)
+ */
+export interface EasyPostBatch {
+  id: string;
+  object: 'Batch';
+  state: string;
+  shipments: Array<{ id: string; batch_status?: string | undefined; tracking_code?: string | null | undefined }>;
+  label_url?: string | null | undefined;
+  [key: string]: unknown;
+}
+
+/**
+ * EasyPost Carrier Account
+ */
+export interface EasyPostCarrierAccount {
+  id: string;
+  object: 'CarrierAccount';
+  type: string;
+  readable?: string | undefined;
+  description?: string | null | undefined;
+  reference?: string | null | undefined;
+  billing_type?: string | null | undefined;
+  credentials?: Record<string, unknown> | undefined;
+  test_credentials?: Record<string, unknown> | null | undefined;
+  created_at?: string | undefined;
+  updated_at?: string | undefined;
+  [key: string]: unknown;
+}
+
+/**
+ * EasyPost Pickup and its rates
+ */
+export interface EasyPostPickupRate {
+  id: string;
+  object: 'PickupRate';
+  carrier: string;
+  service: string;
+  rate: string;
+  currency: string;
+  pickup_id?: string | undefined;
+  [key: string]: unknown;
+}
+
+export interface EasyPostPickup {
+  id: string;
+  object: 'Pickup';
+  mode: 'test' | 'production';
+  status: string; // unknown, scheduled or canceled
+  reference?: string | null | undefined;
+  min_datetime: string;
+  max_datetime: string;
+  is_account_address?: boolean | undefined;
+  instructions?: string | null | undefined;
+  confirmation?: string | null | undefined;
+  address?: EasyPostAddress | undefined;
+  pickup_rates?: EasyPostPickupRate[] | undefined;
+  created_at?: string | undefined;
+  updated_at?: string | undefined;
+  [key: string]: unknown;
+}
+
+/**
+ * EasyPost Webhook
+ */
+export interface EasyPostWebhook {
+  id: string;
+  object: 'Webhook';
+  mode: 'test' | 'production';
+  url: string;
+  disabled_at?: string | null | undefined;
+  created_at?: string | undefined;
+  [key: string]: unknown;
+}
+
+/**
+ * Event envelope POSTed to webhook URLs
+ */
+export const EasyPostEventSchema = z.object({
+  id: z.string(),
+  object: z.literal('Event'),
+  description: z.string(),
+  mode: z.enum(['test', 'production']).optional(),
+  result: z.record(z.unknown()),
+  created_at: z.string().optional()
+});
+
+export type EasyPostEvent = z.infer<typeof EasyPostEventSchema>;
+
+/**
+ * Batch as delivered in batch.updated events
+ */
+export const EasyPostBatchEventResultSchema = z.object({
+  id: z.string(),
+  state: z.string(),
+  shipments: z.array(z.object({
+    id: z.string(),
+    batch_status: z.string().optional(),
+    batch_message: z.string().nullable().optional(),
+    tracking_code: z.string().nullable().optional()
+  })).default([]),
+  updated_at: z.string().optional()
+});
+
+/**
+ * Refund as delivered in refund.successful events
+ */
+export const EasyPostRefundSchema = z.object({
+  id: z.string(),
+  object: z.literal('Refund'),
+  tracking_code: z.string().optional(),
+  confirmation_number: z.string().nullable().optional(),
+  status: z.string(),
+  carrier: z.string().optional(),
+  shipment_id: z.string(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional()
+});
+
+export type EasyPostRefund = z.infer<typeof EasyPostRefundSchema>;
+
+/**
+ * One entry in a shipment's tracking timeline
+ */
+export interface TrackingTimelineEvent {
+  type: 'tracking' | 'batch' | 'refund' | 'return';
+  datetime: string;
+  status: string;
+  status_detail?: string | undefined;
+  message?: string | undefined;
+  source?: string | undefined;
+  location?: {
+    city?: string | undefined;
+    state?: string | undefined;
+    country?: string | undefined;
+    zip?: string | undefined;
+  } | undefined;
+}
+
+/**
+ * Status history of a shipment assembled from tracker, batch and refund events
+ */
+export interface TrackingTimeline {
+  shipment_id: string;
+  tracker_id?: string | undefined;
+  tracking_code?: string | undefined;
+  carrier?: string | undefined;
+  status?: string | undefined;
+  status_detail?: string | undefined;
+  est_delivery_date?: string | undefined;
+  batch_id?: string | undefined;
+  refund_status?: string | undefined;
+  // Return shipments created for this shipment, or the outbound shipment this one returns
+  return_shipment_ids?: string[] | undefined;
+  original_shipment_id?: string | undefined;
+  events: TrackingTimelineEvent[];
+  updated_at: string;
+}
+
+/**
+ * Purchased return label and its link to the outbound shipment
+ */
+export interface ReturnLabelResult {
+  original_shipment_id: string;
+  return_shipment: EasyPostShipment;
+  selection: RateSelectionResult;
+}
+
+/**
+ * Carrier-independent tracking status
+ */
+export type CanonicalTrackingStatus =
+  | 'label_created'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'available_for_pickup'
+  | 'delivered'
+  | 'exception'
+  | 'returned'
+  | 'cancelled'
+  | 'unknown';
+
+export type TrackingExceptionCategory =
+  | 'delayed'
+  | 'address_issue'
+  | 'returned_to_sender'
+  | 'damaged'
+  | 'stalled';
+
+export interface TrackingLocation {
+  city?: string | undefined;
+  state?: string | undefined;
+  country?: string | undefined;
+  zip?: string | undefined;
+  // Human-readable form, e.g. "OAKLAND, CA, US"
+  description: string;
+}
+
+/**
+ * Tracker reduced to the same fields and vocabulary for every carrier
+ */
+export interface NormalizedTracking {
+  tracking_code: string;
+  carrier: string;
+  status: CanonicalTrackingStatus;
+  // Status and detail exactly as reported by EasyPost
+  carrier_status?: string | undefined;
+  carrier_status_detail?: string | undefined;
+  // Expected delivery as YYYY-MM-DD
+  estimated_delivery_date?: string | undefined;
+  delivered_at?: string | undefined;
+  last_event?: {
+    datetime: string;
+    status: CanonicalTrackingStatus;
+    message: string;
+    location?: TrackingLocation | undefined;
+  } | undefined;
+  last_location?: TrackingLocation | undefined;
+  hours_since_last_scan?: number | undefined;
+  exception: {
+    category: TrackingExceptionCategory;
+    reason: string;
+  } | null;
+}
+
+/**
+ * Merged label document, served as an MCP resource
+ */
+export interface LabelDocumentSummary {
+  uri: string;
+  format: LabelFormat;
+  mimeType: string;
+  // Resource name; merged documents are named after their format and label count
+  title?: string | undefined;
+  shipmentIds: string[];
+  batchId?: string | undefined;
+  labelCount: number;
+  byteLength: number;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface LabelDocument extends LabelDocumentSummary {
+  content: Buffer;
+}
+
+/**
+ * Spending limits for money-spending tools, in USD. Unset limits are not enforced.
+ */
+export interface SpendingLimits {
+  perCall?: number | undefined;
+  daily?: number | undefined;
+  monthly?: number | undefined;
+  /**
+   * Purchases above this amount need a confirmation token
+   */
+  confirmationThreshold?: number | undefined;
+  confirmationTtl?: number | undefined; // Seconds a confirmation token stays valid
+}
+
+/**
+ * Spend of one account and mode in a UTC day or month, against its limit
+ */
+export interface SpendWindow {
+  period: string; // YYYY-MM-DD or YYYY-MM
+  spent: number;
+  limit: number | null;
+  remaining: number | null;
+}
+
+export interface SpendSummary {
+  account: string;
+  mode: EasyPostMode;
+  daily: SpendWindow;
+  monthly: SpendWindow;
+}
+
+/**
+ * Idempotency records for money-spending operations
+ */
+export interface IdempotencyRecord<T = unknown> {
+  key: string;
+  operation: string;
+  fingerprint: string; // SHA-256 of operation and parameters
+  result: T;
+  createdAt: string;
+}
+
+export interface IdempotentResult<T> extends IdempotencyRecord<T> {
+  replayed: boolean;
+}
+
+/**
+ * Audit trail of state-changing tool calls
+ */
+export type { AuditOutcome, AuditQuery, AuditRecord, ToolCallContext } from '@mcp-shipping/shared';
+
+export const AuditLogQueryRequestSchema = z.object({
+  from: z.string().datetime({ offset: true }).optional().describe('Only calls at or after this ISO 8601 time'),
+  to: z.string().datetime({ offset: true }).optional().describe('Only calls before this ISO 8601 time'),
+  tool: z.string().optional().describe('Only calls of this tool, e.g. buy_shipment_label'),
+  outcome: z.enum(['success', 'error']).optional().describe('Only successful or only failed calls'),
+  limit: z.number().int().min(1).max(500).default(50).describe('Maximum number of records, newest first')
+});
+
+export type AuditLogQueryRequest = z.infer<typeof AuditLogQueryRequestSchema>;
+
+const AccountNameSchema = z.string()
+  .regex(/^[a-z0-9][a-z0-9_-]{0,63}$/i, 'Account names are letters, digits, "-" and "_"');
+
+/**
+ * Account and mode every tool call may choose. Omitted, the default account is used,
+ * in test mode outside production.
+ */
+export const AccountSelectionInputSchema = z.object({
+  account: AccountNameSchema.optional()
+    .describe('Named EasyPost account to act as (see easypost://accounts); the default account when omitted'),
+  mode: z.enum(['test', 'production']).optional()
+    .describe('API key to use: "test" never buys real postage, "production" buys live postage. Defaults to test outside production')
+});
+
+export type AccountSelectionInput = z.infer<typeof AccountSelectionInputSchema>;
+
+// EasyPost test keys start with EZTK and production keys with EZAK
+const isProductionKey = (key: string) => key.startsWith('EZAK');
+
 /**
  * Environment Variables Schema
  */
+// EASYPOST_ACCOUNTS: JSON object of account name to its keys
+const EasyPostAccountsEnvSchema = z.string()
+  .transform((value, ctx) => {
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'EASYPOST_ACCOUNTS must be a JSON object' });
+      return z.NEVER;
+    }
+  })
+  .pipe(z.record(
+    AccountNameSchema,
+    z.object({
+      description: z.string().max(200).optional(),
+      test_api_key: z.string().min(1).optional(),
+      production_api_key: z.string().min(1).optional()
+    }).refine(
+      account => account.test_api_key !== undefined || account.production_api_key !== undefined,
+      'Each account needs a test_api_key or a production_api_key'
+    )
+  ));
+
+// Comma-separated list, e.g. MCP_ALLOWED_ORIGINS=https://a.example,https://b.example
+const CommaSeparatedEnvSchema = z.string()
+  .transform(value => value.split(',').map(item => item.trim()).filter(item => item.length > 0));
+
 export const EnvironmentVariablesSchema = z.object({
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
-  EASYPOST_API_KEY: z.string().min(1, 'EasyPost API key is required'),
+  EASYPOST_API_KEY: z.string().min(1).optional(),
+  EASYPOST_TEST_API_KEY: z.string().min(1).optional(),
+  EASYPOST_PRODUCTION_API_KEY: z.string().min(1).optional(),
+  EASYPOST_ACCOUNTS: EasyPostAccountsEnvSchema.optional(),
+  EASYPOST_DEFAULT_ACCOUNT: AccountNameSchema.optional(),
   EASYPOST_TIMEOUT: z.coerce.number().int().positive().default(30000),
   EASYPOST_RETRY_ATTEMPTS: z.coerce.number().int().min(0).max(5).default(3),
   ENABLE_CACHE: z.coerce.boolean().default(false),
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
-  PORT: z.coerce.number().int().positive().optional()
+  PORT: z.coerce.number().int().positive().optional(),
+  MCP_AUTH_TOKEN: z.string().min(16).optional(),
+  MCP_ALLOWED_ORIGINS: CommaSeparatedEnvSchema.optional(),
+  MCP_ALLOWED_HOSTS: CommaSeparatedEnvSchema.optional(),
+  MCP_SESSION_IDLE_TIMEOUT: z.coerce.number().int().positive().default(1800),
+  MCP_MAX_SESSIONS: z.coerce.number().int().positive().default(100),
+  ADDRESS_BOOK_PATH: z.string().default('./data/address-book.json'),
+  BOX_CATALOG_PATH: z.string().optional(),
+  EASYPOST_WEBHOOK_SECRET: z.string().min(1).optional(),
+  SMTP_URL: z.string().url().optional(),
+  MAIL_FROM: z.string().email().optional(),
+  REDIS_URL: z.string().optional(),
+  IDEMPOTENCY_TTL: z.coerce.number().int().positive().default(86400),
+  SPEND_LIMIT_PER_CALL: z.coerce.number().positive().optional(),
+  SPEND_LIMIT_DAILY: z.coerce.number().positive().optional(),
+  SPEND_LIMIT_MONTHLY: z.coerce.number().positive().optional(),
+  SPEND_CONFIRMATION_THRESHOLD: z.coerce.number().min(0).optional(),
+  SPEND_CONFIRMATION_TTL: z.coerce.number().int().positive().default(900),
+  EASYPOST_DRY_RUN: z.coerce.boolean().default(false),
+  DATABASE_URL: z.string().optional(),
+  AUDIT_LOG_PATH: z.string().default('./data/audit-log.jsonl'),
+  OTEL_TRACES_EXPORTER: z.enum(['none', 'otlp', 'file']).default('none'),
+  OTEL_EXPORTER_OTLP_ENDPOINT: z.string().url().optional(),
+  OTEL_TRACES_FILE: z.string().default('./data/traces.jsonl')
+}).superRefine((env, ctx) => {
+  const accounts = env.EASYPOST_ACCOUNTS ?? {};
+
+  // Dry runs never reach EasyPost, so they need no key
+  if (!env.EASYPOST_DRY_RUN && !env.EASYPOST_API_KEY && !env.EASYPOST_TEST_API_KEY && !env.EASYPOST_PRODUCTION_API_KEY && Object.keys(accounts).length === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['EASYPOST_API_KEY'],
+      message: 'EasyPost API key is required (EASYPOST_API_KEY, EASYPOST_TEST_API_KEY, EASYPOST_PRODUCTION_API_KEY or EASYPOST_ACCOUNTS)'
+    });
+  }
+
+  // A live key in a test slot would buy real postage while the server reports test mode
+  const testKeys: Array<[string[], string | undefined]> = [
+    [['EASYPOST_TEST_API_KEY'], env.EASYPOST_TEST_API_KEY],
+    ...Object.entries(accounts).map(([name, account]): [string[], string | undefined] =>
+      [['EASYPOST_ACCOUNTS', name, 'test_api_key'], account.test_api_key])
+  ];
+  for (const [path, key] of testKeys) {
+    if (key && isProductionKey(key)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: 'Production API key (EZAK) configured as a test key' });
+    }
+  }
+
+  const productionKeys: Array<[string[], string | undefined]> = [
+    [['EASYPOST_PRODUCTION_API_KEY'], env.EASYPOST_PRODUCTION_API_KEY],
+    ...Object.entries(accounts).map(([name, account]): [string[], string | undefined] =>
+      [['EASYPOST_ACCOUNTS', name, 'production_api_key'], account.production_api_key])
+  ];
+  for (const [path, key] of productionKeys) {
+    if (key && !isProductionKey(key)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: 'Production API keys start with EZAK' });
+    }
+  }
+
+  if (env.EASYPOST_DEFAULT_ACCOUNT && env.EASYPOST_DEFAULT_ACCOUNT !== 'default' && !(env.EASYPOST_DEFAULT_ACCOUNT in accounts)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['EASYPOST_DEFAULT_ACCOUNT'],
+      message: `Account ${env.EASYPOST_DEFAULT_ACCOUNT} is not defined in EASYPOST_ACCOUNTS`
+    });
+  }
 });
 
 export type EnvironmentVariables = z.infer<typeof EnvironmentVariablesSchema>;
@@ -535,6 +1593,47 @@ export const schemas = {
   ShipmentLabelPurchaseRequestSchema,
   ShipmentTrackingRequestSchema,
   SmartrateRequestSchema,
+  ShipmentRefundRequestSchema,
+  InsurancePurchaseRequestSchema,
+  BatchCreateRequestSchema,
+  BatchAddShipmentsRequestSchema,
+  BatchPurchaseRequestSchema,
+  MergeLabelsRequestSchema,
+  LabelFormatSchema,
+  ShipmentAddressSchema,
+  AddressBookNameSchema,
+  SaveAddressRequestSchema,
+  UpdateAddressRequestSchema,
+  AddressNameRequestSchema,
+  ListAddressesRequestSchema,
+  ParcelInputSchema,
+  BoxDefinitionSchema,
+  BoxCatalogSchema,
+  PackingItemSchema,
+  PackItemsRequestSchema,
+  ReturnLabelRequestSchema,
+  CarrierAccountCreateRequestSchema,
+  CarrierAccountUpdateRequestSchema,
+  CarrierAccountListRequestSchema,
+  CarrierAccountDeleteRequestSchema,
+  AccountSelectionInputSchema,
+  PickupCreateRequestSchema,
+  PickupRatesRequestSchema,
+  PickupPurchaseRequestSchema,
+  PickupCancelRequestSchema,
+  WebhookCreateRequestSchema,
+  WebhookListRequestSchema,
+  WebhookDeleteRequestSchema,
+  EasyPostEventSchema,
+  EasyPostBatchEventResultSchema,
+  EasyPostRefundSchema,
+  ScanFormCreateRequestSchema,
+  CustomsInfoFetchRequestSchema,
+  CustomsInfoCreateRequestSchema,
+  AddressVerificationRequestSchema,
+  RateSelectionPolicySchema,
+  SelectBestRateRequestSchema,
+  SmartrateEstimateResponseSchema,
   EnvironmentVariablesSchema
 };
 
@@ -549,4 +1648,30 @@ export const CONSTANTS = {
   SUPPORTED_CARRIERS: ['USPS', 'UPS', 'FedEx', 'DHL', 'CanadaPost', 'AusPost'],
   SUPPORTED_COUNTRIES: ['US', 'CA', 'GB', 'AU', 'DE', 'FR', 'IT', 'ES'],
   RESPONSE_TIMEOUT_MS: 200, // Target response time
+  RETRY_BASE_DELAY_MS: 500, // Cap of the first full-jitter retry delay, doubled on every further attempt
+  IDEMPOTENCY_TTL: 86400, // 24 hours
+  DEFAULT_ACCOUNT_NAME: 'default', // Account holding the EASYPOST_*_API_KEY keys
+  IDEMPOTENCY_LOCK_TTL: 120, // Upper bound for an in-flight purchase
+  SPEND_CONFIRMATION_TTL: 900, // 15 minutes to approve a purchase above the threshold
+  INSURANCE_FEE_RATE: 0.01, // Insurance fee held until the charged fee is known; EasyPost charges 0.5%
+  INSURANCE_FEE_MINIMUM: 1, // and at least $1
+  DEFAULT_ADDRESS_BOOK_PATH: './data/address-book.json',
+  PACKING_MAX_UNITS: 500, // Upper bound on expanded item quantities per packing request
+  MCP_SESSION_IDLE_TIMEOUT: 1800, // Streamable HTTP sessions idle for 30 minutes are closed
+  MCP_MAX_SESSIONS: 100, // Open Streamable HTTP sessions; further initialize requests are refused
+  MCP_SESSION_SWEEP_MS: 60000, // How often idle sessions are looked for
+  WEBHOOK_PATH: '/webhooks/easypost',
+  WEBHOOK_EVENT_TTL: 86400, // Event IDs remembered to drop redelivered events
+  TRACKING_TIMELINE_TTL: 2592000, // Timelines kept 30 days after their last update
+  TRACKING_TIMELINE_URI_PREFIX: 'easypost://shipments/',
+  LABEL_DOCUMENT_TTL: 3600, // Merged label documents are kept for 1 hour
+  LABEL_DOCUMENT_URI_PREFIX: 'easypost://labels/',
+  LABEL_MIME_TYPES: {
+    PNG: 'image/png',
+    PDF: 'application/pdf',
+    ZPL: 'application/x-zpl',
+    EPL2: 'application/x-epl2'
+  },
+  DEFAULT_SMARTRATE_PERCENTILE: 90,
+  RATE_SELECTION_ALTERNATIVES: 3
 } as const;
\ No newline at end of file
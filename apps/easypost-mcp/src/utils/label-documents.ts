@@ -0,0 +1,120 @@
+import { PDFDocument } from 'pdf-lib';
+import { EasyPostError, EasyPostPostageLabel, LabelFormat } from '../types/index.js';
+
+/**
+ * Label document builders
+ * Merge individual shipping labels into one printable document:
+ * thermal formats (ZPL, EPL2) are concatenated, PDF labels are merged page by page.
+ */
+
+export interface PdfLabelPage {
+  png: Buffer;
+  /**
+   * Page size in points (1/72 inch)
+   */
+  width: number;
+  height: number;
+}
+
+const POINTS_PER_INCH = 72;
+
+/**
+ * Convert an EasyPost label_size such as "4x6" or "4X6" into PDF points, defaulting to 4x6
+ */
+export function labelSizeToPoints(labelSize?: string): { width: number; height: number } {
+  const match = labelSize?.match(/^(\d+(?:\.\d+)?)\s*x\s*(\d+(?:\.\d+)?)$/i);
+  const width = match ? parseFloat(match[1]!) : 4;
+  const height = match ? parseFloat(match[2]!) : 6;
+
+  return { width: width * POINTS_PER_INCH, height: height * POINTS_PER_INCH };
+}
+
+/**
+ * Get the URL of a postage label rendition in the given format
+ */
+export function getLabelUrl(label: EasyPostPostageLabel, format: LabelFormat): string | undefined {
+  switch (format) {
+    case 'PDF':
+      return label.label_pdf_url;
+    case 'ZPL':
+      return label.label_zpl_url;
+    case 'EPL2':
+      return label.label_epl2_url;
+    default:
+      return label.label_png_url ?? (label.label_file_type === 'image/png' ? label.label_url : undefined);
+  }
+}
+
+/**
+ * Concatenate ZPL or EPL2 labels into one document. Each label is a complete
+ * format block, so printers process the result as consecutive labels.
+ */
+export function concatenateLabels(labels: string[]): string {
+  return labels
+    .map(label => label.replace(/\s+$/, ''))
+    .filter(label => label.length > 0)
+    .join('\n') + '\n';
+}
+
+/**
+ * Merge PDF labels into one document, keeping each label's pages and page size
+ */
+export async function mergePdfs(pdfs: Buffer[]): Promise<Buffer> {
+  if (pdfs.length === 0) {
+    throw new EasyPostError('Cannot build a PDF without labels', 'LABEL_MERGE_FAILED');
+  }
+
+  const merged = await PDFDocument.create();
+
+  for (const [index, pdf] of pdfs.entries()) {
+    const label = await PDFDocument.load(pdf).catch(() => {
+      throw unsupported(index, 'not a PDF document');
+    });
+    const pages = await merged.copyPages(label, label.getPageIndices());
+    pages.forEach(page => merged.addPage(page));
+  }
+
+  return Buffer.from(await merged.save());
+}
+
+/**
+ * Build a multi-page PDF with one PNG label per page, scaled to fit and centered
+ */
+export async function buildPdfFromPngs(pages: PdfLabelPage[]): Promise<Buffer> {
+  if (pages.length === 0) {
+    throw new EasyPostError('Cannot build a PDF without labels', 'LABEL_MERGE_FAILED');
+  }
+
+  const pdf = await PDFDocument.create();
+
+  for (const [index, page] of pages.entries()) {
+    const image = await pdf.embedPng(page.png).catch(() => {
+      throw unsupported(index, 'not a PNG image');
+    });
+    const { width, height } = image.scaleToFit(page.width, page.height);
+
+    pdf.addPage([page.width, page.height]).drawImage(image, {
+      x: (page.width - width) / 2,
+      y: (page.height - height) / 2,
+      width,
+      height
+    });
+  }
+
+  return Buffer.from(await pdf.save());
+}
+
+/**
+ * Count the pages of a PDF
+ */
+export async function countPdfPages(pdf: Buffer): Promise<number> {
+  return (await PDFDocument.load(pdf)).getPageCount();
+}
+
+function unsupported(index: number, reason: string): EasyPostError {
+  return new EasyPostError(
+    `Label ${index + 1} cannot be merged into a PDF: ${reason}`,
+    'LABEL_MERGE_FAILED',
+    { labelIndex: index, reason }
+  );
+}
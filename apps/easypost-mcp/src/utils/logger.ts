@@ -1,4 +1,5 @@
 import winston, { Logger, LoggerOptions } from 'winston';
+import { trace } from '@opentelemetry/api';
 import { config } from 'dotenv';
 
 // Load environment variables
@@ -24,10 +25,23 @@ const customLevels = {
   }
 };
 
+/**
+ * Attach the IDs of the active trace span, so log lines can be joined with traces
+ */
+const traceContext = winston.format(info => {
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  if (spanContext && trace.isSpanContextValid(spanContext)) {
+    info['trace_id'] = spanContext.traceId;
+    info['span_id'] = spanContext.spanId;
+  }
+  return info;
+});
+
 /**
  * Custom format for structured logging
  */
 const structuredFormat = winston.format.combine(
+  traceContext(),
   winston.format.timestamp({
     format: 'YYYY-MM-DD HH:mm:ss.SSS'
   }),
@@ -53,6 +67,7 @@ const structuredFormat = winston.format.combine(
  * Console format for development
  */
 const consoleFormat = winston.format.combine(
+  traceContext(),
   winston.format.timestamp({
     format: 'HH:mm:ss.SSS'
   }),
@@ -477,7 +492,8 @@ export function sanitizeForLogging(data: any): any {
 
   const sensitiveFields = [
     'password', 'token', 'secret', 'key', 'api_key', 'apiKey',
-    'authorization', 'cookie', 'session', 'csrf'
+    'authorization', 'cookie', 'session', 'csrf',
+    'credentials', 'registration_data'
   ];
 
   const sanitized = Array.isArray(data) ? [...data] : { ...data };
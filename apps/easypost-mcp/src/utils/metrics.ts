@@ -0,0 +1,195 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { CONSTANTS } from '../types/index.js';
+import { normalizeEndpoint, type CircuitBreakerRegistry } from '@mcp-shipping/shared';
+
+/**
+ * Prometheus metrics of the process, served in text format at GET /metrics
+ */
+export const metricsRegistry = new Registry();
+metricsRegistry.setDefaultLabels({ service: 'easypost-mcp' });
+collectDefaultMetrics({ register: metricsRegistry });
+
+const RESPONSE_TARGET_SECONDS = CONSTANTS.RESPONSE_TIMEOUT_MS / 1000;
+
+// Bucket boundaries in seconds; one sits on the response time target
+const LATENCY_BUCKETS = [0.01, 0.025, 0.05, 0.1, RESPONSE_TARGET_SECONDS, 0.5, 1, 2.5, 5, 10, 30]
+  .filter((bucket, index, buckets) => buckets.indexOf(bucket) === index)
+  .sort((a, b) => a - b);
+
+const toolCalls = new Counter({
+  name: 'mcp_tool_calls_total',
+  help: 'MCP tool calls by tool and outcome',
+  labelNames: ['tool', 'outcome'] as const,
+  registers: [metricsRegistry]
+});
+
+const toolErrors = new Counter({
+  name: 'mcp_tool_errors_total',
+  help: 'Failed MCP tool calls by tool and MCP error code',
+  labelNames: ['tool', 'code'] as const,
+  registers: [metricsRegistry]
+});
+
+const toolDuration = new Histogram({
+  name: 'mcp_tool_call_duration_seconds',
+  help: 'MCP tool call latency',
+  labelNames: ['tool'] as const,
+  buckets: LATENCY_BUCKETS,
+  registers: [metricsRegistry]
+});
+
+const toolCallsOverTarget = new Counter({
+  name: 'mcp_tool_calls_over_target_total',
+  help: 'MCP tool calls slower than the response time target',
+  labelNames: ['tool'] as const,
+  registers: [metricsRegistry]
+});
+
+const upstreamDuration = new Histogram({
+  name: 'mcp_upstream_request_duration_seconds',
+  help: 'EasyPost API request latency by endpoint and HTTP status',
+  labelNames: ['method', 'endpoint', 'status'] as const,
+  buckets: LATENCY_BUCKETS,
+  registers: [metricsRegistry]
+});
+
+const upstreamOverTarget = new Counter({
+  name: 'mcp_upstream_requests_over_target_total',
+  help: 'EasyPost API requests slower than the response time target',
+  labelNames: ['method', 'endpoint'] as const,
+  registers: [metricsRegistry]
+});
+
+new Gauge({
+  name: 'mcp_response_time_target_seconds',
+  help: 'Response time target the over_target counters are measured against',
+  registers: [metricsRegistry]
+}).set(RESPONSE_TARGET_SECONDS);
+
+export const mcpSessionsGauge = new Gauge({
+  name: 'mcp_http_sessions',
+  help: 'Open MCP Streamable HTTP sessions',
+  registers: [metricsRegistry]
+});
+
+const cacheLookupCounter = new Counter({
+  name: 'mcp_cache_lookups_total',
+  help: 'EasyPost response cache lookups by result',
+  labelNames: ['result'] as const,
+  registers: [metricsRegistry]
+});
+
+new Gauge({
+  name: 'mcp_cache_hit_ratio',
+  help: 'Share of EasyPost response cache lookups served from the cache, fresh or stale, since start',
+  registers: [metricsRegistry],
+  async collect() {
+    const { values } = await cacheLookupCounter.get();
+    const total = values.reduce((sum, value) => sum + value.value, 0);
+    const misses = values.find(value => value.labels['result'] === 'miss')?.value ?? 0;
+    const hits = total - misses;
+    this.set(total > 0 ? hits / total : 0);
+  }
+});
+
+const circuitBreakers = new Set<CircuitBreakerRegistry>();
+
+new Gauge({
+  name: 'mcp_upstream_circuit_state',
+  help: 'State of the EasyPost API circuit breaker of each endpoint, 1 for the current state',
+  labelNames: ['endpoint', 'state'] as const,
+  registers: [metricsRegistry],
+  collect() {
+    this.reset();
+    for (const registry of circuitBreakers) {
+      for (const [endpoint, current] of Object.entries(registry.states())) {
+        for (const state of ['closed', 'open', 'half-open']) {
+          this.set({ endpoint, state }, state === current ? 1 : 0);
+        }
+      }
+    }
+  }
+});
+
+const upstreamRetries = new Counter({
+  name: 'mcp_upstream_retries_total',
+  help: 'Retried EasyPost API requests by endpoint and HTTP status of the failed attempt',
+  labelNames: ['method', 'endpoint', 'status'] as const,
+  registers: [metricsRegistry]
+});
+
+const circuitRejections = new Counter({
+  name: 'mcp_upstream_circuit_rejections_total',
+  help: 'EasyPost API requests failed fast because the circuit of their endpoint was open',
+  labelNames: ['method', 'endpoint'] as const,
+  registers: [metricsRegistry]
+});
+
+const webhookEvents = new Counter({
+  name: 'mcp_webhook_events_total',
+  help: 'Received webhook events by event and processing status',
+  labelNames: ['event', 'status'] as const,
+  registers: [metricsRegistry]
+});
+
+/**
+ * Record a finished tool call. Pass the MCP error code of a failed call.
+ */
+export function recordToolCall(tool: string, durationMs: number, errorCode?: number): void {
+  toolCalls.inc({ tool, outcome: errorCode === undefined ? 'success' : 'error' });
+  toolDuration.observe({ tool }, durationMs / 1000);
+
+  if (errorCode !== undefined) {
+    toolErrors.inc({ tool, code: String(errorCode) });
+  }
+
+  if (durationMs > CONSTANTS.RESPONSE_TIMEOUT_MS) {
+    toolCallsOverTarget.inc({ tool });
+  }
+}
+
+/**
+ * Record an upstream API request. Requests without a response have no status.
+ */
+export function recordUpstreamRequest(method: string, url: string, status: number | undefined, durationMs: number): void {
+  const endpoint = normalizeEndpoint(url);
+  upstreamDuration.observe({ method, endpoint, status: status !== undefined ? String(status) : 'none' }, durationMs / 1000);
+
+  if (durationMs > CONSTANTS.RESPONSE_TIMEOUT_MS) {
+    upstreamOverTarget.inc({ method, endpoint });
+  }
+}
+
+/**
+ * Record a response cache lookup. A stale hit is served while the entry is revalidated.
+ */
+export function recordCacheLookup(hit: boolean, stale = false): void {
+  cacheLookupCounter.inc({ result: hit ? (stale ? 'stale' : 'hit') : 'miss' });
+}
+
+/**
+ * Report the circuit states of an upstream API's endpoints
+ */
+export function registerCircuitBreakers(registry: CircuitBreakerRegistry): void {
+  circuitBreakers.add(registry);
+}
+
+export function unregisterCircuitBreakers(registry: CircuitBreakerRegistry): void {
+  circuitBreakers.delete(registry);
+}
+
+/**
+ * Record a retried upstream request. Failures without a response have no status.
+ */
+export function recordUpstreamRetry(method: string, endpoint: string, status: number | undefined): void {
+  upstreamRetries.inc({ method, endpoint, status: status !== undefined ? String(status) : 'none' });
+}
+
+export function recordCircuitRejection(method: string, endpoint: string): void {
+  circuitRejections.inc({ method, endpoint });
+}
+
+export function recordWebhookEvent(event: string, status: string): void {
+  webhookEvents.inc({ event, status });
+}
+
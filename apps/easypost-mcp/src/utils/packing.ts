@@ -0,0 +1,256 @@
+import {
+  BoxDefinition,
+  EasyPostError,
+  PackedBox,
+  PackingItem,
+  PackingResult,
+  CONSTANTS
+} from '../types/index.js';
+
+/**
+ * Packing solver
+ * Chooses the smallest catalog box that holds all line items, or a set of boxes when
+ * none does. Placement uses a guillotine heuristic: each placed item splits its free
+ * space into the remaining space beside, in front of and above it. The heuristic can
+ * miss tight fits but never reports a fit that is physically impossible.
+ */
+
+export interface PackingOptions {
+  allowMultipleBoxes?: boolean | undefined;
+}
+
+interface Unit {
+  itemIndex: number;
+  name?: string | undefined;
+  dimensions: [number, number, number];
+  weight: number;
+  volume: number;
+}
+
+interface Space {
+  length: number;
+  width: number;
+  height: number;
+}
+
+const EPSILON = 1e-9;
+
+/**
+ * Pack line items into catalog boxes and describe each box as a ready-to-use parcel
+ */
+export function packItems(items: PackingItem[], boxes: BoxDefinition[], options: PackingOptions = {}): PackingResult {
+  if (boxes.length === 0) {
+    throw new EasyPostError('The box catalog is empty', 'NO_BOX_FITS');
+  }
+
+  const units = expandItems(items);
+  const candidates = [...boxes].sort((a, b) => volume(a) - volume(b) || a.tare_weight - b.tare_weight);
+
+  for (const unit of units) {
+    if (!candidates.some(box => fitsAlone(unit, box))) {
+      throw new EasyPostError(
+        `Item "${unit.name ?? `#${unit.itemIndex + 1}`}" does not fit in any catalog box`,
+        'NO_BOX_FITS',
+        { item: items[unit.itemIndex] }
+      );
+    }
+  }
+
+  const single = smallestBoxFor(units, candidates);
+  if (single) {
+    return toResult([packedBox(single, units)]);
+  }
+
+  if (options.allowMultipleBoxes === false) {
+    throw new EasyPostError(
+      'No single catalog box holds all items',
+      'NO_BOX_FITS',
+      { itemCount: units.length, largestBox: candidates[candidates.length - 1]?.id }
+    );
+  }
+
+  const packed: PackedBox[] = [];
+  let remaining = units;
+
+  while (remaining.length > 0) {
+    const fitsAll = smallestBoxFor(remaining, candidates);
+    if (fitsAll) {
+      packed.push(packedBox(fitsAll, remaining));
+      break;
+    }
+
+    // Fill the box that takes the most item volume, then shrink to the smallest box holding that load
+    let best: { box: BoxDefinition; placed: Unit[]; left: Unit[] } | undefined;
+    for (const box of candidates) {
+      const { placed, left } = fill(box, remaining);
+      if (placed.length > 0 && (!best || totalVolume(placed) > totalVolume(best.placed))) {
+        best = { box, placed, left };
+      }
+    }
+
+    if (!best) {
+      // Unreachable: every unit fits some box on its own
+      throw new EasyPostError('Items could not be packed', 'NO_BOX_FITS');
+    }
+
+    packed.push(packedBox(smallestBoxFor(best.placed, candidates) ?? best.box, best.placed));
+    remaining = best.left;
+  }
+
+  return toResult(packed);
+}
+
+function expandItems(items: PackingItem[]): Unit[] {
+  const count = items.reduce((sum, item) => sum + item.quantity, 0);
+  if (count > CONSTANTS.PACKING_MAX_UNITS) {
+    throw new EasyPostError(
+      `Cannot pack more than ${CONSTANTS.PACKING_MAX_UNITS} units in one request`,
+      'PACKING_TOO_MANY_ITEMS',
+      { count }
+    );
+  }
+
+  const units: Unit[] = [];
+  items.forEach((item, itemIndex) => {
+    for (let i = 0; i < item.quantity; i++) {
+      units.push({
+        itemIndex,
+        name: item.name,
+        dimensions: [item.length, item.width, item.height],
+        weight: item.weight,
+        volume: item.length * item.width * item.height
+      });
+    }
+  });
+
+  // Largest first packs tighter
+  return units.sort((a, b) => b.volume - a.volume || b.weight - a.weight);
+}
+
+function smallestBoxFor(units: Unit[], boxes: BoxDefinition[]): BoxDefinition | undefined {
+  return boxes.find(box => fill(box, units).left.length === 0);
+}
+
+/**
+ * Place units into one box in order until space or weight runs out
+ */
+function fill(box: BoxDefinition, units: Unit[]): { placed: Unit[]; left: Unit[] } {
+  const spaces: Space[] = [{ length: box.length, width: box.width, height: box.height }];
+  const placed: Unit[] = [];
+  const left: Unit[] = [];
+  let weight = box.tare_weight;
+
+  for (const unit of units) {
+    if (weight + unit.weight > box.max_weight + EPSILON || !place(unit, spaces)) {
+      left.push(unit);
+      continue;
+    }
+
+    weight += unit.weight;
+    placed.push(unit);
+  }
+
+  return { placed, left };
+}
+
+/**
+ * Put a unit into the tightest free space that holds it in any orientation, splitting the rest
+ */
+function place(unit: Unit, spaces: Space[]): boolean {
+  let target: { index: number; orientation: [number, number, number] } | undefined;
+
+  spaces.forEach((space, index) => {
+    if (target && spaceVolume(spaces[target.index]!) <= spaceVolume(space)) {
+      return;
+    }
+
+    const orientation = orientations(unit.dimensions).find(([l, w, h]) =>
+      l <= space.length + EPSILON && w <= space.width + EPSILON && h <= space.height + EPSILON
+    );
+    if (orientation) {
+      target = { index, orientation };
+    }
+  });
+
+  if (!target) {
+    return false;
+  }
+
+  const space = spaces[target.index]!;
+  const [l, w, h] = target.orientation;
+  spaces.splice(
+    target.index,
+    1,
+    ...[
+      { length: space.length - l, width: space.width, height: space.height },
+      { length: l, width: space.width - w, height: space.height },
+      { length: l, width: w, height: space.height - h }
+    ].filter(split => split.length > EPSILON && split.width > EPSILON && split.height > EPSILON)
+  );
+
+  return true;
+}
+
+function orientations([a, b, c]: [number, number, number]): Array<[number, number, number]> {
+  return [[a, b, c], [a, c, b], [b, a, c], [b, c, a], [c, a, b], [c, b, a]];
+}
+
+function fitsAlone(unit: Unit, box: BoxDefinition): boolean {
+  const item = [...unit.dimensions].sort((x, y) => x - y);
+  const inner = [box.length, box.width, box.height].sort((x, y) => x - y);
+  return item.every((size, i) => size <= inner[i]! + EPSILON) &&
+    box.tare_weight + unit.weight <= box.max_weight + EPSILON;
+}
+
+function packedBox(box: BoxDefinition, units: Unit[]): PackedBox {
+  const counts = new Map<number, { name?: string | undefined; quantity: number }>();
+  for (const unit of units) {
+    const entry = counts.get(unit.itemIndex) ?? { name: unit.name, quantity: 0 };
+    entry.quantity++;
+    counts.set(unit.itemIndex, entry);
+  }
+
+  const outer = box.outer_dimensions ?? box;
+  const weight = box.tare_weight + units.reduce((sum, unit) => sum + unit.weight, 0);
+
+  return {
+    box_id: box.id,
+    box_name: box.name,
+    items: Array.from(counts.entries()).sort(([a], [b]) => a - b).map(([, entry]) => entry),
+    item_count: units.length,
+    fill_rate: round(totalVolume(units) / volume(box), 2),
+    parcel: {
+      length: outer.length,
+      width: outer.width,
+      height: outer.height,
+      // EasyPost rejects zero weights; round up to the next tenth of an ounce
+      weight: Math.max(0.1, Math.ceil(weight * 10 - EPSILON) / 10),
+      ...(box.predefined_package !== undefined && { predefined_package: box.predefined_package })
+    }
+  };
+}
+
+function toResult(boxes: PackedBox[]): PackingResult {
+  return {
+    boxes,
+    box_count: boxes.length,
+    total_weight: round(boxes.reduce((sum, box) => sum + box.parcel.weight, 0), 1)
+  };
+}
+
+function volume(box: BoxDefinition): number {
+  return box.length * box.width * box.height;
+}
+
+function spaceVolume(space: Space): number {
+  return space.length * space.width * space.height;
+}
+
+function totalVolume(units: Unit[]): number {
+  return units.reduce((sum, unit) => sum + unit.volume, 0);
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
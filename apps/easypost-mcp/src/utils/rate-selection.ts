@@ -0,0 +1,297 @@
+import {
+  EasyPostRate,
+  EasyPostError,
+  RateSelectionPolicy,
+  RateSelectionCandidate,
+  RateSelectionResult,
+  SmartrateEstimateResponse,
+  CONSTANTS
+} from '../types/index.js';
+
+/**
+ * Rate selection policy engine
+ * Pure functions that filter and rank EasyPost rates against an ops-defined policy
+ */
+
+interface ScoredRate {
+  rate: EasyPostRate;
+  price: number;
+  transitDays?: number | undefined;
+  deliveryDate?: string | undefined;
+}
+
+export interface RateSelectionOptions {
+  shipmentId: string;
+  /**
+   * SmartRate transit days keyed by serviceKey(carrier, service), at the policy percentile
+   */
+  smartrateTransitDays?: Map<string, number> | undefined;
+  /**
+   * Date the parcel is handed over; defaults to today
+   */
+  shipDate?: Date | undefined;
+}
+
+/**
+ * Build the lookup key used to match SmartRate estimates to rates
+ */
+export function serviceKey(carrier: string, service: string): string {
+  return `${carrier.toLowerCase()}:${service.toLowerCase()}`;
+}
+
+/**
+ * Extract transit days at a percentile from a SmartRate deliver_by response
+ */
+export function extractSmartrateTransitDays(
+  response: SmartrateEstimateResponse,
+  percentile: number
+): Map<string, number> {
+  const transitDays = new Map<string, number>();
+
+  for (const result of response.results) {
+    const days = result.easypost_time_in_transit_data.days_in_transit[`percentile_${percentile}`];
+    if (typeof days === 'number') {
+      transitDays.set(serviceKey(result.carrier, result.service), days);
+    }
+  }
+
+  return transitDays;
+}
+
+/**
+ * Add business days (Mon-Fri) to a date and return it as YYYY-MM-DD
+ */
+export function addBusinessDays(start: Date, days: number): string {
+  const date = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()));
+  let remaining = days;
+
+  while (remaining > 0) {
+    date.setUTCDate(date.getUTCDate() + 1);
+    const weekday = date.getUTCDay();
+    if (weekday !== 0 && weekday !== 6) {
+      remaining--;
+    }
+  }
+
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Select the best rate for a shipment according to a policy.
+ * Throws EasyPostError (NO_ELIGIBLE_RATE) when every rate is excluded.
+ */
+export function selectRate(
+  rates: EasyPostRate[],
+  policy: RateSelectionPolicy,
+  options: RateSelectionOptions
+): RateSelectionResult {
+  const useSmartrate = options.smartrateTransitDays !== undefined;
+  const shipDate = options.shipDate ?? new Date();
+  const percentile = policy.percentile ?? CONSTANTS.DEFAULT_SMARTRATE_PERCENTILE;
+
+  const scored = rates.map(rate => scoreRate(rate, shipDate, options.smartrateTransitDays));
+  const eligible: ScoredRate[] = [];
+  const excluded: RateSelectionResult['excluded'] = [];
+
+  for (const candidate of scored) {
+    const reason = exclusionReason(candidate, policy);
+    if (reason) {
+      excluded.push({ ...toCandidate(candidate), reason });
+    } else {
+      eligible.push(candidate);
+    }
+  }
+
+  if (eligible.length === 0) {
+    throw new EasyPostError(
+      rates.length === 0
+        ? `No rates available for shipment ${options.shipmentId}`
+        : `No rate for shipment ${options.shipmentId} satisfies the selection policy`,
+      'NO_ELIGIBLE_RATE',
+      { shipmentId: options.shipmentId, policy, excluded }
+    );
+  }
+
+  const ranked = [...eligible].sort(comparatorFor(policy));
+  const best = ranked[0]!;
+
+  return {
+    shipment_id: options.shipmentId,
+    strategy: policy.strategy,
+    selected_rate: best.rate,
+    transit_days: best.transitDays,
+    estimated_delivery_date: best.deliveryDate,
+    transit_source: best.transitDays === undefined ? 'unknown' : useSmartrate ? 'smartrate' : 'carrier_estimate',
+    justification: buildJustification(best, policy, eligible.length, excluded, useSmartrate ? percentile : undefined),
+    alternatives: ranked.slice(1, 1 + CONSTANTS.RATE_SELECTION_ALTERNATIVES).map(toCandidate),
+    excluded
+  };
+}
+
+/**
+ * Attach price, transit days and delivery date to a rate
+ */
+function scoreRate(rate: EasyPostRate, shipDate: Date, smartrateTransitDays?: Map<string, number>): ScoredRate {
+  const price = parseFloat(rate.rate);
+
+  if (smartrateTransitDays) {
+    const transitDays = smartrateTransitDays.get(serviceKey(rate.carrier, rate.service));
+    return {
+      rate,
+      price,
+      transitDays,
+      deliveryDate: transitDays === undefined ? undefined : addBusinessDays(shipDate, transitDays)
+    };
+  }
+
+  const transitDays = rate.delivery_days ?? rate.est_delivery_days;
+  const deliveryDate = rate.delivery_date
+    ? rate.delivery_date.slice(0, 10)
+    : transitDays === undefined ? undefined : addBusinessDays(shipDate, transitDays);
+
+  return { rate, price, transitDays, deliveryDate };
+}
+
+/**
+ * Return why a rate is excluded by the policy, or undefined if it is eligible
+ */
+function exclusionReason(candidate: ScoredRate, policy: RateSelectionPolicy): string | undefined {
+  const { rate } = candidate;
+
+  if (Number.isNaN(candidate.price)) {
+    return `invalid rate amount "${rate.rate}"`;
+  }
+
+  if (rate.currency.toUpperCase() !== policy.currency.toUpperCase()) {
+    return `rate in ${rate.currency}, not ${policy.currency.toUpperCase()}`;
+  }
+
+  if (policy.carriers_allow && !matchesAny(rate.carrier, policy.carriers_allow)) {
+    return 'carrier not in allow list';
+  }
+
+  if (policy.carriers_deny && matchesAny(rate.carrier, policy.carriers_deny)) {
+    return 'carrier in deny list';
+  }
+
+  if (policy.carrier_accounts && !policy.carrier_accounts.includes(rate.carrier_account_id)) {
+    return 'carrier account not in allow list';
+  }
+
+  if (policy.services_allow && !matchesAny(rate.service, policy.services_allow)) {
+    return 'service not in allow list';
+  }
+
+  if (policy.services_deny && matchesAny(rate.service, policy.services_deny)) {
+    return 'service in deny list';
+  }
+
+  if (policy.max_price !== undefined && candidate.price > policy.max_price) {
+    return `rate above max price ${policy.max_price.toFixed(2)}`;
+  }
+
+  if (policy.strategy === 'cheapest_by_date' && policy.deliver_by) {
+    if (!candidate.deliveryDate) {
+      return 'no delivery estimate';
+    }
+    if (candidate.deliveryDate > policy.deliver_by) {
+      return `estimated delivery ${candidate.deliveryDate} is after ${policy.deliver_by}`;
+    }
+  }
+
+  if (policy.max_days !== undefined) {
+    if (candidate.transitDays === undefined) {
+      return 'no transit estimate';
+    }
+    if (candidate.transitDays > policy.max_days) {
+      return `${candidate.transitDays} transit days exceeds max of ${policy.max_days}`;
+    }
+  }
+
+  if (policy.strategy === 'smartrate_percentile' && candidate.transitDays === undefined) {
+    return 'no SmartRate estimate for service';
+  }
+
+  return undefined;
+}
+
+/**
+ * Ranking for each strategy. Unknown transit times sort last.
+ * Prices compare as numbers because every eligible rate is in the policy currency.
+ */
+function comparatorFor(policy: RateSelectionPolicy): (a: ScoredRate, b: ScoredRate) => number {
+  const byPrice = (a: ScoredRate, b: ScoredRate) => a.price - b.price;
+  const byTransit = (a: ScoredRate, b: ScoredRate) =>
+    (a.transitDays ?? Number.POSITIVE_INFINITY) - (b.transitDays ?? Number.POSITIVE_INFINITY);
+
+  const rankByTransit = policy.strategy === 'fastest' ||
+    (policy.strategy === 'smartrate_percentile' && policy.max_days === undefined);
+
+  return rankByTransit
+    ? (a, b) => byTransit(a, b) || byPrice(a, b)
+    : (a, b) => byPrice(a, b) || byTransit(a, b);
+}
+
+/**
+ * Explain the choice in terms of the policy
+ */
+function buildJustification(
+  best: ScoredRate,
+  policy: RateSelectionPolicy,
+  eligibleCount: number,
+  excluded: RateSelectionResult['excluded'],
+  percentile?: number
+): string {
+  const { rate } = best;
+  const transit = best.transitDays === undefined
+    ? 'no transit estimate'
+    : percentile === undefined
+      ? `${best.transitDays} transit days`
+      : `${best.transitDays} transit days at the ${percentile}th percentile`;
+
+  let reason: string;
+  switch (policy.strategy) {
+    case 'fastest':
+      reason = `fastest of ${eligibleCount} eligible rates`;
+      break;
+    case 'cheapest_by_date':
+      reason = `cheapest of ${eligibleCount} eligible rates delivering by ${policy.deliver_by}`;
+      break;
+    case 'smartrate_percentile':
+      reason = policy.max_days === undefined
+        ? `fastest of ${eligibleCount} eligible rates by SmartRate ${percentile}th percentile`
+        : `cheapest of ${eligibleCount} eligible rates within ${policy.max_days} days at the ${percentile}th percentile`;
+      break;
+    default:
+      reason = `cheapest of ${eligibleCount} eligible rates`;
+  }
+
+  const parts = [
+    `Selected ${rate.carrier} ${rate.service} at ${rate.rate} ${rate.currency} (${transit}): ${reason}`
+  ];
+
+  if (excluded.length > 0) {
+    const counts = new Map<string, number>();
+    excluded.forEach(entry => counts.set(entry.reason, (counts.get(entry.reason) ?? 0) + 1));
+    const summary = Array.from(counts.entries()).map(([why, count]) => `${count} ${why}`).join(', ');
+    parts.push(`${excluded.length} excluded (${summary})`);
+  }
+
+  return `${parts.join('; ')}.`;
+}
+
+function matchesAny(value: string, list: string[]): boolean {
+  const normalized = value.toLowerCase();
+  return list.some(entry => entry.toLowerCase() === normalized);
+}
+
+function toCandidate(candidate: ScoredRate): RateSelectionCandidate {
+  return {
+    rate_id: candidate.rate.id,
+    carrier: candidate.rate.carrier,
+    service: candidate.rate.service,
+    rate: candidate.rate.rate,
+    transit_days: candidate.transitDays,
+    estimated_delivery_date: candidate.deliveryDate
+  };
+}
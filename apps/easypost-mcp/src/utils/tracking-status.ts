@@ -0,0 +1,199 @@
+import {
+  CanonicalTrackingStatus,
+  EasyPostTracker,
+  NormalizedTracking,
+  TrackingExceptionCategory,
+  TrackingLocation
+} from '../types/index.js';
+
+/**
+ * Tracking normalization
+ * Maps EasyPost tracker statuses to one vocabulary for all carriers and derives an
+ * exception category from status details and scan messages, so callers do not have
+ * to interpret USPS, UPS and FedEx wording individually.
+ */
+
+export interface NormalizeTrackingOptions {
+  stalledAfterHours: number;
+  now?: Date | undefined;
+}
+
+type TrackingDetail = EasyPostTracker['tracking_details'][number];
+
+const STATUS_MAP: Record<string, CanonicalTrackingStatus> = {
+  pre_transit: 'label_created',
+  in_transit: 'in_transit',
+  out_for_delivery: 'out_for_delivery',
+  available_for_pickup: 'available_for_pickup',
+  delivered: 'delivered',
+  return_to_sender: 'returned',
+  failure: 'exception',
+  cancelled: 'cancelled',
+  error: 'unknown',
+  unknown: 'unknown'
+};
+
+// Statuses where no further scans are expected
+const FINAL_STATUSES: CanonicalTrackingStatus[] = ['delivered', 'returned', 'cancelled'];
+
+// Statuses where a long gap between scans is normal
+const WAITING_STATUSES: CanonicalTrackingStatus[] = ['label_created', 'available_for_pickup'];
+
+/**
+ * Exception rules in priority order. Each matches EasyPost status details or carrier scan wording.
+ */
+const EXCEPTION_RULES: Array<{ category: TrackingExceptionCategory; details: string[]; message: RegExp }> = [
+  {
+    category: 'returned_to_sender',
+    details: ['return', 'returned', 'return_to_sender'],
+    message: /return(ed|ing)? to (sender|shipper)|being returned|refused/i
+  },
+  {
+    category: 'damaged',
+    details: ['damaged'],
+    message: /damage/i
+  },
+  {
+    category: 'address_issue',
+    details: ['address_correction', 'incorrect_address', 'awaiting_information'],
+    message: /(insufficient|incorrect|incomplete|invalid|bad|unknown) address|address (correction|issue|problem|information|not found)|undeliverable as addressed|no such (number|street)|recipient moved/i
+  },
+  {
+    category: 'delayed',
+    details: ['delayed', 'weather_delay', 'transit_exception', 'missorted', 'held'],
+    message: /delay|weather|missort|reschedul|running late|held at/i
+  }
+];
+
+/**
+ * Convert an EasyPost status to the canonical vocabulary
+ */
+export function canonicalStatus(status?: string): CanonicalTrackingStatus {
+  return (status && STATUS_MAP[status]) || 'unknown';
+}
+
+/**
+ * Build the carrier-independent view of a tracker
+ */
+export function normalizeTracker(tracker: EasyPostTracker, options: NormalizeTrackingOptions): NormalizedTracking {
+  const now = options.now ?? new Date();
+  const details = [...tracker.tracking_details].sort((a, b) => Date.parse(a.datetime) - Date.parse(b.datetime));
+  const lastDetail = details[details.length - 1];
+  const status = canonicalStatus(tracker.status ?? lastDetail?.status);
+
+  const lastLocated = [...details].reverse().find(detail => toLocation(detail) !== undefined);
+  const delivered = [...details].reverse().find(detail => detail.status === 'delivered');
+  const estimatedDeliveryDate = normalizeDate(
+    tracker.est_delivery_date ??
+    tracker.carrier_detail?.est_delivery_date_local ??
+    tracker.carrier_detail?.guaranteed_delivery_date
+  );
+  const hoursSinceLastScan = lastDetail
+    ? Math.round((now.getTime() - Date.parse(lastDetail.datetime)) / 360000) / 10
+    : undefined;
+
+  return {
+    tracking_code: tracker.tracking_code,
+    carrier: tracker.carrier,
+    status,
+    carrier_status: tracker.status,
+    carrier_status_detail: tracker.status_detail,
+    estimated_delivery_date: estimatedDeliveryDate,
+    delivered_at: status === 'delivered' ? delivered?.datetime : undefined,
+    last_event: lastDetail && {
+      datetime: lastDetail.datetime,
+      status: canonicalStatus(lastDetail.status),
+      message: lastDetail.message,
+      location: toLocation(lastDetail)
+    },
+    last_location: lastLocated && toLocation(lastLocated),
+    hours_since_last_scan: hoursSinceLastScan,
+    exception: detectException({
+      status,
+      statusDetail: tracker.status_detail,
+      lastDetail,
+      estimatedDeliveryDate,
+      hoursSinceLastScan,
+      stalledAfterHours: options.stalledAfterHours,
+      today: now.toISOString().slice(0, 10)
+    })
+  };
+}
+
+function detectException(context: {
+  status: CanonicalTrackingStatus;
+  statusDetail?: string | undefined;
+  lastDetail?: TrackingDetail | undefined;
+  estimatedDeliveryDate?: string | undefined;
+  hoursSinceLastScan?: number | undefined;
+  stalledAfterHours: number;
+  today: string;
+}): NormalizedTracking['exception'] {
+  const { status, lastDetail } = context;
+
+  if (status === 'delivered' || status === 'cancelled') {
+    return null;
+  }
+
+  if (status === 'returned') {
+    return { category: 'returned_to_sender', reason: lastDetail?.message ?? 'Carrier reports the package is returning to sender' };
+  }
+
+  // Only the latest scan counts: an earlier delay that has since cleared is not an exception
+  const detailCodes = [context.statusDetail, lastDetail?.status_detail].filter((code): code is string => !!code);
+  for (const rule of EXCEPTION_RULES) {
+    if (detailCodes.some(code => rule.details.includes(code))) {
+      return { category: rule.category, reason: lastDetail?.message ?? `Carrier status detail: ${detailCodes.join(', ')}` };
+    }
+    if (lastDetail && (rule.message.test(lastDetail.message) || rule.message.test(lastDetail.description ?? ''))) {
+      return { category: rule.category, reason: lastDetail.message };
+    }
+  }
+
+  if (context.estimatedDeliveryDate && context.estimatedDeliveryDate < context.today) {
+    return { category: 'delayed', reason: `Estimated delivery date ${context.estimatedDeliveryDate} has passed` };
+  }
+
+  if (
+    !FINAL_STATUSES.includes(status) &&
+    !WAITING_STATUSES.includes(status) &&
+    context.hoursSinceLastScan !== undefined &&
+    context.hoursSinceLastScan >= context.stalledAfterHours
+  ) {
+    return {
+      category: 'stalled',
+      reason: `No carrier scan for ${Math.floor(context.hoursSinceLastScan)} hours (threshold ${context.stalledAfterHours})`
+    };
+  }
+
+  if (status === 'exception') {
+    return { category: 'delayed', reason: lastDetail?.message ?? 'Carrier reported a delivery exception' };
+  }
+
+  return null;
+}
+
+function toLocation(detail: TrackingDetail): TrackingLocation | undefined {
+  const location = detail.tracking_location;
+  const parts = [location?.city, location?.state, location?.country].filter((part): part is string => !!part);
+
+  if (!location || (parts.length === 0 && !location.zip)) {
+    return undefined;
+  }
+
+  return {
+    city: location.city,
+    state: location.state,
+    country: location.country,
+    zip: location.zip,
+    description: parts.length > 0 ? parts.join(', ') : location.zip!
+  };
+}
+
+/**
+ * Reduce carrier date formats (ISO timestamps, local dates) to YYYY-MM-DD
+ */
+function normalizeDate(value?: string): string | undefined {
+  const match = value?.match(/^(\d{4}-\d{2}-\d{2})/);
+  return match?.[1];
+}
@@ -8,7 +8,7 @@ import {
   ShipmentTrackingRequestSchema,
   SmartrateRequestSchema,
   type EnvironmentVariables,
-  type CreateShipmentRequest,
+  type CreateShipmentInput,
   type AddressValidationRequest,
   type ShipmentRatesFetchRequest,
   type ShipmentLabelPurchaseRequest,
@@ -29,11 +29,38 @@ export function validateEnvironmentVariables(): z.SafeParseReturnType<Record<str
   const envVars = {
     NODE_ENV: process.env['NODE_ENV'],
     EASYPOST_API_KEY: process.env['EASYPOST_API_KEY'],
+    EASYPOST_TEST_API_KEY: process.env['EASYPOST_TEST_API_KEY'],
+    EASYPOST_PRODUCTION_API_KEY: process.env['EASYPOST_PRODUCTION_API_KEY'],
+    EASYPOST_ACCOUNTS: process.env['EASYPOST_ACCOUNTS'],
+    EASYPOST_DEFAULT_ACCOUNT: process.env['EASYPOST_DEFAULT_ACCOUNT'],
     EASYPOST_TIMEOUT: process.env['EASYPOST_TIMEOUT'],
     EASYPOST_RETRY_ATTEMPTS: process.env['EASYPOST_RETRY_ATTEMPTS'],
     ENABLE_CACHE: process.env['ENABLE_CACHE'],
     LOG_LEVEL: process.env['LOG_LEVEL'],
-    PORT: process.env['PORT']
+    PORT: process.env['PORT'],
+    MCP_AUTH_TOKEN: process.env['MCP_AUTH_TOKEN'],
+    MCP_ALLOWED_ORIGINS: process.env['MCP_ALLOWED_ORIGINS'],
+    MCP_ALLOWED_HOSTS: process.env['MCP_ALLOWED_HOSTS'],
+    MCP_SESSION_IDLE_TIMEOUT: process.env['MCP_SESSION_IDLE_TIMEOUT'],
+    MCP_MAX_SESSIONS: process.env['MCP_MAX_SESSIONS'],
+    ADDRESS_BOOK_PATH: process.env['ADDRESS_BOOK_PATH'],
+    BOX_CATALOG_PATH: process.env['BOX_CATALOG_PATH'],
+    EASYPOST_WEBHOOK_SECRET: process.env['EASYPOST_WEBHOOK_SECRET'],
+    SMTP_URL: process.env['SMTP_URL'],
+    MAIL_FROM: process.env['MAIL_FROM'],
+    REDIS_URL: process.env['REDIS_URL'],
+    IDEMPOTENCY_TTL: process.env['IDEMPOTENCY_TTL'],
+    SPEND_LIMIT_PER_CALL: process.env['SPEND_LIMIT_PER_CALL'],
+    SPEND_LIMIT_DAILY: process.env['SPEND_LIMIT_DAILY'],
+    SPEND_LIMIT_MONTHLY: process.env['SPEND_LIMIT_MONTHLY'],
+    SPEND_CONFIRMATION_THRESHOLD: process.env['SPEND_CONFIRMATION_THRESHOLD'],
+    SPEND_CONFIRMATION_TTL: process.env['SPEND_CONFIRMATION_TTL'],
+    EASYPOST_DRY_RUN: process.env['EASYPOST_DRY_RUN'],
+    DATABASE_URL: process.env['DATABASE_URL'],
+    AUDIT_LOG_PATH: process.env['AUDIT_LOG_PATH'],
+    OTEL_TRACES_EXPORTER: process.env['OTEL_TRACES_EXPORTER'],
+    OTEL_EXPORTER_OTLP_ENDPOINT: process.env['OTEL_EXPORTER_OTLP_ENDPOINT'],
+    OTEL_TRACES_FILE: process.env['OTEL_TRACES_FILE']
   };
 
   const result = EnvironmentVariablesSchema.safeParse(envVars);
@@ -50,7 +77,7 @@ export function validateEnvironmentVariables(): z.SafeParseReturnType<Record<str
 /**
  * Validate shipment creation request
  */
-export function validateShipmentCreation(data: unknown): z.SafeParseReturnType<unknown, CreateShipmentRequest> {
+export function validateShipmentCreation(data: unknown): z.SafeParseReturnType<unknown, CreateShipmentInput> {
   const result = CreateShipmentRequestSchema.safeParse(data);
   
   if (!result.success) {
@@ -0,0 +1,166 @@
+import { EasyPostMCPServer } from '../src/server.js';
+import { EasyPostClient } from '../src/services/easypost-client.js';
+import { AccountRegistry, apiKeyMode } from '../src/services/accounts.js';
+import { EasyPostMCPServerConfig, EnvironmentVariablesSchema } from '../src/types/index.js';
+
+jest.mock('../src/utils/logger', () => ({
+  ...jest.requireActual('../src/utils/logger'),
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    performance: jest.fn()
+  }
+}));
+
+jest.mock('../src/services/easypost-client');
+const MockedEasyPostClient = EasyPostClient as jest.MockedClass<typeof EasyPostClient>;
+
+const baseConfig: EasyPostMCPServerConfig = {
+  name: 'test-easypost-mcp-server',
+  version: '1.0.0',
+  environment: 'development',
+  timeout: 30000,
+  retryAttempts: 3,
+  enableCache: false,
+  logLevel: 'error'
+};
+
+const accounts = [
+  { name: 'acme', description: 'Acme brand', testApiKey: 'EZTK_acme', productionApiKey: 'EZAK_acme' },
+  { name: 'globex', productionApiKey: 'EZAK_globex' }
+];
+
+describe('apiKeyMode', () => {
+  it('should infer the mode from the key prefix', () => {
+    expect(apiKeyMode('EZTK123')).toBe('test');
+    expect(apiKeyMode('EZAK_test_123')).toBe('production');
+    expect(apiKeyMode('EZAK123')).toBe('production');
+    expect(apiKeyMode('')).toBeUndefined();
+  });
+});
+
+describe('AccountRegistry', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should default to test mode outside production', () => {
+    const registry = new AccountRegistry({ ...baseConfig, testApiKey: 'EZTK_main', productionApiKey: 'EZAK_main' });
+
+    expect(registry.resolve()).toEqual({ account: 'default', mode: 'test' });
+    expect(registry.resolve({ mode: 'production' })).toEqual({ account: 'default', mode: 'production' });
+  });
+
+  it('should default to production mode in production', () => {
+    const registry = new AccountRegistry({ ...baseConfig, environment: 'production', testApiKey: 'EZTK_main', productionApiKey: 'EZAK_main' });
+
+    expect(registry.resolve()).toEqual({ account: 'default', mode: 'production' });
+  });
+
+  it('should never fall back to a live key when no test key is configured', () => {
+    const registry = new AccountRegistry({ ...baseConfig, apiKey: 'EZAK_live' });
+
+    expect(() => registry.resolve()).toThrow(expect.objectContaining({ code: 'ACCOUNT_MODE_UNAVAILABLE' }));
+    expect(registry.resolve({ mode: 'production' })).toEqual({ account: 'default', mode: 'production' });
+  });
+
+  it('should resolve named accounts and reject unknown ones', () => {
+    const registry = new AccountRegistry({ ...baseConfig, testApiKey: 'EZTK_main', accounts });
+
+    expect(registry.resolve({ account: 'acme' })).toEqual({ account: 'acme', mode: 'test' });
+    expect(() => registry.resolve({ account: 'globex' })).toThrow(expect.objectContaining({ code: 'ACCOUNT_MODE_UNAVAILABLE' }));
+    expect(() => registry.resolve({ account: 'initech' })).toThrow(expect.objectContaining({ code: 'ACCOUNT_NOT_FOUND' }));
+  });
+
+  it('should list accounts without their keys', () => {
+    const registry = new AccountRegistry({ ...baseConfig, accounts, defaultAccount: 'acme' });
+
+    expect(registry.list()).toEqual([
+      { name: 'acme', description: 'Acme brand', modes: ['test', 'production'], isDefault: true },
+      { name: 'globex', modes: ['production'], isDefault: false }
+    ]);
+    expect(JSON.stringify(registry.list())).not.toContain('EZ');
+  });
+});
+
+describe('EnvironmentVariablesSchema', () => {
+  it('should accept named accounts as JSON', () => {
+    const result = EnvironmentVariablesSchema.safeParse({
+      EASYPOST_ACCOUNTS: JSON.stringify({ acme: { test_api_key: 'EZTK_acme', production_api_key: 'EZAK_acme' } }),
+      EASYPOST_DEFAULT_ACCOUNT: 'acme'
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject a production key configured as a test key', () => {
+    expect(EnvironmentVariablesSchema.safeParse({ EASYPOST_TEST_API_KEY: 'EZAK_live' }).success).toBe(false);
+    expect(EnvironmentVariablesSchema.safeParse({
+      EASYPOST_ACCOUNTS: JSON.stringify({ acme: { test_api_key: 'EZAK_live' } })
+    }).success).toBe(false);
+  });
+
+  it('should require an API key', () => {
+    expect(EnvironmentVariablesSchema.safeParse({}).success).toBe(false);
+  });
+});
+
+describe('Account selection in tool calls', () => {
+  let server: EasyPostMCPServer;
+  let clients: Record<string, jest.Mocked<EasyPostClient>>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clients = {};
+    MockedEasyPostClient.mockImplementation(config => {
+      const client = { get: jest.fn(), post: jest.fn() } as any;
+      client.post.mockResolvedValue({ id: 'shp_123', rates: [] });
+      clients[config.apiKey] = client;
+      return client;
+    });
+
+    server = new EasyPostMCPServer({ ...baseConfig, testApiKey: 'EZTK_main', accounts });
+  });
+
+  const shipment = {
+    to_address: { street1: '417 Montgomery St', city: 'San Francisco', state: 'CA', zip: '94104', country: 'US' },
+    from_address: { street1: '179 N Harbor Dr', city: 'Redondo Beach', state: 'CA', zip: '90277', country: 'US' },
+    parcel: { length: 10, width: 8, height: 4, weight: 16 }
+  };
+
+  it('should use the test key by default and say so', async () => {
+    const result = await (server as any).tools.call('create_shipment', shipment);
+
+    expect(clients['EZTK_main']!.post).toHaveBeenCalledWith('/shipments', expect.anything());
+    expect(result.content[0].text).toBe('Account: default (test mode: no real postage is purchased)');
+  });
+
+  it('should use the selected account and mode', async () => {
+    const result = await (server as any).tools.call('create_shipment', { ...shipment, account: 'acme', mode: 'production' });
+
+    expect(clients['EZAK_acme']!.post).toHaveBeenCalledWith('/shipments', expect.anything());
+    expect(clients['EZTK_main']!.post).not.toHaveBeenCalled();
+    expect(result.content[0].text).toContain('Account: acme (PRODUCTION mode');
+  });
+
+  it('should advertise account and mode on every tool', () => {
+    const definitions = (server as any).tools.getDefinitions();
+
+    definitions.forEach((definition: any) => {
+      expect(definition.inputSchema.properties).toHaveProperty('account');
+      expect(definition.inputSchema.properties).toHaveProperty('mode');
+    });
+  });
+
+  it('should not replay an idempotency key in another account', async () => {
+    clients['EZTK_main']!.get.mockResolvedValue({ id: 'pickup_123', pickup_rates: [{ carrier: 'UPS', service: 'Future-day Pickup', rate: '5.00' }] });
+    const args = { pickupId: 'pickup_123', carrier: 'UPS', service: 'Future-day Pickup', idempotencyKey: 'pickup-1' };
+
+    await (server as any).tools.call('buy_pickup', args);
+
+    await expect((server as any).tools.call('buy_pickup', { ...args, account: 'acme' }))
+      .rejects.toMatchObject({ code: 'IDEMPOTENCY_KEY_CONFLICT' });
+  });
+});
@@ -0,0 +1,109 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AddressBook } from '../src/services/address-book.js';
+import { CreateShipmentRequestSchema, EasyPostError } from '../src/types/index.js';
+
+jest.mock('../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const warehouse = {
+  company: 'Acme Corp',
+  street1: '456 MARKET ST',
+  city: 'SAN FRANCISCO',
+  state: 'CA',
+  zip: '94102-1234',
+  country: 'US'
+};
+
+describe('AddressBook', () => {
+  let directory: string;
+  let filePath: string;
+  let book: AddressBook;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'address-book-'));
+    filePath = join(directory, 'nested', 'address-book.json');
+    book = new AddressBook(filePath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should start empty when the file does not exist', async () => {
+    expect(await book.list()).toEqual([]);
+  });
+
+  it('should persist saved addresses and resolve @name references', async () => {
+    await book.save({ name: 'Warehouse', address: warehouse, easypost_address_id: 'adr_1', verified: true });
+
+    const reloaded = new AddressBook(filePath);
+    expect(await reloaded.resolve('@WAREHOUSE')).toEqual(warehouse);
+    expect((await reloaded.list()).map(entry => entry.name)).toEqual(['warehouse']);
+  });
+
+  it('should pass inline addresses through unchanged', async () => {
+    expect(await book.resolve(warehouse)).toBe(warehouse);
+  });
+
+  it('should refuse to replace an existing name unless overwrite is set', async () => {
+    await book.save({ name: 'warehouse', address: warehouse, verified: true });
+
+    await expect(book.save({ name: 'warehouse', address: warehouse, verified: true }))
+      .rejects.toMatchObject({ code: 'ADDRESS_EXISTS' });
+
+    const replaced = await book.save({ name: 'warehouse', address: { ...warehouse, zip: '94103' }, verified: true }, true);
+    expect(replaced.address.zip).toBe('94103');
+  });
+
+  it('should rename an address and keep its creation time', async () => {
+    const saved = await book.save({ name: 'warehouse', address: warehouse, verified: true });
+
+    const renamed = await book.update('warehouse', { address: warehouse, verified: true }, 'hq');
+
+    expect(renamed.name).toBe('hq');
+    expect(renamed.created_at).toBe(saved.created_at);
+    await expect(book.get('warehouse')).rejects.toThrow(EasyPostError);
+  });
+
+  it('should throw ADDRESS_NOT_FOUND for unknown references', async () => {
+    await expect(book.resolve('@nowhere')).rejects.toMatchObject({ code: 'ADDRESS_NOT_FOUND' });
+    await expect(book.delete('nowhere')).rejects.toMatchObject({ code: 'ADDRESS_NOT_FOUND' });
+  });
+
+  it('should serialize concurrent saves', async () => {
+    await Promise.all(['a', 'b', 'c'].map(name => book.save({ name, address: warehouse, verified: true })));
+
+    const reloaded = new AddressBook(filePath);
+    expect((await reloaded.list()).map(entry => entry.name)).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('CreateShipmentRequestSchema', () => {
+  it('should accept @name address references', () => {
+    const result = CreateShipmentRequestSchema.safeParse({
+      to_address: '@customer',
+      from_address: '@warehouse',
+      parcel: { length: 10, width: 8, height: 4, weight: 15 }
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject malformed references', () => {
+    const result = CreateShipmentRequestSchema.safeParse({
+      to_address: '@not a name',
+      from_address: '@warehouse',
+      parcel: { length: 10, width: 8, height: 4, weight: 15 }
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EasyPostMCPServer } from '../src/server.js';
+import { EasyPostClient } from '../src/services/easypost-client.js';
+
+jest.mock('../src/utils/logger', () => ({
+  ...jest.requireActual('../src/utils/logger'),
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    performance: jest.fn()
+  }
+}));
+
+jest.mock('../src/services/easypost-client');
+const MockedEasyPostClient = EasyPostClient as jest.MockedClass<typeof EasyPostClient>;
+
+describe('Audit log in tool calls', () => {
+  let directory: string;
+  let server: EasyPostMCPServer;
+  let mockClient: jest.Mocked<EasyPostClient>;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    directory = await fs.mkdtemp(join(tmpdir(), 'easypost-audit-'));
+    mockClient = { get: jest.fn(), post: jest.fn() } as any;
+    MockedEasyPostClient.mockImplementation(() => mockClient);
+
+    server = new EasyPostMCPServer({
+      name: 'test-easypost-mcp-server',
+      version: '1.0.0',
+      testApiKey: 'EZTK_test_key',
+      environment: 'test',
+      timeout: 30000,
+      retryAttempts: 3,
+      enableCache: false,
+      logLevel: 'error',
+      auditLogPath: join(directory, 'audit-log.jsonl')
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should record purchases with their cost but not read-only calls', async () => {
+    const shipment = { id: 'shp_123', rates: [{ id: 'rate_1', carrier: 'USPS', service: 'Priority', rate: '7.25' }] };
+    mockClient.get.mockResolvedValue(shipment);
+    mockClient.post.mockResolvedValue({ ...shipment, selected_rate: shipment.rates[0], tracking_code: '9400' });
+
+    await (server as any).tools.call('buy_shipment_label', { shipmentId: 'shp_123', rateId: 'rate_1' }, { requestId: '42' });
+    await (server as any).tools.call('get_shipment_rates', { shipmentId: 'shp_123' });
+
+    const queried = await (server as any).tools.call('query_audit_log', { limit: 10 });
+    const records = JSON.parse(queried.content.at(-1).text);
+
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({
+      tool: 'buy_shipment_label',
+      outcome: 'success',
+      requestId: '42',
+      account: 'default',
+      mode: 'test',
+      cost: 7.25
+    });
+  });
+});
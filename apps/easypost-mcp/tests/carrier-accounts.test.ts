@@ -0,0 +1,145 @@
+import { EasyPostMCPServer } from '../src/server.js';
+import { EasyPostClient } from '../src/services/easypost-client.js';
+import { sanitizeForLogging } from '../src/utils/logger.js';
+
+jest.mock('../src/utils/logger', () => ({
+  ...jest.requireActual('../src/utils/logger'),
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    performance: jest.fn()
+  }
+}));
+
+jest.mock('../src/services/easypost-client');
+const MockedEasyPostClient = EasyPostClient as jest.MockedClass<typeof EasyPostClient>;
+
+const account = {
+  id: 'ca_fedex123',
+  object: 'CarrierAccount',
+  type: 'FedexAccount',
+  description: 'FedEx contract',
+  credentials: { account_number: '123456789', meter_number: '987654' },
+  test_credentials: null,
+  fields: { credentials: { account_number: { label: 'Account number', value: '123456789' } } }
+};
+
+describe('sanitizeForLogging', () => {
+  it('should redact carrier credentials and registration data', () => {
+    expect(sanitizeForLogging({
+      type: 'FedexAccount',
+      credentials: { account_number: '123' },
+      test_credentials: { account_number: '456' },
+      registration_data: { account_number: '789' }
+    })).toEqual({
+      type: 'FedexAccount',
+      credentials: '[REDACTED]',
+      test_credentials: '[REDACTED]',
+      registration_data: '[REDACTED]'
+    });
+  });
+});
+
+describe('Carrier account tools', () => {
+  let server: EasyPostMCPServer;
+  let mockClient: jest.Mocked<EasyPostClient>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient = {
+      get: jest.fn(),
+      post: jest.fn(),
+      patch: jest.fn(),
+      delete: jest.fn()
+    } as any;
+    MockedEasyPostClient.mockImplementation(() => mockClient);
+
+    server = new EasyPostMCPServer({
+      name: 'test-easypost-mcp-server',
+      version: '1.0.0',
+      apiKey: 'EZTK_test_1234567890abcdef',
+      environment: 'test',
+      timeout: 30000,
+      retryAttempts: 3,
+      enableCache: false,
+      logLevel: 'error'
+    });
+  });
+
+  it('should list accounts with credentials redacted', async () => {
+    mockClient.get.mockResolvedValue([account]);
+
+    const result = await (server as any).tools.call('list_carrier_accounts', {});
+    const [listed] = JSON.parse(result.content.at(-1).text);
+
+    expect(listed).toMatchObject({ id: 'ca_fedex123', credentials: '[REDACTED]', fields: { credentials: '[REDACTED]' } });
+    expect(result.content.at(-1).text).not.toContain('123456789');
+  });
+
+  it('should register FedEx accounts with their registration data', async () => {
+    mockClient.post.mockResolvedValue(account);
+
+    await (server as any).tools.call('create_carrier_account', {
+      type: 'FedexAccount',
+      description: 'FedEx contract',
+      credentials: { account_number: '123456789', corporate_first_name: 'Ada' }
+    });
+
+    expect(mockClient.post).toHaveBeenCalledWith('/carrier_accounts/register', {
+      carrier_account: {
+        type: 'FedexAccount',
+        description: 'FedEx contract',
+        registration_data: { account_number: '123456789', corporate_first_name: 'Ada' }
+      }
+    });
+  });
+
+  it('should register UPS accounts through OAuth registration', async () => {
+    mockClient.post.mockResolvedValue({ ...account, id: 'ca_ups123', type: 'UpsAccount' });
+
+    await (server as any).tools.call('create_carrier_account', {
+      type: 'UpsAccount',
+      credentials: { account_number: 'A1B2C3' }
+    });
+
+    expect(mockClient.post).toHaveBeenCalledWith('/ups_oauth_registrations', {
+      ups_oauth_registrations: { type: 'UpsAccount', account_number: 'A1B2C3' }
+    });
+  });
+
+  it('should rotate credentials of an existing account', async () => {
+    mockClient.get.mockResolvedValue({ ...account, type: 'DhlEcsAccount' });
+    mockClient.patch.mockResolvedValue({ ...account, type: 'DhlEcsAccount' });
+
+    await (server as any).tools.call('update_carrier_account', {
+      carrierAccountId: 'ca_fedex123',
+      credentials: { password: 'new-password' }
+    });
+
+    expect(mockClient.patch).toHaveBeenCalledWith('/carrier_accounts/ca_fedex123', {
+      carrier_account: { credentials: { password: 'new-password' } }
+    });
+  });
+
+  it('should require a field to update', async () => {
+    await expect((server as any).tools.call('update_carrier_account', { carrierAccountId: 'ca_fedex123' }))
+      .rejects.toThrow('Invalid update_carrier_account parameters');
+  });
+
+  it('should pass carrier account restrictions to shipment rating', async () => {
+    mockClient.post.mockResolvedValue({ id: 'shp_123', rates: [] });
+
+    await (server as any).tools.call('create_shipment', {
+      to_address: { street1: '417 Montgomery St', city: 'San Francisco', state: 'CA', zip: '94104', country: 'US' },
+      from_address: { street1: '179 N Harbor Dr', city: 'Redondo Beach', state: 'CA', zip: '90277', country: 'US' },
+      parcel: { length: 10, width: 8, height: 4, weight: 16 },
+      carrier_accounts: ['ca_fedex123']
+    });
+
+    expect(mockClient.post).toHaveBeenCalledWith('/shipments', expect.objectContaining({
+      carrier_accounts: ['ca_fedex123']
+    }));
+  });
+});
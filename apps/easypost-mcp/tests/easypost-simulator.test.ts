@@ -0,0 +1,222 @@
+import { EasyPostSimulator } from '../src/services/easypost-simulator.js';
+import { EasyPostClient } from '../src/services/easypost-client.js';
+import { EasyPostHandlers } from '../src/handlers/easypost.js';
+import { EasyPostMCPServer } from '../src/server.js';
+import { AccountRegistry } from '../src/services/accounts.js';
+import { countPdfPages } from '../src/utils/label-documents.js';
+import { EnvironmentVariablesSchema } from '../src/types/index.js';
+
+jest.mock('../src/utils/logger', () => ({
+  ...jest.requireActual('../src/utils/logger'),
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    http: jest.fn(),
+    performance: jest.fn()
+  }
+}));
+
+const to = { name: 'Jane Doe', street1: '417 Montgomery St', city: 'San Francisco', state: 'CA', zip: '94104', country: 'US' };
+const from = { name: 'Warehouse', street1: '179 N Harbor Dr', city: 'Redondo Beach', state: 'CA', zip: '90277', country: 'US' };
+const parcel = { length: 10, width: 8, height: 4, weight: 24 };
+
+describe('EasyPostSimulator', () => {
+  let now: Date;
+  let simulator: EasyPostSimulator;
+  let client: EasyPostClient;
+  let handlers: EasyPostHandlers;
+
+  const createClient = (scope?: string) => new EasyPostClient({
+    apiKey: 'EZTK_simulated',
+    baseURL: 'https://api.easypost.com/v2',
+    timeout: 30000,
+    retryAttempts: 0,
+    enableCache: false,
+    adapter: simulator.adapter(scope)
+  });
+
+  beforeEach(() => {
+    now = new Date('2026-03-02T15:00:00Z');
+    simulator = new EasyPostSimulator({ now: () => now });
+    client = createClient();
+    handlers = new EasyPostHandlers(client);
+  });
+
+  afterEach(() => {
+    client.dispose();
+  });
+
+  it('should quote the same rates for the same shipment', async () => {
+    const first = await handlers.createShipment({ to_address: to, from_address: from, parcel });
+    simulator.reset();
+    const second = await handlers.createShipment({ to_address: to, from_address: from, parcel });
+
+    expect(first.rates).toHaveLength(9);
+    expect(second).toEqual(first);
+    expect(first.rates!.find(rate => rate.carrier === 'USPS' && rate.service === 'Priority')).toMatchObject({
+      rate: '9.30',
+      delivery_days: 2,
+      shipment_id: first.id
+    });
+  });
+
+  it('should only quote the requested carrier accounts', async () => {
+    const shipment = await handlers.createShipment({
+      to_address: to,
+      from_address: from,
+      parcel,
+      carrier_accounts: ['ca_simulated_ups']
+    });
+
+    expect(new Set(shipment.rates!.map(rate => rate.carrier))).toEqual(new Set(['UPS']));
+  });
+
+  it('should buy a label, serve its file and track the shipment as time passes', async () => {
+    const shipment = await handlers.createShipment({ to_address: to, from_address: from, parcel });
+    const rate = shipment.rates!.find(candidate => candidate.service === 'GroundAdvantage')!;
+
+    const purchased = await handlers.buyShipmentLabel(shipment.id, rate.id, 'label-1');
+    expect(purchased.selected_rate!.id).toBe(rate.id);
+    expect(purchased.tracking_code).toMatch(/^9400/);
+
+    const png = await client.download(purchased.postage_label!.label_url);
+    expect(png.subarray(1, 4).toString('latin1')).toBe('PNG');
+
+    expect((await handlers.trackShipment(purchased.tracking_code!)).status).toBe('pre_transit');
+    now = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+    expect((await handlers.trackShipment(purchased.tracking_code!)).status).toBe('in_transit');
+    now = new Date(now.getTime() + rate.delivery_days! * 24 * 60 * 60 * 1000);
+    const delivered = await handlers.trackShipment(purchased.tracking_code!);
+    expect(delivered.status).toBe('delivered');
+    expect(delivered.tracking_details.at(-1)!.tracking_location).toMatchObject({ city: 'San Francisco' });
+  });
+
+  it('should reject a second purchase and refunds of unpurchased shipments', async () => {
+    const shipment = await handlers.createShipment({ to_address: to, from_address: from, parcel });
+
+    await expect(handlers.refundShipment(shipment.id)).rejects.toMatchObject({ code: 'SHIPMENT_REFUND_FAILED' });
+
+    await handlers.buyShipmentLabel(shipment.id, shipment.rates![0]!.id);
+    await expect(client.post(`/shipments/${shipment.id}/buy`, { rate: { id: shipment.rates![0]!.id } }))
+      .rejects.toMatchObject({ code: 'SHIPMENT.POSTAGE.EXISTS', statusCode: 422 });
+
+    expect((await handlers.refundShipment(shipment.id)).refund_status).toBe('submitted');
+  });
+
+  it('should convert labels and insure purchased shipments', async () => {
+    const shipment = await handlers.createShipment({ to_address: to, from_address: from, parcel });
+    await handlers.buyShipmentLabel(shipment.id, shipment.rates![0]!.id);
+
+    const converted = await handlers.convertLabel(shipment.id, 'PDF');
+    const pdf = await client.download(converted.postage_label!.label_pdf_url!);
+    expect(await countPdfPages(pdf)).toBe(1);
+
+    const insured = await handlers.buyInsurance(shipment.id, '200.00');
+    expect(insured.insurance).toBe('200.00');
+    expect(insured.fees).toContainEqual(expect.objectContaining({ type: 'InsuranceFee', amount: '1.00' }));
+  });
+
+  it('should buy batches and create SCAN forms', async () => {
+    const ids = [];
+    for (let index = 0; index < 2; index++) {
+      ids.push((await handlers.createShipment({ to_address: to, from_address: from, parcel })).id);
+    }
+
+    const batch = await handlers.createBatch();
+    await handlers.addShipmentsToBatch(batch.id, ids);
+    const purchased = await handlers.buyBatch(batch.id);
+    expect(purchased.state).toBe('purchased');
+    expect(purchased.shipments.every((shipment: { batch_status: string }) => shipment.batch_status === 'postage_purchased')).toBe(true);
+
+    const labeled = await handlers.generateBatchLabel(batch.id, 'PDF');
+    expect(await countPdfPages(await client.download(labeled.label_url!))).toBe(2);
+
+    const merged = await handlers.mergeLabels({ format: 'PDF', shipmentIds: ids });
+    expect(await countPdfPages(merged.content)).toBe(2);
+
+    const scanForm = await handlers.createScanForm(ids);
+    expect(scanForm.tracking_codes).toHaveLength(2);
+    await expect(handlers.createScanForm(ids)).rejects.toThrow();
+  });
+
+  it('should verify addresses and fail strict verification of unknown streets', async () => {
+    const verified = await handlers.validateAddress(to);
+    expect(verified.verifications!.delivery!.success).toBe(true);
+    expect(verified.zip).toMatch(/^94104-\d{4}$/);
+
+    await expect(handlers.validateAddress({ ...to, street1: 'Nowhere' })).rejects.toThrow('Failed to validate address');
+  });
+
+  it('should keep objects of different accounts apart', async () => {
+    const shipment = await handlers.createShipment({ to_address: to, from_address: from, parcel });
+    const other = createClient('acme');
+
+    await expect(other.get(`/shipments/${shipment.id}`)).rejects.toMatchObject({ statusCode: 404 });
+    other.dispose();
+  });
+
+  it('should report endpoints it does not simulate', async () => {
+    await expect(client.post('/pickups', {})).rejects.toMatchObject({ code: 'SIMULATOR.ENDPOINT_UNSUPPORTED' });
+  });
+});
+
+describe('Dry-run server', () => {
+  it('should run without API keys', () => {
+    expect(EnvironmentVariablesSchema.safeParse({ EASYPOST_DRY_RUN: 'true' }).success).toBe(true);
+  });
+
+  it('should not serve one account the cached objects of another', async () => {
+    const registry = new AccountRegistry({
+      name: 'test-easypost-mcp-server',
+      version: '1.0.0',
+      environment: 'test',
+      timeout: 30000,
+      retryAttempts: 0,
+      enableCache: true,
+      logLevel: 'error',
+      dryRun: true,
+      accounts: [{ name: 'acme' }, { name: 'globex' }]
+    });
+    const acme = registry.client({ account: 'acme', mode: 'test' });
+    const globex = registry.client({ account: 'globex', mode: 'test' });
+
+    try {
+      const shipment = await new EasyPostHandlers(acme).createShipment({ to_address: to, from_address: from, parcel });
+
+      await expect(acme.get(`/shipments/${shipment.id}`)).resolves.toMatchObject({ id: shipment.id });
+      await expect(globex.get(`/shipments/${shipment.id}`)).rejects.toMatchObject({ statusCode: 404 });
+    } finally {
+      await registry.close();
+    }
+  });
+
+  it('should run tool calls against the simulator and say so', async () => {
+    const server = new EasyPostMCPServer({
+      name: 'test-easypost-mcp-server',
+      version: '1.0.0',
+      environment: 'test',
+      timeout: 30000,
+      retryAttempts: 0,
+      enableCache: false,
+      logLevel: 'error',
+      dryRun: true
+    });
+
+    const created = await (server as any).tools.call('create_shipment', { to_address: to, from_address: from, parcel });
+    expect(created.content[0].text).toContain('DRY RUN');
+    const shipment = JSON.parse(created.content.at(-1).text);
+
+    const bought = await (server as any).tools.call('buy_shipment_label', {
+      shipmentId: shipment.id,
+      rateId: shipment.rates[0].id,
+      mode: 'production'
+    }).catch((error: Error) => error);
+
+    // Production mode in a dry run is simulated too, with its own objects
+    expect(bought).toMatchObject({ code: 'SHIPMENT_FETCH_FAILED' });
+    await expect((server as any).tools.call('buy_shipment_label', { shipmentId: shipment.id, rateId: shipment.rates[0].id }))
+      .resolves.toBeDefined();
+  });
+});
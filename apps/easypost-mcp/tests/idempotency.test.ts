@@ -0,0 +1,95 @@
+import { IdempotencyManager, MemoryIdempotencyStore } from '../src/services/idempotency.js';
+import { EasyPostError } from '../src/types/index.js';
+
+jest.mock('../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('IdempotencyManager', () => {
+  let store: MemoryIdempotencyStore;
+  let manager: IdempotencyManager;
+
+  beforeEach(() => {
+    store = new MemoryIdempotencyStore();
+    manager = new IdempotencyManager(store, 60);
+  });
+
+  afterEach(async () => {
+    await manager.close();
+  });
+
+  it('should return the original result for a repeated key', async () => {
+    const purchase = jest.fn().mockResolvedValue({ id: 'shp_123', tracking_code: '9400' });
+
+    const first = await manager.execute('buy_shipment_label', { shipmentId: 'shp_123', rateId: 'rate_1' }, 'key-1', purchase);
+    const second = await manager.execute('buy_shipment_label', { shipmentId: 'shp_123', rateId: 'rate_1' }, 'key-1', purchase);
+
+    expect(purchase).toHaveBeenCalledTimes(1);
+    expect(purchase).toHaveBeenCalledWith('key-1');
+    expect(first.replayed).toBe(false);
+    expect(second.replayed).toBe(true);
+    expect(second.result).toEqual(first.result);
+  });
+
+  it('should derive a key from the parameters when none is passed', async () => {
+    const purchase = jest.fn().mockResolvedValue({ id: 'batch_123' });
+
+    const first = await manager.execute('buy_batch', { batchId: 'batch_123' }, undefined, purchase);
+    const second = await manager.execute('buy_batch', { batchId: 'batch_123' }, undefined, purchase);
+
+    expect(purchase).toHaveBeenCalledTimes(1);
+    expect(first.key).toMatch(/^buy_batch:[0-9a-f]{32}$/);
+    expect(second.key).toBe(first.key);
+  });
+
+  it('should share one purchase between concurrent calls', async () => {
+    let resolvePurchase: (value: unknown) => void = () => undefined;
+    let purchaseStarted: () => void = () => undefined;
+    const started = new Promise<void>(resolve => { purchaseStarted = resolve; });
+    const purchase = jest.fn(() => new Promise(resolve => {
+      resolvePurchase = resolve;
+      purchaseStarted();
+    }));
+
+    const first = manager.execute('buy_insurance', { shipmentId: 'shp_123', amount: '100.00' }, 'key-2', purchase);
+    const second = manager.execute('buy_insurance', { shipmentId: 'shp_123', amount: '100.00' }, 'key-2', purchase);
+    await started;
+    resolvePurchase({ id: 'ins_123' });
+
+    const results = await Promise.all([first, second]);
+
+    expect(purchase).toHaveBeenCalledTimes(1);
+    expect(results.map(outcome => outcome.replayed)).toEqual([false, true]);
+  });
+
+  it('should reject a key reused with different parameters', async () => {
+    const purchase = jest.fn().mockResolvedValue({ id: 'ins_123' });
+
+    await manager.execute('buy_insurance', { shipmentId: 'shp_123', amount: '100.00' }, 'key-3', purchase);
+
+    await expect(
+      manager.execute('buy_insurance', { shipmentId: 'shp_123', amount: '250.00' }, 'key-3', purchase)
+    ).rejects.toThrow(EasyPostError);
+    expect(purchase).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not record failed purchases', async () => {
+    const purchase = jest.fn()
+      .mockRejectedValueOnce(new EasyPostError('Payment Required', 'HTTP_402', undefined, 402))
+      .mockResolvedValueOnce({ id: 'shp_123' });
+
+    await expect(
+      manager.execute('buy_shipment_label', { shipmentId: 'shp_123', rateId: 'rate_1' }, 'key-4', purchase)
+    ).rejects.toThrow('Payment Required');
+
+    const retry = await manager.execute('buy_shipment_label', { shipmentId: 'shp_123', rateId: 'rate_1' }, 'key-4', purchase);
+
+    expect(purchase).toHaveBeenCalledTimes(2);
+    expect(retry.replayed).toBe(false);
+  });
+});
@@ -0,0 +1,103 @@
+import { deflateSync } from 'zlib';
+import { PDFDocument } from 'pdf-lib';
+import {
+  buildPdfFromPngs,
+  concatenateLabels,
+  countPdfPages,
+  getLabelUrl,
+  labelSizeToPoints,
+  mergePdfs
+} from '../src/utils/label-documents.js';
+import { EasyPostError, EasyPostPostageLabel } from '../src/types/index.js';
+
+/**
+ * Build a minimal non-interlaced 8-bit PNG with unfiltered scanlines
+ */
+const createPng = (width: number, height: number, colorType: number, channels: number): Buffer => {
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    return Buffer.concat([length, Buffer.from(type, 'latin1'), data, Buffer.alloc(4)]);
+  };
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = colorType;
+
+  const scanlines = Buffer.alloc(height * (width * channels + 1), 0x80);
+  for (let y = 0; y < height; y++) {
+    scanlines[y * (width * channels + 1)] = 0;
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(scanlines)),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+};
+
+describe('label documents', () => {
+  it('should build one PDF page per PNG label', async () => {
+    const page = labelSizeToPoints('4x6');
+    const pdf = await buildPdfFromPngs([
+      { png: createPng(8, 12, 0, 1), ...page },
+      { png: createPng(8, 12, 2, 3), ...page },
+      { png: createPng(8, 12, 6, 4), ...page }
+    ]);
+
+    const document = await PDFDocument.load(pdf);
+    expect(document.getPageCount()).toBe(3);
+    expect(document.getPage(0).getSize()).toEqual({ width: 288, height: 432 });
+  });
+
+  it('should reject labels that are not PNG images', async () => {
+    await expect(buildPdfFromPngs([{ png: Buffer.from('%PDF-1.4'), width: 288, height: 432 }]))
+      .rejects.toThrow(EasyPostError);
+  });
+
+  it('should merge the pages of PDF labels in order, keeping their sizes', async () => {
+    const png = createPng(8, 12, 0, 1);
+    const fourBySix = await buildPdfFromPngs([{ png, ...labelSizeToPoints('4x6') }]);
+    const twoLetters = await buildPdfFromPngs([
+      { png, ...labelSizeToPoints('8.5x11') },
+      { png, ...labelSizeToPoints('8.5x11') }
+    ]);
+
+    const merged = await PDFDocument.load(await mergePdfs([fourBySix, twoLetters]));
+
+    expect(merged.getPages().map(page => page.getSize())).toEqual([
+      { width: 288, height: 432 },
+      { width: 612, height: 792 },
+      { width: 612, height: 792 }
+    ]);
+    expect(await countPdfPages(await mergePdfs([twoLetters]))).toBe(2);
+  });
+
+  it('should reject labels that are not PDF documents', async () => {
+    await expect(mergePdfs([Buffer.from('^XA^XZ')])).rejects.toMatchObject({
+      code: 'LABEL_MERGE_FAILED',
+      details: { labelIndex: 0, reason: 'not a PDF document' }
+    });
+    await expect(mergePdfs([])).rejects.toMatchObject({ code: 'LABEL_MERGE_FAILED' });
+  });
+
+  it('should concatenate thermal labels', () => {
+    expect(concatenateLabels(['^XA^FDone^FS^XZ\n\n', '^XA^FDtwo^FS^XZ']))
+      .toBe('^XA^FDone^FS^XZ\n^XA^FDtwo^FS^XZ\n');
+  });
+
+  it('should resolve the label URL for a format', () => {
+    const label = {
+      label_url: 'https://easypost-files.s3.amazonaws.com/label.png',
+      label_file_type: 'image/png',
+      label_zpl_url: 'https://easypost-files.s3.amazonaws.com/label.zpl'
+    } as EasyPostPostageLabel;
+
+    expect(getLabelUrl(label, 'PNG')).toBe(label.label_url);
+    expect(getLabelUrl(label, 'ZPL')).toBe(label.label_zpl_url);
+    expect(getLabelUrl(label, 'PDF')).toBeUndefined();
+  });
+});
@@ -0,0 +1,150 @@
+import request from 'supertest';
+import { EasyPostMCPServer } from '../src/server.js';
+import { EasyPostMCPServerConfig } from '../src/types/index.js';
+
+jest.mock('../src/utils/logger', () => ({
+  ...jest.requireActual('../src/utils/logger'),
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const token = 'mcp-test-token-0123456789';
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 0,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'mcp-http-test', version: '1.0.0' }
+  }
+};
+
+function createServer(overrides: Partial<EasyPostMCPServerConfig> = {}): EasyPostMCPServer {
+  return new EasyPostMCPServer({
+    name: 'test-easypost-mcp-server',
+    version: '1.0.0',
+    apiKey: 'EZTK_test_1234567890abcdef',
+    environment: 'test',
+    timeout: 30000,
+    retryAttempts: 3,
+    enableCache: false,
+    logLevel: 'error',
+    port: 3000,
+    mcpAuthToken: token,
+    ...overrides
+  });
+}
+
+function post(server: EasyPostMCPServer, body: unknown) {
+  return request((server as any).app)
+    .post('/mcp')
+    .set('Host', 'localhost:3000')
+    .set('Accept', 'application/json, text/event-stream')
+    .set('Authorization', `Bearer ${token}`)
+    .send(body);
+}
+
+describe('Streamable HTTP endpoint', () => {
+  let server: EasyPostMCPServer;
+
+  afterEach(async () => {
+    await (server as any).closeHttpSessions();
+  });
+
+  it('should not be served without a token', async () => {
+    server = createServer({ mcpAuthToken: undefined });
+
+    const response = await post(server, initialize);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should reject requests without the bearer token', async () => {
+    server = createServer();
+
+    const missing = await request((server as any).app)
+      .post('/mcp')
+      .set('Host', 'localhost:3000')
+      .send(initialize);
+    const wrong = await post(server, initialize).set('Authorization', 'Bearer wrong-token');
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers['www-authenticate']).toBe('Bearer');
+    expect(wrong.status).toBe(401);
+    expect(wrong.body.error.message).toBe('Missing or invalid bearer token');
+    expect(server.getActiveSessionCount()).toBe(0);
+  });
+
+  it('should open a session for an authorized initialize', async () => {
+    server = createServer();
+
+    const response = await post(server, initialize);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['mcp-session-id']).toEqual(expect.any(String));
+    expect(server.getActiveSessionCount()).toBe(1);
+  });
+
+  it('should reject hosts outside the allowed list and drop their session', async () => {
+    server = createServer();
+
+    const response = await post(server, initialize).set('Host', 'attacker.example:3000');
+
+    expect(response.status).toBe(403);
+    expect(server.getActiveSessionCount()).toBe(0);
+  });
+
+  it('should accept the configured hosts', async () => {
+    server = createServer({ mcpAllowedHosts: ['easypost-mcp:3000'] });
+
+    const allowed = await post(server, initialize).set('Host', 'easypost-mcp:3000');
+    const localhost = await post(server, initialize);
+
+    expect(allowed.status).toBe(200);
+    expect(localhost.status).toBe(403);
+  });
+
+  it('should refuse new sessions above the cap', async () => {
+    server = createServer({ mcpMaxSessions: 1 });
+
+    await post(server, initialize);
+    const response = await post(server, initialize);
+
+    expect(response.status).toBe(503);
+    expect(server.getActiveSessionCount()).toBe(1);
+  });
+
+  it('should close sessions idle for longer than the timeout', async () => {
+    server = createServer({ mcpSessionIdleTimeout: 60 });
+
+    const idle = await post(server, initialize);
+    const active = await post(server, initialize);
+    const sessions = (server as any).httpSessions;
+    sessions.get(idle.headers['mcp-session-id']).lastActivityAt = new Date(Date.now() - 61000);
+
+    await (server as any).closeIdleHttpSessions();
+
+    expect([...sessions.keys()]).toEqual([active.headers['mcp-session-id']]);
+  });
+
+  it('should allow cross-origin calls only from the configured origins', async () => {
+    server = createServer({ mcpAllowedOrigins: ['https://dashboard.example'] });
+
+    const preflight = (origin: string) => request((server as any).app)
+      .options('/mcp')
+      .set('Origin', origin)
+      .set('Access-Control-Request-Method', 'POST');
+
+    expect((await preflight('https://dashboard.example')).headers['access-control-allow-origin']).toBe('https://dashboard.example');
+    expect((await preflight('https://attacker.example')).headers['access-control-allow-origin']).toBeUndefined();
+
+    const response = await post(server, initialize).set('Origin', 'https://attacker.example');
+    expect(response.status).toBe(403);
+  });
+});
@@ -0,0 +1,56 @@
+import { normalizeEndpoint } from '@mcp-shipping/shared';
+import {
+  metricsRegistry,
+  recordCacheLookup,
+  recordToolCall,
+  recordUpstreamRequest,
+  recordWebhookEvent
+} from '../src/utils/metrics.js';
+
+describe('Prometheus metrics', () => {
+  beforeEach(() => {
+    metricsRegistry.resetMetrics();
+  });
+
+  it('should normalize object IDs out of endpoint labels', () => {
+    expect(normalizeEndpoint('https://api.easypost.com/v2/shipments/shp_abc123/buy?page=2')).toBe('/v2/shipments/:id/buy');
+    expect(normalizeEndpoint('/trackers/42')).toBe('/trackers/:id');
+    expect(normalizeEndpoint('/carrier_accounts')).toBe('/carrier_accounts');
+  });
+
+  it('should count tool calls and errors by MCP error code', async () => {
+    recordToolCall('create_shipment', 50);
+    recordToolCall('create_shipment', 450, -32600);
+
+    const calls = await metricsRegistry.getSingleMetricAsString('mcp_tool_calls_total');
+    expect(calls).toContain('mcp_tool_calls_total{tool="create_shipment",outcome="success",service="easypost-mcp"} 1');
+    expect(calls).toContain('mcp_tool_calls_total{tool="create_shipment",outcome="error",service="easypost-mcp"} 1');
+
+    const errors = await metricsRegistry.getSingleMetricAsString('mcp_tool_errors_total');
+    expect(errors).toContain('code="-32600"');
+
+    const overTarget = await metricsRegistry.getSingleMetricAsString('mcp_tool_calls_over_target_total');
+    expect(overTarget).toContain('mcp_tool_calls_over_target_total{tool="create_shipment",service="easypost-mcp"} 1');
+  });
+
+  it('should observe upstream latency by endpoint and status', async () => {
+    recordUpstreamRequest('POST', '/shipments/shp_123/buy', 422, 120);
+    recordUpstreamRequest('GET', '/trackers', undefined, 30000);
+
+    const latency = await metricsRegistry.getSingleMetricAsString('mcp_upstream_request_duration_seconds');
+    expect(latency).toMatch(/mcp_upstream_request_duration_seconds_count\{.*method="POST",endpoint="\/shipments\/:id\/buy",status="422".*\} 1/);
+    expect(latency).toContain('status="none"');
+  });
+
+  it('should report the cache hit ratio and webhook events', async () => {
+    recordCacheLookup(true);
+    recordCacheLookup(true);
+    recordCacheLookup(true);
+    recordCacheLookup(false);
+    recordWebhookEvent('tracker.updated', 'processed');
+
+    expect(await metricsRegistry.getSingleMetricAsString('mcp_cache_hit_ratio')).toMatch(/mcp_cache_hit_ratio\{service="easypost-mcp"\} 0\.75/);
+    expect(await metricsRegistry.getSingleMetricAsString('mcp_webhook_events_total'))
+      .toContain('mcp_webhook_events_total{event="tracker.updated",status="processed",service="easypost-mcp"} 1');
+  });
+});
@@ -0,0 +1,104 @@
+import { packItems } from '../src/utils/packing.js';
+import { DEFAULT_BOXES } from '../src/services/box-catalog.js';
+import { BoxDefinition, CreateShipmentRequestSchema, EasyPostError, PackingItem } from '../src/types/index.js';
+
+const item = (overrides: Partial<PackingItem>): PackingItem => ({
+  length: 4,
+  width: 4,
+  height: 4,
+  weight: 8,
+  quantity: 1,
+  ...overrides
+});
+
+describe('packItems', () => {
+  it('should pick the smallest box that fits and return a parcel', () => {
+    const result = packItems([item({ name: 'mug', height: 5, weight: 12 })], DEFAULT_BOXES);
+
+    expect(result.box_count).toBe(1);
+    expect(result.boxes[0]).toMatchObject({
+      box_id: 'small',
+      items: [{ name: 'mug', quantity: 1 }],
+      parcel: { length: 8, width: 6, height: 4, weight: 16 }
+    });
+  });
+
+  it('should rotate items to fit', () => {
+    const box: BoxDefinition = { id: 'tube', length: 2, width: 2, height: 20, tare_weight: 0, max_weight: 100 };
+
+    const result = packItems([item({ length: 18, width: 1, height: 1 })], [box]);
+
+    expect(result.boxes[0]?.box_id).toBe('tube');
+  });
+
+  it('should fill a box exactly', () => {
+    const cube: BoxDefinition = { id: 'cube', length: 4, width: 4, height: 4, tare_weight: 0, max_weight: 100 };
+
+    const result = packItems([item({ length: 2, width: 2, height: 2, weight: 1, quantity: 8 })], [cube]);
+
+    expect(result.box_count).toBe(1);
+    expect(result.boxes[0]?.fill_rate).toBe(1);
+  });
+
+  it('should send outer dimensions and predefined packages to the carrier', () => {
+    const box: BoxDefinition = {
+      id: 'flat-rate',
+      length: 11,
+      width: 8.5,
+      height: 5.5,
+      outer_dimensions: { length: 11.25, width: 8.75, height: 6 },
+      tare_weight: 6,
+      max_weight: 1120,
+      predefined_package: 'MediumFlatRateBox'
+    };
+
+    const result = packItems([item({})], [box]);
+
+    expect(result.boxes[0]?.parcel).toEqual({
+      length: 11.25,
+      width: 8.75,
+      height: 6,
+      weight: 14,
+      predefined_package: 'MediumFlatRateBox'
+    });
+  });
+
+  it('should split items across boxes when the weight limit is reached', () => {
+    const result = packItems([item({ name: 'brick', length: 8, width: 4, height: 2, weight: 80, quantity: 30 })], DEFAULT_BOXES);
+
+    expect(result.box_count).toBeGreaterThan(1);
+    expect(result.boxes.reduce((sum, box) => sum + box.item_count, 0)).toBe(30);
+    for (const packed of result.boxes) {
+      const box = DEFAULT_BOXES.find(candidate => candidate.id === packed.box_id)!;
+      expect(packed.parcel.weight).toBeLessThanOrEqual(box.max_weight);
+    }
+  });
+
+  it('should refuse to split when multiple boxes are not allowed', () => {
+    expect(() => packItems(
+      [item({ length: 8, width: 4, height: 2, weight: 80, quantity: 30 })],
+      DEFAULT_BOXES,
+      { allowMultipleBoxes: false }
+    )).toThrow(EasyPostError);
+  });
+
+  it('should reject items larger than every box', () => {
+    expect(() => packItems([item({ name: 'tv', length: 40, width: 6, height: 1 })], DEFAULT_BOXES))
+      .toThrow('Item "tv" does not fit in any catalog box');
+  });
+});
+
+describe('CreateShipmentRequestSchema', () => {
+  const addresses = { to_address: '@customer', from_address: '@warehouse' };
+
+  it('should accept items instead of a parcel', () => {
+    expect(CreateShipmentRequestSchema.safeParse({ ...addresses, items: [item({})] }).success).toBe(true);
+  });
+
+  it('should require exactly one of parcel and items', () => {
+    const parcel = { length: 10, width: 8, height: 4, weight: 15 };
+
+    expect(CreateShipmentRequestSchema.safeParse(addresses).success).toBe(false);
+    expect(CreateShipmentRequestSchema.safeParse({ ...addresses, parcel, items: [item({})] }).success).toBe(false);
+  });
+});
@@ -0,0 +1,183 @@
+import { EasyPostMCPServer } from '../src/server.js';
+import { EasyPostClient } from '../src/services/easypost-client.js';
+import { PickupCreateRequestSchema } from '../src/types/index.js';
+
+jest.mock('../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    performance: jest.fn()
+  }
+}));
+
+jest.mock('../src/services/easypost-client');
+const MockedEasyPostClient = EasyPostClient as jest.MockedClass<typeof EasyPostClient>;
+
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 3600 * 1000).toISOString();
+
+const address = {
+  name: 'Dock Manager',
+  street1: '417 Montgomery St',
+  city: 'San Francisco',
+  state: 'CA',
+  zip: '94104',
+  country: 'US',
+  phone: '415-555-0100'
+};
+
+const pickup = {
+  id: 'pickup_123',
+  object: 'Pickup',
+  mode: 'test',
+  status: 'unknown',
+  min_datetime: hoursFromNow(20),
+  max_datetime: hoursFromNow(28),
+  pickup_rates: [
+    { id: 'pickuprate_2', object: 'PickupRate', carrier: 'UPS', service: 'Same-day Pickup', rate: '9.00', currency: 'USD' },
+    { id: 'pickuprate_1', object: 'PickupRate', carrier: 'UPS', service: 'Future-day Pickup', rate: '5.50', currency: 'USD' }
+  ]
+};
+
+describe('PickupCreateRequestSchema', () => {
+  const request = {
+    shipmentId: 'shp_123',
+    address,
+    min_datetime: hoursFromNow(20),
+    max_datetime: hoursFromNow(28)
+  };
+
+  it('should accept a pickup for one shipment', () => {
+    expect(PickupCreateRequestSchema.safeParse(request).success).toBe(true);
+  });
+
+  it('should require exactly one of shipmentId and batchId', () => {
+    expect(PickupCreateRequestSchema.safeParse({ ...request, batchId: 'batch_123' }).success).toBe(false);
+    expect(PickupCreateRequestSchema.safeParse({ ...request, shipmentId: undefined }).success).toBe(false);
+  });
+
+  it('should reject windows that are inverted, over or too long', () => {
+    expect(PickupCreateRequestSchema.safeParse({ ...request, max_datetime: hoursFromNow(10) }).success).toBe(false);
+    expect(PickupCreateRequestSchema.safeParse({
+      ...request,
+      min_datetime: hoursFromNow(-10),
+      max_datetime: hoursFromNow(-2)
+    }).success).toBe(false);
+    expect(PickupCreateRequestSchema.safeParse({ ...request, max_datetime: hoursFromNow(24 * 9) }).success).toBe(false);
+  });
+
+  it('should require timestamps with a UTC offset', () => {
+    expect(PickupCreateRequestSchema.safeParse({ ...request, min_datetime: 'tomorrow morning' }).success).toBe(false);
+  });
+});
+
+describe('Pickup tools', () => {
+  let server: EasyPostMCPServer;
+  let mockClient: jest.Mocked<EasyPostClient>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient = {
+      get: jest.fn(),
+      post: jest.fn(),
+      download: jest.fn()
+    } as any;
+    MockedEasyPostClient.mockImplementation(() => mockClient);
+
+    server = new EasyPostMCPServer({
+      name: 'test-easypost-mcp-server',
+      version: '1.0.0',
+      apiKey: 'EZTK_test_1234567890abcdef',
+      environment: 'test',
+      timeout: 30000,
+      retryAttempts: 3,
+      enableCache: false,
+      logLevel: 'error'
+    });
+  });
+
+  it('should create a pickup for a shipment', async () => {
+    mockClient.post.mockResolvedValue(pickup);
+
+    await (server as any).tools.call('create_pickup', {
+      shipmentId: 'shp_123',
+      address,
+      min_datetime: pickup.min_datetime,
+      max_datetime: pickup.max_datetime,
+      instructions: 'Ring the dock bell'
+    });
+
+    expect(mockClient.post).toHaveBeenCalledWith('/pickups', {
+      pickup: expect.objectContaining({
+        shipment: { id: 'shp_123' },
+        instructions: 'Ring the dock bell',
+        is_account_address: false
+      })
+    });
+  });
+
+  it('should reject a pickup address without a phone number', async () => {
+    const { phone: _phone, ...noPhone } = address;
+
+    await expect((server as any).tools.call('create_pickup', {
+      batchId: 'batch_123',
+      address: noPhone,
+      min_datetime: pickup.min_datetime,
+      max_datetime: pickup.max_datetime
+    })).rejects.toMatchObject({ code: 'PICKUP_ADDRESS_INVALID' });
+    expect(mockClient.post).not.toHaveBeenCalled();
+  });
+
+  it('should list pickup rates cheapest first', async () => {
+    mockClient.get.mockResolvedValue(pickup);
+
+    const result = await (server as any).tools.call('get_pickup_rates', { pickupId: 'pickup_123' });
+    const rates = JSON.parse(result.content.at(-1).text);
+
+    expect(rates.map((rate: any) => rate.service)).toEqual(['Future-day Pickup', 'Same-day Pickup']);
+  });
+
+  it('should book a pickup once per idempotency key', async () => {
+    mockClient.get.mockResolvedValue(pickup);
+    mockClient.post.mockResolvedValue({ ...pickup, status: 'scheduled', confirmation: 'WTC123' });
+
+    const args = { pickupId: 'pickup_123', carrier: 'UPS', service: 'Future-day Pickup', idempotencyKey: 'pickup-1' };
+    await (server as any).tools.call('buy_pickup', args);
+    const replay = await (server as any).tools.call('buy_pickup', args);
+
+    expect(mockClient.post).toHaveBeenCalledTimes(1);
+    expect(mockClient.post).toHaveBeenCalledWith(
+      '/pickups/pickup_123/buy',
+      { carrier: 'UPS', service: 'Future-day Pickup' },
+      { idempotencyKey: 'pickup-1' }
+    );
+    expect(replay.content.map((line: any) => line.text)).toContainEqual(expect.stringContaining('replayed'));
+  });
+
+  it('should reject rates the pickup does not offer', async () => {
+    mockClient.get.mockResolvedValue(pickup);
+
+    await expect((server as any).tools.call('buy_pickup', {
+      pickupId: 'pickup_123',
+      carrier: 'FedEx',
+      service: 'Express'
+    })).rejects.toMatchObject({ code: 'PICKUP_RATE_NOT_FOUND' });
+    expect(mockClient.post).not.toHaveBeenCalled();
+  });
+
+  it('should list upcoming scheduled pickups soonest first', async () => {
+    mockClient.get.mockResolvedValue({
+      pickups: [
+        { ...pickup, id: 'pickup_later', status: 'scheduled', min_datetime: hoursFromNow(40), max_datetime: hoursFromNow(48) },
+        { ...pickup, id: 'pickup_past', status: 'scheduled', min_datetime: hoursFromNow(-30), max_datetime: hoursFromNow(-20) },
+        { ...pickup, id: 'pickup_cancelled', status: 'canceled' },
+        { ...pickup, id: 'pickup_soon', status: 'scheduled' }
+      ]
+    });
+
+    const upcoming = await (server as any).handlers.listUpcomingPickups();
+
+    expect(upcoming.map((entry: any) => entry.id)).toEqual(['pickup_soon', 'pickup_later']);
+  });
+});
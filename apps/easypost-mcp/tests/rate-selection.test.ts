@@ -0,0 +1,156 @@
+import {
+  selectRate,
+  extractSmartrateTransitDays,
+  addBusinessDays
+} from '../src/utils/rate-selection.js';
+import { EasyPostError, EasyPostRate, RateSelectionPolicySchema } from '../src/types/index.js';
+
+const createRate = (overrides: Partial<EasyPostRate>): EasyPostRate => ({
+  id: 'rate_default',
+  object: 'Rate',
+  mode: 'test',
+  service: 'Ground',
+  service_name: 'Ground',
+  carrier: 'UPS',
+  rate: '10.00',
+  currency: 'USD',
+  shipment_id: 'shp_123',
+  carrier_account_id: 'ca_123',
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: '2026-10-01T00:00:00Z',
+  ...overrides
+});
+
+const rates: EasyPostRate[] = [
+  createRate({ id: 'rate_usps_ground', carrier: 'USPS', service: 'GroundAdvantage', rate: '7.50', delivery_days: 5 }),
+  createRate({ id: 'rate_usps_priority', carrier: 'USPS', service: 'Priority', rate: '9.80', delivery_days: 2 }),
+  createRate({ id: 'rate_ups_ground', carrier: 'UPS', service: 'Ground', rate: '11.25', delivery_days: 3 }),
+  createRate({ id: 'rate_fedex_overnight', carrier: 'FedEx', service: 'STANDARD_OVERNIGHT', rate: '42.00', delivery_days: 1 })
+];
+
+// Monday
+const shipDate = new Date('2026-10-19T00:00:00Z');
+const policy = (input: unknown) => RateSelectionPolicySchema.parse(input);
+
+describe('selectRate', () => {
+  it('should select the cheapest rate by default', () => {
+    const result = selectRate(rates, policy({}), { shipmentId: 'shp_123', shipDate });
+
+    expect(result.selected_rate.id).toBe('rate_usps_ground');
+    expect(result.transit_source).toBe('carrier_estimate');
+    expect(result.alternatives.map(rate => rate.rate_id)).toEqual([
+      'rate_usps_priority',
+      'rate_ups_ground',
+      'rate_fedex_overnight'
+    ]);
+    expect(result.justification).toContain('cheapest of 4 eligible rates');
+  });
+
+  it('should select the fastest rate', () => {
+    const result = selectRate(rates, policy({ strategy: 'fastest' }), { shipmentId: 'shp_123', shipDate });
+
+    expect(result.selected_rate.id).toBe('rate_fedex_overnight');
+  });
+
+  it('should select the cheapest rate that delivers by the date', () => {
+    const result = selectRate(
+      rates,
+      policy({ strategy: 'cheapest_by_date', deliver_by: '2026-10-22' }),
+      { shipmentId: 'shp_123', shipDate }
+    );
+
+    expect(result.selected_rate.id).toBe('rate_usps_priority');
+    expect(result.estimated_delivery_date).toBe('2026-10-21');
+    expect(result.excluded).toEqual([
+      expect.objectContaining({
+        rate_id: 'rate_usps_ground',
+        reason: 'estimated delivery 2026-10-26 is after 2026-10-22'
+      })
+    ]);
+  });
+
+  it('should apply carrier lists and price caps before ranking', () => {
+    const result = selectRate(
+      rates,
+      policy({ strategy: 'fastest', carriers_deny: ['usps'], max_price: 20 }),
+      { shipmentId: 'shp_123', shipDate }
+    );
+
+    expect(result.selected_rate.id).toBe('rate_ups_ground');
+    expect(result.excluded.map(rate => rate.reason)).toEqual([
+      'carrier in deny list',
+      'carrier in deny list',
+      'rate above max price 20.00'
+    ]);
+  });
+
+  it('should only consider the requested carrier accounts', () => {
+    const result = selectRate(
+      [...rates, createRate({ id: 'rate_ups_contract', rate: '9.00', carrier_account_id: 'ca_ups_contract' })],
+      policy({ carrier_accounts: ['ca_ups_contract'] }),
+      { shipmentId: 'shp_123', shipDate }
+    );
+
+    expect(result.selected_rate.id).toBe('rate_ups_contract');
+    expect(result.excluded).toHaveLength(4);
+    expect(result.excluded[0]!.reason).toBe('carrier account not in allow list');
+  });
+
+  it('should only compare and cap rates in the policy currency', () => {
+    const withCad = [...rates, createRate({ id: 'rate_canada_post', carrier: 'CanadaPost', rate: '5.00', currency: 'CAD', delivery_days: 1 })];
+
+    const usd = selectRate(withCad, policy({ strategy: 'fastest', max_price: 20 }), { shipmentId: 'shp_123', shipDate });
+    expect(usd.selected_rate.id).toBe('rate_usps_priority');
+    expect(usd.excluded).toEqual([
+      expect.objectContaining({ rate_id: 'rate_fedex_overnight', reason: 'rate above max price 20.00' }),
+      expect.objectContaining({ rate_id: 'rate_canada_post', reason: 'rate in CAD, not USD' })
+    ]);
+
+    const cad = selectRate(withCad, policy({ currency: 'cad', max_price: 6 }), { shipmentId: 'shp_123', shipDate });
+    expect(cad.selected_rate.id).toBe('rate_canada_post');
+    expect(cad.excluded).toHaveLength(4);
+  });
+
+  it('should rank by SmartRate percentile transit days', () => {
+    const smartrateTransitDays = extractSmartrateTransitDays({
+      results: [
+        { carrier: 'USPS', service: 'GroundAdvantage', easypost_time_in_transit_data: { days_in_transit: { percentile_90: 4 } } },
+        { carrier: 'USPS', service: 'Priority', easypost_time_in_transit_data: { days_in_transit: { percentile_90: 3 } } },
+        { carrier: 'UPS', service: 'Ground', easypost_time_in_transit_data: { days_in_transit: { percentile_90: 3 } } }
+      ]
+    }, 90);
+
+    const result = selectRate(
+      rates,
+      policy({ strategy: 'smartrate_percentile', max_days: 3 }),
+      { shipmentId: 'shp_123', shipDate, smartrateTransitDays }
+    );
+
+    expect(result.selected_rate.id).toBe('rate_usps_priority');
+    expect(result.transit_source).toBe('smartrate');
+    expect(result.excluded.map(rate => rate.rate_id)).toEqual(['rate_usps_ground', 'rate_fedex_overnight']);
+  });
+
+  it('should throw when no rate satisfies the policy', () => {
+    expect(() => selectRate(
+      rates,
+      policy({ carriers_allow: ['DHLExpress'] }),
+      { shipmentId: 'shp_123', shipDate }
+    )).toThrow(EasyPostError);
+  });
+});
+
+describe('RateSelectionPolicySchema', () => {
+  it('should require deliver_by for cheapest_by_date', () => {
+    const result = RateSelectionPolicySchema.safeParse({ strategy: 'cheapest_by_date' });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('addBusinessDays', () => {
+  it('should skip weekends', () => {
+    // Friday + 1 business day = Monday
+    expect(addBusinessDays(new Date('2026-10-23T00:00:00Z'), 1)).toBe('2026-10-26');
+  });
+});
@@ -0,0 +1,84 @@
+import { AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { EasyPostClient } from '../src/services/easypost-client.js';
+import { UPSTREAM_CIRCUIT_DEFAULTS } from '@mcp-shipping/shared';
+import { EasyPostError } from '../src/types/index.js';
+
+jest.mock('../src/utils/logger', () => ({
+  ...jest.requireActual('../src/utils/logger'),
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    http: jest.fn(),
+    performance: jest.fn()
+  }
+}));
+
+describe('EasyPostClient resilience', () => {
+  type Reply = { status: number; data?: unknown; headers?: Record<string, string> };
+
+  // Answers requests with the queued replies; axios rejects 5xx responses itself
+  const createClient = (replies: Reply[], retryAttempts = 2) => {
+    const requests: string[] = [];
+    const client = new EasyPostClient({
+      apiKey: 'EZTK_test_key',
+      baseURL: 'https://api.easypost.com/v2',
+      timeout: 5000,
+      retryAttempts,
+      enableCache: false,
+      adapter: async (config: InternalAxiosRequestConfig) => {
+        requests.push(`${config.method?.toUpperCase()} ${config.url}`);
+        const reply = replies.shift() ?? { status: 200, data: {} };
+        const response: AxiosResponse = {
+          status: reply.status,
+          statusText: String(reply.status),
+          data: reply.data ?? {},
+          headers: new AxiosHeaders(reply.headers ?? {}),
+          config
+        };
+
+        if (reply.status >= 500) {
+          throw new AxiosError(`Request failed with status code ${reply.status}`, AxiosError.ERR_BAD_RESPONSE, config, null, response);
+        }
+        return response;
+      }
+    });
+
+    return { client, requests };
+  };
+
+  it('should wait for Retry-After before retrying', async () => {
+    const { client, requests } = createClient([
+      { status: 429, headers: { 'retry-after': '0' } },
+      { status: 503, headers: { 'retry-after': '0' } },
+      { status: 200, data: { id: 'user_123' } }
+    ]);
+
+    await expect(client.get('/users/user_123')).resolves.toEqual({ id: 'user_123' });
+    expect(requests).toHaveLength(3);
+  });
+
+  it('should not repeat a purchase after an ambiguous server error', async () => {
+    const { client, requests } = createClient([{ status: 502 }]);
+
+    await expect(
+      client.post('/shipments/shp_123/buy', { rate: { id: 'rate_123' } }, { idempotencyKey: 'key-1' })
+    ).rejects.toMatchObject({ statusCode: 502 });
+    expect(requests).toEqual(['POST /shipments/shp_123/buy']);
+  });
+
+  it('should fail fast with CIRCUIT_OPEN once an endpoint keeps failing', async () => {
+    const failures = Array.from({ length: UPSTREAM_CIRCUIT_DEFAULTS.failureThreshold }, () => ({ status: 500 }));
+    const { client, requests } = createClient([...failures], 0);
+
+    for (const _failure of failures) {
+      await expect(client.get('/trackers/trk_123')).rejects.toMatchObject({ statusCode: 500 });
+    }
+
+    const error = await client.get('/trackers/trk_123').catch(caught => caught);
+    expect(error).toBeInstanceOf(EasyPostError);
+    expect(error).toMatchObject({ code: 'CIRCUIT_OPEN', statusCode: 503, details: { endpoint: '/trackers/:id' } });
+    expect(requests).toHaveLength(UPSTREAM_CIRCUIT_DEFAULTS.failureThreshold);
+  });
+});
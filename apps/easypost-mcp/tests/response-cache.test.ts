@@ -0,0 +1,98 @@
+import { AxiosResponse, AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import { EasyPostClient } from '../src/services/easypost-client.js';
+import { TrackingTimelineStore } from '../src/services/tracking-timeline-store.js';
+import { WebhookProcessor } from '../src/services/webhooks.js';
+
+jest.mock('../src/utils/logger', () => ({
+  ...jest.requireActual('../src/utils/logger'),
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    http: jest.fn(),
+    performance: jest.fn()
+  }
+}));
+
+describe('EasyPostClient cache', () => {
+  const createClient = () => {
+    const requests: string[] = [];
+    const client = new EasyPostClient({
+      apiKey: 'EZTK_test_key',
+      baseURL: 'https://api.easypost.com/v2',
+      timeout: 5000,
+      retryAttempts: 0,
+      enableCache: true,
+      adapter: async (config: InternalAxiosRequestConfig) => {
+        requests.push(`${config.method?.toUpperCase()} ${config.url}`);
+        const response: AxiosResponse = {
+          status: 200,
+          statusText: 'OK',
+          data: { id: 'shp_123', request: requests.length },
+          headers: new AxiosHeaders(),
+          config
+        };
+        return response;
+      }
+    });
+
+    return { client, requests };
+  };
+
+  it('should cache shipments until they are written to', async () => {
+    const { client, requests } = createClient();
+
+    await client.get('/shipments/shp_123');
+    await client.get('/shipments/shp_123');
+    await client.post('/shipments/shp_123/buy', { rate: { id: 'rate_123' } });
+    await client.get('/shipments/shp_123');
+
+    expect(requests).toEqual([
+      'GET /shipments/shp_123',
+      'POST /shipments/shp_123/buy',
+      'GET /shipments/shp_123'
+    ]);
+    client.dispose();
+  });
+
+  it('should not cache endpoints without a policy', async () => {
+    const { client, requests } = createClient();
+
+    await client.get('/batches/batch_123');
+    await client.get('/batches/batch_123');
+
+    expect(requests).toHaveLength(2);
+    client.dispose();
+  });
+});
+
+describe('WebhookProcessor cache invalidation', () => {
+  it('should invalidate the tracker and its shipment', () => {
+    const timelines = new TrackingTimelineStore();
+    const invalidate = jest.fn().mockResolvedValue(undefined);
+    const processor = new WebhookProcessor(timelines, invalidate);
+
+    processor.process({
+      id: 'evt_123',
+      object: 'Event',
+      mode: 'test',
+      description: 'tracker.updated',
+      result: {
+        id: 'trk_123',
+        object: 'Tracker',
+        mode: 'test',
+        tracking_code: 'EZ1000000001',
+        carrier: 'USPS',
+        shipment_id: 'shp_123',
+        tracking_details: [],
+        created_at: '2026-10-01T08:00:00Z',
+        updated_at: '2026-10-02T08:30:00Z'
+      }
+    });
+
+    expect(invalidate).toHaveBeenCalledWith(['tracker:trk_123', 'tracker:*', 'shipment:shp_123']);
+    processor.close();
+    timelines.close();
+  });
+});
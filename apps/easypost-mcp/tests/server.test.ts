@@ -1,5 +1,6 @@
 import { EasyPostMCPServer } from '../src/server.js';
 import { EasyPostClient } from '../src/services/easypost-client.js';
+import { CircuitBreakerRegistry } from '@mcp-shipping/shared';
 import { logger } from '../src/utils/logger.js';
 import nock from 'nock';
 
@@ -25,7 +26,7 @@ describe('EasyPostMCPServer', () => {
   const defaultConfig = {
     name: 'test-easypost-mcp-server',
     version: '1.0.0',
-    apiKey: 'EZAK_test_1234567890abcdef',
+    apiKey: 'EZTK_test_1234567890abcdef',
     environment: 'test' as const,
     timeout: 30000,
     retryAttempts: 3,
@@ -72,7 +73,10 @@ describe('EasyPostMCPServer', () => {
         timeout: defaultConfig.timeout,
         retryAttempts: defaultConfig.retryAttempts,
         enableCache: defaultConfig.enableCache,
-        baseURL: 'https://api.easypost.com/v2'
+        baseURL: 'https://api.easypost.com/v2',
+        adapter: undefined,
+        circuitBreakers: expect.any(CircuitBreakerRegistry),
+        cacheStore: undefined
       });
       
       expect(logger.info).toHaveBeenCalledWith(
@@ -140,19 +144,83 @@ describe('EasyPostMCPServer', () => {
       expect(tools).toEqual([
         'create_shipment',
         'get_shipment_rates',
+        'select_best_rate',
         'buy_shipment_label',
         'track_shipment',
+        'get_smartrate_estimates',
+        'refund_shipment',
+        'create_return_label',
+        'buy_insurance',
         'validate_address',
-        'get_smartrate_estimates'
+        'verify_address',
+        'save_address',
+        'list_addresses',
+        'update_address',
+        'delete_address',
+        'create_batch',
+        'add_shipments_to_batch',
+        'buy_batch',
+        'scan_form_create',
+        'create_pickup',
+        'get_pickup_rates',
+        'buy_pickup',
+        'cancel_pickup',
+        'list_carrier_accounts',
+        'create_carrier_account',
+        'update_carrier_account',
+        'delete_carrier_account',
+        'merge_labels',
+        'get_customs_info',
+        'create_customs_info',
+        'pack_items',
+        'register_webhook',
+        'list_webhooks',
+        'delete_webhook',
+        'query_audit_log'
       ]);
     });
 
+    it('should generate input schemas and annotations from the tool registry', () => {
+      const definitions = (server as any).getToolDefinitions();
+      const buyInsurance = definitions.find((tool: any) => tool.name === 'buy_insurance');
+
+      expect(buyInsurance.inputSchema).toEqual(expect.objectContaining({
+        type: 'object',
+        required: ['shipmentId', 'amount']
+      }));
+      expect(buyInsurance.inputSchema.properties.amount).toEqual(expect.objectContaining({
+        type: 'string',
+        description: 'Insurance coverage amount'
+      }));
+      expect(buyInsurance.inputSchema.properties.idempotencyKey).toEqual(expect.objectContaining({
+        type: 'string'
+      }));
+      expect(buyInsurance.annotations).toEqual({
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true
+      });
+    });
+
+    it('should reject tool calls that fail schema validation', async () => {
+      await expect(
+        (server as any).tools.call('buy_insurance', { shipmentId: 'shp_123', amount: 'lots' })
+      ).rejects.toThrow('Invalid buy_insurance parameters');
+
+      expect(mockClient.post).not.toHaveBeenCalled();
+    });
+
     it('should return correct resource definitions', () => {
       const resources = server.getAvailableResources();
       
       expect(resources).toEqual([
         'easypost://account',
-        'easypost://carriers'
+        'easypost://accounts',
+        'easypost://carriers',
+        'easypost://addresses',
+        'easypost://boxes',
+        'easypost://spend',
+        'easypost://pickups'
       ]);
     });
   });
@@ -172,6 +240,14 @@ describe('EasyPostMCPServer', () => {
     });
   });
 
+  describe('Streamable HTTP Transport', () => {
+    it('should start without active MCP HTTP sessions', () => {
+      const serverWithPort = new EasyPostMCPServer({ ...defaultConfig, port: 3000 });
+
+      expect(serverWithPort.getActiveSessionCount()).toBe(0);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle invalid environment gracefully', () => {
       // This should not throw during construction
@@ -286,7 +362,7 @@ describe('EasyPostMCPServer Integration', () => {
   const config = {
     name: 'integration-test-server',
     version: '1.0.0',
-    apiKey: 'EZAK_test_integration_key',
+    apiKey: 'EZTK_test_integration_key',
     environment: 'test' as const,
     timeout: 5000,
     retryAttempts: 1,
@@ -344,7 +420,7 @@ describe('EasyPostMCPServer Performance', () => {
     server = new EasyPostMCPServer({
       name: 'perf-test-server',
       version: '1.0.0',
-      apiKey: 'EZAK_test_perf_key',
+      apiKey: 'EZTK_test_perf_key',
       environment: 'test',
       timeout: 30000,
       retryAttempts: 3,
@@ -365,7 +441,7 @@ describe('EasyPostMCPServer Performance', () => {
     new EasyPostMCPServer({
       name: 'quick-init-test',
       version: '1.0.0',
-      apiKey: 'EZAK_test_key',
+      apiKey: 'EZTK_test_key',
       environment: 'test',
       timeout: 30000,
       retryAttempts: 3,
@@ -385,7 +461,7 @@ describe('EasyPostMCPServer Performance', () => {
       new EasyPostMCPServer({
         name: `perf-test-${i}`,
         version: '1.0.0',
-        apiKey: `EZAK_test_key_${i}`,
+        apiKey: `EZTK_test_key_${i}`,
         environment: 'test',
         timeout: 30000,
         retryAttempts: 3,
@@ -0,0 +1,206 @@
+import { SpendingPolicy, MemorySpendStore, SpendRequest } from '../src/services/spending-policy.js';
+import { EasyPostMCPServer } from '../src/server.js';
+import { EasyPostClient } from '../src/services/easypost-client.js';
+
+jest.mock('../src/utils/logger', () => ({
+  ...jest.requireActual('../src/utils/logger'),
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    performance: jest.fn()
+  }
+}));
+
+jest.mock('../src/services/easypost-client');
+const MockedEasyPostClient = EasyPostClient as jest.MockedClass<typeof EasyPostClient>;
+
+const label = (amount: number, params: Record<string, unknown> = { shipmentId: 'shp_123', rateId: 'rate_1' }): SpendRequest => ({
+  operation: 'buy_shipment_label',
+  description: 'USPS Priority label for shipment shp_123',
+  amount,
+  params
+});
+
+describe('SpendingPolicy', () => {
+  let policy: SpendingPolicy;
+
+  afterEach(async () => {
+    await policy.close();
+  });
+
+  it('should reject purchases over the per-call limit', async () => {
+    policy = new SpendingPolicy(new MemorySpendStore(), { perCall: 50 });
+
+    await expect(policy.reserve(label(50.01))).rejects.toMatchObject({
+      code: 'SPEND_LIMIT_EXCEEDED',
+      details: expect.objectContaining({ limit: 'per_call' })
+    });
+  });
+
+  it('should enforce the daily limit across purchases', async () => {
+    policy = new SpendingPolicy(new MemorySpendStore(), { daily: 20 });
+
+    await policy.spend(label(12), async () => 'first');
+    await expect(policy.spend(label(9), async () => 'second')).rejects.toMatchObject({
+      code: 'SPEND_LIMIT_EXCEEDED',
+      details: expect.objectContaining({ limit: 'daily', remaining: 8 })
+    });
+  });
+
+  it('should release the reservation of a failed purchase', async () => {
+    policy = new SpendingPolicy(new MemorySpendStore(), { daily: 20 });
+
+    await expect(policy.spend(label(15), async () => { throw new Error('declined'); })).rejects.toThrow('declined');
+    await expect(policy.spend(label(15), async () => 'retried')).resolves.toBe('retried');
+  });
+
+  it('should record the actual cost of a purchase', async () => {
+    policy = new SpendingPolicy(new MemorySpendStore(), { monthly: 100 });
+
+    await policy.spend(label(10), async () => ({ rate: '7.25' }), result => parseFloat(result.rate));
+    const [summary] = await policy.summary([{ account: 'default', mode: 'test' }]);
+
+    expect(summary!.monthly).toMatchObject({ spent: 7.25, limit: 100, remaining: 92.75 });
+    expect(summary!.daily).toMatchObject({ spent: 7.25, limit: null, remaining: null });
+  });
+
+  it('should track spend per account and mode', async () => {
+    let selection = { account: 'acme', mode: 'production' as const };
+    policy = new SpendingPolicy(new MemorySpendStore(), { daily: 10 }, () => selection);
+
+    await policy.spend(label(8), async () => 'acme');
+    selection = { account: 'globex', mode: 'production' };
+
+    await expect(policy.spend(label(8), async () => 'globex')).resolves.toBe('globex');
+  });
+
+  it('should require a single-use confirmation above the threshold', async () => {
+    policy = new SpendingPolicy(new MemorySpendStore(), { confirmationThreshold: 25 });
+
+    const required = await policy.reserve(label(30)).catch(error => error);
+    expect(required).toMatchObject({ code: 'SPEND_CONFIRMATION_REQUIRED' });
+    const token = required.details.confirmationToken;
+
+    await expect(policy.reserve({ ...label(30), confirmationToken: token })).resolves.toMatchObject({ cents: 3000 });
+    await expect(policy.reserve({ ...label(30), confirmationToken: token }))
+      .rejects.toMatchObject({ code: 'SPEND_CONFIRMATION_INVALID' });
+  });
+
+  it('should keep a confirmation usable when a concurrent purchase takes the limit', async () => {
+    const store = new MemorySpendStore();
+    policy = new SpendingPolicy(store, { daily: 50, confirmationThreshold: 25 });
+
+    const required = await policy.reserve(label(30)).catch(error => error);
+    const token = required.details.confirmationToken;
+
+    // Another purchase reserves between the limit check and the reservation
+    let concurrent: Awaited<ReturnType<SpendingPolicy['reserve']>> | undefined;
+    const take = store.takeConfirmation.bind(store);
+    jest.spyOn(store, 'takeConfirmation').mockImplementationOnce(async (value: string) => {
+      concurrent = await policy.reserve(label(25, { shipmentId: 'shp_456', rateId: 'rate_2' }));
+      return take(value);
+    });
+
+    await expect(policy.reserve({ ...label(30), confirmationToken: token })).rejects.toMatchObject({
+      code: 'SPEND_LIMIT_EXCEEDED',
+      details: expect.objectContaining({ limit: 'daily' })
+    });
+
+    await policy.release(concurrent!);
+    await expect(policy.reserve({ ...label(30), confirmationToken: token })).resolves.toMatchObject({ cents: 3000 });
+  });
+
+  it('should not accept a confirmation for a different purchase', async () => {
+    policy = new SpendingPolicy(new MemorySpendStore(), { confirmationThreshold: 25 });
+
+    const required = await policy.reserve(label(30)).catch(error => error);
+
+    await expect(policy.reserve({
+      ...label(30, { shipmentId: 'shp_456', rateId: 'rate_1' }),
+      confirmationToken: required.details.confirmationToken
+    })).rejects.toMatchObject({ code: 'SPEND_CONFIRMATION_INVALID' });
+  });
+});
+
+describe('Spending policy in purchase tools', () => {
+  let server: EasyPostMCPServer;
+  let mockClient: jest.Mocked<EasyPostClient>;
+
+  const shipment = {
+    id: 'shp_123',
+    rates: [{ id: 'rate_1', carrier: 'USPS', service: 'Priority', rate: '42.00' }]
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient = { get: jest.fn(), post: jest.fn() } as any;
+    MockedEasyPostClient.mockImplementation(() => mockClient);
+    mockClient.get.mockResolvedValue(shipment);
+    mockClient.post.mockResolvedValue({ ...shipment, selected_rate: shipment.rates[0], tracking_code: '9400' });
+
+    server = new EasyPostMCPServer({
+      name: 'test-easypost-mcp-server',
+      version: '1.0.0',
+      testApiKey: 'EZTK_test_key',
+      environment: 'test',
+      timeout: 30000,
+      retryAttempts: 3,
+      enableCache: false,
+      logLevel: 'error',
+      spendingLimits: { perCall: 50, daily: 100, confirmationThreshold: 25 }
+    });
+  });
+
+  it('should buy a label only after confirmation', async () => {
+    const args = { shipmentId: 'shp_123', rateId: 'rate_1', idempotencyKey: 'label-1' };
+
+    const required = await (server as any).tools.call('buy_shipment_label', args).catch((error: any) => error);
+    expect(required).toMatchObject({ code: 'SPEND_CONFIRMATION_REQUIRED' });
+    expect(mockClient.post).not.toHaveBeenCalled();
+
+    await (server as any).tools.call('buy_shipment_label', { ...args, confirmationToken: required.details.confirmationToken });
+    expect(mockClient.post).toHaveBeenCalledWith('/shipments/shp_123/buy', { rate: { id: 'rate_1' } }, { idempotencyKey: 'label-1' });
+
+    const [summary] = await (server as any).spending.summary([{ account: 'default', mode: 'test' }]);
+    expect(summary.daily.spent).toBe(42);
+  });
+
+  it('should count the insurance fee rather than the coverage', async () => {
+    mockClient.post.mockResolvedValue({
+      ...shipment,
+      insurance: '500.00',
+      fees: [
+        { object: 'Fee', type: 'LabelFee', amount: '0.01', charged: true, refunded: false },
+        { object: 'Fee', type: 'InsuranceFee', amount: '2.50', charged: true, refunded: false }
+      ]
+    });
+
+    // Coverage above the per-call limit, fee below it
+    await (server as any).tools.call('buy_insurance', { shipmentId: 'shp_123', amount: '500.00' });
+
+    expect(mockClient.post).toHaveBeenCalledWith('/shipments/shp_123/insure', { amount: '500.00' }, expect.anything());
+    const [summary] = await (server as any).spending.summary([{ account: 'default', mode: 'test' }]);
+    expect(summary.daily.spent).toBe(2.5);
+  });
+
+  it('should refuse rates that are not in USD', async () => {
+    mockClient.get.mockResolvedValue({
+      ...shipment,
+      rates: [{ id: 'rate_1', carrier: 'DHL', service: 'Express', rate: '12.00', currency: 'EUR' }]
+    });
+
+    await expect((server as any).tools.call('buy_shipment_label', { shipmentId: 'shp_123', rateId: 'rate_1' })).rejects.toMatchObject({
+      code: 'SPEND_CURRENCY_UNSUPPORTED',
+      message: 'DHL Express label for shipment shp_123 is priced in EUR; spending limits are in USD, so only USD rates can be bought'
+    });
+    expect(mockClient.post).not.toHaveBeenCalled();
+  });
+
+  it('should reject insurance whose estimated fee is over a limit', async () => {
+    await expect((server as any).tools.call('buy_insurance', { shipmentId: 'shp_123', amount: '8000.00' }))
+      .rejects.toMatchObject({ code: 'SPEND_LIMIT_EXCEEDED', details: expect.objectContaining({ limit: 'per_call', requested: 80 }) });
+    expect(mockClient.post).not.toHaveBeenCalled();
+  });
+});
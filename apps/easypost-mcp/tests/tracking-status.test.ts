@@ -0,0 +1,136 @@
+import { canonicalStatus, normalizeTracker } from '../src/utils/tracking-status.js';
+import { EasyPostTracker } from '../src/types/index.js';
+
+type TrackingDetail = EasyPostTracker['tracking_details'][number];
+
+const detail = (status: string, message: string, datetime: string, overrides: Partial<TrackingDetail> = {}): TrackingDetail => ({
+  object: 'TrackingDetail',
+  status,
+  message,
+  datetime,
+  source: 'UPS',
+  ...overrides
+});
+
+const createTracker = (overrides: Partial<EasyPostTracker>): EasyPostTracker => ({
+  id: 'trk_123',
+  object: 'Tracker',
+  mode: 'test',
+  tracking_code: '1Z999AA10123456784',
+  carrier: 'UPS',
+  status: 'in_transit',
+  tracking_details: [],
+  created_at: '2026-10-05T00:00:00Z',
+  updated_at: '2026-10-10T00:00:00Z',
+  ...overrides
+});
+
+const now = new Date('2026-10-10T12:00:00Z');
+const normalize = (tracker: EasyPostTracker) => normalizeTracker(tracker, { stalledAfterHours: 72, now });
+
+describe('canonicalStatus', () => {
+  it('should map EasyPost statuses to canonical statuses', () => {
+    expect(canonicalStatus('pre_transit')).toBe('label_created');
+    expect(canonicalStatus('return_to_sender')).toBe('returned');
+    expect(canonicalStatus('failure')).toBe('exception');
+    expect(canonicalStatus('something_new')).toBe('unknown');
+    expect(canonicalStatus(undefined)).toBe('unknown');
+  });
+});
+
+describe('normalizeTracker', () => {
+  it('should normalize ETA, last event and last location', () => {
+    const result = normalize(createTracker({
+      est_delivery_date: '2026-10-12T00:00:00Z',
+      tracking_details: [
+        detail('in_transit', 'Departed from facility', '2026-10-09T20:00:00Z', {
+          tracking_location: { object: 'TrackingLocation', city: 'LOUISVILLE', state: 'KY', country: 'US' }
+        }),
+        detail('in_transit', 'On the way', '2026-10-10T06:00:00Z')
+      ]
+    }));
+
+    expect(result).toMatchObject({
+      status: 'in_transit',
+      estimated_delivery_date: '2026-10-12',
+      last_event: { message: 'On the way', status: 'in_transit' },
+      last_location: { description: 'LOUISVILLE, KY, US' },
+      hours_since_last_scan: 6,
+      exception: null
+    });
+  });
+
+  it('should fall back to the carrier local delivery estimate', () => {
+    const result = normalize(createTracker({
+      carrier_detail: { object: 'CarrierDetail', service: 'Ground', est_delivery_date_local: '2026-10-13' }
+    }));
+
+    expect(result.estimated_delivery_date).toBe('2026-10-13');
+  });
+
+  it('should detect address issues from carrier wording', () => {
+    const result = normalize(createTracker({
+      tracking_details: [detail('in_transit', 'THE ADDRESS IS INCOMPLETE. INSUFFICIENT ADDRESS', '2026-10-10T08:00:00Z')]
+    }));
+
+    expect(result.exception?.category).toBe('address_issue');
+  });
+
+  it('should detect damage and returns', () => {
+    expect(normalize(createTracker({
+      status: 'failure',
+      tracking_details: [detail('failure', 'Package damaged in transit', '2026-10-10T08:00:00Z')]
+    })).exception?.category).toBe('damaged');
+
+    expect(normalize(createTracker({
+      status: 'return_to_sender',
+      tracking_details: [detail('return_to_sender', 'Returned to shipper', '2026-10-10T08:00:00Z')]
+    })).exception?.category).toBe('returned_to_sender');
+  });
+
+  it('should flag delays from status details and passed delivery estimates', () => {
+    expect(normalize(createTracker({
+      status_detail: 'weather_delay',
+      tracking_details: [detail('in_transit', 'Arrived at facility', '2026-10-10T08:00:00Z')]
+    })).exception?.category).toBe('delayed');
+
+    expect(normalize(createTracker({
+      est_delivery_date: '2026-10-08T00:00:00Z',
+      tracking_details: [detail('in_transit', 'Arrived at facility', '2026-10-10T08:00:00Z')]
+    })).exception).toEqual({ category: 'delayed', reason: 'Estimated delivery date 2026-10-08 has passed' });
+  });
+
+  it('should flag shipments with no scan within the threshold as stalled', () => {
+    const tracker = createTracker({
+      tracking_details: [detail('in_transit', 'Departed from facility', '2026-10-06T12:00:00Z')]
+    });
+
+    expect(normalize(tracker).exception?.category).toBe('stalled');
+    expect(normalizeTracker(tracker, { stalledAfterHours: 120, now }).exception).toBeNull();
+  });
+
+  it('should not flag delivered shipments or labels awaiting pickup', () => {
+    expect(normalize(createTracker({
+      status: 'delivered',
+      tracking_details: [detail('delivered', 'Delivered, front door', '2026-10-01T12:00:00Z')]
+    }))).toMatchObject({ status: 'delivered', delivered_at: '2026-10-01T12:00:00Z', exception: null });
+
+    expect(normalize(createTracker({
+      status: 'pre_transit',
+      tracking_details: [detail('pre_transit', 'Shipping label created', '2026-10-01T12:00:00Z')]
+    })).exception).toBeNull();
+  });
+
+  it('should ignore delays that have been superseded by later scans', () => {
+    const result = normalize(createTracker({
+      status: 'out_for_delivery',
+      tracking_details: [
+        detail('in_transit', 'Weather delay', '2026-10-09T08:00:00Z'),
+        detail('out_for_delivery', 'Out for delivery', '2026-10-10T08:00:00Z')
+      ]
+    }));
+
+    expect(result.status).toBe('out_for_delivery');
+    expect(result.exception).toBeNull();
+  });
+});
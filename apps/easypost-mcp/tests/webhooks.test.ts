@@ -0,0 +1,201 @@
+import { createHmac } from 'crypto';
+import request from 'supertest';
+import { EasyPostMCPServer } from '../src/server.js';
+import { TrackingTimelineStore } from '../src/services/tracking-timeline-store.js';
+import { WebhookProcessor, verifyWebhookSignature } from '../src/services/webhooks.js';
+import { EasyPostError } from '../src/types/index.js';
+
+jest.mock('../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    performance: jest.fn()
+  }
+}));
+
+const secret = 'whsec_test';
+
+const sign = (body: string, key = secret) =>
+  `hmac-sha256-hex=${createHmac('sha256', key.normalize('NFKD')).update(body).digest('hex')}`;
+
+const tracker = {
+  id: 'trk_123',
+  object: 'Tracker',
+  mode: 'test',
+  tracking_code: '9400100000000000000000',
+  status: 'in_transit',
+  carrier: 'USPS',
+  shipment_id: 'shp_123',
+  est_delivery_date: '2026-10-05T00:00:00Z',
+  tracking_details: [
+    {
+      object: 'TrackingDetail',
+      message: 'Shipping label created',
+      status: 'pre_transit',
+      datetime: '2026-10-01T10:00:00Z',
+      source: 'USPS'
+    },
+    {
+      object: 'TrackingDetail',
+      message: 'Arrived at facility',
+      status: 'in_transit',
+      datetime: '2026-10-02T08:30:00Z',
+      source: 'USPS',
+      tracking_location: { object: 'TrackingLocation', city: 'OAKLAND', state: 'CA' }
+    }
+  ],
+  created_at: '2026-10-01T10:00:00Z',
+  updated_at: '2026-10-02T08:30:00Z'
+};
+
+const event = (id: string, description: string, result: Record<string, unknown>) => ({
+  id,
+  object: 'Event',
+  mode: 'test',
+  description,
+  result,
+  created_at: '2026-10-02T09:00:00Z'
+});
+
+describe('verifyWebhookSignature', () => {
+  const body = JSON.stringify(event('evt_1', 'tracker.updated', tracker));
+
+  it('should accept a valid signature', () => {
+    expect(verifyWebhookSignature(Buffer.from(body), sign(body), secret)).toBe(true);
+  });
+
+  it('should reject a signature made with another secret', () => {
+    expect(verifyWebhookSignature(Buffer.from(body), sign(body, 'other'), secret)).toBe(false);
+  });
+
+  it('should reject a tampered body and a missing header', () => {
+    expect(verifyWebhookSignature(Buffer.from(`${body} `), sign(body), secret)).toBe(false);
+    expect(verifyWebhookSignature(Buffer.from(body), undefined, secret)).toBe(false);
+  });
+});
+
+describe('WebhookProcessor', () => {
+  let timelines: TrackingTimelineStore;
+  let processor: WebhookProcessor;
+
+  beforeEach(() => {
+    timelines = new TrackingTimelineStore();
+    processor = new WebhookProcessor(timelines);
+  });
+
+  afterEach(() => {
+    processor.close();
+    timelines.close();
+  });
+
+  it('should build a shipment timeline from tracker updates', () => {
+    const outcome = processor.process(event('evt_1', 'tracker.updated', tracker));
+
+    expect(outcome.status).toBe('processed');
+    expect(timelines.get('shp_123')).toMatchObject({
+      tracker_id: 'trk_123',
+      status: 'in_transit',
+      events: [
+        { type: 'tracking', status: 'pre_transit' },
+        { type: 'tracking', status: 'in_transit', location: { city: 'OAKLAND', state: 'CA' } }
+      ]
+    });
+  });
+
+  it('should merge repeated tracker history without duplicates', () => {
+    processor.process(event('evt_1', 'tracker.updated', tracker));
+    processor.process(event('evt_2', 'tracker.updated', {
+      ...tracker,
+      status: 'delivered',
+      tracking_details: [
+        ...tracker.tracking_details,
+        { object: 'TrackingDetail', message: 'Delivered', status: 'delivered', datetime: '2026-10-03T14:00:00Z', source: 'USPS' }
+      ]
+    }));
+
+    const timeline = timelines.get('shp_123');
+    expect(timeline?.status).toBe('delivered');
+    expect(timeline?.events.map(entry => entry.status)).toEqual(['pre_transit', 'in_transit', 'delivered']);
+  });
+
+  it('should acknowledge redelivered events without applying them again', () => {
+    processor.process(event('evt_1', 'tracker.updated', tracker));
+
+    expect(processor.process(event('evt_1', 'tracker.updated', tracker)).status).toBe('duplicate');
+  });
+
+  it('should record batch and refund updates on the shipment timeline', () => {
+    processor.process(event('evt_1', 'batch.updated', {
+      id: 'batch_123',
+      state: 'purchased',
+      shipments: [{ id: 'shp_123', batch_status: 'postage_purchased' }, { id: 'shp_456' }]
+    }));
+    processor.process(event('evt_2', 'refund.successful', {
+      id: 'rfnd_123',
+      object: 'Refund',
+      status: 'refunded',
+      shipment_id: 'shp_123',
+      confirmation_number: 'C123'
+    }));
+
+    expect(timelines.get('shp_123')).toMatchObject({
+      batch_id: 'batch_123',
+      refund_status: 'refunded',
+      events: [{ type: 'batch', status: 'postage_purchased' }, { type: 'refund', status: 'refunded' }]
+    });
+    expect(timelines.get('shp_456')).toBeUndefined();
+  });
+
+  it('should ignore unhandled event types', () => {
+    expect(processor.process(event('evt_1', 'insurance.purchased', {})).status).toBe('ignored');
+  });
+
+  it('should reject payloads that are not events', () => {
+    expect(() => processor.process({ hello: 'world' })).toThrow(EasyPostError);
+    expect(() => processor.process(event('evt_1', 'tracker.updated', { id: 'trk_123' }))).toThrow(EasyPostError);
+  });
+});
+
+describe('EasyPost webhook endpoint', () => {
+  let server: EasyPostMCPServer;
+
+  beforeEach(() => {
+    server = new EasyPostMCPServer({
+      name: 'test-easypost-mcp-server',
+      version: '1.0.0',
+      apiKey: 'EZTK_test_1234567890abcdef',
+      environment: 'test',
+      timeout: 30000,
+      retryAttempts: 3,
+      enableCache: false,
+      logLevel: 'error',
+      port: 3000,
+      webhookSecret: secret
+    });
+  });
+
+  it('should apply signed events', async () => {
+    const body = JSON.stringify(event('evt_1', 'tracker.updated', tracker));
+
+    const response = await request((server as any).app)
+      .post('/webhooks/easypost')
+      .set('Content-Type', 'application/json')
+      .set('X-Hmac-Signature', sign(body))
+      .send(body);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ received: true, status: 'processed' });
+    expect((server as any).trackingTimelines.get('shp_123').events).toHaveLength(2);
+  });
+
+  it('should reject unsigned events', async () => {
+    const response = await request((server as any).app)
+      .post('/webhooks/easypost')
+      .set('Content-Type', 'application/json')
+      .send(JSON.stringify(event('evt_1', 'tracker.updated', tracker)));
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -5,6 +5,11 @@ module.exports = {
   transform: {
     '^.+\\.[tj]s$': ['ts-jest', { tsconfig: '<rootDir>/tsconfig.spec.json' }],
   },
+  // The MCP SDK 0.5 is published as ES modules only
+  transformIgnorePatterns: ['/node_modules/(?!\\.pnpm|@modelcontextprotocol)'],
+  moduleNameMapper: {
+    '^@mcp-shipping/shared$': '<rootDir>/../../libs/shared/src/index.ts',
+  },
   moduleFileExtensions: ['ts', 'js', 'html'],
   coverageDirectory: '../../coverage/apps/veeqo-mcp',
   testMatch: ['<rootDir>/src/**/*.test.ts', '<rootDir>/tests/**/*.test.ts'],
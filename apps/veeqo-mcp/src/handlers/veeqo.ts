@@ -1,5 +1,7 @@
 import { logger } from '../utils/logger.js';
 import { VeeqoClient } from '../services/veeqo-client.js';
+import { computeSalesAnalytics, salesWindows, unitsSoldBySellable } from '../utils/sales-analytics.js';
+import { buildInventoryReport } from '../utils/inventory-report.js';
 import {
   VeeqoOrder,
   VeeqoProduct,
@@ -15,6 +17,13 @@ import {
   UpdateInventoryRequest,
   OrderSearchParams,
   ProductSearchParams,
+  ListOptions,
+  VeeqoListResult,
+  SalesAnalytics,
+  SalesAnalyticsParams,
+  InventoryReport,
+  InventoryReportParams,
+  CONSTANTS,
   VeeqoError,
   VeeqoUser,
   VeeqoStore,
@@ -69,7 +78,10 @@ export class VeeqoHandlers {
         }
       };
 
-      const response = await this.client.post<VeeqoOrder>('/orders', orderData);
+      // A new order allocates stock
+      const response = await this.client.post<VeeqoOrder>('/orders', orderData, {
+        invalidates: ['allocation:*', 'stock_entry:*']
+      });
       
       const duration = Date.now() - startTime;
       logger.info('Order created successfully', {
@@ -102,37 +114,36 @@ export class VeeqoHandlers {
   }
 
   /**
-   * Get orders with optional filtering
+   * Get orders with optional filtering, paginated by the list options
    */
-  async getOrders(params: OrderSearchParams = {}): Promise<VeeqoOrder[]> {
+  async getOrders(params: OrderSearchParams = {}, options: ListOptions = {}): Promise<VeeqoListResult<VeeqoOrder>> {
     const startTime = Date.now();
     
     try {
-      logger.info('Fetching orders', { params });
-
-      const queryParams = new URLSearchParams();
-      
-      if (params.since_id) queryParams.append('since_id', params.since_id.toString());
-      if (params.page) queryParams.append('page', params.page.toString());
-      if (params.page_size) queryParams.append('page_size', Math.min(params.page_size, 100).toString());
-      if (params.status) queryParams.append('status', params.status);
-      if (params.created_at_min) queryParams.append('created_at_min', params.created_at_min);
-      if (params.updated_at_min) queryParams.append('updated_at_min', params.updated_at_min);
-      if (params.query) queryParams.append('query', params.query);
-      if (params.tags) queryParams.append('tags', params.tags);
-      if (params.allocated_at) queryParams.append('allocated_at', params.allocated_at.toString());
-
-      const url = `/orders${queryParams.toString() ? '?' + queryParams.toString() : ''}`;
-      const response = await this.client.get<VeeqoOrder[]>(url);
+      logger.info('Fetching orders', { params, options });
+
+      const result = await this.client.list<VeeqoOrder>('/orders', {
+        since_id: params.since_id,
+        page: params.page,
+        page_size: params.page_size,
+        status: params.status,
+        created_at_min: params.created_at_min,
+        created_at_max: params.created_at_max,
+        updated_at_min: params.updated_at_min,
+        query: params.query,
+        tags: params.tags,
+        allocated_at: params.allocated_at
+      }, options);
       
       const duration = Date.now() - startTime;
       logger.info('Orders retrieved', {
-        count: Array.isArray(response) ? response.length : 0,
+        count: result.items.length,
+        totalCount: result.totalCount,
         duration,
         params
       });
 
-      return Array.isArray(response) ? response : [];
+      return result;
 
     } catch (error) {
       const duration = Date.now() - startTime;
@@ -141,6 +152,10 @@ export class VeeqoHandlers {
         duration,
         params
       });
+
+      if (error instanceof VeeqoError && error.code === 'INVALID_CURSOR') {
+        throw error;
+      }
       
       throw new VeeqoError(
         'Failed to get orders',
@@ -296,34 +311,32 @@ export class VeeqoHandlers {
   }
 
   /**
-   * Get products with optional filtering
+   * Get products with optional filtering, paginated by the list options
    */
-  async getProducts(params: ProductSearchParams = {}): Promise<VeeqoProduct[]> {
+  async getProducts(params: ProductSearchParams = {}, options: ListOptions = {}): Promise<VeeqoListResult<VeeqoProduct>> {
     const startTime = Date.now();
     
     try {
-      logger.info('Fetching products', { params });
-
-      const queryParams = new URLSearchParams();
-      
-      if (params.since_id) queryParams.append('since_id', params.since_id.toString());
-      if (params.page) queryParams.append('page', params.page.toString());
-      if (params.page_size) queryParams.append('page_size', Math.min(params.page_size, 100).toString());
-      if (params.query) queryParams.append('query', params.query);
-      if (params.created_at_min) queryParams.append('created_at_min', params.created_at_min);
-      if (params.updated_at_min) queryParams.append('updated_at_min', params.updated_at_min);
-
-      const url = `/products${queryParams.toString() ? '?' + queryParams.toString() : ''}`;
-      const response = await this.client.get<VeeqoProduct[]>(url);
+      logger.info('Fetching products', { params, options });
+
+      const result = await this.client.list<VeeqoProduct>('/products', {
+        since_id: params.since_id,
+        page: params.page,
+        page_size: params.page_size,
+        query: params.query,
+        created_at_min: params.created_at_min,
+        updated_at_min: params.updated_at_min
+      }, options);
       
       const duration = Date.now() - startTime;
       logger.info('Products retrieved', {
-        count: Array.isArray(response) ? response.length : 0,
+        count: result.items.length,
+        totalCount: result.totalCount,
         duration,
         params
       });
 
-      return Array.isArray(response) ? response : [];
+      return result;
 
     } catch (error) {
       const duration = Date.now() - startTime;
@@ -332,6 +345,10 @@ export class VeeqoHandlers {
         duration,
         params
       });
+
+      if (error instanceof VeeqoError && error.code === 'INVALID_CURSOR') {
+        throw error;
+      }
       
       throw new VeeqoError(
         'Failed to get products',
@@ -423,9 +440,9 @@ export class VeeqoHandlers {
    * Get inventory information
    */
   async getInventory(filters: {
-    warehouse_id?: number;
-    product_id?: number;
-    sellable_id?: number;
+    warehouse_id?: number | undefined;
+    product_id?: number | undefined;
+    sellable_id?: number | undefined;
   } = {}): Promise<VeeqoStockEntry[]> {
     const startTime = Date.now();
     
@@ -433,7 +450,7 @@ export class VeeqoHandlers {
       logger.info('Fetching inventory', { filters });
 
       // Get products with stock information
-      const products = await this.getProducts({});
+      const { items: products } = await this.getProducts({}, { all: true });
       const stockEntries: VeeqoStockEntry[] = [];
 
       products.forEach(product => {
@@ -494,7 +511,7 @@ export class VeeqoHandlers {
       };
 
       const url = `/sellables/${request.sellable_id}/stock_entries/${request.warehouse_id}`;
-      const response = await this.client.put<VeeqoStockEntry>(url, updateData);
+      const response = await this.client.put<VeeqoStockEntry>(url, updateData, { invalidates: ['stock_entry:*'] });
       
       const duration = Date.now() - startTime;
       logger.info('Inventory updated', {
@@ -527,8 +544,8 @@ export class VeeqoHandlers {
    * Get stock entries with optional filtering
    */
   async getStockEntries(filters: {
-    warehouse_id?: number;
-    sellable_id?: number;
+    warehouse_id?: number | undefined;
+    sellable_id?: number | undefined;
   } = {}): Promise<VeeqoStockEntry[]> {
     const startTime = Date.now();
     
@@ -613,34 +630,33 @@ export class VeeqoHandlers {
   }
 
   /**
-   * Get customers with optional filtering
+   * Get customers with optional filtering, paginated by the list options
    */
   async getCustomers(filters: {
-    page?: number;
-    page_size?: number;
-    query?: string;
-  } = {}): Promise<VeeqoCustomer[]> {
+    page?: number | undefined;
+    page_size?: number | undefined;
+    query?: string | undefined;
+  } = {}, options: ListOptions = {}): Promise<VeeqoListResult<VeeqoCustomer>> {
     const startTime = Date.now();
     
     try {
-      logger.info('Fetching customers', { filters });
+      logger.info('Fetching customers', { filters, options });
 
-      const queryParams = new URLSearchParams();
-      if (filters.page) queryParams.append('page', filters.page.toString());
-      if (filters.page_size) queryParams.append('page_size', Math.min(filters.page_size, 100).toString());
-      if (filters.query) queryParams.append('query', filters.query);
-
-      const url = `/customers${queryParams.toString() ? '?' + queryParams.toString() : ''}`;
-      const response = await this.client.get<VeeqoCustomer[]>(url);
+      const result = await this.client.list<VeeqoCustomer>('/customers', {
+        page: filters.page,
+        page_size: filters.page_size,
+        query: filters.query
+      }, options);
       
       const duration = Date.now() - startTime;
       logger.info('Customers retrieved', {
-        count: Array.isArray(response) ? response.length : 0,
+        count: result.items.length,
+        totalCount: result.totalCount,
         duration,
         filters
       });
 
-      return Array.isArray(response) ? response : [];
+      return result;
 
     } catch (error) {
       const duration = Date.now() - startTime;
@@ -649,6 +665,10 @@ export class VeeqoHandlers {
         duration,
         filters
       });
+
+      if (error instanceof VeeqoError && error.code === 'INVALID_CURSOR') {
+        throw error;
+      }
       
       throw new VeeqoError(
         'Failed to get customers',
@@ -773,34 +793,33 @@ export class VeeqoHandlers {
    */
 
   /**
-   * Get shipments with optional filtering
+   * Get shipments with optional filtering, paginated by the list options
    */
   async getShipments(filters: {
-    order_id?: number;
-    page?: number;
-    page_size?: number;
-  } = {}): Promise<VeeqoShipment[]> {
+    order_id?: number | undefined;
+    page?: number | undefined;
+    page_size?: number | undefined;
+  } = {}, options: ListOptions = {}): Promise<VeeqoListResult<VeeqoShipment>> {
     const startTime = Date.now();
     
     try {
-      logger.info('Fetching shipments', { filters });
-
-      const queryParams = new URLSearchParams();
-      if (filters.order_id) queryParams.append('order_id', filters.order_id.toString());
-      if (filters.page) queryParams.append('page', filters.page.toString());
-      if (filters.page_size) queryParams.append('page_size', Math.min(filters.page_size, 100).toString());
+      logger.info('Fetching shipments', { filters, options });
 
-      const url = `/shipments${queryParams.toString() ? '?' + queryParams.toString() : ''}`;
-      const response = await this.client.get<VeeqoShipment[]>(url);
+      const result = await this.client.list<VeeqoShipment>('/shipments', {
+        order_id: filters.order_id,
+        page: filters.page,
+        page_size: filters.page_size
+      }, options);
       
       const duration = Date.now() - startTime;
       logger.info('Shipments retrieved', {
-        count: Array.isArray(response) ? response.length : 0,
+        count: result.items.length,
+        totalCount: result.totalCount,
         duration,
         filters
       });
 
-      return Array.isArray(response) ? response : [];
+      return result;
 
     } catch (error) {
       const duration = Date.now() - startTime;
@@ -809,6 +828,10 @@ export class VeeqoHandlers {
         duration,
         filters
       });
+
+      if (error instanceof VeeqoError && error.code === 'INVALID_CURSOR') {
+        throw error;
+      }
       
       throw new VeeqoError(
         'Failed to get shipments',
@@ -823,9 +846,9 @@ export class VeeqoHandlers {
    */
   async createShipment(data: {
     order_id: number;
-    carrier?: string;
-    service?: string;
-    tracking_reference?: string;
+    carrier?: string | undefined;
+    service?: string | undefined;
+    tracking_reference?: string | undefined;
   }): Promise<VeeqoShipment> {
     const startTime = Date.now();
     
@@ -836,7 +859,9 @@ export class VeeqoHandlers {
       });
 
       const shipmentData = { shipment: data };
-      const response = await this.client.post<VeeqoShipment>('/shipments', shipmentData);
+      const response = await this.client.post<VeeqoShipment>('/shipments', shipmentData, {
+        invalidates: [`order:${data.order_id}`, 'order:*', 'allocation:*']
+      });
       
       const duration = Date.now() - startTime;
       logger.info('Shipment created successfully', {
@@ -871,8 +896,8 @@ export class VeeqoHandlers {
    * Get allocations with optional filtering
    */
   async getAllocations(filters: {
-    order_id?: number;
-    warehouse_id?: number;
+    order_id?: number | undefined;
+    warehouse_id?: number | undefined;
   } = {}): Promise<VeeqoAllocation[]> {
     const startTime = Date.now();
     
@@ -1051,30 +1076,130 @@ export class VeeqoHandlers {
   }
 
   // Analytics and Reporting Methods
-  async getSalesAnalytics(filters: any): Promise<any> {
-    // Mock implementation - replace with real Veeqo analytics API
-    return {
-      total_sales: 125000,
-      sales_growth: 15.5,
-      top_products: [
-        { id: 1, name: "Product A", sales: 25000 },
-        { id: 2, name: "Product B", sales: 18000 }
-      ],
-      period: `${filters.date_from || 'Last 30 days'} to ${filters.date_to || 'Today'}`
-    };
-  }
 
-  async getInventoryReport(): Promise<any> {
-    return {
-      total_items: 1500,
-      low_stock_items: 45,
-      out_of_stock_items: 8,
-      total_value: 250000,
-      warehouse_breakdown: {
-        warehouse_1: { total: 800, low_stock: 20 },
-        warehouse_2: { total: 700, low_stock: 25 }
+  /**
+   * Sales analytics computed from the orders created in the date range and in
+   * the window of equal length before it
+   */
+  async getSalesAnalytics(filters: SalesAnalyticsParams = {}): Promise<SalesAnalytics> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Computing sales analytics', { filters });
+
+      const windows = salesWindows(filters.date_from, filters.date_to);
+      const [orders, channels, stores] = await Promise.all([
+        this.getOrders({
+          created_at_min: windows.previous.from.toISOString(),
+          created_at_max: windows.current.to.toISOString()
+        }, { all: true }),
+        // Names only label the breakdowns, so analytics do not fail without them
+        this.getChannels().catch(() => [] as VeeqoChannel[]),
+        this.getStores().catch(() => [] as VeeqoStore[])
+      ]);
+
+      const matching = orders.items.filter(order =>
+        (filters.channel_id === undefined || order.channel_id === filters.channel_id)
+        && (filters.currency === undefined || order.currency_code === filters.currency)
+      );
+
+      const analytics: SalesAnalytics = {
+        ...computeSalesAnalytics(matching, windows, filters.group_by ?? 'day', {
+          channels: new Map(channels.map(channel => [channel.id, channel.name])),
+          stores: new Map(stores.map(store => [store.id, store.name]))
+        }),
+        truncated: orders.nextCursor !== undefined
+      };
+
+      const duration = Date.now() - startTime;
+      logger.info('Sales analytics computed', {
+        orders: analytics.totals.orders,
+        previousOrders: analytics.previous_period.orders,
+        truncated: analytics.truncated,
+        duration,
+        filters
+      });
+
+      return analytics;
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error('Failed to compute sales analytics', {
+        error: error instanceof Error ? error.message : String(error),
+        duration,
+        filters
+      });
+
+      if (error instanceof VeeqoError && (error.code === 'INVALID_DATE_RANGE' || error.code === 'MIXED_CURRENCIES')) {
+        throw error;
       }
-    };
+
+      throw new VeeqoError(
+        'Failed to compute sales analytics',
+        'SALES_ANALYTICS_FAILED',
+        { filters, originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Inventory report built from every product's sellables and stock entries, with
+   * days of cover from the units sold over the velocity window
+   */
+  async getInventoryReport(params: InventoryReportParams = {}): Promise<InventoryReport> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Building inventory report', { params });
+
+      const velocityDays = params.velocity_days ?? CONSTANTS.INVENTORY_VELOCITY_DAYS;
+      const now = new Date();
+      const velocityWindow = { from: new Date(now.getTime() - velocityDays * 24 * 60 * 60 * 1000), to: now };
+
+      const [products, orders, warehouses] = await Promise.all([
+        this.getProducts({}, { all: true }),
+        this.getOrders({ created_at_min: velocityWindow.from.toISOString() }, { all: true }),
+        // Names only label the warehouse breakdown, so the report does not fail without them
+        this.getWarehouses().catch(() => [] as VeeqoWarehouse[])
+      ]);
+
+      const report: InventoryReport = {
+        ...buildInventoryReport(products.items, warehouses, {
+          warehouseId: params.warehouse_id,
+          lowStockThreshold: params.low_stock_threshold,
+          unitsSold: unitsSoldBySellable(orders.items, velocityWindow),
+          velocityDays,
+          generatedAt: now
+        }),
+        truncated: products.nextCursor !== undefined || orders.nextCursor !== undefined
+      };
+
+      const duration = Date.now() - startTime;
+      logger.info('Inventory report built', {
+        sellables: report.totals.sellables,
+        lowStock: report.totals.low_stock,
+        outOfStock: report.totals.out_of_stock,
+        truncated: report.truncated,
+        duration,
+        params
+      });
+
+      return report;
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error('Failed to build inventory report', {
+        error: error instanceof Error ? error.message : String(error),
+        duration,
+        params
+      });
+
+      throw new VeeqoError(
+        'Failed to build inventory report',
+        'INVENTORY_REPORT_FAILED',
+        { params, originalError: error }
+      );
+    }
   }
 
   async getOrderAnalytics(): Promise<any> {
@@ -1,12 +1,44 @@
 import crypto from 'crypto';
 import { logger } from '../utils/logger.js';
+import { recordWebhookEvent } from '../utils/metrics.js';
 import { WebhookManager } from '../services/webhook-manager.js';
 import {
   VeeqoWebhookPayload,
   WebhookEventType,
+  WebhookResourceType,
   VeeqoError
 } from '../types/index.js';
 
+/**
+ * Cache tags an event changes: the resource itself, the listings showing it,
+ * and the resources embedding it. Stock entries and shipments name their
+ * sellable and order in the event data when Veeqo sends them.
+ */
+function webhookCacheTags(resourceType: WebhookResourceType, resourceId: number, data: unknown): string[] {
+  const related = typeof data === 'object' && data !== null ? data as { sellable_id?: unknown; order_id?: unknown } : {};
+  const sellable = typeof related.sellable_id === 'number' ? [`sellable:${related.sellable_id}`] : [];
+  const order = typeof related.order_id === 'number' ? [`order:${related.order_id}`] : [];
+
+  switch (resourceType) {
+    case 'Order':
+      return [`order:${resourceId}`, 'order:*', 'allocation:*'];
+    case 'Product':
+      return [`product:${resourceId}`, 'product:*'];
+    case 'Sellable':
+      return [`sellable:${resourceId}`, 'sellable:*', 'product:*'];
+    case 'StockEntry':
+      return [...sellable, 'stock_entry:*', 'sellable:*', 'product:*'];
+    case 'Customer':
+      return [`customer:${resourceId}`, 'customer:*'];
+    case 'Shipment':
+      return [`shipment:${resourceId}`, 'shipment:*', ...order, 'order:*'];
+    case 'Allocation':
+      return [`allocation:${resourceId}`, 'allocation:*', ...order, 'stock_entry:*'];
+    default:
+      return [];
+  }
+}
+
 /**
  * Webhook handlers for processing real-time Veeqo events
  * Handles inventory updates, order changes, and product modifications
@@ -23,6 +55,7 @@ export class WebhookHandlers {
    */
   async handleWebhook(payload: Buffer, signature: string): Promise<void> {
     const startTime = Date.now();
+    let eventType = 'unknown';
     
     try {
       logger.info('Processing webhook', {
@@ -40,6 +73,7 @@ export class WebhookHandlers {
 
       // Parse webhook payload
       const webhookData = this.parseWebhookPayload(payload);
+      eventType = webhookData.event_type;
       
       // Process the webhook based on event type
       await this.processWebhookEvent(webhookData);
@@ -51,6 +85,7 @@ export class WebhookHandlers {
         resourceId: webhookData.resource_id,
         duration
       });
+      recordWebhookEvent(eventType, 'processed');
 
     } catch (error) {
       const duration = Date.now() - startTime;
@@ -59,6 +94,10 @@ export class WebhookHandlers {
         duration,
         payloadSize: payload.length
       });
+      recordWebhookEvent(
+        eventType,
+        error instanceof VeeqoError && error.code === 'WEBHOOK_SIGNATURE_INVALID' ? 'unauthorized' : 'failed'
+      );
       throw error;
     }
   }
@@ -150,6 +189,9 @@ export class WebhookHandlers {
     });
 
     try {
+      // Drop stale cached responses first, so handlers reading the resource see the change
+      await this.webhookManager.invalidateCache(webhookCacheTags(resource_type, resource_id, data));
+
       switch (resource_type) {
         case 'Order':
           await this.handleOrderEvent(event_type, resource_id, data);
@@ -75,10 +75,16 @@ async function main(): Promise<void> {
       enableCache: envValidation.data.ENABLE_CACHE,
       logLevel: envValidation.data.LOG_LEVEL,
       port: envValidation.data.PORT,
+      mcpAuthToken: envValidation.data.MCP_AUTH_TOKEN,
       webhookPort: envValidation.data.WEBHOOK_PORT,
       webhookSecret: envValidation.data.WEBHOOK_SECRET,
       enableWebhooks: envValidation.data.ENABLE_WEBHOOKS,
-      redisUrl: envValidation.data.REDIS_URL
+      redisUrl: envValidation.data.REDIS_URL,
+      databaseUrl: envValidation.data.DATABASE_URL,
+      auditLogPath: envValidation.data.AUDIT_LOG_PATH,
+      tracesExporter: envValidation.data.OTEL_TRACES_EXPORTER,
+      otlpEndpoint: envValidation.data.OTEL_EXPORTER_OTLP_ENDPOINT,
+      tracesFilePath: envValidation.data.OTEL_TRACES_FILE
     });
 
     // Start the server
@@ -8,33 +8,48 @@ import {
   McpError,
   ReadResourceRequestSchema
 } from '@modelcontextprotocol/sdk/types.js';
-import express, { Express, Request, Response } from 'express';
+import express, { Express, NextFunction, Request, RequestHandler, Response } from 'express';
+import { context as otelContext } from '@opentelemetry/api';
 import helmet from 'helmet';
 import cors from 'cors';
 import rateLimit from 'express-rate-limit';
 import { createServer, Server as HttpServer } from 'http';
+import { randomUUID } from 'crypto';
+import {
+  AuditLog,
+  bearerTokenMatches,
+  createAuditStore,
+  extractTraceContext,
+  HealthMonitor,
+  HealthProbe,
+  startTracing,
+  stopTracing,
+  tokenMatches,
+  withSpan
+} from '@mcp-shipping/shared';
 
 import { logger } from './utils/logger.js';
+import { metricsRegistry, recordToolCall } from './utils/metrics.js';
 import { VeeqoClient } from './services/veeqo-client.js';
 import { VeeqoHandlers } from './handlers/veeqo.js';
 import { WebhookManager } from './services/webhook-manager.js';
 import { WebhookHandlers } from './handlers/webhooks.js';
+import { ResultSetStore } from './services/result-set-store.js';
+import { inventoryReportCsv } from './utils/inventory-report.js';
+import { createToolRegistry, ToolRegistry } from './tools/index.js';
 import {
   VeeqoMCPServerConfig,
   ToolDefinition,
   ResourceDefinition,
   VeeqoError,
-  HealthCheckResponse
+  HealthCheckResponse,
+  LivenessResponse,
+  JsonRpcId,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  ToolCallContext,
+  CONSTANTS
 } from './types/index.js';
-import {
-  validateOrderCreation,
-  validateProductCreation,
-  validateProductUpdate,
-  validateInventoryUpdate,
-  validateOrderSearch,
-  validateProductSearch,
-  validateCustomerCreation
-} from './utils/validation.js';
 
 /**
  * Production-ready Veeqo MCP Server
@@ -49,8 +64,12 @@ export class VeeqoMCPServer {
   private config: VeeqoMCPServerConfig;
   private veeqoClient: VeeqoClient;
   private handlers: VeeqoHandlers;
+  private tools: ToolRegistry;
+  private audit: AuditLog;
+  private resultSets: ResultSetStore;
   private webhookManager?: WebhookManager;
   private webhookHandlers?: WebhookHandlers;
+  private health: HealthMonitor;
   private isRunning = false;
   private startTime: Date;
 
@@ -85,6 +104,15 @@ export class VeeqoMCPServer {
     // Initialize handlers
     this.handlers = new VeeqoHandlers(this.veeqoClient);
 
+    // Audit trail of state-changing tool calls, shared with the other MCP servers
+    this.audit = new AuditLog(createAuditStore(config.databaseUrl, config.auditLogPath, logger), 'veeqo-mcp', logger);
+
+    // Large list results, served as veeqo://results/{id} resources
+    this.resultSets = new ResultSetStore();
+
+    // Initialize tool registry
+    this.tools = createToolRegistry({ handlers: this.handlers, audit: this.audit, resultSets: this.resultSets });
+
     // Initialize webhook components if enabled
     if (config.enableWebhooks && config.webhookPort && config.webhookSecret) {
       this.webhookManager = new WebhookManager({
@@ -96,6 +124,9 @@ export class VeeqoMCPServer {
       this.webhookHandlers = new WebhookHandlers(this.webhookManager);
     }
 
+    // Dependency probes behind the readiness endpoint
+    this.health = new HealthMonitor(this.createHealthProbes(), logger);
+
     // Setup MCP handlers
     this.setupMCPHandlers();
 
@@ -138,256 +169,226 @@ export class VeeqoMCPServer {
       };
     });
 
-    // Handle tool calls
+    // Handle tool calls. The SDK does not pass handlers the JSON-RPC ID, so each
+    // stdio request gets an ID of its own for logs and audit records.
     this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
+      const client = this.server.getClientVersion();
+
+      // Caller is the MCP client named at initialization
+      return await this.callTool(name, args, {
+        requestId: randomUUID(),
+        caller: client ? `${client.name}/${client.version}` : undefined
+      });
+    });
+
+    // Handle resource reads
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      return await this.readResource(request.params.uri, randomUUID());
+    });
+  }
+
+  /**
+   * Dispatch a tool call by name. Shared by the stdio transport and the HTTP JSON-RPC endpoint.
+   */
+  private async callTool(name: string, args: unknown, context: ToolCallContext = {}) {
+    const { requestId } = context;
+    const metricLabel = this.tools.has(name) ? name : 'unknown';
+    const startTime = Date.now();
+    const attributes = { 'mcp.tool.name': name, ...(requestId ? { 'mcp.request.id': requestId } : {}) };
 
+    return withSpan('veeqo-mcp', `tools/call ${name}`, attributes, async span => {
       try {
         logger.info('Tool called', {
           tool: name,
           arguments: args,
-          requestId: (request as any).id
+          requestId
         });
 
-        switch (name) {
-          // Order Management Tools
-          case 'create_order':
-            return await this.handleCreateOrder(args);
-          
-          case 'get_orders':
-            return await this.handleGetOrders(args);
-          
-          case 'get_order':
-            return await this.handleGetOrder(args);
-          
-          case 'update_order':
-            return await this.handleUpdateOrder(args);
-          
-          // Product Management Tools
-          case 'create_product':
-            return await this.handleCreateProduct(args);
-          
-          case 'get_products':
-            return await this.handleGetProducts(args);
-          
-          case 'get_product':
-            return await this.handleGetProduct(args);
-          
-          case 'update_product':
-            return await this.handleUpdateProduct(args);
-          
-          // Inventory Management Tools
-          case 'get_inventory':
-            return await this.handleGetInventory(args);
-          
-          case 'update_inventory':
-            return await this.handleUpdateInventory(args);
-          
-          case 'get_stock_entries':
-            return await this.handleGetStockEntries(args);
-          
-          // Customer Management Tools
-          case 'create_customer':
-            return await this.handleCreateCustomer(args);
-          
-          case 'get_customers':
-            return await this.handleGetCustomers(args);
-          
-          case 'get_customer':
-            return await this.handleGetCustomer(args);
-          
-          // Warehouse/Location Management
-          case 'get_warehouses':
-            return await this.handleGetWarehouses(args);
-          
-          case 'get_warehouse':
-            return await this.handleGetWarehouse(args);
-          
-          // Shipment Tools
-          case 'get_shipments':
-            return await this.handleGetShipments(args);
-          
-          case 'create_shipment':
-            return await this.handleCreateShipment(args);
-          
-          case 'get_allocations':
-            return await this.handleGetAllocations(args);
-
-          // Analytics and Reporting Tools
-          case 'get_sales_analytics':
-            return await this.handleGetSalesAnalytics(args);
-
-          case 'get_inventory_report':
-            return await this.handleGetInventoryReport(args);
-
-          case 'get_order_analytics':
-            return await this.handleGetOrderAnalytics(args);
-
-          case 'get_product_performance':
-            return await this.handleGetProductPerformance(args);
-
-          // Bulk Operations Tools
-          case 'bulk_update_inventory':
-            return await this.handleBulkUpdateInventory(args);
-
-          case 'bulk_create_products':
-            return await this.handleBulkCreateProducts(args);
-
-          case 'bulk_update_prices':
-            return await this.handleBulkUpdatePrices(args);
-
-          case 'export_orders':
-            return await this.handleExportOrders(args);
-
-          case 'export_products':
-            return await this.handleExportProducts(args);
-
-          // Advanced Management Tools
-          case 'create_purchase_order':
-            return await this.handleCreatePurchaseOrder(args);
-
-          case 'get_purchase_orders':
-            return await this.handleGetPurchaseOrders(args);
-
-          case 'manage_suppliers':
-            return await this.handleManageSuppliers(args);
-
-          case 'get_supplier_products':
-            return await this.handleGetSupplierProducts(args);
-
-          case 'create_return':
-            return await this.handleCreateReturn(args);
-
-          case 'process_refund':
-            return await this.handleProcessRefund(args);
-
-          // Integration and Sync Tools
-          case 'sync_channels':
-            return await this.handleSyncChannels(args);
-
-          case 'get_channel_listings':
-            return await this.handleGetChannelListings(args);
-
-          case 'update_channel_inventory':
-            return await this.handleUpdateChannelInventory(args);
-
-          default:
-            throw new McpError(
-              ErrorCode.MethodNotFound,
-              `Unknown tool: ${name}`
-            );
-        }
+        const result = await this.tools.call(name, args, context);
+        recordToolCall(metricLabel, Date.now() - startTime);
+        return result;
       } catch (error) {
         logger.error('Tool execution failed', {
           tool: name,
           error: error instanceof Error ? error.message : String(error),
           stack: error instanceof Error ? error.stack : undefined,
-          requestId: (request as any).id
+          requestId
         });
 
-        if (error instanceof McpError) {
-          throw error;
-        }
-
-        if (error instanceof VeeqoError) {
-          throw new McpError(
-            ErrorCode.InvalidRequest,
-            `Veeqo API error: ${error.message}`,
-            error.details
-          );
-        }
-
-        throw new McpError(
-          ErrorCode.InternalError,
-          'Internal server error occurred'
-        );
+        const mcpError = this.toMcpError(error);
+        span.setAttribute('mcp.error.code', mcpError.code);
+        recordToolCall(metricLabel, Date.now() - startTime, mcpError.code);
+        throw mcpError;
       }
     });
+  }
 
-    // Handle resource reads
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      const { uri } = request.params;
+  /**
+   * Map a tool execution failure to the MCP error returned to the client
+   */
+  private toMcpError(error: unknown): McpError {
+    if (error instanceof McpError) {
+      return error;
+    }
 
-      try {
-        logger.info('Resource read requested', {
-          uri,
-          requestId: (request as any).id
-        });
+    // The endpoint kept failing upstream; the call was not sent
+    const circuitOpen = this.findCircuitOpenError(error);
+    if (circuitOpen) {
+      return new McpError(
+        ErrorCode.InternalError,
+        circuitOpen.message,
+        { code: circuitOpen.code, ...(circuitOpen.details as Record<string, unknown>) }
+      );
+    }
 
-        if (uri === 'veeqo://account') {
-          const account = await this.handlers.getCurrentUser();
-          return {
-            contents: [
-              {
-                uri,
-                mimeType: 'application/json',
-                text: JSON.stringify(account, null, 2)
-              }
-            ]
-          };
-        }
+    if (error instanceof VeeqoError) {
+      return new McpError(
+        ErrorCode.InvalidRequest,
+        `Veeqo API error: ${error.message}`,
+        error.details
+      );
+    }
 
-        if (uri === 'veeqo://stores') {
-          const stores = await this.handlers.getStores();
-          return {
-            contents: [
-              {
-                uri,
-                mimeType: 'application/json',
-                text: JSON.stringify(stores, null, 2)
-              }
-            ]
-          };
-        }
+    return new McpError(
+      ErrorCode.InternalError,
+      'Internal server error occurred'
+    );
+  }
 
-        if (uri === 'veeqo://warehouses') {
-          const warehouses = await this.handlers.getWarehouses();
-          return {
-            contents: [
-              {
-                uri,
-                mimeType: 'application/json',
-                text: JSON.stringify(warehouses, null, 2)
-              }
-            ]
-          };
-        }
+  /**
+   * The CIRCUIT_OPEN error behind a failure, which handlers may have wrapped as its originalError
+   */
+  private findCircuitOpenError(error: unknown): VeeqoError | undefined {
+    if (!(error instanceof VeeqoError)) {
+      return undefined;
+    }
 
-        if (uri === 'veeqo://channels') {
-          const channels = await this.handlers.getChannels();
-          return {
-            contents: [
-              {
-                uri,
-                mimeType: 'application/json',
-                text: JSON.stringify(channels, null, 2)
-              }
-            ]
-          };
-        }
+    if (error.code === 'CIRCUIT_OPEN') {
+      return error;
+    }
 
-        throw new McpError(
-          ErrorCode.InvalidRequest,
-          `Unknown resource URI: ${uri}`
-        );
+    const details = error.details as { originalError?: unknown } | undefined;
+    return this.findCircuitOpenError(details?.originalError);
+  }
 
-      } catch (error) {
-        logger.error('Resource read failed', {
-          uri,
-          error: error instanceof Error ? error.message : String(error),
-          requestId: (request as any).id
-        });
+  /**
+   * Read a resource by URI. Shared by the stdio transport and the HTTP JSON-RPC endpoint.
+   */
+  private async readResource(uri: string, requestId?: JsonRpcId) {
+    try {
+      logger.info('Resource read requested', {
+        uri,
+        requestId
+      });
+
+      if (uri === 'veeqo://account') {
+        const account = await this.handlers.getCurrentUser();
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: 'application/json',
+              text: JSON.stringify(account, null, 2)
+            }
+          ]
+        };
+      }
+
+      if (uri === 'veeqo://stores') {
+        const stores = await this.handlers.getStores();
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: 'application/json',
+              text: JSON.stringify(stores, null, 2)
+            }
+          ]
+        };
+      }
+
+      if (uri === 'veeqo://warehouses') {
+        const warehouses = await this.handlers.getWarehouses();
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: 'application/json',
+              text: JSON.stringify(warehouses, null, 2)
+            }
+          ]
+        };
+      }
+
+      if (uri === 'veeqo://channels') {
+        const channels = await this.handlers.getChannels();
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: 'application/json',
+              text: JSON.stringify(channels, null, 2)
+            }
+          ]
+        };
+      }
 
-        if (error instanceof McpError) {
-          throw error;
+      if (uri === 'veeqo://reports/inventory.json' || uri === 'veeqo://reports/inventory.csv') {
+        const report = await this.handlers.getInventoryReport();
+        const csv = uri.endsWith('.csv');
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: csv ? 'text/csv' : 'application/json',
+              text: csv ? inventoryReportCsv(report.items) : JSON.stringify(report, null, 2)
+            }
+          ]
+        };
+      }
+
+      if (this.resultSets.handles(uri)) {
+        const resultSet = this.resultSets.get(uri);
+        if (!resultSet) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `Result set not found or expired: ${uri}`
+          );
         }
 
-        throw new McpError(
-          ErrorCode.InternalError,
-          'Failed to read resource'
-        );
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: resultSet.mimeType,
+              text: resultSet.content
+            }
+          ]
+        };
       }
-    });
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Unknown resource URI: ${uri}`
+      );
+
+    } catch (error) {
+      logger.error('Resource read failed', {
+        uri,
+        error: error instanceof Error ? error.message : String(error),
+        requestId
+      });
+
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InternalError,
+        'Failed to read resource'
+      );
+    }
   }
 
   /**
@@ -415,12 +416,18 @@ export class VeeqoMCPServer {
     
     this.app.use(express.json({ limit: '10mb' }));
     
-    // Rate limiting
+    // Rate limiting. Scrapes and orchestrator probes are exempt: a throttled
+    // scraper loses the metrics of the very load that throttled it, and a
+    // throttled probe gets a healthy instance restarted. JSON-RPC calls carrying
+    // the token are exempt too: an agent easily makes 100 tool calls in 15 minutes,
+    // while requests without it stay limited so the token cannot be guessed at speed.
+    const unlimitedPaths = new Set(['/metrics', '/health/live', '/health/ready']);
     const limiter = rateLimit({
       windowMs: 15 * 60 * 1000, // 15 minutes
       max: 100, // limit each IP to 100 requests per windowMs
       standardHeaders: true,
       legacyHeaders: false,
+      skip: (req) => unlimitedPaths.has(req.path) || this.isAuthenticatedJsonRpc(req),
       message: {
         error: 'Too many requests from this IP, please try again later.'
       }
@@ -428,39 +435,42 @@ export class VeeqoMCPServer {
     this.app.use(limiter as any);
 
     // Health check endpoint
-    this.app.get('/health', (_req: Request, res: Response) => {
-      const healthCheck: HealthCheckResponse = {
-        status: 'healthy',
+    this.app.get('/health', async (_req: Request, res: Response) => {
+      res.json(await this.getHealth());
+    });
+
+    // Liveness: the process serves requests, whatever the state of its dependencies
+    this.app.get('/health/live', (_req: Request, res: Response) => {
+      const liveness: LivenessResponse = {
+        status: 'alive',
         timestamp: new Date().toISOString(),
         uptime: Date.now() - this.startTime.getTime(),
         version: this.config.version,
-        service: this.config.name,
-        dependencies: {
-          veeqo: 'healthy',
-          redis: this.config.redisUrl ? 'healthy' : 'unhealthy',
-          webhooks: this.config.enableWebhooks ? 'healthy' : 'unhealthy'
-        } as Record<string, 'healthy' | 'unhealthy'>
+        service: this.config.name
       };
 
-      res.json(healthCheck);
+      res.json(liveness);
     });
 
-    // Metrics endpoint
-    this.app.get('/metrics', (_req: Request, res: Response) => {
-      const metrics = {
-        uptime: Date.now() - this.startTime.getTime(),
-        memory: process.memoryUsage(),
-        cpu: process.cpuUsage(),
-        version: this.config.version,
-        tools: this.getAvailableTools(),
-        resources: this.getAvailableResources(),
-        veeqoStats: this.veeqoClient.getStats(),
-        webhookStats: this.webhookManager?.getStats()
-      };
+    // Readiness: 503 while a critical dependency is unhealthy
+    this.app.get('/health/ready', async (_req: Request, res: Response) => {
+      const health = await this.getHealth();
+      res.status(health.status === 'unhealthy' ? 503 : 200).json(health);
+    });
 
-      res.json(metrics);
+    // Metrics endpoint
+    this.app.get('/metrics', async (_req: Request, res: Response) => {
+      res.type(metricsRegistry.contentType);
+      res.send(await metricsRegistry.metrics());
     });
 
+    // The JSON-RPC endpoints run tools with the server's Veeqo key, so they are only served behind a token
+    if (this.config.mcpAuthToken) {
+      this.setupJsonRpcEndpoints(this.app, this.config.mcpAuthToken);
+    } else {
+      logger.warn('JSON-RPC endpoints disabled: MCP_AUTH_TOKEN is not set');
+    }
+
     // 404 handler
     this.app.use('*', (req: Request, res: Response) => {
       res.status(404).json({
@@ -470,9 +480,245 @@ export class VeeqoMCPServer {
       });
     });
 
+    // Malformed JSON bodies on the JSON-RPC endpoints get a JSON-RPC parse error
+    this.app.use((error: Error & { type?: string }, req: Request, res: Response, next: NextFunction) => {
+      if (error.type === 'entity.parse.failed' && req.path.startsWith('/mcp')) {
+        res.status(400).json(this.createJsonRpcError(null, ErrorCode.ParseError, 'Parse error'));
+        return;
+      }
+
+      next(error);
+    });
+
     this.httpServer = createServer(this.app);
   }
 
+  /**
+   * Register the JSON-RPC 2.0 endpoints behind the token
+   */
+  private setupJsonRpcEndpoints(app: Express, token: string): void {
+    app.use('/mcp', this.requireToken(token));
+
+    // Continue the trace of callers sending traceparent headers
+    app.use('/mcp', (req: Request, _res: Response, next: NextFunction) => {
+      otelContext.with(extractTraceContext(req.headers), next);
+    });
+
+    // JSON-RPC 2.0 endpoint (single request)
+    app.post('/mcp', async (req: Request, res: Response) => {
+      if (Array.isArray(req.body)) {
+        res.status(400).json(this.createJsonRpcError(null, ErrorCode.InvalidRequest, 'Batch requests must be sent to /mcp/batch'));
+        return;
+      }
+
+      const response = await this.handleJsonRpcRequest(req.body, this.getHttpCaller(req));
+
+      if (response) {
+        res.json(response);
+      } else {
+        res.status(204).end();
+      }
+    });
+
+    // JSON-RPC 2.0 batch endpoint: each item succeeds or fails independently
+    app.post('/mcp/batch', async (req: Request, res: Response) => {
+      const batch: unknown = req.body;
+
+      if (!Array.isArray(batch) || batch.length === 0) {
+        res.status(400).json(this.createJsonRpcError(null, ErrorCode.InvalidRequest, 'Batch must be a non-empty array of JSON-RPC requests'));
+        return;
+      }
+
+      if (batch.length > CONSTANTS.MAX_JSONRPC_BATCH_SIZE) {
+        res.status(400).json(this.createJsonRpcError(
+          null,
+          ErrorCode.InvalidRequest,
+          `Batch size ${batch.length} exceeds maximum of ${CONSTANTS.MAX_JSONRPC_BATCH_SIZE}`
+        ));
+        return;
+      }
+
+      const startTime = Date.now();
+      const caller = this.getHttpCaller(req);
+      const responses = await Promise.all(batch.map(item => this.handleJsonRpcRequest(item, caller)));
+      const results = responses.filter((response): response is JsonRpcResponse => response !== null);
+
+      logger.info('JSON-RPC batch processed', {
+        size: batch.length,
+        errors: results.filter(response => response.error).length,
+        duration: Date.now() - startTime
+      });
+
+      if (results.length > 0) {
+        res.json(results);
+      } else {
+        res.status(204).end();
+      }
+    });
+  }
+
+  /**
+   * Middleware rejecting requests that carry the token neither as a bearer token
+   * nor in the x-api-key header
+   */
+  private requireToken(token: string): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (this.hasToken(req, token)) {
+        next();
+        return;
+      }
+
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      res.status(401).json(this.createJsonRpcError(null, ErrorCode.InvalidRequest, 'Missing or invalid API key'));
+    };
+  }
+
+  /**
+   * Check whether a request is for the JSON-RPC endpoints and carries their token
+   */
+  private isAuthenticatedJsonRpc(req: Pick<Request, 'path' | 'headers' | 'get'>): boolean {
+    const token = this.config.mcpAuthToken;
+    if (!token || !req.path.startsWith('/mcp')) {
+      return false;
+    }
+
+    return this.hasToken(req, token);
+  }
+
+  /**
+   * Check whether a request carries the token as a bearer token or in the x-api-key header
+   */
+  private hasToken(req: Pick<Request, 'headers' | 'get'>, token: string): boolean {
+    return bearerTokenMatches(req.headers.authorization, token) || tokenMatches(req.get('x-api-key'), token);
+  }
+
+  /**
+   * Handle a single JSON-RPC 2.0 request received over HTTP.
+   * Accepts the standard MCP methods as well as bare tool names (e.g. `get_orders`),
+   * which return the tool's JSON payload directly. Returns null for notifications.
+   */
+  private async handleJsonRpcRequest(message: unknown, caller: ToolCallContext = {}): Promise<JsonRpcResponse | null> {
+    if (!this.isJsonRpcRequest(message)) {
+      const id = (message as { id?: JsonRpcId } | null)?.id ?? null;
+      return this.createJsonRpcError(id, ErrorCode.InvalidRequest, 'Invalid JSON-RPC 2.0 request');
+    }
+
+    const { method, params } = message;
+    const id = message.id ?? null;
+    const isNotification = message.id === undefined;
+    const args = (params ?? {}) as Record<string, unknown>;
+    const context: ToolCallContext = { ...caller, requestId: id !== null ? String(id) : undefined };
+
+    try {
+      let result: unknown;
+
+      switch (method) {
+        case 'ping':
+          result = {};
+          break;
+
+        case 'tools/list':
+          result = { tools: this.getToolDefinitions() };
+          break;
+
+        case 'tools/call':
+          if (typeof args['name'] !== 'string') {
+            throw new McpError(ErrorCode.InvalidParams, 'Tool name is required');
+          }
+          result = await this.callTool(args['name'], args['arguments'], context);
+          break;
+
+        case 'resources/list':
+          result = { resources: this.getResourceDefinitions() };
+          break;
+
+        case 'resources/read':
+          if (typeof args['uri'] !== 'string') {
+            throw new McpError(ErrorCode.InvalidParams, 'Resource URI is required');
+          }
+          result = await this.readResource(args['uri'], id);
+          break;
+
+        default:
+          if (!this.tools.has(method)) {
+            throw new McpError(ErrorCode.MethodNotFound, `Unknown method: ${method}`);
+          }
+          result = this.extractToolPayload(await this.callTool(method, params, context));
+      }
+
+      return isNotification ? null : { jsonrpc: '2.0', id, result };
+
+    } catch (error) {
+      if (isNotification) {
+        return null;
+      }
+
+      if (error instanceof McpError) {
+        return this.createJsonRpcError(id, error.code, error.message, error.data);
+      }
+
+      return this.createJsonRpcError(id, ErrorCode.InternalError, 'Internal server error occurred');
+    }
+  }
+
+  /**
+   * Identify the sender of an HTTP JSON-RPC request for the audit log
+   */
+  private getHttpCaller(req: Request): ToolCallContext {
+    return {
+      caller: req.ip,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    };
+  }
+
+  /**
+   * Check that a message has the shape of a JSON-RPC 2.0 request
+   */
+  private isJsonRpcRequest(message: unknown): message is JsonRpcRequest {
+    if (!message || typeof message !== 'object' || Array.isArray(message)) {
+      return false;
+    }
+
+    const candidate = message as Record<string, unknown>;
+    const id = candidate['id'];
+
+    return candidate['jsonrpc'] === '2.0' &&
+      typeof candidate['method'] === 'string' &&
+      (id === undefined || id === null || typeof id === 'string' || typeof id === 'number');
+  }
+
+  /**
+   * Extract the JSON payload from a tool result, falling back to the raw result
+   * when no content block holds JSON
+   */
+  private extractToolPayload(result: { content: Array<{ type: string; text?: string }> }): unknown {
+    for (const block of [...result.content].reverse()) {
+      if (block.type !== 'text' || block.text === undefined) {
+        continue;
+      }
+
+      try {
+        return JSON.parse(block.text);
+      } catch {
+        // Summary text, keep looking
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Build a JSON-RPC 2.0 error response
+   */
+  private createJsonRpcError(id: JsonRpcId, code: number, message: string, data?: unknown): JsonRpcResponse {
+    return {
+      jsonrpc: '2.0',
+      id,
+      error: data === undefined ? { code, message } : { code, message, data }
+    };
+  }
+
   /**
    * Setup webhook server for receiving Veeqo webhooks
    */
@@ -527,6 +773,14 @@ export class VeeqoMCPServer {
       return;
     }
 
+    startTracing({
+      serviceName: 'veeqo-mcp',
+      serviceVersion: this.config.version,
+      exporter: this.config.tracesExporter ?? 'none',
+      otlpEndpoint: this.config.otlpEndpoint,
+      filePath: this.config.tracesFilePath
+    });
+
     try {
       // Test Veeqo connection
       await this.handlers.getCurrentUser();
@@ -619,6 +873,9 @@ export class VeeqoMCPServer {
 
       // Close MCP server
       await this.server.close();
+      await this.audit.close();
+      this.resultSets.close();
+      await stopTracing();
       
       this.isRunning = false;
       logger.info('MCP Server stopped');
@@ -632,1341 +889,125 @@ export class VeeqoMCPServer {
   }
 
   /**
-   * Tool handler implementations
+   * Get tool definitions for MCP
    */
-
-  private async handleCreateOrder(args: unknown) {
-    const validation = validateOrderCreation(args);
-    if (!validation.success) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        'Invalid order creation parameters',
-        validation.error.errors
-      );
-    }
-
-    const result = await this.handlers.createOrder(validation.data);
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Order created successfully with ID: ${result.id}`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+  private getToolDefinitions(): ToolDefinition[] {
+    return this.tools.getDefinitions();
   }
 
-  private async handleGetOrders(args: unknown) {
-    const validation = validateOrderSearch(args || {});
-    if (!validation.success) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        'Invalid order search parameters',
-        validation.error.errors
-      );
-    }
-
-    const result = await this.handlers.getOrders(validation.data);
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Found ${result.length} orders`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+  /**
+   * Get resource definitions for MCP
+   */
+  private getResourceDefinitions(): ResourceDefinition[] {
+    return [
+      {
+        uri: 'veeqo://account',
+        name: 'Veeqo Account',
+        description: 'Current Veeqo account information and settings',
+        mimeType: 'application/json'
+      },
+      {
+        uri: 'veeqo://stores',
+        name: 'Veeqo Stores',
+        description: 'List of connected stores and sales channels',
+        mimeType: 'application/json'
+      },
+      {
+        uri: 'veeqo://warehouses',
+        name: 'Veeqo Warehouses',
+        description: 'List of warehouses and fulfillment locations',
+        mimeType: 'application/json'
+      },
+      {
+        uri: 'veeqo://channels',
+        name: 'Sales Channels',
+        description: 'List of configured sales channels and integrations',
+        mimeType: 'application/json'
+      },
+      {
+        uri: 'veeqo://reports/inventory.json',
+        name: 'Inventory Report',
+        description: 'Stock, valuation and days of cover of every sellable across all warehouses',
+        mimeType: 'application/json'
+      },
+      {
+        uri: 'veeqo://reports/inventory.csv',
+        name: 'Inventory Report (CSV)',
+        description: 'Inventory report as CSV, one row per sellable',
+        mimeType: 'text/csv'
+      },
+      ...this.resultSets.getResourceDefinitions()
+    ];
   }
 
-  private async handleGetOrder(args: unknown) {
-    const orderId = (args as any)?.orderId || (args as any)?.id;
-    if (!orderId) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        'Order ID is required'
-      );
-    }
-
-    const result = await this.handlers.getOrder(orderId);
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Order ${orderId} details`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleUpdateOrder(args: unknown) {
-    const orderId = (args as any)?.orderId || (args as any)?.id;
-    const updates = (args as any)?.updates;
-    
-    if (!orderId || !updates) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        'Order ID and updates are required'
-      );
-    }
-
-    const result = await this.handlers.updateOrder(orderId, updates);
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Order ${orderId} updated successfully`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleCreateProduct(args: unknown) {
-    const validation = validateProductCreation(args);
-    if (!validation.success) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        'Invalid product creation parameters',
-        validation.error.errors
-      );
-    }
-
-    const result = await this.handlers.createProduct(validation.data);
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Product created successfully with ID: ${result.id}`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleGetProducts(args: unknown) {
-    const validation = validateProductSearch(args || {});
-    if (!validation.success) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        'Invalid product search parameters',
-        validation.error.errors
-      );
-    }
-
-    const result = await this.handlers.getProducts(validation.data);
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Found ${result.length} products`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleGetProduct(args: unknown) {
-    const productId = (args as any)?.productId || (args as any)?.id;
-    if (!productId) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        'Product ID is required'
-      );
-    }
-
-    const result = await this.handlers.getProduct(productId);
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Product ${productId} details`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleUpdateProduct(args: unknown) {
-    const validation = validateProductUpdate(args);
-    if (!validation.success) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        'Invalid product update parameters',
-        validation.error.errors
-      );
-    }
-
-    const { productId, ...updates } = validation.data;
-    const result = await this.handlers.updateProduct(productId, updates);
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Product ${productId} updated successfully`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleGetInventory(args: unknown) {
-    const filters = args as any || {};
-    const result = await this.handlers.getInventory(filters);
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Retrieved inventory data`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleUpdateInventory(args: unknown) {
-    const validation = validateInventoryUpdate(args);
-    if (!validation.success) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        'Invalid inventory update parameters',
-        validation.error.errors
-      );
-    }
-
-    const result = await this.handlers.updateInventory(validation.data);
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Inventory updated successfully`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleGetStockEntries(args: unknown) {
-    const filters = args as any || {};
-    const result = await this.handlers.getStockEntries(filters);
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Retrieved stock entries`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleCreateCustomer(args: unknown) {
-    const validation = validateCustomerCreation(args);
-    if (!validation.success) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        'Invalid customer creation parameters',
-        validation.error.errors
-      );
-    }
-
-    const result = await this.handlers.createCustomer(validation.data);
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Customer created successfully with ID: ${result.id}`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleGetCustomers(args: unknown) {
-    const filters = args as any || {};
-    const result = await this.handlers.getCustomers(filters);
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Found ${result.length} customers`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleGetCustomer(args: unknown) {
-    const customerId = (args as any)?.customerId || (args as any)?.id;
-    if (!customerId) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        'Customer ID is required'
-      );
-    }
-
-    const result = await this.handlers.getCustomer(customerId);
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Customer ${customerId} details`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleGetWarehouses(_args: unknown) {
-    const result = await this.handlers.getWarehouses();
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Found ${result.length} warehouses`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleGetWarehouse(args: unknown) {
-    const warehouseId = (args as any)?.warehouseId || (args as any)?.id;
-    if (!warehouseId) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        'Warehouse ID is required'
-      );
-    }
-
-    const result = await this.handlers.getWarehouse(warehouseId);
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Warehouse ${warehouseId} details`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleGetShipments(args: unknown) {
-    const filters = args as any || {};
-    const result = await this.handlers.getShipments(filters);
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Found ${result.length} shipments`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleCreateShipment(args: unknown) {
-    const data = args as any;
-    if (!data) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        'Shipment data is required'
-      );
-    }
-
-    const result = await this.handlers.createShipment(data);
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Shipment created successfully`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleGetAllocations(args: unknown) {
-    const filters = args as any || {};
-    const result = await this.handlers.getAllocations(filters);
-    
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Found ${result.length} allocations`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  // Analytics and Reporting Handlers
-  private async handleGetSalesAnalytics(args: unknown) {
-    const filters = args as any || {};
-    const result = await this.handlers.getSalesAnalytics(filters);
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: 'Sales analytics retrieved successfully'
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleGetInventoryReport(args: unknown) {
-    const filters = args as any || {};
-    const result = await this.handlers.getInventoryReport(filters);
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: 'Inventory report generated successfully'
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleGetOrderAnalytics(args: unknown) {
-    const filters = args as any || {};
-    const result = await this.handlers.getOrderAnalytics(filters);
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: 'Order analytics retrieved successfully'
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleGetProductPerformance(args: unknown) {
-    const filters = args as any || {};
-    const result = await this.handlers.getProductPerformance(filters);
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: 'Product performance data retrieved successfully'
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  // Bulk Operations Handlers
-  private async handleBulkUpdateInventory(args: unknown) {
-    const { updates } = args as { updates: any[] };
-    const result = await this.handlers.bulkUpdateInventory(updates);
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Bulk inventory update completed: ${result.success_count} successful, ${result.error_count} failed`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleBulkCreateProducts(args: unknown) {
-    const { products } = args as { products: any[] };
-    const result = await this.handlers.bulkCreateProducts(products);
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Bulk product creation completed: ${result.success_count} successful, ${result.error_count} failed`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleBulkUpdatePrices(args: unknown) {
-    const { price_updates } = args as { price_updates: any[] };
-    const result = await this.handlers.bulkUpdatePrices(price_updates);
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Bulk price update completed: ${result.success_count} successful, ${result.error_count} failed`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleExportOrders(args: unknown) {
-    const filters = args as any || {};
-    const result = await this.handlers.exportOrders(filters);
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Order export completed: ${result.total_records} records exported`
-        },
-        {
-          type: 'text' as const,
-          text: `Export URL: ${result.download_url}`
-        }
-      ]
-    };
-  }
-
-  private async handleExportProducts(args: unknown) {
-    const filters = args as any || {};
-    const result = await this.handlers.exportProducts(filters);
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Product export completed: ${result.total_records} records exported`
-        },
-        {
-          type: 'text' as const,
-          text: `Export URL: ${result.download_url}`
-        }
-      ]
-    };
-  }
-
-  // Advanced Management Handlers
-  private async handleCreatePurchaseOrder(args: unknown) {
-    const orderData = args as any;
-    const result = await this.handlers.createPurchaseOrder(orderData);
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Purchase order created with ID: ${result.id}`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleGetPurchaseOrders(args: unknown) {
-    const filters = args as any || {};
-    const result = await this.handlers.getPurchaseOrders(filters);
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Found ${result.length} purchase orders`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleManageSuppliers(args: unknown) {
-    const { action, supplier_data } = args as { action: string; supplier_data: any };
-    const result = await this.handlers.manageSuppliers(action, supplier_data);
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Supplier ${action} completed successfully`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleGetSupplierProducts(args: unknown) {
-    const { supplier_id } = args as { supplier_id: string };
-    const result = await this.handlers.getSupplierProducts(supplier_id);
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Found ${result.length} products for supplier ${supplier_id}`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleCreateReturn(args: unknown) {
-    const returnData = args as any;
-    const result = await this.handlers.createReturn(returnData);
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Return created with ID: ${result.id}`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  private async handleProcessRefund(args: unknown) {
-    const refundData = args as any;
-    const result = await this.handlers.processRefund(refundData);
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Refund processed: $${result.amount}`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  }
-
-  // Integration and Sync Handlers
-  private async handleSyncChannels(args: unknown) {
-    const { channels } = args as { channels: string[] };
-    const result = await this.handlers.syncChannels(channels);
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Channel sync completed: ${result.synced_channels.length} channels synced`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+  /**
+   * Get available tools list
+   */
+  getAvailableTools(): string[] {
+    return this.tools.names();
   }
 
-  private async handleGetChannelListings(args: unknown) {
-    const filters = args as any || {};
-    const result = await this.handlers.getChannelListings(filters);
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Found ${result.length} channel listings`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+  /**
+   * Get available resources list
+   */
+  getAvailableResources(): string[] {
+    return this.getResourceDefinitions().map(resource => resource.uri);
   }
 
-  private async handleUpdateChannelInventory(args: unknown) {
-    const { channel, inventory_updates } = args as { channel: string; inventory_updates: any[] };
-    const result = await this.handlers.updateChannelInventory(channel, inventory_updates);
+  /**
+   * Health of the server and its dependencies, from the cached probe results
+   */
+  async getHealth(): Promise<HealthCheckResponse> {
+    const { status, dependencies } = await this.health.check();
 
     return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Channel inventory updated for ${channel}: ${result.updated_count} items updated`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
+      status,
+      timestamp: new Date().toISOString(),
+      uptime: Date.now() - this.startTime.getTime(),
+      version: this.config.version,
+      service: this.config.name,
+      tools: this.tools.names().length,
+      dependencies
     };
   }
 
   /**
-   * Get tool definitions for MCP
+   * Dependencies probed for readiness: the Veeqo API, the Redis response cache
+   * and the webhook server when they are enabled
    */
-  private getToolDefinitions(): ToolDefinition[] {
-    return [
-      // Order Management Tools
-      {
-        name: 'create_order',
-        description: 'Create a new order in Veeqo',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            deliver_to: {
-              type: 'object',
-              description: 'Delivery address'
-            },
-            customer: {
-              type: 'object', 
-              description: 'Customer information'
-            },
-            line_items: {
-              type: 'array',
-              description: 'Order items'
-            }
-          },
-          required: ['deliver_to', 'customer', 'line_items']
-        }
-      },
-      {
-        name: 'get_orders',
-        description: 'Get list of orders with optional filters',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            since_id: { type: 'number', description: 'Filter orders after this ID' },
-            page: { type: 'number', description: 'Page number' },
-            page_size: { type: 'number', description: 'Items per page (max 100)' },
-            status: { type: 'string', description: 'Filter by order status' },
-            created_at_min: { type: 'string', description: 'Created after date' },
-            updated_at_min: { type: 'string', description: 'Updated after date' }
-          }
-        }
-      },
-      {
-        name: 'get_order',
-        description: 'Get detailed order information by ID',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            orderId: { type: 'number', description: 'Order ID' }
-          },
-          required: ['orderId']
-        }
-      },
-      {
-        name: 'update_order',
-        description: 'Update an existing order',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            orderId: { type: 'number', description: 'Order ID' },
-            updates: { type: 'object', description: 'Fields to update' }
-          },
-          required: ['orderId', 'updates']
-        }
-      },
-      // Product Management Tools
-      {
-        name: 'create_product',
-        description: 'Create a new product in Veeqo',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            title: { type: 'string', description: 'Product title' },
-            description: { type: 'string', description: 'Product description' },
-            sellables: {
-              type: 'array',
-              description: 'Product variants/sellables'
-            }
-          },
-          required: ['title']
-        }
-      },
-      {
-        name: 'get_products',
-        description: 'Get list of products with optional filters',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            since_id: { type: 'number', description: 'Filter products after this ID' },
-            page: { type: 'number', description: 'Page number' },
-            page_size: { type: 'number', description: 'Items per page (max 100)' },
-            query: { type: 'string', description: 'Search query' },
-            created_at_min: { type: 'string', description: 'Created after date' }
-          }
-        }
-      },
-      {
-        name: 'get_product',
-        description: 'Get detailed product information by ID',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            productId: { type: 'number', description: 'Product ID' }
-          },
-          required: ['productId']
-        }
-      },
-      {
-        name: 'update_product',
-        description: 'Update an existing product',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            productId: { type: 'number', description: 'Product ID' },
-            title: { type: 'string', description: 'Product title' },
-            description: { type: 'string', description: 'Product description' }
-          },
-          required: ['productId']
-        }
-      },
-      // Inventory Management Tools
-      {
-        name: 'get_inventory',
-        description: 'Get inventory levels across warehouses',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            warehouse_id: { type: 'number', description: 'Filter by warehouse ID' },
-            product_id: { type: 'number', description: 'Filter by product ID' },
-            sellable_id: { type: 'number', description: 'Filter by sellable ID' }
-          }
-        }
-      },
-      {
-        name: 'update_inventory',
-        description: 'Update inventory levels',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            sellable_id: { type: 'number', description: 'Sellable ID' },
-            warehouse_id: { type: 'number', description: 'Warehouse ID' },
-            physical_stock_level: { type: 'number', description: 'New stock level' }
-          },
-          required: ['sellable_id', 'warehouse_id', 'physical_stock_level']
-        }
-      },
-      {
-        name: 'get_stock_entries',
-        description: 'Get detailed stock entries',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            warehouse_id: { type: 'number', description: 'Filter by warehouse ID' }
-          }
-        }
-      },
-      // Customer Management Tools
-      {
-        name: 'create_customer',
-        description: 'Create a new customer',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            first_name: { type: 'string', description: 'First name' },
-            last_name: { type: 'string', description: 'Last name' },
-            email: { type: 'string', description: 'Email address' },
-            phone_number: { type: 'string', description: 'Phone number' }
-          },
-          required: ['first_name', 'last_name', 'email']
-        }
-      },
-      {
-        name: 'get_customers',
-        description: 'Get list of customers',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            page: { type: 'number', description: 'Page number' },
-            page_size: { type: 'number', description: 'Items per page (max 100)' },
-            query: { type: 'string', description: 'Search query' }
-          }
-        }
-      },
-      {
-        name: 'get_customer',
-        description: 'Get customer details by ID',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            customerId: { type: 'number', description: 'Customer ID' }
-          },
-          required: ['customerId']
-        }
-      },
-      // Warehouse Management Tools
-      {
-        name: 'get_warehouses',
-        description: 'Get list of warehouses/locations',
-        inputSchema: {
-          type: 'object',
-          properties: {}
-        }
-      },
-      {
-        name: 'get_warehouse',
-        description: 'Get warehouse details by ID',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            warehouseId: { type: 'number', description: 'Warehouse ID' }
-          },
-          required: ['warehouseId']
-        }
-      },
-      // Shipment Tools
-      {
-        name: 'get_shipments',
-        description: 'Get list of shipments',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            order_id: { type: 'number', description: 'Filter by order ID' },
-            page: { type: 'number', description: 'Page number' },
-            page_size: { type: 'number', description: 'Items per page' }
-          }
-        }
-      },
-      {
-        name: 'create_shipment',
-        description: 'Create a new shipment',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            order_id: { type: 'number', description: 'Order ID' },
-            carrier: { type: 'string', description: 'Shipping carrier' },
-            service: { type: 'string', description: 'Shipping service' }
-          },
-          required: ['order_id']
-        }
-      },
-      {
-        name: 'get_allocations',
-        description: 'Get inventory allocations',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            order_id: { type: 'number', description: 'Filter by order ID' },
-            warehouse_id: { type: 'number', description: 'Filter by warehouse ID' }
-          }
+  private createHealthProbes(): HealthProbe[] {
+    const probes: HealthProbe[] = [{
+      name: 'veeqo',
+      critical: true,
+      check: async () => {
+        const result = await this.veeqoClient.healthCheck();
+        if (result.status === 'unhealthy') {
+          throw new Error(result.errors[0] ?? `Responded in ${result.latency}ms`);
         }
       },
+      circuits: () => this.veeqoClient.getCircuitStates()
+    }];
 
-      // Analytics and Reporting Tools
-      {
-        name: 'get_sales_analytics',
-        description: 'Get detailed sales analytics and metrics',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            date_from: { type: 'string', description: 'Start date for analytics' },
-            date_to: { type: 'string', description: 'End date for analytics' },
-            channel_id: { type: 'number', description: 'Filter by sales channel' }
-          }
-        }
-      },
-      {
-        name: 'get_inventory_report',
-        description: 'Generate comprehensive inventory reports',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            warehouse_id: { type: 'number', description: 'Filter by warehouse' },
-            low_stock_threshold: { type: 'number', description: 'Low stock alert threshold' },
-            include_variants: { type: 'boolean', description: 'Include product variants' }
-          }
-        }
-      },
-      {
-        name: 'get_order_analytics',
-        description: 'Analyze order patterns and trends',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            period: { type: 'string', description: 'Time period (day, week, month, year)' },
-            date_from: { type: 'string', description: 'Start date' },
-            date_to: { type: 'string', description: 'End date' }
-          }
-        }
-      },
-      {
-        name: 'get_product_performance',
-        description: 'Get product performance metrics and insights',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            product_id: { type: 'number', description: 'Specific product ID' },
-            metric_type: { type: 'string', description: 'Type of performance metric' },
-            period: { type: 'string', description: 'Analysis period' }
-          }
-        }
-      },
+    if (this.veeqoClient.redisEnabled) {
+      probes.push({ name: 'redis', critical: false, check: () => this.veeqoClient.pingRedis() });
+    }
 
-      // Bulk Operations Tools
-      {
-        name: 'bulk_update_inventory',
-        description: 'Update inventory levels for multiple products at once',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            updates: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  sellable_id: { type: 'number' },
-                  warehouse_id: { type: 'number' },
-                  physical_stock_level: { type: 'number' }
-                }
-              },
-              description: 'Array of inventory updates'
-            }
-          },
-          required: ['updates']
-        }
-      },
-      {
-        name: 'bulk_create_products',
-        description: 'Create multiple products in a single operation',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            products: {
-              type: 'array',
-              items: { type: 'object' },
-              description: 'Array of product data to create'
-            }
-          },
-          required: ['products']
-        }
-      },
-      {
-        name: 'bulk_update_prices',
-        description: 'Update prices for multiple products',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            price_updates: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  product_id: { type: 'number' },
-                  price: { type: 'string' }
-                }
-              },
-              description: 'Array of price updates'
-            }
-          },
-          required: ['price_updates']
-        }
-      },
-      {
-        name: 'export_orders',
-        description: 'Export orders to CSV or other formats',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            format: { type: 'string', description: 'Export format (csv, json, xlsx)' },
-            date_from: { type: 'string', description: 'Start date' },
-            date_to: { type: 'string', description: 'End date' },
-            status: { type: 'string', description: 'Order status filter' }
+    if (this.config.enableWebhooks) {
+      probes.push({
+        name: 'webhooks',
+        critical: false,
+        check: async () => {
+          if (!this.webhookServer) {
+            throw new Error('Webhook server is not configured; set WEBHOOK_PORT and WEBHOOK_SECRET');
           }
-        }
-      },
-      {
-        name: 'export_products',
-        description: 'Export product catalog to various formats',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            format: { type: 'string', description: 'Export format (csv, json, xlsx)' },
-            include_inventory: { type: 'boolean', description: 'Include inventory data' },
-            category_filter: { type: 'string', description: 'Filter by category' }
+          if (!this.webhookServer.listening) {
+            throw new Error('Webhook server is not listening');
           }
         }
-      },
-
-      // Advanced Management Tools
-      {
-        name: 'create_purchase_order',
-        description: 'Create purchase orders for inventory replenishment',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            supplier_id: { type: 'number', description: 'Supplier ID' },
-            warehouse_id: { type: 'number', description: 'Destination warehouse' },
-            line_items: {
-              type: 'array',
-              items: { type: 'object' },
-              description: 'Items to order'
-            }
-          },
-          required: ['supplier_id', 'warehouse_id', 'line_items']
-        }
-      },
-      {
-        name: 'get_purchase_orders',
-        description: 'Retrieve purchase order history and status',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            status: { type: 'string', description: 'Filter by status' },
-            supplier_id: { type: 'number', description: 'Filter by supplier' },
-            date_from: { type: 'string', description: 'Start date' }
-          }
-        }
-      },
-      {
-        name: 'manage_suppliers',
-        description: 'Add, update, or manage supplier information',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            action: { type: 'string', description: 'Action to perform (create, update, delete)' },
-            supplier_data: { type: 'object', description: 'Supplier information' }
-          },
-          required: ['action', 'supplier_data']
-        }
-      },
-      {
-        name: 'get_supplier_products',
-        description: 'Get products associated with a supplier',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            supplier_id: { type: 'string', description: 'Supplier ID' }
-          },
-          required: ['supplier_id']
-        }
-      },
-      {
-        name: 'create_return',
-        description: 'Create return/RMA for products',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            order_id: { type: 'number', description: 'Original order ID' },
-            return_items: {
-              type: 'array',
-              items: { type: 'object' },
-              description: 'Items being returned'
-            },
-            reason: { type: 'string', description: 'Return reason' }
-          },
-          required: ['order_id', 'return_items']
-        }
-      },
-      {
-        name: 'process_refund',
-        description: 'Process customer refunds',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            order_id: { type: 'number', description: 'Order ID' },
-            amount: { type: 'string', description: 'Refund amount' },
-            reason: { type: 'string', description: 'Refund reason' }
-          },
-          required: ['order_id', 'amount']
-        }
-      },
-
-      // Integration and Sync Tools
-      {
-        name: 'sync_channels',
-        description: 'Synchronize inventory and orders with sales channels',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channels: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Channels to sync'
-            }
-          },
-          required: ['channels']
-        }
-      },
-      {
-        name: 'get_channel_listings',
-        description: 'Get product listings across different sales channels',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channel_id: { type: 'number', description: 'Filter by channel' },
-            status: { type: 'string', description: 'Listing status' }
-          }
-        }
-      },
-      {
-        name: 'update_channel_inventory',
-        description: 'Update inventory levels on specific sales channels',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channel: { type: 'string', description: 'Channel name' },
-            inventory_updates: {
-              type: 'array',
-              items: { type: 'object' },
-              description: 'Inventory updates for channel'
-            }
-          },
-          required: ['channel', 'inventory_updates']
-        }
-      }
-    ];
-  }
-
-  /**
-   * Get resource definitions for MCP
-   */
-  private getResourceDefinitions(): ResourceDefinition[] {
-    return [
-      {
-        uri: 'veeqo://account',
-        name: 'Veeqo Account',
-        description: 'Current Veeqo account information and settings',
-        mimeType: 'application/json'
-      },
-      {
-        uri: 'veeqo://stores',
-        name: 'Veeqo Stores',
-        description: 'List of connected stores and sales channels',
-        mimeType: 'application/json'
-      },
-      {
-        uri: 'veeqo://warehouses',
-        name: 'Veeqo Warehouses',
-        description: 'List of warehouses and fulfillment locations',
-        mimeType: 'application/json'
-      },
-      {
-        uri: 'veeqo://channels',
-        name: 'Sales Channels',
-        description: 'List of configured sales channels and integrations',
-        mimeType: 'application/json'
-      }
-    ];
-  }
-
-  /**
-   * Get available tools list
-   */
-  getAvailableTools(): string[] {
-    return this.getToolDefinitions().map(tool => tool.name);
-  }
+      });
+    }
 
-  /**
-   * Get available resources list
-   */
-  getAvailableResources(): string[] {
-    return this.getResourceDefinitions().map(resource => resource.uri);
+    return probes;
   }
 
   /**
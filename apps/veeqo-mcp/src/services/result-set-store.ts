@@ -0,0 +1,97 @@
+import { randomUUID } from 'crypto';
+import NodeCache from 'node-cache';
+import { logger } from '../utils/logger.js';
+import {
+  ResultSet,
+  ResultSetSummary,
+  ResourceDefinition,
+  CONSTANTS
+} from '../types/index.js';
+
+/**
+ * In-memory store of tool results served as MCP resources under
+ * veeqo://results/{id} until they expire: lists too large to return inline and
+ * report exports
+ */
+export class ResultSetStore {
+  private resultSets: NodeCache;
+  private ttlSeconds: number;
+
+  constructor(ttlSeconds: number = CONSTANTS.RESULT_SET_TTL) {
+    this.ttlSeconds = ttlSeconds;
+    this.resultSets = new NodeCache({
+      stdTTL: ttlSeconds,
+      checkperiod: 300,
+      useClones: false,
+      deleteOnExpire: true,
+      maxKeys: 50
+    });
+  }
+
+  /**
+   * Store a result set and assign its resource URI
+   */
+  save(resultSet: Omit<ResultSet, 'uri' | 'mimeType' | 'byteLength' | 'createdAt' | 'expiresAt'>): ResultSetSummary {
+    const now = Date.now();
+    const stored: ResultSet = {
+      ...resultSet,
+      uri: `${CONSTANTS.RESULT_SET_URI_PREFIX}${randomUUID()}.${resultSet.format}`,
+      mimeType: CONSTANTS.RESULT_SET_MIME_TYPES[resultSet.format],
+      byteLength: Buffer.byteLength(resultSet.content),
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttlSeconds * 1000).toISOString()
+    };
+
+    this.resultSets.set(stored.uri, stored);
+    logger.info('Result set stored', {
+      uri: stored.uri,
+      tool: stored.tool,
+      format: stored.format,
+      count: stored.count,
+      byteLength: stored.byteLength
+    });
+
+    return toSummary(stored);
+  }
+
+  /**
+   * Get a stored result set by resource URI
+   */
+  get(uri: string): ResultSet | undefined {
+    return this.resultSets.get<ResultSet>(uri);
+  }
+
+  /**
+   * Check whether a URI belongs to this store
+   */
+  handles(uri: string): boolean {
+    return uri.startsWith(CONSTANTS.RESULT_SET_URI_PREFIX);
+  }
+
+  /**
+   * Resource definitions for the result sets currently held
+   */
+  getResourceDefinitions(): ResourceDefinition[] {
+    return this.resultSets.keys()
+      .map(uri => this.resultSets.get<ResultSet>(uri))
+      .filter((resultSet): resultSet is ResultSet => resultSet !== undefined)
+      .map(resultSet => ({
+        uri: resultSet.uri,
+        name: `${resultSet.tool} results (${resultSet.count}, ${resultSet.format.toUpperCase()})`,
+        description: `${resultSet.count} items returned by ${resultSet.tool}, available until ${resultSet.expiresAt}`,
+        mimeType: resultSet.mimeType
+      }));
+  }
+
+  /**
+   * Release the expiry timer
+   */
+  close(): void {
+    this.resultSets.close();
+  }
+}
+
+function toSummary(resultSet: ResultSet): ResultSetSummary {
+  const { content: _content, ...summary } = resultSet;
+  return summary;
+}
@@ -5,32 +5,128 @@ import axios, {
   AxiosError,
   InternalAxiosRequestConfig
 } from 'axios';
-import NodeCache from 'node-cache';
 import Bottleneck from 'bottleneck';
-import Redis from 'ioredis';
+import { context as otelContext } from '@opentelemetry/api';
 import stringify from 'fast-json-stable-stringify';
+import {
+  CachePolicy,
+  CacheStore,
+  CircuitOpenError,
+  ResponseCache,
+  UpstreamFailure,
+  UpstreamResilience,
+  cacheNamespace,
+  createCacheStore,
+  createUpstreamCircuits,
+  endRequestSpan,
+  getTracer,
+  parseRetryAfter,
+  resourceName,
+  resourceTags,
+  startRequestSpan
+} from '@mcp-shipping/shared';
 
 import { logger } from '../utils/logger.js';
+import {
+  recordCacheLookup,
+  recordCircuitRejection,
+  recordUpstreamRequest,
+  recordUpstreamRetry,
+  registerCircuitBreakers,
+  registerRateLimiter,
+  unregisterCircuitBreakers,
+  unregisterRateLimiter
+} from '../utils/metrics.js';
 import {
   VeeqoClientConfig,
   VeeqoError,
+  VeeqoListResult,
+  VeeqoPage,
+  CircuitState,
+  ListOptions,
   CONSTANTS
 } from '../types/index.js';
 
+/**
+ * How long responses stay fresh, then stale, in seconds, by resource. Stock and
+ * allocations move with every sale; warehouses, stores and channels rarely change.
+ */
+const CACHE_POLICIES: Record<string, CachePolicy> = {
+  order: { ttl: 60, staleTtl: 300 },
+  allocation: { ttl: 30, staleTtl: 120 },
+  stock_entry: { ttl: 30, staleTtl: 120 },
+  shipment: { ttl: 60, staleTtl: 300 },
+  product: { ttl: 300, staleTtl: 900 },
+  sellable: { ttl: 300, staleTtl: 900 },
+  customer: { ttl: 600, staleTtl: 3600 },
+  warehouse: { ttl: 3600, staleTtl: 86400 },
+  store: { ttl: 3600, staleTtl: 86400 },
+  channel: { ttl: 3600, staleTtl: 86400 }
+};
+
+const DEFAULT_CACHE_POLICY: CachePolicy = { ttl: CONSTANTS.CACHE_TTL, staleTtl: CONSTANTS.CACHE_TTL };
+
+/**
+ * How a request's result is read from the response. Cached results are kept per reader.
+ */
+interface ResponseReader<T> {
+  name: string;
+  read(response: AxiosResponse): T;
+}
+
+const BODY_READER: ResponseReader<unknown> = {
+  name: 'body',
+  read: response => response.data
+};
+
+const PAGE_READER: ResponseReader<VeeqoPage<unknown>> = {
+  name: 'page',
+  read: response => {
+    const totalCount = Number(response.headers['x-total-count']);
+    return {
+      items: Array.isArray(response.data) ? response.data : [],
+      ...(Number.isInteger(totalCount) && totalCount >= 0 ? { totalCount } : {})
+    };
+  }
+};
+
+/**
+ * Position in a list read across pages, carried by an opaque cursor
+ */
+interface ListPosition {
+  path: string;
+  query: Record<string, string>;
+  page: number;
+  pageSize: number;
+  /**
+   * Items of the page already returned
+   */
+  skip: number;
+}
+
+/**
+ * Request options accepted by VeeqoClient
+ */
+export interface VeeqoRequestConfig extends AxiosRequestConfig {
+  /**
+   * Cache tags a write affects beyond its own resource, e.g. the order a new shipment belongs to
+   */
+  invalidates?: string[] | undefined;
+}
+
 /**
  * Production-ready Veeqo API client with rate limiting, caching, and retry logic
  * Implements Veeqo API v1.0 specifications with comprehensive error handling
  */
 export class VeeqoClient {
   private httpClient: AxiosInstance;
-  private cache?: NodeCache;
-  private redis?: Redis;
+  private cache?: ResponseCache;
+  private cacheStore?: CacheStore;
   private rateLimiter: Bottleneck;
+  private resilience: UpstreamResilience;
   private config: VeeqoClientConfig;
   private stats: {
     requests: number;
-    hits: number;
-    misses: number;
     errors: number;
     rateLimitHits: number;
   };
@@ -39,8 +135,6 @@ export class VeeqoClient {
     this.config = config;
     this.stats = {
       requests: 0,
-      hits: 0,
-      misses: 0,
       errors: 0,
       rateLimitHits: 0
     };
@@ -60,12 +154,22 @@ export class VeeqoClient {
       reservoirRefreshAmount: CONSTANTS.RATE_LIMIT_BUCKET_SIZE,
       reservoirRefreshInterval: 60 * 1000, // 1 minute
       maxConcurrent: 10,
-      minTime: 1000 / CONSTANTS.RATE_LIMIT_LEAK_RATE, // 200ms between requests
-      retryCount: config.retryAttempts,
-      retryDelayMultiplier: 2,
-      retryDelayMin: 1000,
-      retryDelayMax: 30000
+      minTime: 1000 / CONSTANTS.RATE_LIMIT_LEAK_RATE // 200ms between requests
     });
+    registerRateLimiter(this.rateLimiter);
+
+    // Retries and per-endpoint circuit breakers; every attempt waits for the rate limiter
+    this.resilience = new UpstreamResilience(
+      {
+        retries: config.retryAttempts,
+        baseDelayMs: CONSTANTS.RETRY_BASE_DELAY_MS,
+        maxDelayMs: CONSTANTS.MAX_RETRY_DELAY
+      },
+      createUpstreamCircuits(),
+      error => this.describeFailure(error),
+      { logger, onRetry: recordUpstreamRetry, onCircuitRejection: recordCircuitRejection }
+    );
+    registerCircuitBreakers(this.resilience.circuits);
 
     logger.info('Veeqo client initialized', {
       baseURL: config.apiUrl,
@@ -97,7 +201,7 @@ export class VeeqoClient {
     client.interceptors.request.use(
       (config: InternalAxiosRequestConfig) => {
         const requestId = this.generateRequestId();
-        (config as any).metadata = { requestId, startTime: Date.now() };
+        (config as any).metadata = { requestId, startTime: Date.now(), span: startRequestSpan('veeqo-mcp', config) };
         
         logger.debug('Veeqo API request', {
           requestId,
@@ -129,6 +233,8 @@ export class VeeqoClient {
           duration,
           { requestId }
         );
+        recordUpstreamRequest(response.config.method?.toUpperCase() || 'GET', response.config.url || '', response.status, duration);
+        endRequestSpan((response.config as any).metadata?.span, response.status);
 
         // Track performance
         if (duration > CONSTANTS.RESPONSE_TIMEOUT_MS) {
@@ -153,6 +259,8 @@ export class VeeqoClient {
           duration,
           error: error.message
         });
+        recordUpstreamRequest(error.config?.method?.toUpperCase() || 'GET', error.config?.url || '', error.response?.status, duration);
+        endRequestSpan((error.config as any)?.metadata?.span, error.response?.status, error);
 
         return Promise.reject(error);
       }
@@ -162,46 +270,15 @@ export class VeeqoClient {
   }
 
   /**
-   * Initialize caching system
+   * Initialize caching system: Redis when configured, in-memory otherwise,
+   * with keys under the namespace of the API key
    */
   private initializeCache(): void {
-    // In-memory cache
-    this.cache = new NodeCache({
-      stdTTL: CONSTANTS.CACHE_TTL,
-      checkperiod: 60, // Check expired keys every 60 seconds
-      useClones: false,
-      deleteOnExpire: true,
-      maxKeys: 10000
-    });
-
-    // Redis cache if available
-    if (this.config.redisUrl) {
-      try {
-        this.redis = new Redis(this.config.redisUrl, {
-          maxRetriesPerRequest: 3,
-          lazyConnect: true,
-          keepAlive: 30000
-        });
-
-        this.redis.on('connect', () => {
-          logger.info('Redis cache connected');
-        });
-
-        this.redis.on('error', (error) => {
-          logger.error('Redis cache error', { error: error.message });
-        });
-
-      } catch (error) {
-        logger.error('Failed to initialize Redis cache', {
-          error: error instanceof Error ? error.message : String(error)
-        });
-      }
-    }
+    this.cacheStore = createCacheStore(this.config.redisUrl, logger);
+    this.cache = new ResponseCache(this.cacheStore, cacheNamespace('veeqo-mcp', this.config.apiKey), { logger, onLookup: recordCacheLookup });
 
     logger.info('Cache initialized', {
-      inMemory: true,
-      redis: !!this.redis,
-      ttl: CONSTANTS.CACHE_TTL
+      backend: this.cacheStore.kind
     });
   }
 
@@ -215,110 +292,160 @@ export class VeeqoClient {
   /**
    * POST request with rate limiting
    */
-  async post<T = unknown>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<T> {
+  async post<T = unknown>(url: string, data?: unknown, config?: VeeqoRequestConfig): Promise<T> {
     return this.request<T>('POST', url, data, config);
   }
 
   /**
    * PUT request with rate limiting
    */
-  async put<T = unknown>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<T> {
+  async put<T = unknown>(url: string, data?: unknown, config?: VeeqoRequestConfig): Promise<T> {
     return this.request<T>('PUT', url, data, config);
   }
 
   /**
    * PATCH request with rate limiting
    */
-  async patch<T = unknown>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<T> {
+  async patch<T = unknown>(url: string, data?: unknown, config?: VeeqoRequestConfig): Promise<T> {
     return this.request<T>('PATCH', url, data, config);
   }
 
   /**
    * DELETE request with rate limiting
    */
-  async delete<T = unknown>(url: string, config?: AxiosRequestConfig): Promise<T> {
+  async delete<T = unknown>(url: string, config?: VeeqoRequestConfig): Promise<T> {
     return this.request<T>('DELETE', url, undefined, config);
   }
 
   /**
-   * Core request method with caching, rate limiting, and error handling
+   * One page of a list endpoint, with the total count Veeqo reports for the whole list
+   */
+  async getPage<T = unknown>(path: string, query: Record<string, string>, page: number, pageSize: number): Promise<VeeqoPage<T>> {
+    const params = new URLSearchParams({ ...query, page: String(page), page_size: String(pageSize) });
+    return this.request('GET', `${path}?${params.toString()}`, undefined, undefined, PAGE_READER as ResponseReader<VeeqoPage<T>>);
+  }
+
+  /**
+   * Read a list endpoint across pages. Returns up to limit items (one page by
+   * default), or every item up to MAX_LIST_ITEMS with all, and a cursor to
+   * continue after them when more remain. A cursor carries the filters of the
+   * call that returned it. The page and page_size query parameters set where
+   * a list without a cursor starts.
+   */
+  async list<T = unknown>(
+    path: string,
+    query: Record<string, string | number | undefined>,
+    options: ListOptions = {}
+  ): Promise<VeeqoListResult<T>> {
+    const { page: startPage, page_size: requestedPageSize, ...filters } = query;
+    const position: ListPosition = options.cursor !== undefined
+      ? decodeListCursor(options.cursor, path)
+      : {
+          path,
+          query: Object.fromEntries(
+            Object.entries(filters)
+              .filter((entry): entry is [string, string | number] => entry[1] !== undefined)
+              .map(([key, value]) => [key, String(value)])
+          ),
+          page: Number(startPage ?? 1),
+          pageSize: Math.min(Number(requestedPageSize ?? CONSTANTS.MAX_PAGE_SIZE), CONSTANTS.MAX_PAGE_SIZE),
+          skip: 0
+        };
+
+    const limit = options.all
+      ? CONSTANTS.MAX_LIST_ITEMS
+      : Math.min(options.limit ?? position.pageSize, CONSTANTS.MAX_LIST_ITEMS);
+    const items: T[] = [];
+    let totalCount: number | undefined;
+
+    while (items.length < limit) {
+      const page = await this.getPage<T>(path, position.query, position.page, position.pageSize);
+      totalCount = page.totalCount ?? totalCount;
+
+      const available = page.items.slice(position.skip);
+      const taken = available.slice(0, limit - items.length);
+      items.push(...taken);
+
+      // Stopped within the page: continue with its remaining items
+      if (taken.length < available.length) {
+        position.skip += taken.length;
+        return { items, totalCount, nextCursor: encodeListCursor(position) };
+      }
+
+      const hasNextPage = page.totalCount !== undefined
+        ? position.page * position.pageSize < page.totalCount
+        : page.items.length === position.pageSize;
+      if (!hasNextPage) {
+        return { items, totalCount };
+      }
+
+      position.page++;
+      position.skip = 0;
+    }
+
+    return { items, totalCount, nextCursor: encodeListCursor(position) };
+  }
+
+  /**
+   * Core request method with caching, rate limiting, and error handling.
+   * GET responses are cached under tags of their resource and the sellables they
+   * embed; writes drop the entries tagged with what they change.
    */
   private async request<T = unknown>(
     method: string,
     url: string,
     data?: unknown,
-    config?: AxiosRequestConfig
+    config?: VeeqoRequestConfig,
+    reader: ResponseReader<T> = BODY_READER as ResponseReader<T>
   ): Promise<T> {
     this.stats.requests++;
 
-    const cacheKey = this.generateCacheKey(method, url, config?.params, data);
     const startTime = Date.now();
+    // Cache-Control: no-cache skips the cache, as for health probes
+    const useCache = method === 'GET' && config?.headers?.['Cache-Control'] !== 'no-cache';
 
     try {
-      // Try cache for GET requests
-      if (method === 'GET' && this.config.enableCache) {
-        const cachedResult = await this.getFromCache<T>(cacheKey);
-        if (cachedResult !== null) {
-          this.stats.hits++;
-          logger.debug('Cache hit', { cacheKey, method, url });
-          return cachedResult;
-        }
-        this.stats.misses++;
+      if (this.cache && useCache) {
+        return await this.cache.getOrLoad(
+          this.generateCacheKey(method, url, config?.params, data, reader.name),
+          (value: T) => [...resourceTags(url), ...sellableTags(value)],
+          cachePolicy(url),
+          () => this.send(method, url, data, config, reader)
+        );
       }
 
-      // Execute request with rate limiting
-      const response = await this.rateLimiter.schedule(() =>
-        this.executeRequest(method, url, data, config)
-      );
+      return await this.send(method, url, data, config, reader);
 
+    } catch (error) {
       const duration = Date.now() - startTime;
 
-      // Handle API errors
-      if (response.status >= 400) {
-        this.stats.errors++;
-        throw this.createVeeqoError(response);
-      }
-
-      // Cache successful GET responses
-      if (method === 'GET' && this.config.enableCache && response.status === 200) {
-        await this.setCache(cacheKey, response.data);
+      if (error instanceof CircuitOpenError) {
+        throw new VeeqoError(
+          `Veeqo API unavailable: ${error.message}`,
+          'CIRCUIT_OPEN',
+          { endpoint: error.endpoint, retryAfterMs: error.retryAfterMs },
+          503,
+          error.retryAfterMs
+        );
       }
 
-      logger.performance('veeqo_api_request', duration, {
-        method,
-        url,
-        status: response.status
-      });
+      this.stats.errors++;
 
-      return response.data as T;
+      // Handle rate limiting
+      if (error instanceof VeeqoError && error.statusCode === 429) {
+        this.stats.rateLimitHits++;
+        logger.warn('Rate limit exceeded', {
+          method,
+          url,
+          retryAfterMs: error.retryAfterMs
+        });
+      }
 
-    } catch (error) {
-      const duration = Date.now() - startTime;
-      
       if (error instanceof VeeqoError) {
         throw error;
       }
 
-      this.stats.errors++;
-      
       if (axios.isAxiosError(error)) {
-        // Handle rate limiting
-        if (error.response?.status === 429) {
-          this.stats.rateLimitHits++;
-          logger.warn('Rate limit exceeded', {
-            method,
-            url,
-            headers: error.response.headers
-          });
-          
-          throw new VeeqoError(
-            'Rate limit exceeded',
-            'RATE_LIMIT_EXCEEDED',
-            { retryAfter: error.response.headers['retry-after'] },
-            429
-          );
-        }
-
         throw this.createVeeqoError(error.response);
       }
 
@@ -334,9 +461,92 @@ export class VeeqoClient {
         'REQUEST_FAILED',
         { originalError: error }
       );
+
+    } finally {
+      // A failed write may still have gone through, so its entries are dropped either way
+      if (method !== 'GET') {
+        await this.cache?.invalidate([...resourceTags(url, true), ...(config?.invalidates ?? [])]);
+      }
     }
   }
 
+  /**
+   * Send a request with rate limiting, retries and the circuit breaker of its endpoint
+   */
+  private async send<T>(
+    method: string,
+    url: string,
+    data: unknown,
+    config: AxiosRequestConfig | undefined,
+    reader: ResponseReader<T>
+  ): Promise<T> {
+    const startTime = Date.now();
+    const response = await this.resilience.execute({ method, url }, () => this.scheduleRequest(method, url, data, config));
+
+    logger.performance('veeqo_api_request', Date.now() - startTime, {
+      method,
+      url,
+      status: response.status
+    });
+
+    return reader.read(response);
+  }
+
+  /**
+   * One attempt of a request: wait for the rate limiter, send it and turn an
+   * error response into a VeeqoError
+   */
+  private async scheduleRequest(
+    method: string,
+    url: string,
+    data?: unknown,
+    config?: AxiosRequestConfig
+  ): Promise<AxiosResponse> {
+    // The queue span covers the wait for a slot
+    const queueSpan = getTracer('veeqo-mcp').startSpan('veeqo.rate_limiter.queue');
+    const response = await this.rateLimiter.schedule(otelContext.bind(otelContext.active(), () => {
+      if (queueSpan.isRecording()) {
+        queueSpan.end();
+      }
+      return this.executeRequest(method, url, data, config);
+    }));
+
+    if (response.status >= 400) {
+      throw this.createVeeqoError(response);
+    }
+
+    return response;
+  }
+
+  /**
+   * Describe a failed attempt for the retry and circuit breaker decisions
+   */
+  private describeFailure(error: unknown): UpstreamFailure {
+    if (error instanceof VeeqoError) {
+      return {
+        status: error.statusCode,
+        retryAfterMs: error.retryAfterMs,
+        // Rate limited, or unavailable with an explicit request to come back later
+        unprocessed: error.statusCode === 429 || (error.statusCode === 503 && error.retryAfterMs !== undefined)
+      };
+    }
+
+    if (axios.isAxiosError(error)) {
+      if (error.response) {
+        return this.describeFailure(this.createVeeqoError(error.response));
+      }
+
+      if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+        return { status: 408, unprocessed: false };
+      }
+
+      // Never connected, so Veeqo cannot have processed the request
+      return { unprocessed: error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND' };
+    }
+
+    return { unprocessed: false };
+  }
+
   /**
    * Execute the actual HTTP request
    */
@@ -365,6 +575,7 @@ export class VeeqoClient {
     }
 
     const { status, data } = response;
+    const retryAfterMs = status === 429 || status === 503 ? parseRetryAfter(response.headers?.['retry-after']) : undefined;
     
     // Extract error details from Veeqo API response
     let message = 'API request failed';
@@ -413,7 +624,7 @@ export class VeeqoClient {
         break;
     }
 
-    return new VeeqoError(message, code, details, status);
+    return new VeeqoError(message, code, details, status, retryAfterMs);
   }
 
   /**
@@ -423,99 +634,34 @@ export class VeeqoClient {
     method: string,
     url: string,
     params?: Record<string, unknown>,
-    data?: unknown
+    data?: unknown,
+    reader = BODY_READER.name
   ): string {
     const keyData = {
       method,
       url,
       params: params || {},
-      data: method !== 'GET' ? data : undefined
+      data: method !== 'GET' ? data : undefined,
+      reader
     };
     
     return `veeqo:${stringify(keyData)}`;
   }
 
   /**
-   * Get data from cache
+   * Drop the cached responses carrying one of the tags, e.g. after a webhook
    */
-  private async getFromCache<T>(key: string): Promise<T | null> {
-    try {
-      // Try Redis first
-      if (this.redis) {
-        const redisValue = await this.redis.get(key);
-        if (redisValue) {
-          return JSON.parse(redisValue) as T;
-        }
-      }
-
-      // Fall back to in-memory cache
-      if (this.cache) {
-        const value = this.cache.get<T>(key);
-        return value || null;
-      }
-
-      return null;
-    } catch (error) {
-      logger.error('Cache get error', {
-        key,
-        error: error instanceof Error ? error.message : String(error)
-      });
-      return null;
-    }
+  async invalidateCache(tags: string[]): Promise<void> {
+    await this.cache?.invalidate(tags);
   }
 
   /**
-   * Set data in cache
+   * Clear this client's cached responses. Keys are deleted by SCAN within its
+   * namespace, leaving other data in a shared Redis alone.
    */
-  private async setCache(key: string, value: unknown): Promise<void> {
+  async clearCache(): Promise<void> {
     try {
-      const serializedValue = JSON.stringify(value);
-
-      // Set in Redis
-      if (this.redis) {
-        await this.redis.setex(key, CONSTANTS.CACHE_TTL, serializedValue);
-      }
-
-      // Set in in-memory cache
-      if (this.cache) {
-        this.cache.set(key, value);
-      }
-    } catch (error) {
-      logger.error('Cache set error', {
-        key,
-        error: error instanceof Error ? error.message : String(error)
-      });
-    }
-  }
-
-  /**
-   * Clear cache
-   */
-  async clearCache(pattern?: string): Promise<void> {
-    try {
-      if (this.redis) {
-        if (pattern) {
-          const keys = await this.redis.keys(pattern);
-          if (keys.length > 0) {
-            await this.redis.del(...keys);
-          }
-        } else {
-          await this.redis.flushall();
-        }
-      }
-
-      if (this.cache) {
-        if (pattern) {
-          const keys = this.cache.keys().filter(key => 
-            key.includes(pattern.replace('*', ''))
-          );
-          keys.forEach(key => this.cache!.del(key));
-        } else {
-          this.cache.flushAll();
-        }
-      }
-
-      logger.info('Cache cleared', { pattern });
+      await this.cache?.clear();
     } catch (error) {
       logger.error('Cache clear error', {
         error: error instanceof Error ? error.message : String(error)
@@ -535,8 +681,8 @@ export class VeeqoClient {
     const errors: string[] = [];
 
     try {
-      // Simple API call to check connectivity
-      await this.get('/current_user');
+      // Simple API call to check connectivity, bypassing the cache
+      await this.request('GET', '/current_user', undefined, { headers: { 'Cache-Control': 'no-cache' } });
       
       const latency = Date.now() - startTime;
       
@@ -559,6 +705,31 @@ export class VeeqoClient {
     }
   }
 
+  /**
+   * Whether responses are also cached in Redis
+   */
+  get redisEnabled(): boolean {
+    return this.cacheStore?.kind === 'redis';
+  }
+
+  /**
+   * Ping the Redis cache, connecting first if it has not been used yet
+   */
+  async pingRedis(): Promise<void> {
+    if (this.cacheStore?.kind !== 'redis') {
+      throw new VeeqoError('Redis cache is not configured', 'REDIS_NOT_CONFIGURED');
+    }
+
+    await this.cacheStore.ping();
+  }
+
+  /**
+   * Circuit state of each Veeqo API endpoint called so far
+   */
+  getCircuitStates(): Record<string, CircuitState> {
+    return this.resilience.circuits.states();
+  }
+
   /**
    * Get client statistics
    */
@@ -573,8 +744,9 @@ export class VeeqoClient {
     cacheEnabled: boolean;
     redisConnected: boolean;
   } {
-    const hitRate = this.stats.requests > 0 
-      ? (this.stats.hits / (this.stats.hits + this.stats.misses)) * 100 
+    const { hits, misses } = this.cache?.stats ?? { hits: 0, misses: 0 };
+    const hitRate = hits + misses > 0
+      ? (hits / (hits + misses)) * 100
       : 0;
     
     const errorRate = this.stats.requests > 0 
@@ -583,10 +755,12 @@ export class VeeqoClient {
 
     return {
       ...this.stats,
+      hits,
+      misses,
       hitRate: Math.round(hitRate * 100) / 100,
       errorRate: Math.round(errorRate * 100) / 100,
       cacheEnabled: this.config.enableCache,
-      redisConnected: !!this.redis && this.redis.status === 'ready'
+      redisConnected: this.cacheStore?.kind === 'redis' && this.cacheStore.connected
     };
   }
 
@@ -604,17 +778,11 @@ export class VeeqoClient {
     try {
       // Stop rate limiter
       this.rateLimiter.stop();
+      unregisterRateLimiter(this.rateLimiter);
+      unregisterCircuitBreakers(this.resilience.circuits);
 
-      // Close Redis connection
-      if (this.redis) {
-        await this.redis.quit();
-      }
-
-      // Clear in-memory cache
-      if (this.cache) {
-        this.cache.flushAll();
-        this.cache.close();
-      }
+      // Close the cache store, quitting Redis
+      await this.cacheStore?.close();
 
       logger.info('Veeqo client disposed');
     } catch (error) {
@@ -623,4 +791,63 @@ export class VeeqoClient {
       });
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Cache policy of a request path by the resource it addresses
+ */
+function cachePolicy(url: string): CachePolicy {
+  const resource = resourceName(url);
+  return (resource !== undefined ? CACHE_POLICIES[resource] : undefined) ?? DEFAULT_CACHE_POLICY;
+}
+
+/**
+ * Tags of the sellables embedded in products, so that variant and stock changes
+ * also drop the cached products holding them
+ */
+function sellableTags(value: unknown): string[] {
+  const page = typeof value === 'object' && value !== null ? (value as { items?: unknown }).items : undefined;
+  const items: unknown[] = Array.isArray(value) ? value : Array.isArray(page) ? page : [value];
+
+  return items.flatMap(item => {
+    const sellables = typeof item === 'object' && item !== null ? (item as { sellables?: unknown }).sellables : undefined;
+    return Array.isArray(sellables)
+      ? sellables.flatMap((sellable: { id?: unknown } | null) => typeof sellable?.id === 'number' ? [`sellable:${sellable.id}`] : [])
+      : [];
+  });
+}
+
+function encodeListCursor(position: ListPosition): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+/**
+ * Position of a cursor returned for a list endpoint. Throws INVALID_CURSOR for a
+ * malformed cursor or one returned for another list.
+ */
+function decodeListCursor(cursor: string, path: string): ListPosition {
+  let position: Partial<ListPosition> | undefined;
+  try {
+    position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as Partial<ListPosition>;
+  } catch {
+    position = undefined;
+  }
+
+  const valid = typeof position === 'object' && position !== null
+    && position.path === path
+    && typeof position.query === 'object' && position.query !== null
+    && Object.values(position.query).every(value => typeof value === 'string')
+    && Number.isInteger(position.page) && position.page! >= 1
+    && Number.isInteger(position.pageSize) && position.pageSize! >= 1 && position.pageSize! <= CONSTANTS.MAX_PAGE_SIZE
+    && Number.isInteger(position.skip) && position.skip! >= 0;
+
+  if (!valid) {
+    throw new VeeqoError(
+      `Invalid cursor for ${path}; pass the nextCursor of an earlier call to the same tool`,
+      'INVALID_CURSOR',
+      { cursor }
+    );
+  }
+
+  return position as ListPosition;
+}
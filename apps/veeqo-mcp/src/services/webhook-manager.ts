@@ -156,6 +156,22 @@ export class WebhookManager {
     }
   }
 
+  /**
+   * Drop the Veeqo client's cached responses carrying one of the tags. A failure
+   * is logged and does not fail the event.
+   */
+  async invalidateCache(tags: string[]): Promise<void> {
+    try {
+      await this.config.veeqoClient.invalidateCache(tags);
+    } catch (error) {
+      this.stats.errors++;
+      logger.error('Failed to invalidate cached responses', {
+        error: error instanceof Error ? error.message : String(error),
+        tags
+      });
+    }
+  }
+
   /**
    * Get webhook manager statistics
    */
@@ -0,0 +1,76 @@
+import {
+  SalesAnalyticsSchema,
+  InventoryReportSchema,
+  OrderAnalyticsSchema,
+  ProductPerformanceSchema,
+  CONSTANTS
+} from '../types/index.js';
+import { inventoryReportCsv } from '../utils/inventory-report.js';
+import { defineTool, toolResult, ToolSpec } from './registry.js';
+import type { ToolContext } from './index.js';
+
+/**
+ * Analytics and reporting tools
+ */
+export function createAnalyticsTools({ handlers, resultSets }: ToolContext): ToolSpec[] {
+  return [
+    defineTool({
+      name: 'get_sales_analytics',
+      description: 'Get revenue, units, order count and average order value for a date range, grouped by day, week or month, broken down by channel, store, SKU and destination country, with growth against the previous window of equal length',
+      inputSchema: SalesAnalyticsSchema,
+      annotations: { readOnlyHint: true },
+      handler: async (args) => {
+        const result = await handlers.getSalesAnalytics(args);
+        const growth = result.growth.revenue === null ? 'no sales in the previous window' : `${result.growth.revenue}% revenue growth`;
+        return toolResult([
+          `Sales from ${result.date_from} to ${result.date_to}: ${result.totals.revenue}${result.currency ? ` ${result.currency}` : ''} revenue from ${result.totals.orders} orders (${growth})`,
+          ...(result.truncated ? [`Only the first ${CONSTANTS.MAX_LIST_ITEMS} orders were read; narrow the date range for complete figures`] : [])
+        ], result);
+      }
+    }),
+
+    defineTool({
+      name: 'get_inventory_report',
+      description: 'Report on-hand, allocated and available stock across warehouses, low and out of stock sellables against their reorder levels, stock value at cost price and days of cover at recent sales; the full report is also exported as a CSV resource',
+      inputSchema: InventoryReportSchema,
+      annotations: { readOnlyHint: true },
+      handler: async (args) => {
+        const { items, ...report } = await handlers.getInventoryReport(args);
+        const csv = resultSets.save({
+          tool: 'get_inventory_report',
+          format: 'csv',
+          count: items.length,
+          content: inventoryReportCsv(items)
+        });
+
+        return toolResult([
+          `Inventory of ${report.totals.sellables} sellables worth ${report.totals.stock_value} at cost: ${report.totals.low_stock} low on stock, ${report.totals.out_of_stock} out of stock`,
+          `CSV resource URI: ${csv.uri} (available until ${csv.expiresAt})`,
+          ...(report.truncated ? [`Only the first ${CONSTANTS.MAX_LIST_ITEMS} products and orders were read; the report is incomplete`] : [])
+        ], { ...report, ...(args.include_variants ? { items } : {}), csv });
+      }
+    }),
+
+    defineTool({
+      name: 'get_order_analytics',
+      description: 'Analyze order patterns and trends',
+      inputSchema: OrderAnalyticsSchema,
+      annotations: { readOnlyHint: true },
+      handler: async () => {
+        const result = await handlers.getOrderAnalytics();
+        return toolResult('Order analytics retrieved successfully', result);
+      }
+    }),
+
+    defineTool({
+      name: 'get_product_performance',
+      description: 'Get product performance metrics and insights',
+      inputSchema: ProductPerformanceSchema,
+      annotations: { readOnlyHint: true },
+      handler: async (args) => {
+        const result = await handlers.getProductPerformance(args);
+        return toolResult('Product performance data retrieved successfully', result);
+      }
+    })
+  ];
+}
@@ -0,0 +1,86 @@
+import {
+  BulkUpdateInventorySchema,
+  BulkCreateProductsSchema,
+  BulkUpdatePricesSchema,
+  ExportOrdersSchema,
+  ExportProductsSchema
+} from '../types/index.js';
+import { defineTool, toolResult, ToolSpec } from './registry.js';
+import type { ToolContext } from './index.js';
+
+/**
+ * Bulk update and export tools
+ */
+export function createBulkTools({ handlers }: ToolContext): ToolSpec[] {
+  return [
+    defineTool({
+      name: 'bulk_update_inventory',
+      description: 'Update inventory levels for multiple products at once',
+      inputSchema: BulkUpdateInventorySchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+      handler: async ({ updates }) => {
+        const result = await handlers.bulkUpdateInventory(updates);
+        return toolResult(
+          `Bulk inventory update completed: ${result.success_count} successful, ${result.error_count} failed`,
+          result
+        );
+      }
+    }),
+
+    defineTool({
+      name: 'bulk_create_products',
+      description: 'Create multiple products in a single operation',
+      inputSchema: BulkCreateProductsSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+      handler: async ({ products }) => {
+        const result = await handlers.bulkCreateProducts(products);
+        return toolResult(
+          `Bulk product creation completed: ${result.success_count} successful, ${result.error_count} failed`,
+          result
+        );
+      }
+    }),
+
+    defineTool({
+      name: 'bulk_update_prices',
+      description: 'Update prices for multiple products',
+      inputSchema: BulkUpdatePricesSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+      handler: async ({ price_updates }) => {
+        const result = await handlers.bulkUpdatePrices(price_updates);
+        return toolResult(
+          `Bulk price update completed: ${result.success_count} successful, ${result.error_count} failed`,
+          result
+        );
+      }
+    }),
+
+    defineTool({
+      name: 'export_orders',
+      description: 'Export orders to CSV or other formats',
+      inputSchema: ExportOrdersSchema,
+      annotations: { readOnlyHint: true },
+      handler: async (args) => {
+        const result = await handlers.exportOrders(args);
+        return toolResult([
+          `Order export completed: ${result.total_records} records exported`,
+          `Export URL: ${result.download_url}`
+        ], result);
+      }
+    }),
+
+    defineTool({
+      name: 'export_products',
+      description: 'Export product catalog to various formats',
+      inputSchema: ExportProductsSchema,
+      annotations: { readOnlyHint: true },
+      handler: async (args) => {
+        const result = await handlers.exportProducts(args);
+        return toolResult([
+          `Product export completed: ${result.total_records} records exported`,
+          `Export URL: ${result.download_url}`
+        ], result);
+      }
+    })
+  ];
+}
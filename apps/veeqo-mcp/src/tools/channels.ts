@@ -0,0 +1,47 @@
+import {
+  SyncChannelsSchema,
+  ChannelListingsSchema,
+  UpdateChannelInventorySchema
+} from '../types/index.js';
+import { defineTool, toolResult, ToolSpec } from './registry.js';
+import type { ToolContext } from './index.js';
+
+/**
+ * Sales channel integration and sync tools
+ */
+export function createChannelTools({ handlers }: ToolContext): ToolSpec[] {
+  return [
+    defineTool({
+      name: 'sync_channels',
+      description: 'Synchronize inventory and orders with sales channels',
+      inputSchema: SyncChannelsSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+      handler: async ({ channels }) => {
+        const result = await handlers.syncChannels(channels);
+        return toolResult(`Channel sync completed: ${result.synced_channels.length} channels synced`, result);
+      }
+    }),
+
+    defineTool({
+      name: 'get_channel_listings',
+      description: 'Get product listings across different sales channels',
+      inputSchema: ChannelListingsSchema,
+      annotations: { readOnlyHint: true },
+      handler: async (args) => {
+        const result = await handlers.getChannelListings(args);
+        return toolResult(`Found ${result.length} channel listings`, result);
+      }
+    }),
+
+    defineTool({
+      name: 'update_channel_inventory',
+      description: 'Update inventory levels on specific sales channels',
+      inputSchema: UpdateChannelInventorySchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+      handler: async ({ channel, inventory_updates }) => {
+        const result = await handlers.updateChannelInventory(channel, inventory_updates);
+        return toolResult(`Channel inventory updated for ${channel}: ${result.updated_count} items updated`, result);
+      }
+    })
+  ];
+}
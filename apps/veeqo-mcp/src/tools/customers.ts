@@ -0,0 +1,47 @@
+import {
+  CustomerSearchSchema,
+  CustomerIdSchema
+} from '../types/index.js';
+import { CreateCustomerToolSchema } from '../utils/validation.js';
+import { defineTool, listResult, toolResult, ToolSpec } from './registry.js';
+import type { ToolContext } from './index.js';
+
+/**
+ * Customer management tools
+ */
+export function createCustomerTools({ handlers, resultSets }: ToolContext): ToolSpec[] {
+  return [
+    defineTool({
+      name: 'create_customer',
+      description: 'Create a new customer',
+      inputSchema: CreateCustomerToolSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+      handler: async (args) => {
+        const result = await handlers.createCustomer(args);
+        return toolResult(`Customer created successfully with ID: ${result.id}`, result);
+      }
+    }),
+
+    defineTool({
+      name: 'get_customers',
+      description: 'Get list of customers, one page at a time; pass limit or all for more, and nextCursor as cursor to continue',
+      inputSchema: CustomerSearchSchema,
+      annotations: { readOnlyHint: true },
+      handler: async ({ limit, cursor, all, ...filters }) => {
+        const result = await handlers.getCustomers(filters, { limit, cursor, all });
+        return listResult('get_customers', 'customers', result, resultSets);
+      }
+    }),
+
+    defineTool({
+      name: 'get_customer',
+      description: 'Get customer details by ID',
+      inputSchema: CustomerIdSchema,
+      annotations: { readOnlyHint: true },
+      handler: async ({ customerId }) => {
+        const result = await handlers.getCustomer(customerId);
+        return toolResult(`Customer ${customerId} details`, result);
+      }
+    })
+  ];
+}
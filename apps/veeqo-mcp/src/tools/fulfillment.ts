@@ -0,0 +1,71 @@
+import {
+  EmptyParamsSchema,
+  WarehouseIdSchema,
+  ShipmentSearchSchema,
+  CreateShipmentSchema,
+  AllocationSearchSchema
+} from '../types/index.js';
+import { defineTool, listResult, toolResult, ToolSpec } from './registry.js';
+import type { ToolContext } from './index.js';
+
+/**
+ * Warehouse, shipment and allocation tools
+ */
+export function createFulfillmentTools({ handlers, resultSets }: ToolContext): ToolSpec[] {
+  return [
+    defineTool({
+      name: 'get_warehouses',
+      description: 'Get list of warehouses/locations',
+      inputSchema: EmptyParamsSchema,
+      annotations: { readOnlyHint: true },
+      handler: async () => {
+        const result = await handlers.getWarehouses();
+        return toolResult(`Found ${result.length} warehouses`, result);
+      }
+    }),
+
+    defineTool({
+      name: 'get_warehouse',
+      description: 'Get warehouse details by ID',
+      inputSchema: WarehouseIdSchema,
+      annotations: { readOnlyHint: true },
+      handler: async ({ warehouseId }) => {
+        const result = await handlers.getWarehouse(warehouseId);
+        return toolResult(`Warehouse ${warehouseId} details`, result);
+      }
+    }),
+
+    defineTool({
+      name: 'get_shipments',
+      description: 'Get list of shipments, one page at a time; pass limit or all for more, and nextCursor as cursor to continue',
+      inputSchema: ShipmentSearchSchema,
+      annotations: { readOnlyHint: true },
+      handler: async ({ limit, cursor, all, ...filters }) => {
+        const result = await handlers.getShipments(filters, { limit, cursor, all });
+        return listResult('get_shipments', 'shipments', result, resultSets);
+      }
+    }),
+
+    defineTool({
+      name: 'create_shipment',
+      description: 'Create a new shipment',
+      inputSchema: CreateShipmentSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+      handler: async (args) => {
+        const result = await handlers.createShipment(args);
+        return toolResult('Shipment created successfully', result);
+      }
+    }),
+
+    defineTool({
+      name: 'get_allocations',
+      description: 'Get inventory allocations',
+      inputSchema: AllocationSearchSchema,
+      annotations: { readOnlyHint: true },
+      handler: async (args) => {
+        const result = await handlers.getAllocations(args);
+        return toolResult(`Found ${result.length} allocations`, result);
+      }
+    })
+  ];
+}
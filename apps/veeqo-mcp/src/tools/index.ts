@@ -0,0 +1,45 @@
+import type { VeeqoHandlers } from '../handlers/veeqo.js';
+import type { AuditLog } from '@mcp-shipping/shared';
+import type { ResultSetStore } from '../services/result-set-store.js';
+import { logger } from '../utils/logger.js';
+import { ToolRegistry } from './registry.js';
+import { createOrderTools } from './orders.js';
+import { createProductTools } from './products.js';
+import { createInventoryTools } from './inventory.js';
+import { createCustomerTools } from './customers.js';
+import { createFulfillmentTools } from './fulfillment.js';
+import { createAnalyticsTools } from './analytics.js';
+import { createBulkTools } from './bulk.js';
+import { createManagementTools } from './management.js';
+import { createChannelTools } from './channels.js';
+import { createAuditTools } from './audit.js';
+
+export { ToolRegistry, defineTool, toolResult, listResult } from './registry.js';
+export type { ToolSpec } from './registry.js';
+
+/**
+ * Dependencies available to tool handlers
+ */
+export interface ToolContext {
+  handlers: VeeqoHandlers;
+  audit: AuditLog;
+  resultSets: ResultSetStore;
+}
+
+/**
+ * Build the registry of all Veeqo MCP tools, recording state-changing calls in the audit log
+ */
+export function createToolRegistry(context: ToolContext): ToolRegistry {
+  return new ToolRegistry([
+    ...createOrderTools(context),
+    ...createProductTools(context),
+    ...createInventoryTools(context),
+    ...createCustomerTools(context),
+    ...createFulfillmentTools(context),
+    ...createAnalyticsTools(context),
+    ...createBulkTools(context),
+    ...createManagementTools(context),
+    ...createChannelTools(context),
+    ...createAuditTools(context)
+  ], { audit: context.audit, logger });
+}
@@ -0,0 +1,47 @@
+import {
+  InventoryFilterSchema,
+  StockEntryFilterSchema
+} from '../types/index.js';
+import { UpdateInventoryToolSchema } from '../utils/validation.js';
+import { defineTool, toolResult, ToolSpec } from './registry.js';
+import type { ToolContext } from './index.js';
+
+/**
+ * Inventory level and stock entry tools
+ */
+export function createInventoryTools({ handlers }: ToolContext): ToolSpec[] {
+  return [
+    defineTool({
+      name: 'get_inventory',
+      description: 'Get inventory levels across warehouses',
+      inputSchema: InventoryFilterSchema,
+      annotations: { readOnlyHint: true },
+      handler: async (args) => {
+        const result = await handlers.getInventory(args);
+        return toolResult('Retrieved inventory data', result);
+      }
+    }),
+
+    defineTool({
+      name: 'update_inventory',
+      description: 'Update inventory levels',
+      inputSchema: UpdateInventoryToolSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+      handler: async (args) => {
+        const result = await handlers.updateInventory(args);
+        return toolResult('Inventory updated successfully', result);
+      }
+    }),
+
+    defineTool({
+      name: 'get_stock_entries',
+      description: 'Get detailed stock entries',
+      inputSchema: StockEntryFilterSchema,
+      annotations: { readOnlyHint: true },
+      handler: async (args) => {
+        const result = await handlers.getStockEntries(args);
+        return toolResult('Retrieved stock entries', result);
+      }
+    })
+  ];
+}
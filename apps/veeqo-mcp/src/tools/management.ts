@@ -0,0 +1,83 @@
+import {
+  CreatePurchaseOrderSchema,
+  PurchaseOrderSearchSchema,
+  ManageSuppliersSchema,
+  SupplierProductsSchema,
+  CreateReturnSchema,
+  ProcessRefundSchema
+} from '../types/index.js';
+import { defineTool, toolResult, ToolSpec } from './registry.js';
+import type { ToolContext } from './index.js';
+
+/**
+ * Purchasing, supplier, return and refund tools
+ */
+export function createManagementTools({ handlers }: ToolContext): ToolSpec[] {
+  return [
+    defineTool({
+      name: 'create_purchase_order',
+      description: 'Create purchase orders for inventory replenishment',
+      inputSchema: CreatePurchaseOrderSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+      handler: async (args) => {
+        const result = await handlers.createPurchaseOrder(args);
+        return toolResult(`Purchase order created with ID: ${result.id}`, result);
+      }
+    }),
+
+    defineTool({
+      name: 'get_purchase_orders',
+      description: 'Retrieve purchase order history and status',
+      inputSchema: PurchaseOrderSearchSchema,
+      annotations: { readOnlyHint: true },
+      handler: async (args) => {
+        const result = await handlers.getPurchaseOrders(args);
+        return toolResult(`Found ${result.length} purchase orders`, result);
+      }
+    }),
+
+    defineTool({
+      name: 'manage_suppliers',
+      description: 'Add, update, or manage supplier information',
+      inputSchema: ManageSuppliersSchema,
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
+      handler: async ({ action, supplier_data }) => {
+        const result = await handlers.manageSuppliers(action, supplier_data);
+        return toolResult(`Supplier ${action} completed successfully`, result);
+      }
+    }),
+
+    defineTool({
+      name: 'get_supplier_products',
+      description: 'Get products associated with a supplier',
+      inputSchema: SupplierProductsSchema,
+      annotations: { readOnlyHint: true },
+      handler: async ({ supplier_id }) => {
+        const result = await handlers.getSupplierProducts(supplier_id);
+        return toolResult(`Found ${result.length} products for supplier ${supplier_id}`, result);
+      }
+    }),
+
+    defineTool({
+      name: 'create_return',
+      description: 'Create return/RMA for products',
+      inputSchema: CreateReturnSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+      handler: async (args) => {
+        const result = await handlers.createReturn(args);
+        return toolResult(`Return created with ID: ${result.id}`, result);
+      }
+    }),
+
+    defineTool({
+      name: 'process_refund',
+      description: 'Process customer refunds',
+      inputSchema: ProcessRefundSchema,
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
+      handler: async (args) => {
+        const result = await handlers.processRefund(args);
+        return toolResult(`Refund processed: $${result.amount}`, result);
+      }
+    })
+  ];
+}
@@ -0,0 +1,61 @@
+import {
+  OrderSearchSchema,
+  OrderIdSchema,
+  UpdateOrderSchema,
+  OrderSearchParams,
+  VeeqoOrder
+} from '../types/index.js';
+import { CreateOrderToolSchema } from '../utils/validation.js';
+import { defineTool, listResult, toolResult, ToolSpec } from './registry.js';
+import type { ToolContext } from './index.js';
+
+/**
+ * Order management tools
+ */
+export function createOrderTools({ handlers, resultSets }: ToolContext): ToolSpec[] {
+  return [
+    defineTool({
+      name: 'create_order',
+      description: 'Create a new order in Veeqo',
+      inputSchema: CreateOrderToolSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+      handler: async (args) => {
+        const result = await handlers.createOrder(args);
+        return toolResult(`Order created successfully with ID: ${result.id}`, result);
+      }
+    }),
+
+    defineTool({
+      name: 'get_orders',
+      description: 'Get list of orders with optional filters, one page at a time; pass limit or all for more, and nextCursor as cursor to continue',
+      inputSchema: OrderSearchSchema,
+      annotations: { readOnlyHint: true },
+      handler: async ({ limit, cursor, all, ...filters }) => {
+        const result = await handlers.getOrders(filters as OrderSearchParams, { limit, cursor, all });
+        return listResult('get_orders', 'orders', result, resultSets);
+      }
+    }),
+
+    defineTool({
+      name: 'get_order',
+      description: 'Get detailed order information by ID',
+      inputSchema: OrderIdSchema,
+      annotations: { readOnlyHint: true },
+      handler: async ({ orderId }) => {
+        const result = await handlers.getOrder(orderId);
+        return toolResult(`Order ${orderId} details`, result);
+      }
+    }),
+
+    defineTool({
+      name: 'update_order',
+      description: 'Update an existing order',
+      inputSchema: UpdateOrderSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+      handler: async ({ orderId, updates }) => {
+        const result = await handlers.updateOrder(orderId, updates as Partial<VeeqoOrder>);
+        return toolResult(`Order ${orderId} updated successfully`, result);
+      }
+    })
+  ];
+}
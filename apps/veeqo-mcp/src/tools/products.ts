@@ -0,0 +1,60 @@
+import {
+  ProductSearchSchema,
+  ProductIdSchema,
+  UpdateProductSchema,
+  ProductSearchParams
+} from '../types/index.js';
+import { CreateProductToolSchema } from '../utils/validation.js';
+import { defineTool, listResult, toolResult, ToolSpec } from './registry.js';
+import type { ToolContext } from './index.js';
+
+/**
+ * Product catalog tools
+ */
+export function createProductTools({ handlers, resultSets }: ToolContext): ToolSpec[] {
+  return [
+    defineTool({
+      name: 'create_product',
+      description: 'Create a new product in Veeqo',
+      inputSchema: CreateProductToolSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+      handler: async (args) => {
+        const result = await handlers.createProduct(args);
+        return toolResult(`Product created successfully with ID: ${result.id}`, result);
+      }
+    }),
+
+    defineTool({
+      name: 'get_products',
+      description: 'Get list of products with optional filters, one page at a time; pass limit or all for more, and nextCursor as cursor to continue',
+      inputSchema: ProductSearchSchema,
+      annotations: { readOnlyHint: true },
+      handler: async ({ limit, cursor, all, ...filters }) => {
+        const result = await handlers.getProducts(filters as ProductSearchParams, { limit, cursor, all });
+        return listResult('get_products', 'products', result, resultSets);
+      }
+    }),
+
+    defineTool({
+      name: 'get_product',
+      description: 'Get detailed product information by ID',
+      inputSchema: ProductIdSchema,
+      annotations: { readOnlyHint: true },
+      handler: async ({ productId }) => {
+        const result = await handlers.getProduct(productId);
+        return toolResult(`Product ${productId} details`, result);
+      }
+    }),
+
+    defineTool({
+      name: 'update_product',
+      description: 'Update an existing product',
+      inputSchema: UpdateProductSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+      handler: async ({ productId, ...updates }) => {
+        const result = await handlers.updateProduct(productId, updates);
+        return toolResult(`Product ${productId} updated successfully`, result);
+      }
+    })
+  ];
+}
@@ -0,0 +1,51 @@
+import { toolResult } from '@mcp-shipping/shared';
+import type { ResultSetStore } from '../services/result-set-store.js';
+import { CONSTANTS } from '../types/index.js';
+import type { ToolResult, VeeqoListResult } from '../types/index.js';
+
+export { ToolRegistry, defineTool, toolResult } from '@mcp-shipping/shared';
+export type { ToolSpec } from '@mcp-shipping/shared';
+
+/**
+ * Build the result of a list tool: the items with their count, Veeqo's total and
+ * the cursor to continue from. A payload over LIST_INLINE_MAX_BYTES is stored as
+ * a result set resource and only its URI is returned.
+ */
+export function listResult<T>(
+  tool: string,
+  noun: string,
+  result: VeeqoListResult<T>,
+  resultSets: ResultSetStore
+): ToolResult {
+  const data = {
+    items: result.items,
+    count: result.items.length,
+    ...(result.totalCount !== undefined ? { totalCount: result.totalCount } : {}),
+    ...(result.nextCursor !== undefined ? { nextCursor: result.nextCursor } : {})
+  };
+  const summary = [
+    result.totalCount !== undefined
+      ? `Found ${result.items.length} ${noun} (of ${result.totalCount})`
+      : `Found ${result.items.length} ${noun}`,
+    ...(result.nextCursor !== undefined ? ['More available: pass nextCursor as cursor to continue'] : [])
+  ];
+
+  const content = JSON.stringify(data, null, 2);
+  if (Buffer.byteLength(content) <= CONSTANTS.LIST_INLINE_MAX_BYTES) {
+    return toolResult(summary, data);
+  }
+
+  const resultSet = resultSets.save({
+    tool,
+    format: 'json',
+    count: data.count,
+    totalCount: result.totalCount,
+    nextCursor: result.nextCursor,
+    content
+  });
+
+  return toolResult([
+    ...summary,
+    `Too large to return inline (${resultSet.byteLength} bytes). Resource URI: ${resultSet.uri} (available until ${resultSet.expiresAt})`
+  ], resultSet);
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { CircuitState, DependencyHealth, HealthState, TracesExporter } from '@mcp-shipping/shared';
 
 /**
  * Veeqo MCP Server Configuration
@@ -14,12 +15,29 @@ export interface VeeqoMCPServerConfig {
   enableCache: boolean;
   logLevel: string;
   port?: number | undefined;
+  /**
+   * Token required by the JSON-RPC endpoints (/mcp, /mcp/batch), sent as a
+   * bearer token or in the x-api-key header; the endpoints are not served without one
+   */
+  mcpAuthToken?: string | undefined;
   webhookPort?: number | undefined;
   webhookSecret?: string | undefined;
   enableWebhooks: boolean;
   redisUrl?: string | undefined;
+  /**
+   * Audit trail of state-changing tool calls: PostgreSQL when a database URL is set, a JSON Lines file otherwise
+   */
+  databaseUrl?: string | undefined;
+  auditLogPath?: string | undefined;
+  /**
+   * OpenTelemetry trace export: an OTLP/HTTP collector or a local JSON Lines file
+   */
+  tracesExporter?: TracesExporter | undefined;
+  otlpEndpoint?: string | undefined;
+  tracesFilePath?: string | undefined;
 }
 
+
 /**
  * Veeqo API Client Configuration
  */
@@ -39,30 +57,24 @@ export class VeeqoError extends Error {
   public readonly code: string;
   public readonly details?: unknown;
   public readonly statusCode?: number | undefined;
+  /**
+   * Wait asked for by the API before trying again (Retry-After)
+   */
+  public readonly retryAfterMs?: number | undefined;
 
-  constructor(message: string, code: string = 'VEEQO_ERROR', details?: unknown, statusCode?: number | undefined) {
+  constructor(message: string, code: string = 'VEEQO_ERROR', details?: unknown, statusCode?: number | undefined, retryAfterMs?: number | undefined) {
     super(message);
     this.name = 'VeeqoError';
     this.code = code;
     this.details = details;
     this.statusCode = statusCode;
+    this.retryAfterMs = retryAfterMs;
     
     Object.setPrototypeOf(this, VeeqoError.prototype);
   }
 }
 
-/**
- * MCP Tool Definition
- */
-export interface ToolDefinition {
-  name: string;
-  description: string;
-  inputSchema: {
-    type: string;
-    properties: Record<string, unknown>;
-    required?: string[];
-  };
-}
+export type { ToolAnnotations, ToolDefinition, ToolResult } from '@mcp-shipping/shared';
 
 /**
  * MCP Resource Definition
@@ -78,12 +90,26 @@ export interface ResourceDefinition {
  * Health Check Response
  */
 export interface HealthCheckResponse {
-  status: 'healthy' | 'unhealthy' | 'degraded';
+  status: HealthState;
+  timestamp: string;
+  uptime: number;
+  version: string;
+  service: string;
+  tools: number;
+  dependencies: Record<string, DependencyHealth>;
+}
+
+export type { CircuitState, DependencyHealth, HealthState };
+
+/**
+ * Liveness Response: the process is up and serving requests
+ */
+export interface LivenessResponse {
+  status: 'alive';
   timestamp: string;
   uptime: number;
   version: string;
   service: string;
-  dependencies: Record<string, 'healthy' | 'unhealthy'>;
 }
 
 /**
@@ -195,6 +221,7 @@ export interface VeeqoOrder {
   shipped_at?: string;
   cancelled_at?: string;
   channel_id?: number;
+  store_id?: number;
   deliver_to: VeeqoAddress;
   billing_address?: VeeqoAddress;
   customer?: VeeqoCustomer;
@@ -538,6 +565,7 @@ export interface OrderSearchParams {
   page_size?: number;
   status?: string;
   created_at_min?: string;
+  created_at_max?: string;
   updated_at_min?: string;
   query?: string;
   tags?: string;
@@ -556,6 +584,192 @@ export interface ProductSearchParams {
   updated_at_min?: string;
 }
 
+/**
+ * How much of a list to return: up to limit items, or every item with all.
+ * A cursor from an earlier call continues where it stopped.
+ */
+export interface ListOptions {
+  limit?: number | undefined;
+  cursor?: string | undefined;
+  all?: boolean | undefined;
+}
+
+/**
+ * One page of a Veeqo list endpoint. Veeqo reports the size of the whole
+ * result set in the X-Total-Count header.
+ */
+export interface VeeqoPage<T> {
+  items: T[];
+  totalCount?: number | undefined;
+}
+
+/**
+ * Items of a list read across pages, with an opaque cursor when more remain
+ */
+export interface VeeqoListResult<T> {
+  items: T[];
+  totalCount?: number | undefined;
+  nextCursor?: string | undefined;
+}
+
+export type ResultSetFormat = 'json' | 'csv';
+
+/**
+ * Tool result stored as an MCP resource: a list too large to return inline, or a
+ * report export
+ */
+export interface ResultSetSummary {
+  uri: string;
+  tool: string;
+  format: ResultSetFormat;
+  mimeType: string;
+  count: number;
+  totalCount?: number | undefined;
+  nextCursor?: string | undefined;
+  byteLength: number;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface ResultSet extends ResultSetSummary {
+  content: string;
+}
+
+/**
+ * Sales analytics parameters
+ */
+export interface SalesAnalyticsParams {
+  date_from?: string | undefined;
+  date_to?: string | undefined;
+  group_by?: SalesGroupBy | undefined;
+  channel_id?: number | undefined;
+  currency?: string | undefined;
+}
+
+export type SalesGroupBy = 'day' | 'week' | 'month';
+
+/**
+ * Sales figures of a set of orders. Revenue is the orders' total price; for a
+ * SKU it is the value of its line items after discounts.
+ */
+export interface SalesMetrics {
+  revenue: number;
+  units: number;
+  orders: number;
+  average_order_value: number;
+}
+
+export interface SalesPeriodMetrics extends SalesMetrics {
+  /**
+   * First day of the period (UTC); weeks start on Monday
+   */
+  period_start: string;
+}
+
+export interface SalesBreakdownEntry extends SalesMetrics {
+  key: string;
+  name: string;
+}
+
+/**
+ * Percentage change against the previous window; null when the previous value is zero
+ */
+export type SalesGrowth = Record<keyof SalesMetrics, number | null>;
+
+export interface SalesAnalytics {
+  date_from: string;
+  date_to: string;
+  group_by: SalesGroupBy;
+  /**
+   * Currency of every amount; null when no order in either window has one
+   */
+  currency: string | null;
+  totals: SalesMetrics;
+  previous_period: SalesMetrics & { date_from: string; date_to: string };
+  growth: SalesGrowth;
+  timeline: SalesPeriodMetrics[];
+  by_channel: SalesBreakdownEntry[];
+  by_store: SalesBreakdownEntry[];
+  by_sku: SalesBreakdownEntry[];
+  by_country: SalesBreakdownEntry[];
+  /**
+   * More orders matched than MAX_LIST_ITEMS; the figures cover only those read
+   */
+  truncated: boolean;
+}
+
+/**
+ * Inventory report parameters
+ */
+export interface InventoryReportParams {
+  warehouse_id?: number | undefined;
+  low_stock_threshold?: number | undefined;
+  include_variants?: boolean | undefined;
+  velocity_days?: number | undefined;
+}
+
+export type InventoryStockStatus = 'in_stock' | 'low_stock' | 'out_of_stock' | 'infinite';
+
+/**
+ * Stock of one sellable, summed over the reported warehouses
+ */
+export interface InventoryReportItem {
+  sellable_id: number;
+  product_id: number;
+  sku_code: string;
+  title: string;
+  on_hand: number;
+  allocated: number;
+  available: number;
+  incoming: number;
+  min_reorder_level: number;
+  cost_price: number;
+  /**
+   * On-hand quantity at cost price
+   */
+  stock_value: number;
+  /**
+   * Units sold per day over the velocity window
+   */
+  daily_sales: number;
+  /**
+   * Days the available stock lasts at the current daily sales; null without sales
+   */
+  days_of_cover: number | null;
+  status: InventoryStockStatus;
+}
+
+export interface InventoryStockTotals {
+  sellables: number;
+  on_hand: number;
+  allocated: number;
+  available: number;
+  incoming: number;
+  stock_value: number;
+  low_stock: number;
+  out_of_stock: number;
+}
+
+export interface InventoryWarehouseSummary extends InventoryStockTotals {
+  warehouse_id: number;
+  name: string;
+}
+
+export interface InventoryReport {
+  generated_at: string;
+  warehouse_id?: number | undefined;
+  velocity_days: number;
+  totals: InventoryStockTotals;
+  warehouses: InventoryWarehouseSummary[];
+  low_stock: InventoryReportItem[];
+  out_of_stock: InventoryReportItem[];
+  items: InventoryReportItem[];
+  /**
+   * More products or orders than MAX_LIST_ITEMS; the report covers only those read
+   */
+  truncated: boolean;
+}
+
 /**
  * Environment Variables Schema
  */
@@ -568,10 +782,16 @@ export const EnvironmentVariablesSchema = z.object({
   ENABLE_CACHE: z.coerce.boolean().default(false),
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
   PORT: z.coerce.number().int().positive().optional(),
+  MCP_AUTH_TOKEN: z.string().min(16).optional(),
   WEBHOOK_PORT: z.coerce.number().int().positive().optional(),
   WEBHOOK_SECRET: z.string().optional(),
   ENABLE_WEBHOOKS: z.coerce.boolean().default(false),
-  REDIS_URL: z.string().optional()
+  REDIS_URL: z.string().optional(),
+  DATABASE_URL: z.string().optional(),
+  AUDIT_LOG_PATH: z.string().default('./data/audit-log.jsonl'),
+  OTEL_TRACES_EXPORTER: z.enum(['none', 'otlp', 'file']).default('none'),
+  OTEL_EXPORTER_OTLP_ENDPOINT: z.string().url().optional(),
+  OTEL_TRACES_FILE: z.string().default('./data/traces.jsonl')
 });
 
 export type EnvironmentVariables = z.infer<typeof EnvironmentVariablesSchema>;
@@ -601,21 +821,21 @@ export const VeeqoAddressSchema = z.object({
  * Create Order Schema
  */
 export const CreateOrderSchema = z.object({
-  channel_id: z.number().int().positive().optional(),
-  deliver_to: VeeqoAddressSchema,
-  billing_address: VeeqoAddressSchema.optional(),
+  channel_id: z.number().int().positive().optional().describe('Sales channel ID'),
+  deliver_to: VeeqoAddressSchema.describe('Delivery address'),
+  billing_address: VeeqoAddressSchema.optional().describe('Billing address'),
   customer: z.object({
     first_name: z.string(),
     last_name: z.string(),
     email: z.string().email(),
     phone_number: z.string().optional()
-  }).optional(),
+  }).optional().describe('Customer information'),
   line_items: z.array(z.object({
     sellable_id: z.number().int().positive(),
     quantity: z.number().int().positive(),
     price_per_unit: z.number().nonnegative().optional(),
     tax_rate: z.number().nonnegative().max(1).optional()
-  })).min(1, 'At least one line item is required'),
+  })).min(1, 'At least one line item is required').describe('Order items'),
   notes: z.string().optional(),
   customer_notes: z.string().optional(),
   total_price: z.number().nonnegative().optional(),
@@ -628,8 +848,8 @@ export const CreateOrderSchema = z.object({
  * Create Product Schema
  */
 export const CreateProductSchema = z.object({
-  title: z.string().min(1, 'Product title is required'),
-  description: z.string().optional(),
+  title: z.string().min(1, 'Product title is required').describe('Product title'),
+  description: z.string().optional().describe('Product description'),
   product_brand_id: z.number().int().positive().optional(),
   estimated_delivery: z.string().optional(),
   sellables: z.array(z.object({
@@ -650,16 +870,16 @@ export const CreateProductSchema = z.object({
       physical_stock_level: z.number().int().nonnegative().optional(),
       infinite: z.boolean().optional()
     })).optional()
-  })).optional()
+  })).optional().describe('Product variants/sellables')
 });
 
 /**
  * Update Product Schema
  */
 export const UpdateProductSchema = z.object({
-  productId: z.number().int().positive(),
-  title: z.string().min(1).optional(),
-  description: z.string().optional(),
+  productId: z.number().int().positive().describe('Product ID'),
+  title: z.string().min(1).optional().describe('Product title'),
+  description: z.string().optional().describe('Product description'),
   product_brand_id: z.number().int().positive().optional(),
   estimated_delivery: z.string().optional()
 });
@@ -668,10 +888,10 @@ export const UpdateProductSchema = z.object({
  * Create Customer Schema
  */
 export const CreateCustomerSchema = z.object({
-  first_name: z.string().min(1, 'First name is required'),
-  last_name: z.string().min(1, 'Last name is required'),
-  email: z.string().email('Valid email is required'),
-  phone_number: z.string().optional(),
+  first_name: z.string().min(1, 'First name is required').describe('First name'),
+  last_name: z.string().min(1, 'Last name is required').describe('Last name'),
+  email: z.string().email('Valid email is required').describe('Email address'),
+  phone_number: z.string().optional().describe('Phone number'),
   marketing_opt_in: z.boolean().optional()
 });
 
@@ -679,37 +899,47 @@ export const CreateCustomerSchema = z.object({
  * Update Inventory Schema
  */
 export const UpdateInventorySchema = z.object({
-  sellable_id: z.number().int().positive(),
-  warehouse_id: z.number().int().positive(),
-  physical_stock_level: z.number().int().nonnegative(),
+  sellable_id: z.number().int().positive().describe('Sellable ID'),
+  warehouse_id: z.number().int().positive().describe('Warehouse ID'),
+  physical_stock_level: z.number().int().nonnegative().describe('New stock level'),
   infinite: z.boolean().optional()
 });
 
+/**
+ * Pagination options of list tools
+ */
+export const ListOptionsSchema = z.object({
+  limit: z.number().int().min(1).max(5000).optional().describe('Maximum number of items to return, across pages (default: one page)'),
+  cursor: z.string().min(1).optional().describe('nextCursor of an earlier call, to continue where it stopped; other filters are taken from the cursor'),
+  all: z.boolean().optional().describe('Return every item, up to 5000, following all pages')
+});
+
 /**
  * Order Search Schema
  */
-export const OrderSearchSchema = z.object({
-  since_id: z.number().int().positive().optional(),
-  page: z.number().int().positive().optional(),
-  page_size: z.number().int().min(1).max(100).optional(),
-  status: z.string().optional(),
-  created_at_min: z.string().datetime().optional(),
-  updated_at_min: z.string().datetime().optional(),
-  query: z.string().optional(),
-  tags: z.string().optional(),
-  allocated_at: z.number().int().positive().optional()
+export const OrderSearchSchema = ListOptionsSchema.extend({
+  since_id: z.number().int().positive().optional().describe('Filter orders after this ID'),
+  page: z.number().int().positive().optional().describe('Page to start from'),
+  page_size: z.number().int().min(1).max(100).optional().describe('Items per page (max 100)'),
+  status: z.string().optional().describe('Filter by order status'),
+  created_at_min: z.string().datetime().optional().describe('Created after date'),
+  created_at_max: z.string().datetime().optional().describe('Created before date'),
+  updated_at_min: z.string().datetime().optional().describe('Updated after date'),
+  query: z.string().optional().describe('Search query'),
+  tags: z.string().optional().describe('Filter by tags'),
+  allocated_at: z.number().int().positive().optional().describe('Filter by allocating warehouse ID')
 });
 
 /**
  * Product Search Schema
  */
-export const ProductSearchSchema = z.object({
-  since_id: z.number().int().positive().optional(),
-  page: z.number().int().positive().optional(),
-  page_size: z.number().int().min(1).max(100).optional(),
-  query: z.string().optional(),
-  created_at_min: z.string().datetime().optional(),
-  updated_at_min: z.string().datetime().optional()
+export const ProductSearchSchema = ListOptionsSchema.extend({
+  since_id: z.number().int().positive().optional().describe('Filter products after this ID'),
+  page: z.number().int().positive().optional().describe('Page to start from'),
+  page_size: z.number().int().min(1).max(100).optional().describe('Items per page (max 100)'),
+  query: z.string().optional().describe('Search query'),
+  created_at_min: z.string().datetime().optional().describe('Created after date'),
+  updated_at_min: z.string().datetime().optional().describe('Updated after date')
 });
 
 /**
@@ -720,6 +950,218 @@ export const WarehouseOperationSchema = z.object({
   operation: z.enum(['get', 'update', 'transfer']).optional()
 });
 
+/**
+ * Tool input schemas for tools without a dedicated request schema above
+ */
+const IdSchema = z.coerce.number().int().positive();
+const PageSizeSchema = z.number().int().min(1).max(100);
+const DecimalAmountSchema = z.string().regex(/^\d+(\.\d{1,2})?$/, 'Amount must be a decimal string such as "19.99"');
+const ExportFormatSchema = z.enum(['csv', 'json', 'xlsx']);
+
+export const OrderIdSchema = z.object({
+  orderId: IdSchema.describe('Order ID')
+});
+
+export const UpdateOrderSchema = z.object({
+  orderId: IdSchema.describe('Order ID'),
+  updates: z.record(z.unknown()).describe('Fields to update')
+});
+
+export const ProductIdSchema = z.object({
+  productId: IdSchema.describe('Product ID')
+});
+
+export const InventoryFilterSchema = z.object({
+  warehouse_id: z.number().int().positive().optional().describe('Filter by warehouse ID'),
+  product_id: z.number().int().positive().optional().describe('Filter by product ID'),
+  sellable_id: z.number().int().positive().optional().describe('Filter by sellable ID')
+});
+
+export const StockEntryFilterSchema = z.object({
+  warehouse_id: z.number().int().positive().optional().describe('Filter by warehouse ID'),
+  sellable_id: z.number().int().positive().optional().describe('Filter by sellable ID')
+});
+
+export const CustomerSearchSchema = ListOptionsSchema.extend({
+  page: z.number().int().positive().optional().describe('Page to start from'),
+  page_size: PageSizeSchema.optional().describe('Items per page (max 100)'),
+  query: z.string().optional().describe('Search query')
+});
+
+export const CustomerIdSchema = z.object({
+  customerId: IdSchema.describe('Customer ID')
+});
+
+export const EmptyParamsSchema = z.object({});
+
+export const WarehouseIdSchema = z.object({
+  warehouseId: IdSchema.describe('Warehouse ID')
+});
+
+export const ShipmentSearchSchema = ListOptionsSchema.extend({
+  order_id: z.number().int().positive().optional().describe('Filter by order ID'),
+  page: z.number().int().positive().optional().describe('Page to start from'),
+  page_size: PageSizeSchema.optional().describe('Items per page (max 100)')
+});
+
+export const CreateShipmentSchema = z.object({
+  order_id: z.number().int().positive().describe('Order ID'),
+  carrier: z.string().optional().describe('Shipping carrier'),
+  service: z.string().optional().describe('Shipping service'),
+  tracking_reference: z.string().optional().describe('Carrier tracking reference')
+});
+
+export const AllocationSearchSchema = z.object({
+  order_id: z.number().int().positive().optional().describe('Filter by order ID'),
+  warehouse_id: z.number().int().positive().optional().describe('Filter by warehouse ID')
+});
+
+const AnalyticsDateSchema = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date');
+
+export const SalesAnalyticsSchema = z.object({
+  date_from: AnalyticsDateSchema.optional().describe('Start of the range, as a date or date-time (default: 30 days before date_to)'),
+  date_to: AnalyticsDateSchema.optional().describe('End of the range; a date includes the whole day (default: now)'),
+  group_by: z.enum(['day', 'week', 'month']).optional().describe('Timeline grouping (default: day)'),
+  channel_id: z.number().int().positive().optional().describe('Filter by sales channel'),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Expected an ISO 4217 currency code').optional()
+    .describe('Only count orders in this currency (ISO 4217 code); required when the orders are in several currencies')
+});
+
+export const InventoryReportSchema = z.object({
+  warehouse_id: z.number().int().positive().optional().describe('Filter by warehouse'),
+  low_stock_threshold: z.number().int().nonnegative().optional().describe('Reorder level for sellables and warehouses without one (default: 0)'),
+  include_variants: z.boolean().optional().describe('Include every sellable in the JSON result; the CSV export always has them'),
+  velocity_days: z.number().int().min(1).max(365).optional().describe('Days of sales used for days of cover (default: 30)')
+});
+
+export const OrderAnalyticsSchema = z.object({
+  period: z.enum(['day', 'week', 'month', 'year']).optional().describe('Time period (day, week, month, year)'),
+  date_from: z.string().optional().describe('Start date'),
+  date_to: z.string().optional().describe('End date')
+});
+
+export const ProductPerformanceSchema = z.object({
+  product_id: z.number().int().positive().optional().describe('Specific product ID'),
+  metric_type: z.string().optional().describe('Type of performance metric'),
+  period: z.string().optional().describe('Analysis period')
+});
+
+export const BulkUpdateInventorySchema = z.object({
+  updates: z.array(UpdateInventorySchema).min(1).describe('Array of inventory updates')
+});
+
+export const BulkCreateProductsSchema = z.object({
+  products: z.array(CreateProductSchema).min(1).describe('Array of product data to create')
+});
+
+export const BulkUpdatePricesSchema = z.object({
+  price_updates: z.array(z.object({
+    product_id: z.number().int().positive(),
+    price: DecimalAmountSchema
+  })).min(1).describe('Array of price updates')
+});
+
+export const ExportOrdersSchema = z.object({
+  format: ExportFormatSchema.optional().describe('Export format (csv, json, xlsx)'),
+  date_from: z.string().optional().describe('Start date'),
+  date_to: z.string().optional().describe('End date'),
+  status: z.string().optional().describe('Order status filter')
+});
+
+export const ExportProductsSchema = z.object({
+  format: ExportFormatSchema.optional().describe('Export format (csv, json, xlsx)'),
+  include_inventory: z.boolean().optional().describe('Include inventory data'),
+  category_filter: z.string().optional().describe('Filter by category')
+});
+
+export const CreatePurchaseOrderSchema = z.object({
+  supplier_id: z.number().int().positive().describe('Supplier ID'),
+  warehouse_id: z.number().int().positive().describe('Destination warehouse'),
+  line_items: z.array(z.object({
+    sellable_id: z.number().int().positive(),
+    quantity: z.number().int().positive(),
+    cost_price: z.number().nonnegative().optional()
+  })).min(1).describe('Items to order')
+});
+
+export const PurchaseOrderSearchSchema = z.object({
+  status: z.string().optional().describe('Filter by status'),
+  supplier_id: z.number().int().positive().optional().describe('Filter by supplier'),
+  date_from: z.string().optional().describe('Start date')
+});
+
+export const ManageSuppliersSchema = z.object({
+  action: z.enum(['create', 'update', 'delete']).describe('Action to perform (create, update, delete)'),
+  supplier_data: z.object({
+    id: z.number().int().positive().optional(),
+    name: z.string().optional(),
+    email: z.string().email().optional(),
+    status: z.string().optional()
+  }).describe('Supplier information')
+}).superRefine((data, ctx) => {
+  if (data.action !== 'create' && data.supplier_data.id === undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['supplier_data', 'id'],
+      message: `Supplier ID is required to ${data.action} a supplier`
+    });
+  }
+
+  if (data.action === 'create' && !data.supplier_data.name) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['supplier_data', 'name'],
+      message: 'Supplier name is required to create a supplier'
+    });
+  }
+});
+
+export const SupplierProductsSchema = z.object({
+  supplier_id: z.coerce.string().min(1).describe('Supplier ID')
+});
+
+export const CreateReturnSchema = z.object({
+  order_id: z.number().int().positive().describe('Original order ID'),
+  return_items: z.array(z.object({
+    sellable_id: z.number().int().positive(),
+    quantity: z.number().int().positive(),
+    reason: z.string().optional()
+  })).min(1).describe('Items being returned'),
+  reason: z.string().optional().describe('Return reason')
+});
+
+export const ProcessRefundSchema = z.object({
+  order_id: z.number().int().positive().describe('Order ID'),
+  amount: DecimalAmountSchema.describe('Refund amount'),
+  reason: z.string().optional().describe('Refund reason')
+});
+
+export const SyncChannelsSchema = z.object({
+  channels: z.array(z.string().min(1)).min(1).describe('Channels to sync')
+});
+
+export const ChannelListingsSchema = z.object({
+  channel_id: z.number().int().positive().optional().describe('Filter by channel'),
+  status: z.string().optional().describe('Listing status')
+});
+
+export const UpdateChannelInventorySchema = z.object({
+  channel: z.string().min(1).describe('Channel name'),
+  inventory_updates: z.array(z.object({
+    product_id: z.number().int().positive(),
+    new_quantity: z.number().int().nonnegative(),
+    old_quantity: z.number().int().nonnegative().optional()
+  })).min(1).describe('Inventory updates for channel')
+});
+
+export const AuditLogQuerySchema = z.object({
+  from: z.string().datetime({ offset: true }).optional().describe('Only calls at or after this ISO 8601 time'),
+  to: z.string().datetime({ offset: true }).optional().describe('Only calls before this ISO 8601 time'),
+  tool: z.string().optional().describe('Only calls of this tool, e.g. update_inventory'),
+  outcome: z.enum(['success', 'error']).optional().describe('Only successful or only failed calls'),
+  limit: z.number().int().min(1).max(500).default(50).describe('Maximum number of records, newest first')
+});
+
 /**
  * Response wrapper types
  */
@@ -735,6 +1177,36 @@ export interface ApiResponse<T = unknown> {
   requestId?: string;
 }
 
+/**
+ * JSON-RPC 2.0 envelope types for the HTTP /mcp endpoints
+ */
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: JsonRpcId;
+  method: string;
+  params?: unknown;
+}
+
+export interface JsonRpcErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: unknown;
+  error?: JsonRpcErrorObject;
+}
+
+/**
+ * Audit trail of state-changing tool calls
+ */
+export type { AuditOutcome, AuditQuery, AuditRecord, ToolCallContext } from '@mcp-shipping/shared';
+
 /**
  * Cache configuration
  */
@@ -793,6 +1265,37 @@ export const schemas = {
   OrderSearchSchema,
   ProductSearchSchema,
   WarehouseOperationSchema,
+  OrderIdSchema,
+  UpdateOrderSchema,
+  ProductIdSchema,
+  InventoryFilterSchema,
+  StockEntryFilterSchema,
+  CustomerSearchSchema,
+  CustomerIdSchema,
+  EmptyParamsSchema,
+  WarehouseIdSchema,
+  ShipmentSearchSchema,
+  CreateShipmentSchema,
+  AllocationSearchSchema,
+  SalesAnalyticsSchema,
+  InventoryReportSchema,
+  OrderAnalyticsSchema,
+  ProductPerformanceSchema,
+  BulkUpdateInventorySchema,
+  BulkCreateProductsSchema,
+  BulkUpdatePricesSchema,
+  ExportOrdersSchema,
+  ExportProductsSchema,
+  CreatePurchaseOrderSchema,
+  PurchaseOrderSearchSchema,
+  ManageSuppliersSchema,
+  SupplierProductsSchema,
+  CreateReturnSchema,
+  ProcessRefundSchema,
+  SyncChannelsSchema,
+  ChannelListingsSchema,
+  UpdateChannelInventorySchema,
+  AuditLogQuerySchema,
   EnvironmentVariablesSchema
 };
 
@@ -805,6 +1308,18 @@ export const CONSTANTS = {
   MAX_RETRY_DELAY: 30000,
   CACHE_TTL: 300, // 5 minutes
   MAX_PAGE_SIZE: 100,
+  MAX_LIST_ITEMS: 5000, // Upper bound of a list read across pages, e.g. with all
+  LIST_INLINE_MAX_BYTES: 100000, // Larger list results are returned as a resource
+  RESULT_SET_TTL: 3600, // List results stored as resources are kept for 1 hour
+  RESULT_SET_URI_PREFIX: 'veeqo://results/',
+  RESULT_SET_MIME_TYPES: {
+    json: 'application/json',
+    csv: 'text/csv'
+  },
+  SALES_ANALYTICS_DEFAULT_DAYS: 30,
+  SALES_ANALYTICS_MAX_SKUS: 50, // Best-selling SKUs listed in sales analytics
+  SALES_EXCLUDED_STATUSES: ['cancelled', 'refunded'], // Orders not counted as sales
+  INVENTORY_VELOCITY_DAYS: 30, // Sales window for days of cover
   RATE_LIMIT_BUCKET_SIZE: 100,
   RATE_LIMIT_LEAK_RATE: 5, // per second
   SUPPORTED_COUNTRIES: ['US', 'GB', 'AU', 'DE', 'FR', 'IT', 'ES', 'CA', 'NL'],
@@ -821,5 +1336,7 @@ export const CONSTANTS = {
   WEIGHT_UNITS: ['g', 'kg', 'oz', 'lb'],
   DIMENSION_UNITS: ['cm', 'm', 'in', 'ft'],
   CURRENCY_CODES: ['USD', 'GBP', 'EUR', 'CAD', 'AUD'],
-  RESPONSE_TIMEOUT_MS: 200 // Target response time
+  RESPONSE_TIMEOUT_MS: 200, // Target response time
+  RETRY_BASE_DELAY_MS: 500, // Cap of the first full-jitter retry delay, doubled on every further attempt
+  MAX_JSONRPC_BATCH_SIZE: 50
 } as const;
\ No newline at end of file
@@ -0,0 +1,223 @@
+import {
+  InventoryReport,
+  InventoryReportItem,
+  InventoryStockStatus,
+  InventoryStockTotals,
+  InventoryWarehouseSummary,
+  VeeqoProduct,
+  VeeqoSellable,
+  VeeqoStockEntry,
+  VeeqoWarehouse
+} from '../types/index.js';
+
+/**
+ * Inventory report
+ * Sums each sellable's stock entries over the reported warehouses, values on-hand
+ * stock at cost price and flags stock at or below the reorder level: the
+ * sellable's min reorder level, else the warehouse default, else the given
+ * threshold. Days of cover divide available stock by daily sales over the
+ * velocity window; sales are not split by warehouse.
+ */
+
+export interface InventoryReportOptions {
+  warehouseId?: number | undefined;
+  lowStockThreshold?: number | undefined;
+  /**
+   * Units sold per sellable over the velocity window
+   */
+  unitsSold: Map<number, number>;
+  velocityDays: number;
+  generatedAt?: Date | undefined;
+}
+
+const CSV_COLUMNS: Array<keyof InventoryReportItem> = [
+  'sellable_id',
+  'product_id',
+  'sku_code',
+  'title',
+  'status',
+  'on_hand',
+  'allocated',
+  'available',
+  'incoming',
+  'min_reorder_level',
+  'cost_price',
+  'stock_value',
+  'daily_sales',
+  'days_of_cover'
+];
+
+/**
+ * Build the inventory report of the products' sellables
+ */
+export function buildInventoryReport(
+  products: VeeqoProduct[],
+  warehouses: VeeqoWarehouse[],
+  options: InventoryReportOptions
+): Omit<InventoryReport, 'truncated'> {
+  const warehouseById = new Map(warehouses.map(warehouse => [warehouse.id, warehouse]));
+  const reported = (entry: VeeqoStockEntry) => options.warehouseId === undefined || entry.warehouse_id === options.warehouseId;
+
+  const items: InventoryReportItem[] = [];
+  const byWarehouse = new Map<number, InventoryWarehouseSummary>();
+
+  for (const product of products) {
+    for (const sellable of product.sellables ?? []) {
+      const entries = (sellable.stock_entries ?? []).filter(reported);
+      // Sellables not stocked in the reported warehouse are not part of its report
+      if (options.warehouseId !== undefined && entries.length === 0) {
+        continue;
+      }
+
+      const costPrice = Number(sellable.cost_price ?? 0);
+      const reorderWarehouse = options.warehouseId !== undefined ? warehouseById.get(options.warehouseId) : undefined;
+
+      const item = stockItem(product, sellable, entries, {
+        costPrice,
+        minReorderLevel: reorderLevel(sellable, reorderWarehouse, options.lowStockThreshold),
+        dailySales: (options.unitsSold.get(sellable.id) ?? 0) / options.velocityDays
+      });
+      items.push(item);
+
+      for (const entry of entries) {
+        const warehouse = warehouseById.get(entry.warehouse_id);
+        const summary = byWarehouse.get(entry.warehouse_id) ?? {
+          warehouse_id: entry.warehouse_id,
+          name: warehouse?.name ?? `Warehouse ${entry.warehouse_id}`,
+          ...emptyTotals()
+        };
+        const status = stockStatus(
+          Number(entry.available_stock_level),
+          reorderLevel(sellable, warehouse, options.lowStockThreshold),
+          entry.infinite
+        );
+
+        addStock(summary, {
+          on_hand: Number(entry.physical_stock_level),
+          allocated: Number(entry.allocated_stock_level),
+          available: Number(entry.available_stock_level),
+          incoming: Number(entry.incoming_stock_level ?? 0),
+          stock_value: Number(entry.physical_stock_level) * costPrice
+        }, status);
+        byWarehouse.set(entry.warehouse_id, summary);
+      }
+    }
+  }
+
+  const totals = emptyTotals();
+  items.forEach(item => addStock(totals, item, item.status));
+
+  return {
+    generated_at: (options.generatedAt ?? new Date()).toISOString(),
+    ...(options.warehouseId !== undefined ? { warehouse_id: options.warehouseId } : {}),
+    velocity_days: options.velocityDays,
+    totals: roundTotals(totals),
+    warehouses: [...byWarehouse.values()]
+      .map(roundTotals)
+      .sort((a, b) => b.stock_value - a.stock_value || a.warehouse_id - b.warehouse_id),
+    low_stock: byUrgency(items.filter(item => item.status === 'low_stock')),
+    out_of_stock: byUrgency(items.filter(item => item.status === 'out_of_stock')),
+    items
+  };
+}
+
+/**
+ * CSV export of report items, one row per sellable with a header row
+ */
+export function inventoryReportCsv(items: InventoryReportItem[]): string {
+  const rows = items.map(item => CSV_COLUMNS.map(column => csvField(item[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+function stockItem(
+  product: VeeqoProduct,
+  sellable: VeeqoSellable,
+  entries: VeeqoStockEntry[],
+  figures: { costPrice: number; minReorderLevel: number; dailySales: number }
+): InventoryReportItem {
+  const onHand = entries.reduce((total, entry) => total + Number(entry.physical_stock_level), 0);
+  const available = entries.reduce((total, entry) => total + Number(entry.available_stock_level), 0);
+  const infinite = entries.some(entry => entry.infinite);
+
+  return {
+    sellable_id: sellable.id,
+    product_id: product.id,
+    sku_code: sellable.sku_code,
+    title: sellable.full_title ?? sellable.title ?? product.title,
+    on_hand: onHand,
+    allocated: entries.reduce((total, entry) => total + Number(entry.allocated_stock_level), 0),
+    available,
+    incoming: entries.reduce((total, entry) => total + Number(entry.incoming_stock_level ?? 0), 0),
+    min_reorder_level: figures.minReorderLevel,
+    cost_price: figures.costPrice,
+    stock_value: round(onHand * figures.costPrice),
+    daily_sales: round(figures.dailySales),
+    days_of_cover: !infinite && figures.dailySales > 0 ? round(Math.max(available, 0) / figures.dailySales, 1) : null,
+    status: stockStatus(available, figures.minReorderLevel, infinite)
+  };
+}
+
+function reorderLevel(sellable: VeeqoSellable, warehouse: VeeqoWarehouse | undefined, threshold: number | undefined): number {
+  return Number(sellable.min_reorder_level ?? warehouse?.default_min_reorder ?? threshold ?? 0);
+}
+
+function stockStatus(available: number, minReorderLevel: number, infinite: boolean): InventoryStockStatus {
+  if (infinite) {
+    return 'infinite';
+  }
+  if (available <= 0) {
+    return 'out_of_stock';
+  }
+  return available <= minReorderLevel ? 'low_stock' : 'in_stock';
+}
+
+function emptyTotals(): InventoryStockTotals {
+  return { sellables: 0, on_hand: 0, allocated: 0, available: 0, incoming: 0, stock_value: 0, low_stock: 0, out_of_stock: 0 };
+}
+
+function addStock(
+  totals: InventoryStockTotals,
+  stock: Pick<InventoryStockTotals, 'on_hand' | 'allocated' | 'available' | 'incoming' | 'stock_value'>,
+  status: InventoryStockStatus
+): void {
+  totals.sellables++;
+  totals.on_hand += stock.on_hand;
+  totals.allocated += stock.allocated;
+  totals.available += stock.available;
+  totals.incoming += stock.incoming;
+  totals.stock_value += stock.stock_value;
+  if (status === 'low_stock') {
+    totals.low_stock++;
+  }
+  if (status === 'out_of_stock') {
+    totals.out_of_stock++;
+  }
+}
+
+function roundTotals<T extends InventoryStockTotals>(totals: T): T {
+  return { ...totals, stock_value: round(totals.stock_value) };
+}
+
+/**
+ * Fewest days of cover first, then sellables without sales by available stock
+ */
+function byUrgency(items: InventoryReportItem[]): InventoryReportItem[] {
+  return [...items].sort((a, b) =>
+    (a.days_of_cover ?? Infinity) - (b.days_of_cover ?? Infinity) || a.available - b.available
+  );
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  // Text that a spreadsheet would evaluate as a formula is kept as text
+  const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
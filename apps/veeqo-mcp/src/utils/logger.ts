@@ -1,4 +1,5 @@
 import winston, { Logger, format, transports } from 'winston';
+import { trace } from '@opentelemetry/api';
 import { CONSTANTS, type LoggerContext } from '../types/index.js';
 
 /**
@@ -29,10 +30,23 @@ const customLevels = {
 // Add colors to winston
 winston.addColors(customLevels.colors);
 
+/**
+ * Attach the IDs of the active trace span, so log lines can be joined with traces
+ */
+const traceContext = format(info => {
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  if (spanContext && trace.isSpanContextValid(spanContext)) {
+    info['trace_id'] = spanContext.traceId;
+    info['span_id'] = spanContext.spanId;
+  }
+  return info;
+});
+
 /**
  * Custom format for structured logging
  */
 const structuredFormat = format.combine(
+  traceContext(),
   format.timestamp({
     format: 'YYYY-MM-DD HH:mm:ss.SSS'
   }),
@@ -76,6 +90,7 @@ const structuredFormat = format.combine(
  * Console format for development
  */
 const consoleFormat = format.combine(
+  traceContext(),
   format.timestamp({ format: 'HH:mm:ss.SSS' }),
   format.errors({ stack: true }),
   format.colorize({ all: true }),
@@ -0,0 +1,304 @@
+import {
+  SalesAnalytics,
+  SalesBreakdownEntry,
+  SalesGroupBy,
+  SalesGrowth,
+  SalesMetrics,
+  SalesPeriodMetrics,
+  VeeqoError,
+  VeeqoOrder,
+  CONSTANTS
+} from '../types/index.js';
+
+/**
+ * Sales analytics
+ * Aggregates orders into revenue, units, order count and average order value per
+ * period and per channel, store, SKU and destination country, and compares the
+ * range with the window of equal length before it. Cancelled and refunded orders
+ * are not sales. Amounts are only summed within one currency: orders in several
+ * currencies are rejected, to be analysed one currency at a time.
+ */
+
+/**
+ * Date range of orders by creation time, end exclusive
+ */
+export interface SalesWindow {
+  from: Date;
+  to: Date;
+}
+
+/**
+ * Display names of channels and stores by ID
+ */
+export interface SalesNames {
+  channels: Map<number, string>;
+  stores: Map<number, string>;
+}
+
+interface Totals {
+  revenue: number;
+  units: number;
+  orders: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Resolve the requested range and the window before it. A date without a time
+ * covers its whole day (UTC). Without date_to the range ends now; without
+ * date_from it starts SALES_ANALYTICS_DEFAULT_DAYS before its end.
+ */
+export function salesWindows(
+  dateFrom?: string,
+  dateTo?: string,
+  now: Date = new Date()
+): { current: SalesWindow; previous: SalesWindow } {
+  const to = dateTo !== undefined ? parseBoundary(dateTo, true) : now;
+  const from = dateFrom !== undefined
+    ? parseBoundary(dateFrom, false)
+    : new Date(to.getTime() - CONSTANTS.SALES_ANALYTICS_DEFAULT_DAYS * DAY_MS);
+
+  if (from.getTime() >= to.getTime()) {
+    throw new VeeqoError(
+      'date_from must be before date_to',
+      'INVALID_DATE_RANGE',
+      { date_from: dateFrom, date_to: dateTo }
+    );
+  }
+
+  const length = to.getTime() - from.getTime();
+  return {
+    current: { from, to },
+    previous: { from: new Date(from.getTime() - length), to: from }
+  };
+}
+
+/**
+ * Sales analytics of the orders created in the current window, with growth
+ * against those created in the previous one. Throws MIXED_CURRENCIES when the
+ * sales of the two windows are in more than one currency.
+ */
+export function computeSalesAnalytics(
+  orders: VeeqoOrder[],
+  windows: { current: SalesWindow; previous: SalesWindow },
+  groupBy: SalesGroupBy,
+  names: SalesNames
+): Omit<SalesAnalytics, 'truncated'> {
+  const sales = orders.filter(isSale);
+  const current = sales.filter(order => inWindow(order, windows.current));
+  const previous = sales.filter(order => inWindow(order, windows.previous));
+
+  const currencies = [...new Set([...current, ...previous]
+    .map(order => order.currency_code)
+    .filter((code): code is string => !!code))].sort();
+  if (currencies.length > 1) {
+    throw new VeeqoError(
+      `Orders are in several currencies (${currencies.join(', ')}); pass currency to analyse one of them`,
+      'MIXED_CURRENCIES',
+      { currencies }
+    );
+  }
+
+  const totals = toMetrics(sum(current));
+  const previousTotals = toMetrics(sum(previous));
+
+  return {
+    date_from: windows.current.from.toISOString(),
+    date_to: windows.current.to.toISOString(),
+    group_by: groupBy,
+    currency: currencies[0] ?? null,
+    totals,
+    previous_period: {
+      date_from: windows.previous.from.toISOString(),
+      date_to: windows.previous.to.toISOString(),
+      ...previousTotals
+    },
+    growth: growth(totals, previousTotals),
+    timeline: timeline(current, windows.current, groupBy),
+    by_channel: breakdown(current, order => order.channel_id !== undefined
+      ? [String(order.channel_id), names.channels.get(order.channel_id) ?? `Channel ${order.channel_id}`]
+      : ['none', 'No channel']),
+    by_store: breakdown(current, order => order.store_id !== undefined
+      ? [String(order.store_id), names.stores.get(order.store_id) ?? `Store ${order.store_id}`]
+      : ['none', 'No store']),
+    by_sku: skuBreakdown(current).slice(0, CONSTANTS.SALES_ANALYTICS_MAX_SKUS),
+    by_country: breakdown(current, order => {
+      const country = order.deliver_to?.country;
+      return country ? [country, country] : ['unknown', 'Unknown'];
+    })
+  };
+}
+
+/**
+ * Units sold per sellable by the orders created in a window
+ */
+export function unitsSoldBySellable(orders: VeeqoOrder[], window: SalesWindow): Map<number, number> {
+  const units = new Map<number, number>();
+
+  for (const order of orders.filter(order => isSale(order) && inWindow(order, window))) {
+    for (const item of order.line_items ?? []) {
+      units.set(item.sellable_id, (units.get(item.sellable_id) ?? 0) + item.quantity);
+    }
+  }
+
+  return units;
+}
+
+function parseBoundary(value: string, end: boolean): Date {
+  const date = DATE_ONLY.test(value) ? new Date(`${value}T00:00:00Z`) : new Date(value);
+
+  if (Number.isNaN(date.getTime())) {
+    throw new VeeqoError(`Invalid date: ${value}`, 'INVALID_DATE_RANGE', { value });
+  }
+
+  return end && DATE_ONLY.test(value) ? new Date(date.getTime() + DAY_MS) : date;
+}
+
+function isSale(order: VeeqoOrder): boolean {
+  return !order.cancelled_at && !(CONSTANTS.SALES_EXCLUDED_STATUSES as readonly string[]).includes(order.status);
+}
+
+function inWindow(order: VeeqoOrder, window: SalesWindow): boolean {
+  const created = Date.parse(order.created_at);
+  return created >= window.from.getTime() && created < window.to.getTime();
+}
+
+function orderUnits(order: VeeqoOrder): number {
+  return (order.line_items ?? []).reduce((units, item) => units + item.quantity, 0);
+}
+
+function sum(orders: VeeqoOrder[]): Totals {
+  return orders.reduce<Totals>((totals, order) => ({
+    revenue: totals.revenue + Number(order.total_price ?? 0),
+    units: totals.units + orderUnits(order),
+    orders: totals.orders + 1
+  }), { revenue: 0, units: 0, orders: 0 });
+}
+
+function toMetrics(totals: Totals): SalesMetrics {
+  return {
+    revenue: round(totals.revenue),
+    units: totals.units,
+    orders: totals.orders,
+    average_order_value: totals.orders > 0 ? round(totals.revenue / totals.orders) : 0
+  };
+}
+
+function growth(current: SalesMetrics, previous: SalesMetrics): SalesGrowth {
+  const change = (now: number, before: number) => before === 0 ? null : round((now - before) / before * 100, 1);
+
+  return {
+    revenue: change(current.revenue, previous.revenue),
+    units: change(current.units, previous.units),
+    orders: change(current.orders, previous.orders),
+    average_order_value: change(current.average_order_value, previous.average_order_value)
+  };
+}
+
+/**
+ * One entry per period of the window, including periods without sales
+ */
+function timeline(orders: VeeqoOrder[], window: SalesWindow, groupBy: SalesGroupBy): SalesPeriodMetrics[] {
+  const periods = new Map<string, VeeqoOrder[]>();
+
+  for (let start = periodStart(window.from, groupBy); start < window.to; start = nextPeriod(start, groupBy)) {
+    periods.set(isoDate(start), []);
+  }
+
+  for (const order of orders) {
+    periods.get(isoDate(periodStart(new Date(order.created_at), groupBy)))?.push(order);
+  }
+
+  return [...periods].map(([start, periodOrders]) => ({
+    period_start: start,
+    ...toMetrics(sum(periodOrders))
+  }));
+}
+
+/**
+ * Group orders by a key and display name, highest revenue first
+ */
+function breakdown(orders: VeeqoOrder[], keyOf: (order: VeeqoOrder) => [string, string]): SalesBreakdownEntry[] {
+  const groups = new Map<string, { name: string; orders: VeeqoOrder[] }>();
+
+  for (const order of orders) {
+    const [key, name] = keyOf(order);
+    const group = groups.get(key) ?? { name, orders: [] };
+    group.orders.push(order);
+    groups.set(key, group);
+  }
+
+  return sortByRevenue([...groups].map(([key, group]) => ({
+    key,
+    name: group.name,
+    ...toMetrics(sum(group.orders))
+  })));
+}
+
+/**
+ * Sales by SKU from order line items: revenue is the line value after
+ * discounts, orders the number of orders containing the SKU
+ */
+function skuBreakdown(orders: VeeqoOrder[]): SalesBreakdownEntry[] {
+  const skus = new Map<string, { name: string; totals: Totals }>();
+
+  for (const order of orders) {
+    const seen = new Set<string>();
+
+    for (const item of order.line_items ?? []) {
+      const key = item.sellable?.sku_code || `sellable:${item.sellable_id}`;
+      const sku = skus.get(key) ?? {
+        name: item.sellable?.title ?? key,
+        totals: { revenue: 0, units: 0, orders: 0 }
+      };
+
+      sku.totals.revenue += item.quantity * (Number(item.price_per_unit) - Number(item.taxless_discount_per_unit ?? 0));
+      sku.totals.units += item.quantity;
+      if (!seen.has(key)) {
+        sku.totals.orders++;
+        seen.add(key);
+      }
+      skus.set(key, sku);
+    }
+  }
+
+  return sortByRevenue([...skus].map(([key, sku]) => ({
+    key,
+    name: sku.name,
+    ...toMetrics(sku.totals)
+  })));
+}
+
+function sortByRevenue(entries: SalesBreakdownEntry[]): SalesBreakdownEntry[] {
+  return entries.sort((a, b) => b.revenue - a.revenue || a.key.localeCompare(b.key));
+}
+
+function periodStart(date: Date, groupBy: SalesGroupBy): Date {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+  if (groupBy === 'week') {
+    // Weeks start on Monday
+    return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+  }
+  if (groupBy === 'month') {
+    return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1));
+  }
+  return day;
+}
+
+function nextPeriod(start: Date, groupBy: SalesGroupBy): Date {
+  if (groupBy === 'month') {
+    return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  }
+  return new Date(start.getTime() + (groupBy === 'week' ? 7 : 1) * DAY_MS);
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -38,10 +38,16 @@ export function validateEnvironmentVariables(): z.SafeParseReturnType<Record<str
     ENABLE_CACHE: process.env['ENABLE_CACHE'],
     LOG_LEVEL: process.env['LOG_LEVEL'],
     PORT: process.env['PORT'],
+    MCP_AUTH_TOKEN: process.env['MCP_AUTH_TOKEN'],
     WEBHOOK_PORT: process.env['WEBHOOK_PORT'],
     WEBHOOK_SECRET: process.env['WEBHOOK_SECRET'],
     ENABLE_WEBHOOKS: process.env['ENABLE_WEBHOOKS'],
-    REDIS_URL: process.env['REDIS_URL']
+    REDIS_URL: process.env['REDIS_URL'],
+    DATABASE_URL: process.env['DATABASE_URL'],
+    AUDIT_LOG_PATH: process.env['AUDIT_LOG_PATH'],
+    OTEL_TRACES_EXPORTER: process.env['OTEL_TRACES_EXPORTER'],
+    OTEL_EXPORTER_OTLP_ENDPOINT: process.env['OTEL_EXPORTER_OTLP_ENDPOINT'],
+    OTEL_TRACES_FILE: process.env['OTEL_TRACES_FILE']
   };
 
   const result = EnvironmentVariablesSchema.safeParse(envVars);
@@ -272,10 +278,41 @@ export function validateWarehouseOperation(data: unknown): z.SafeParseReturnType
   return result;
 }
 
+/**
+ * Tool input schemas that apply the business rules below on top of the request schemas,
+ * so the tool registry enforces the same checks as the validate* functions
+ */
+export const CreateOrderToolSchema = CreateOrderSchema.superRefine((order, ctx) =>
+  addBusinessRuleIssues(validateOrderBusinessRules(order), ctx)
+);
+
+export const CreateProductToolSchema = CreateProductSchema.superRefine((product, ctx) =>
+  addBusinessRuleIssues(validateProductBusinessRules(product), ctx)
+);
+
+export const CreateCustomerToolSchema = CreateCustomerSchema.superRefine((customer, ctx) =>
+  addBusinessRuleIssues(validateCustomerBusinessRules(customer), ctx)
+);
+
+export const UpdateInventoryToolSchema = UpdateInventorySchema.superRefine((inventory, ctx) =>
+  addBusinessRuleIssues(validateInventoryBusinessRules(inventory), ctx)
+);
+
 /**
  * BUSINESS RULE VALIDATIONS
  */
 
+/**
+ * Report business rule failures as zod issues
+ */
+function addBusinessRuleIssues(validation: { isValid: boolean; errors: string[] }, ctx: z.RefinementCtx): void {
+  validation.errors.forEach(message => ctx.addIssue({
+    code: z.ZodIssueCode.custom,
+    path: [],
+    message
+  }));
+}
+
 /**
  * Validate order business rules
  */
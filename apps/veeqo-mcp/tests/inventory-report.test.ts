@@ -0,0 +1,249 @@
+import { VeeqoHandlers } from '../src/handlers/veeqo.js';
+import { VeeqoClient } from '../src/services/veeqo-client.js';
+import { VeeqoOrder, VeeqoProduct, VeeqoSellable, VeeqoStockEntry, VeeqoWarehouse } from '../src/types/index.js';
+import { buildInventoryReport, inventoryReportCsv } from '../src/utils/inventory-report.js';
+
+jest.mock('../src/utils/logger', () => ({
+  ...jest.requireActual('../src/utils/logger'),
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+function stock(warehouseId: number, physical: number, allocated: number, incoming = 0, infinite = false): VeeqoStockEntry {
+  return {
+    sellable_id: 0,
+    warehouse_id: warehouseId,
+    infinite,
+    physical_stock_level: physical,
+    allocated_stock_level: allocated,
+    available_stock_level: physical - allocated,
+    incoming_stock_level: incoming,
+    updated_at: '2026-10-18T00:00:00Z'
+  };
+}
+
+function sellable(id: number, skuCode: string, costPrice: number, entries: VeeqoStockEntry[], overrides: Partial<VeeqoSellable> = {}): VeeqoSellable {
+  return {
+    id,
+    type: 'ProductVariant',
+    title: skuCode,
+    sku_code: skuCode,
+    price: costPrice * 2,
+    cost_price: costPrice,
+    weight_grams: 100,
+    weight_unit: 'g',
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    stock_entries: entries.map(entry => ({ ...entry, sellable_id: id })),
+    ...overrides
+  };
+}
+
+function product(id: number, title: string, sellables: VeeqoSellable[]): VeeqoProduct {
+  return { id, title, created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z', sellables };
+}
+
+function warehouse(id: number, name: string, defaultMinReorder?: number): VeeqoWarehouse {
+  return {
+    id,
+    name,
+    address_line_1: '1 Dock Road',
+    city: 'London',
+    region: '',
+    country: 'GB',
+    post_code: 'E1 1AA',
+    inventory_type_code: 'bin',
+    click_and_collect_enabled: false,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...(defaultMinReorder !== undefined ? { default_min_reorder: defaultMinReorder } : {})
+  };
+}
+
+const warehouses = [warehouse(1, 'Main', 5), warehouse(2, 'Overflow')];
+
+const products = [
+  product(1, 'T-shirt', [
+    sellable(101, 'TS-S', 4.5, [stock(1, 20, 5, 10), stock(2, 8, 0)], { min_reorder_level: 10, full_title: 'T-shirt - Small' }),
+    sellable(102, 'TS-M', 4.5, [stock(1, 3, 0)], { full_title: 'T-shirt - Medium' })
+  ]),
+  product(2, 'Mug', [
+    sellable(201, '=MUG', 2, [stock(2, 0, 2)], { title: 'Mug, "large"' }),
+    sellable(202, 'MUG-S', 2, [stock(1, 4, 0)], { min_reorder_level: 5 })
+  ]),
+  product(3, 'Gift card', [
+    sellable(301, 'GIFT', 0, [stock(1, 0, 0, 0, true)])
+  ]),
+  product(4, 'Discontinued', [])
+];
+
+const unitsSold = new Map([[101, 60], [102, 30], [201, 15], [301, 90]]);
+const generatedAt = new Date('2026-10-18T12:00:00Z');
+
+function report(options: { warehouseId?: number; lowStockThreshold?: number } = {}) {
+  return buildInventoryReport(products, warehouses, { lowStockThreshold: 3, unitsSold, velocityDays: 30, generatedAt, ...options });
+}
+
+function item(result: ReturnType<typeof report>, sellableId: number) {
+  return result.items.find(entry => entry.sellable_id === sellableId);
+}
+
+describe('Inventory report', () => {
+  describe('buildInventoryReport', () => {
+    it('should sum each sellable over its warehouses and value on-hand stock at cost', () => {
+      expect(item(report(), 101)).toEqual({
+        sellable_id: 101,
+        product_id: 1,
+        sku_code: 'TS-S',
+        title: 'T-shirt - Small',
+        on_hand: 28,
+        allocated: 5,
+        available: 23,
+        incoming: 10,
+        min_reorder_level: 10,
+        cost_price: 4.5,
+        stock_value: 126,
+        daily_sales: 2,
+        days_of_cover: 11.5,
+        status: 'in_stock'
+      });
+    });
+
+    it('should total every sellable', () => {
+      const result = report();
+
+      expect(result).toMatchObject({
+        generated_at: '2026-10-18T12:00:00.000Z',
+        velocity_days: 30,
+        totals: {
+          sellables: 5,
+          on_hand: 35,
+          allocated: 7,
+          available: 28,
+          incoming: 10,
+          stock_value: 147.5,
+          low_stock: 2,
+          out_of_stock: 1
+        }
+      });
+      expect(result).not.toHaveProperty('warehouse_id');
+    });
+
+    it('should only give days of cover to finite stock with sales', () => {
+      const result = report();
+
+      expect(item(result, 201)).toMatchObject({ available: -2, daily_sales: 0.5, days_of_cover: 0, status: 'out_of_stock' });
+      expect(item(result, 202)).toMatchObject({ daily_sales: 0, days_of_cover: null });
+      expect(item(result, 301)).toMatchObject({ daily_sales: 3, days_of_cover: null, status: 'infinite' });
+    });
+
+    it('should take the reorder level from the sellable, else the warehouse, else the threshold', () => {
+      expect(item(report(), 101)!.min_reorder_level).toBe(10);
+      expect(item(report({ warehouseId: 1 }), 102)!.min_reorder_level).toBe(5);
+      expect(item(report(), 102)!.min_reorder_level).toBe(3);
+      expect(item(report({ lowStockThreshold: undefined }), 102)).toMatchObject({ min_reorder_level: 0, status: 'in_stock' });
+    });
+
+    it('should list low and out of stock sellables, fewest days of cover first', () => {
+      const result = report();
+
+      expect(result.low_stock.map(entry => entry.sellable_id)).toEqual([102, 202]);
+      expect(result.out_of_stock.map(entry => entry.sellable_id)).toEqual([201]);
+    });
+
+    it('should summarise each warehouse against its own reorder levels, highest value first', () => {
+      expect(report().warehouses).toEqual([
+        { warehouse_id: 1, name: 'Main', sellables: 4, on_hand: 27, allocated: 5, available: 22, incoming: 10, stock_value: 111.5, low_stock: 2, out_of_stock: 0 },
+        { warehouse_id: 2, name: 'Overflow', sellables: 2, on_hand: 8, allocated: 2, available: 6, incoming: 0, stock_value: 36, low_stock: 1, out_of_stock: 1 }
+      ]);
+    });
+
+    it('should name warehouses it has no details of by ID', () => {
+      const result = buildInventoryReport(products, [], { unitsSold, velocityDays: 30 });
+
+      expect(result.warehouses.map(summary => summary.name)).toEqual(['Warehouse 1', 'Warehouse 2']);
+    });
+
+    it('should only report the sellables and stock of the filtered warehouse', () => {
+      const result = report({ warehouseId: 2 });
+
+      expect(result.warehouse_id).toBe(2);
+      expect(result.items.map(entry => entry.sellable_id)).toEqual([101, 201]);
+      expect(item(result, 101)).toMatchObject({ on_hand: 8, available: 8, stock_value: 36, days_of_cover: 4, status: 'low_stock' });
+      expect(result.warehouses.map(summary => summary.warehouse_id)).toEqual([2]);
+      expect(result.totals).toMatchObject({ sellables: 2, on_hand: 8, low_stock: 1, out_of_stock: 1 });
+    });
+  });
+
+  describe('inventoryReportCsv', () => {
+    it('should export one row per sellable with a header row', () => {
+      const lines = inventoryReportCsv(report().items).split('\r\n');
+
+      expect(lines).toHaveLength(7);
+      expect(lines[0]).toBe('sellable_id,product_id,sku_code,title,status,on_hand,allocated,available,incoming,min_reorder_level,cost_price,stock_value,daily_sales,days_of_cover');
+      expect(lines[1]).toBe('101,1,TS-S,T-shirt - Small,in_stock,28,5,23,10,10,4.5,126,2,11.5');
+      expect(lines[4]).toBe('202,2,MUG-S,MUG-S,low_stock,4,0,4,0,5,2,8,0,');
+      expect(lines[6]).toBe('');
+    });
+
+    it('should quote separators and keep formulas as text', () => {
+      const lines = inventoryReportCsv(report().items).split('\r\n');
+
+      expect(lines[3]).toBe(`201,2,'=MUG,"Mug, ""large""",out_of_stock,0,2,-2,0,3,2,0,0.5,0`);
+    });
+
+    it('should export a header row without items', () => {
+      expect(inventoryReportCsv([])).toMatch(/^sellable_id,[a-z_,]+\r\n$/);
+    });
+  });
+
+  describe('VeeqoHandlers.getInventoryReport', () => {
+    let handlers: VeeqoHandlers;
+    let getOrders: jest.SpyInstance;
+
+    const recentOrder = {
+      id: 1,
+      status: 'shipped',
+      created_at: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
+      line_items: [{ sellable_id: 101, quantity: 14 }]
+    } as VeeqoOrder;
+
+    beforeEach(() => {
+      handlers = new VeeqoHandlers({} as VeeqoClient);
+      jest.spyOn(handlers, 'getProducts').mockResolvedValue({ items: products });
+      jest.spyOn(handlers, 'getWarehouses').mockResolvedValue(warehouses);
+      getOrders = jest.spyOn(handlers, 'getOrders').mockResolvedValue({ items: [recentOrder] });
+    });
+
+    it('should use the sales of the velocity window for days of cover', async () => {
+      const result = await handlers.getInventoryReport({ velocity_days: 7, warehouse_id: 1 });
+      const velocityStart = Date.parse(getOrders.mock.calls[0][0].created_at_min);
+
+      expect(Date.now() - velocityStart).toBeGreaterThanOrEqual(7 * 24 * 60 * 60 * 1000);
+      expect(Date.now() - velocityStart).toBeLessThan(8 * 24 * 60 * 60 * 1000);
+      expect(getOrders).toHaveBeenCalledWith(expect.any(Object), { all: true });
+      expect(result).toMatchObject({ warehouse_id: 1, velocity_days: 7, truncated: false });
+      expect(result.items.find(entry => entry.sellable_id === 101)).toMatchObject({ daily_sales: 2, days_of_cover: 7.5 });
+    });
+
+    it('should report without warehouse names and flag truncated reads', async () => {
+      jest.spyOn(handlers, 'getWarehouses').mockRejectedValue(new Error('Forbidden'));
+      jest.spyOn(handlers, 'getProducts').mockResolvedValue({ items: products, nextCursor: 'more' });
+
+      const result = await handlers.getInventoryReport();
+
+      expect(result.warehouses.map(summary => summary.name)).toEqual(['Warehouse 1', 'Warehouse 2']);
+      expect(result.truncated).toBe(true);
+    });
+
+    it('should fail with INVENTORY_REPORT_FAILED when products cannot be read', async () => {
+      jest.spyOn(handlers, 'getProducts').mockRejectedValue(new Error('socket hang up'));
+
+      await expect(handlers.getInventoryReport()).rejects.toMatchObject({ code: 'INVENTORY_REPORT_FAILED' });
+    });
+  });
+});
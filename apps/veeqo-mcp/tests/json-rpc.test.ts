@@ -0,0 +1,256 @@
+import request from 'supertest';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { VeeqoMCPServer } from '../src/server.js';
+import { VeeqoError, VeeqoMCPServerConfig } from '../src/types/index.js';
+
+jest.mock('../src/utils/logger', () => ({
+  ...jest.requireActual('../src/utils/logger'),
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const token = 'veeqo-mcp-test-token-0123';
+
+const warehouses = [
+  { id: 1, name: 'Main warehouse' },
+  { id: 2, name: 'Overflow' }
+];
+
+function createServer(overrides: Partial<VeeqoMCPServerConfig> = {}): VeeqoMCPServer {
+  return new VeeqoMCPServer({
+    name: 'test-veeqo-mcp-server',
+    version: '1.0.0',
+    apiKey: 'test-veeqo-api-key',
+    apiUrl: 'https://api.veeqo.com',
+    environment: 'test',
+    timeout: 30000,
+    retryAttempts: 0,
+    enableCache: false,
+    logLevel: 'error',
+    port: 3002,
+    mcpAuthToken: token,
+    enableWebhooks: false,
+    ...overrides
+  });
+}
+
+describe('JSON-RPC endpoints', () => {
+  let server: VeeqoMCPServer;
+
+  const post = (path: string, body: unknown) => request((server as any).app)
+    .post(path)
+    .set('Authorization', `Bearer ${token}`)
+    .send(body as object);
+
+  beforeEach(() => {
+    server = createServer();
+    jest.spyOn((server as any).handlers, 'getWarehouses').mockResolvedValue(warehouses);
+  });
+
+  afterEach(() => {
+    (server as any).resultSets.close();
+  });
+
+  describe('authentication', () => {
+    it('should not serve the endpoints without a token', async () => {
+      server = createServer({ mcpAuthToken: undefined });
+
+      const single = await post('/mcp', { jsonrpc: '2.0', id: 1, method: 'ping' });
+      const batch = await post('/mcp/batch', [{ jsonrpc: '2.0', id: 1, method: 'ping' }]);
+
+      expect(single.status).toBe(404);
+      expect(batch.status).toBe(404);
+    });
+
+    it('should reject requests without a valid token', async () => {
+      const missing = await request((server as any).app).post('/mcp').send({ jsonrpc: '2.0', id: 1, method: 'ping' });
+      const wrong = await post('/mcp/batch', [{ jsonrpc: '2.0', id: 1, method: 'ping' }])
+        .set('Authorization', 'Bearer wrong-token');
+
+      expect(missing.status).toBe(401);
+      expect(missing.headers['www-authenticate']).toBe('Bearer');
+      expect(missing.body).toEqual({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: ErrorCode.InvalidRequest, message: 'Missing or invalid API key' }
+      });
+      expect(wrong.status).toBe(401);
+    });
+
+    it('should accept the token as a bearer token or an API key', async () => {
+      const bearer = await post('/mcp', { jsonrpc: '2.0', id: 1, method: 'ping' });
+      const apiKey = await request((server as any).app)
+        .post('/mcp')
+        .set('x-api-key', token)
+        .send({ jsonrpc: '2.0', id: 1, method: 'ping' });
+
+      expect(bearer.status).toBe(200);
+      expect(apiKey.status).toBe(200);
+    });
+
+    it('should only rate limit requests without the token', async () => {
+      for (let call = 0; call < 100; call++) {
+        await request((server as any).app).post('/mcp').send({ jsonrpc: '2.0', id: call, method: 'ping' });
+      }
+
+      const limited = await request((server as any).app).post('/mcp').send({ jsonrpc: '2.0', id: 1, method: 'ping' });
+      const single = await post('/mcp', { jsonrpc: '2.0', id: 1, method: 'ping' });
+      const batch = await post('/mcp/batch', [{ jsonrpc: '2.0', id: 1, method: 'ping' }]);
+
+      expect(limited.status).toBe(429);
+      expect(single.status).toBe(200);
+      expect(batch.status).toBe(200);
+    });
+  });
+
+  describe('POST /mcp', () => {
+    it('should answer with a JSON-RPC 2.0 envelope echoing the request ID', async () => {
+      const numeric = await post('/mcp', { jsonrpc: '2.0', id: 7, method: 'ping' });
+      const text = await post('/mcp', { jsonrpc: '2.0', id: 'req-1', method: 'ping' });
+
+      expect(numeric.body).toEqual({ jsonrpc: '2.0', id: 7, result: {} });
+      expect(text.body).toEqual({ jsonrpc: '2.0', id: 'req-1', result: {} });
+    });
+
+    it('should list tools and call them through tools/call', async () => {
+      const list = await post('/mcp', { jsonrpc: '2.0', id: 1, method: 'tools/list' });
+      const call = await post('/mcp', {
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'tools/call',
+        params: { name: 'get_warehouses', arguments: {} }
+      });
+
+      expect(list.body.result.tools.map((tool: { name: string }) => tool.name)).toContain('get_warehouses');
+      expect(call.body.result.content[0]).toEqual({ type: 'text', text: 'Found 2 warehouses' });
+    });
+
+    it('should return the JSON payload of a tool called by its bare name', async () => {
+      const response = await post('/mcp', { jsonrpc: '2.0', id: 1, method: 'get_warehouses' });
+
+      expect(response.body).toEqual({ jsonrpc: '2.0', id: 1, result: warehouses });
+    });
+
+    it('should answer notifications with 204 and no body', async () => {
+      const response = await post('/mcp', { jsonrpc: '2.0', method: 'ping' });
+
+      expect(response.status).toBe(204);
+      expect(response.text).toBe('');
+    });
+
+    it('should report malformed JSON as a parse error', async () => {
+      const response = await request((server as any).app)
+        .post('/mcp')
+        .set('Authorization', `Bearer ${token}`)
+        .set('Content-Type', 'application/json')
+        .send('{"jsonrpc": "2.0",');
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ jsonrpc: '2.0', id: null, error: { code: ErrorCode.ParseError, message: 'Parse error' } });
+    });
+
+    it('should reject messages that are not JSON-RPC 2.0 requests', async () => {
+      const wrongVersion = await post('/mcp', { jsonrpc: '1.0', id: 3, method: 'ping' });
+      const noMethod = await post('/mcp', { jsonrpc: '2.0', id: 4 });
+
+      expect(wrongVersion.body).toEqual({
+        jsonrpc: '2.0',
+        id: 3,
+        error: { code: ErrorCode.InvalidRequest, message: 'Invalid JSON-RPC 2.0 request' }
+      });
+      expect(noMethod.body.error.code).toBe(ErrorCode.InvalidRequest);
+    });
+
+    it('should send batches to /mcp/batch', async () => {
+      const response = await post('/mcp', [{ jsonrpc: '2.0', id: 1, method: 'ping' }]);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toEqual({ code: ErrorCode.InvalidRequest, message: 'Batch requests must be sent to /mcp/batch' });
+    });
+
+    it('should map failures to JSON-RPC error codes', async () => {
+      jest.spyOn((server as any).handlers, 'getWarehouse').mockRejectedValue(
+        new VeeqoError('Warehouse not found', 'NOT_FOUND', { warehouseId: 9 }, 404)
+      );
+
+      const unknown = await post('/mcp', { jsonrpc: '2.0', id: 1, method: 'no_such_method' });
+      const noName = await post('/mcp', { jsonrpc: '2.0', id: 2, method: 'tools/call', params: {} });
+      const invalid = await post('/mcp', { jsonrpc: '2.0', id: 3, method: 'get_warehouse', params: { warehouseId: 'main' } });
+      const upstream = await post('/mcp', { jsonrpc: '2.0', id: 4, method: 'get_warehouse', params: { warehouseId: 9 } });
+
+      expect(unknown.body.error).toEqual({ code: ErrorCode.MethodNotFound, message: `MCP error ${ErrorCode.MethodNotFound}: Unknown method: no_such_method` });
+      expect(noName.body.error).toEqual({ code: ErrorCode.InvalidParams, message: `MCP error ${ErrorCode.InvalidParams}: Tool name is required` });
+      expect(invalid.body.error).toMatchObject({ code: ErrorCode.InvalidParams, message: `MCP error ${ErrorCode.InvalidParams}: Invalid get_warehouse parameters` });
+      expect(upstream.body.error).toEqual({
+        code: ErrorCode.InvalidRequest,
+        message: `MCP error ${ErrorCode.InvalidRequest}: Veeqo API error: Warehouse not found`,
+        data: { warehouseId: 9 }
+      });
+    });
+
+    it('should hide unexpected failures behind an internal error', async () => {
+      jest.spyOn((server as any).handlers, 'getWarehouses').mockRejectedValue(new Error('socket hang up'));
+
+      const response = await post('/mcp', { jsonrpc: '2.0', id: 1, method: 'get_warehouses' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.error).toEqual({ code: ErrorCode.InternalError, message: `MCP error ${ErrorCode.InternalError}: Internal server error occurred` });
+    });
+  });
+
+  describe('POST /mcp/batch', () => {
+    it('should answer every request in order, each succeeding or failing on its own', async () => {
+      const response = await post('/mcp/batch', [
+        { jsonrpc: '2.0', id: 1, method: 'get_warehouses' },
+        { jsonrpc: '2.0', id: 2, method: 'no_such_method' },
+        { jsonrpc: '2.0', id: 3, method: 'ping' }
+      ]);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([
+        { jsonrpc: '2.0', id: 1, result: warehouses },
+        { jsonrpc: '2.0', id: 2, error: { code: ErrorCode.MethodNotFound, message: `MCP error ${ErrorCode.MethodNotFound}: Unknown method: no_such_method` } },
+        { jsonrpc: '2.0', id: 3, result: {} }
+      ]);
+    });
+
+    it('should omit notifications but answer invalid items', async () => {
+      const response = await post('/mcp/batch', [
+        { jsonrpc: '2.0', method: 'ping' },
+        { jsonrpc: '2.0', method: 'no_such_method' },
+        'not a request',
+        { jsonrpc: '2.0', id: 5, method: 'ping' }
+      ]);
+
+      expect(response.body).toEqual([
+        { jsonrpc: '2.0', id: null, error: { code: ErrorCode.InvalidRequest, message: 'Invalid JSON-RPC 2.0 request' } },
+        { jsonrpc: '2.0', id: 5, result: {} }
+      ]);
+    });
+
+    it('should answer a batch of notifications with 204', async () => {
+      const response = await post('/mcp/batch', [
+        { jsonrpc: '2.0', method: 'ping' },
+        { jsonrpc: '2.0', method: 'ping' }
+      ]);
+
+      expect(response.status).toBe(204);
+    });
+
+    it('should reject empty, non-array and oversized batches', async () => {
+      const empty = await post('/mcp/batch', []);
+      const single = await post('/mcp/batch', { jsonrpc: '2.0', id: 1, method: 'ping' });
+      const oversized = await post('/mcp/batch', Array.from({ length: 51 }, (_, id) => ({ jsonrpc: '2.0', id, method: 'ping' })));
+
+      expect(empty.status).toBe(400);
+      expect(empty.body.error.message).toBe('Batch must be a non-empty array of JSON-RPC requests');
+      expect(single.status).toBe(400);
+      expect(oversized.status).toBe(400);
+      expect(oversized.body.error).toEqual({ code: ErrorCode.InvalidRequest, message: 'Batch size 51 exceeds maximum of 50' });
+    });
+  });
+});
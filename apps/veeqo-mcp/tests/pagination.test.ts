@@ -0,0 +1,219 @@
+import nock from 'nock';
+import { VeeqoClient } from '../src/services/veeqo-client.js';
+import { ResultSetStore } from '../src/services/result-set-store.js';
+import { listResult } from '../src/tools/registry.js';
+import { CONSTANTS, VeeqoPage } from '../src/types/index.js';
+
+jest.mock('../src/utils/logger', () => ({
+  ...jest.requireActual('../src/utils/logger'),
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    performance: jest.fn(),
+    veeqoApi: jest.fn()
+  }
+}));
+
+const apiUrl = 'https://api.veeqo.com';
+
+interface Item {
+  id: number;
+}
+
+function items(from: number, count: number): Item[] {
+  return Array.from({ length: count }, (_, index) => ({ id: from + index }));
+}
+
+function decode(cursor: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+}
+
+function encode(position: unknown): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+describe('List pagination', () => {
+  let client: VeeqoClient;
+
+  beforeEach(() => {
+    client = new VeeqoClient({
+      apiKey: 'test-veeqo-api-key',
+      apiUrl,
+      timeout: 30000,
+      retryAttempts: 0,
+      enableCache: false
+    });
+  });
+
+  afterEach(async () => {
+    nock.cleanAll();
+    await client.dispose();
+  });
+
+  describe('pages', () => {
+    it('should request the page with the filters and read the total count', async () => {
+      nock(apiUrl)
+        .get('/orders')
+        .query({ status: 'shipped', page: '1', page_size: '100' })
+        .reply(200, items(1, 3), { 'X-Total-Count': '3' });
+
+      const result = await client.list<Item>('/orders', { status: 'shipped', query: undefined });
+
+      expect(result).toEqual({ items: items(1, 3), totalCount: 3 });
+    });
+
+    it('should leave out a missing or invalid total count', async () => {
+      nock(apiUrl).get('/orders').query(true).reply(200, items(1, 2));
+      nock(apiUrl).get('/orders').query(true).reply(200, items(1, 2), { 'X-Total-Count': 'many' });
+      nock(apiUrl).get('/orders').query(true).reply(200, items(1, 2), { 'X-Total-Count': '-1' });
+
+      for (let call = 0; call < 3; call++) {
+        const result = await client.list<Item>('/orders', {});
+        expect(result.items).toEqual(items(1, 2));
+        expect(result.totalCount).toBeUndefined();
+      }
+    });
+  });
+
+  describe('cursors', () => {
+    let pages: jest.SpyInstance;
+
+    // Serves total items in pages, reporting the total count unless told not to
+    function serve(total: number, reportTotal = true): void {
+      pages = jest.spyOn(client, 'getPage').mockImplementation(async (_path, _query, page, pageSize) => ({
+        items: items((page - 1) * pageSize + 1, Math.max(0, Math.min(pageSize, total - (page - 1) * pageSize))),
+        ...(reportTotal ? { totalCount: total } : {})
+      }) as VeeqoPage<any>);
+    }
+
+    it('should return one page by default with a cursor to the next', async () => {
+      serve(250);
+
+      const result = await client.list<Item>('/orders', { status: 'shipped' });
+
+      expect(result.items).toEqual(items(1, 100));
+      expect(result.totalCount).toBe(250);
+      expect(decode(result.nextCursor!)).toEqual({
+        path: '/orders',
+        query: { status: 'shipped' },
+        page: 2,
+        pageSize: 100,
+        skip: 0
+      });
+    });
+
+    it('should continue within a page and carry the filters of the first call', async () => {
+      serve(250);
+
+      const first = await client.list<Item>('/orders', { status: 'shipped', page_size: 10 }, { limit: 4 });
+      const second = await client.list<Item>('/orders', { status: 'cancelled' }, { cursor: first.nextCursor!, limit: 10 });
+
+      expect(first.items).toEqual(items(1, 4));
+      expect(decode(first.nextCursor!)).toMatchObject({ page: 1, pageSize: 10, skip: 4 });
+      expect(second.items).toEqual(items(5, 10));
+      expect(decode(second.nextCursor!)).toMatchObject({ page: 2, skip: 4 });
+      expect(pages).toHaveBeenLastCalledWith('/orders', { status: 'shipped' }, 2, 10);
+    });
+
+    it('should end without a cursor on the last page', async () => {
+      serve(250);
+
+      const result = await client.list<Item>('/orders', { page: 3 });
+
+      expect(result.items).toEqual(items(201, 50));
+      expect(result.nextCursor).toBeUndefined();
+    });
+
+    it('should read every page with all', async () => {
+      serve(250);
+
+      const result = await client.list<Item>('/orders', {}, { all: true });
+
+      expect(result.items).toEqual(items(1, 250));
+      expect(result.nextCursor).toBeUndefined();
+      expect(pages).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop at MAX_LIST_ITEMS and return a cursor to the rest', async () => {
+      serve(CONSTANTS.MAX_LIST_ITEMS + 50);
+
+      const result = await client.list<Item>('/orders', {}, { all: true });
+
+      expect(result.items).toHaveLength(CONSTANTS.MAX_LIST_ITEMS);
+      expect(decode(result.nextCursor!)).toMatchObject({ page: CONSTANTS.MAX_LIST_ITEMS / 100 + 1, skip: 0 });
+    });
+
+    it('should follow full pages without a total count', async () => {
+      serve(200, false);
+
+      const full = await client.list<Item>('/orders', {});
+      const last = await client.list<Item>('/orders', {}, { cursor: full.nextCursor! });
+      const empty = await client.list<Item>('/orders', {}, { cursor: last.nextCursor! });
+
+      expect(full.nextCursor).toBeDefined();
+      expect(last.items).toEqual(items(101, 100));
+      expect(empty).toEqual({ items: [] });
+    });
+
+    it('should reject malformed, tampered and foreign cursors', async () => {
+      serve(250);
+      const { nextCursor } = await client.list<Item>('/products', {});
+      const position = { path: '/orders', query: {}, page: 2, pageSize: 100, skip: 0 };
+
+      const cursors = [
+        'not-a-cursor',
+        nextCursor!,
+        encode({ ...position, pageSize: 1000 }),
+        encode({ ...position, page: 0 }),
+        encode({ ...position, skip: -1 }),
+        encode({ ...position, query: { status: 1 } }),
+        encode(null)
+      ];
+
+      for (const cursor of cursors) {
+        await expect(client.list('/orders', {}, { cursor })).rejects.toMatchObject({
+          code: 'INVALID_CURSOR',
+          details: { cursor }
+        });
+      }
+      expect(pages).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('listResult', () => {
+    let resultSets: ResultSetStore;
+
+    beforeEach(() => {
+      resultSets = new ResultSetStore();
+    });
+
+    afterEach(() => {
+      resultSets.close();
+    });
+
+    it('should return a small list inline', () => {
+      const result = listResult('get_orders', 'orders', { items: items(1, 2), totalCount: 5, nextCursor: 'next' }, resultSets);
+
+      expect(result.content.map(block => block.text)).toEqual([
+        'Found 2 orders (of 5)',
+        'More available: pass nextCursor as cursor to continue',
+        JSON.stringify({ items: items(1, 2), count: 2, totalCount: 5, nextCursor: 'next' }, null, 2)
+      ]);
+      expect(resultSets.getResourceDefinitions()).toEqual([]);
+    });
+
+    it('should store a list over LIST_INLINE_MAX_BYTES as a resource', () => {
+      const large = Array.from({ length: 2000 }, (_, id) => ({ id, notes: 'x'.repeat(100) }));
+
+      const result = listResult('get_orders', 'orders', { items: large, totalCount: 2000 }, resultSets);
+      const summary = JSON.parse(result.content[2]!.text);
+
+      expect(result.content[1]!.text).toMatch(/^Too large to return inline \(\d+ bytes\)\. Resource URI: /);
+      expect(summary).toMatchObject({ tool: 'get_orders', format: 'json', count: 2000, totalCount: 2000 });
+      expect(summary.byteLength).toBeGreaterThan(CONSTANTS.LIST_INLINE_MAX_BYTES);
+      expect(JSON.parse(resultSets.get(summary.uri)!.content)).toEqual({ items: large, count: 2000, totalCount: 2000 });
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import { VeeqoHandlers } from '../src/handlers/veeqo.js';
+import { VeeqoClient } from '../src/services/veeqo-client.js';
+import { VeeqoLineItem, VeeqoOrder } from '../src/types/index.js';
+import { computeSalesAnalytics, salesWindows, unitsSoldBySellable } from '../src/utils/sales-analytics.js';
+
+jest.mock('../src/utils/logger', () => ({
+  ...jest.requireActual('../src/utils/logger'),
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+let nextId = 1;
+
+function order(overrides: Partial<VeeqoOrder>): VeeqoOrder {
+  const id = nextId++;
+  return {
+    id,
+    number: `#${id}`,
+    status: 'shipped',
+    created_at: '2026-10-05T10:00:00Z',
+    updated_at: '2026-10-05T10:00:00Z',
+    deliver_to: { address_line_1: '1 High Street', city: 'London', region: '', country: 'GB', post_code: 'N1 1AA' },
+    total_price: 0,
+    subtotal_price: 0,
+    delivery_cost: 0,
+    total_tax: 0,
+    currency_code: 'GBP',
+    ...overrides
+  };
+}
+
+function line(sellableId: number, quantity: number, pricePerUnit: number, overrides: Partial<VeeqoLineItem> = {}): VeeqoLineItem {
+  return {
+    id: nextId++,
+    sellable_id: sellableId,
+    quantity,
+    price_per_unit: pricePerUnit,
+    tax_rate: 0,
+    created_at: '2026-10-05T10:00:00Z',
+    updated_at: '2026-10-05T10:00:00Z',
+    ...overrides
+  };
+}
+
+const widget = { id: 11, sku_code: 'SKU-A', title: 'Widget' } as VeeqoLineItem['sellable'];
+
+// Monday 5 to Sunday 18 October, compared with the two weeks before
+const windows = salesWindows('2026-10-05', '2026-10-18');
+const names = {
+  channels: new Map([[1, 'Web shop']]),
+  stores: new Map([[10, 'Main store']])
+};
+
+const orders = [
+  order({
+    created_at: '2026-10-05T10:00:00Z',
+    total_price: 100,
+    channel_id: 1,
+    store_id: 10,
+    line_items: [
+      line(11, 2, 30, { taxless_discount_per_unit: 5, sellable: widget }),
+      line(22, 1, 50)
+    ]
+  }),
+  order({
+    created_at: '2026-10-12T09:00:00Z',
+    total_price: 60,
+    channel_id: 2,
+    deliver_to: { address_line_1: '1 Main Street', city: 'Boston', region: 'MA', country: 'US', post_code: '02101' },
+    line_items: [line(11, 1, 30, { sellable: widget })]
+  }),
+  order({ created_at: '2026-10-06T10:00:00Z', total_price: 1000, status: 'cancelled', line_items: [line(11, 9, 30)] }),
+  order({ created_at: '2026-10-06T10:00:00Z', total_price: 1000, status: 'refunded', line_items: [line(11, 9, 30)] }),
+  order({ created_at: '2026-10-06T10:00:00Z', total_price: 1000, cancelled_at: '2026-10-07T10:00:00Z', line_items: [line(11, 9, 30)] }),
+  order({ created_at: '2026-09-28T10:00:00Z', total_price: 80, channel_id: 1, line_items: [line(11, 2, 40)] }),
+  order({ created_at: '2026-09-01T10:00:00Z', total_price: 500, line_items: [line(11, 9, 30)] }),
+  order({ created_at: '2026-10-19T00:00:00Z', total_price: 500, line_items: [line(11, 9, 30)] })
+];
+
+describe('Sales analytics', () => {
+  describe('salesWindows', () => {
+    it('should cover whole days and compare with the window of equal length before', () => {
+      expect(windows.current).toEqual({ from: new Date('2026-10-05T00:00:00Z'), to: new Date('2026-10-19T00:00:00Z') });
+      expect(windows.previous).toEqual({ from: new Date('2026-09-21T00:00:00Z'), to: new Date('2026-10-05T00:00:00Z') });
+    });
+
+    it('should keep the time of date-times', () => {
+      const { current } = salesWindows('2026-10-05T12:00:00Z', '2026-10-06T06:00:00Z');
+
+      expect(current).toEqual({ from: new Date('2026-10-05T12:00:00Z'), to: new Date('2026-10-06T06:00:00Z') });
+    });
+
+    it('should default to the 30 days before date_to or now', () => {
+      const now = new Date('2026-10-18T12:00:00Z');
+
+      expect(salesWindows(undefined, undefined, now).current).toEqual({ from: new Date('2026-09-18T12:00:00Z'), to: now });
+      expect(salesWindows(undefined, '2026-10-18', now).current.from).toEqual(new Date('2026-09-19T00:00:00Z'));
+    });
+
+    it('should reject empty, reversed and invalid ranges', () => {
+      expect(() => salesWindows('2026-10-05T00:00:00Z', '2026-10-05T00:00:00Z')).toThrow('date_from must be before date_to');
+      expect(() => salesWindows('2026-10-18', '2026-10-05')).toThrow(expect.objectContaining({ code: 'INVALID_DATE_RANGE' }));
+      expect(() => salesWindows('last week')).toThrow('Invalid date: last week');
+    });
+  });
+
+  describe('computeSalesAnalytics', () => {
+    const analytics = computeSalesAnalytics(orders, windows, 'week', names);
+
+    it('should total the sales of each window and their growth', () => {
+      expect(analytics).toMatchObject({
+        date_from: '2026-10-05T00:00:00.000Z',
+        date_to: '2026-10-19T00:00:00.000Z',
+        group_by: 'week',
+        currency: 'GBP',
+        totals: { revenue: 160, units: 4, orders: 2, average_order_value: 80 },
+        previous_period: {
+          date_from: '2026-09-21T00:00:00.000Z',
+          date_to: '2026-10-05T00:00:00.000Z',
+          revenue: 80,
+          units: 2,
+          orders: 1,
+          average_order_value: 80
+        },
+        growth: { revenue: 100, units: 100, orders: 100, average_order_value: 0 }
+      });
+    });
+
+    it('should report no growth against a window without sales', () => {
+      const result = computeSalesAnalytics(orders.slice(0, 2), windows, 'day', names);
+
+      expect(result.growth).toEqual({ revenue: null, units: null, orders: null, average_order_value: null });
+      expect(result.previous_period).toMatchObject({ revenue: 0, orders: 0, average_order_value: 0 });
+    });
+
+    it('should list every period of the window, weeks starting on Monday', () => {
+      const byDay = computeSalesAnalytics(orders, windows, 'day', names).timeline;
+      const byWeek = computeSalesAnalytics(orders, salesWindows('2026-10-07', '2026-10-19'), 'week', names).timeline;
+      const byMonth = computeSalesAnalytics(orders, windows, 'month', names).timeline;
+
+      expect(byDay).toHaveLength(14);
+      expect(byDay[0]).toEqual({ period_start: '2026-10-05', revenue: 100, units: 3, orders: 1, average_order_value: 100 });
+      expect(byDay[1]).toEqual({ period_start: '2026-10-06', revenue: 0, units: 0, orders: 0, average_order_value: 0 });
+      expect(analytics.timeline.map(period => [period.period_start, period.revenue])).toEqual([['2026-10-05', 100], ['2026-10-12', 60]]);
+      expect(byWeek.map(period => period.period_start)).toEqual(['2026-10-05', '2026-10-12', '2026-10-19']);
+      expect(byMonth).toEqual([{ period_start: '2026-10-01', revenue: 160, units: 4, orders: 2, average_order_value: 80 }]);
+    });
+
+    it('should break sales down by channel, store and country, highest revenue first', () => {
+      expect(analytics.by_channel).toEqual([
+        { key: '1', name: 'Web shop', revenue: 100, units: 3, orders: 1, average_order_value: 100 },
+        { key: '2', name: 'Channel 2', revenue: 60, units: 1, orders: 1, average_order_value: 60 }
+      ]);
+      expect(analytics.by_store.map(entry => [entry.key, entry.name])).toEqual([['10', 'Main store'], ['none', 'No store']]);
+      expect(analytics.by_country.map(entry => [entry.key, entry.revenue])).toEqual([['GB', 100], ['US', 60]]);
+    });
+
+    it('should break sales down by SKU from line items after discounts', () => {
+      expect(analytics.by_sku).toEqual([
+        { key: 'SKU-A', name: 'Widget', revenue: 80, units: 3, orders: 2, average_order_value: 40 },
+        { key: 'sellable:22', name: 'sellable:22', revenue: 50, units: 1, orders: 1, average_order_value: 50 }
+      ]);
+    });
+
+    it('should not sum amounts across currencies', () => {
+      const mixed = [...orders, order({ created_at: '2026-09-22T10:00:00Z', total_price: 40, currency_code: 'EUR' })];
+
+      expect(() => computeSalesAnalytics(mixed, windows, 'day', names)).toThrow(expect.objectContaining({
+        code: 'MIXED_CURRENCIES',
+        message: 'Orders are in several currencies (EUR, GBP); pass currency to analyse one of them',
+        details: { currencies: ['EUR', 'GBP'] }
+      }));
+    });
+
+    it('should ignore the currency of orders that are not sales', () => {
+      const result = computeSalesAnalytics([
+        order({ total_price: 10 }),
+        order({ total_price: 10, currency_code: 'EUR', status: 'cancelled' }),
+        order({ created_at: '2026-08-01T10:00:00Z', total_price: 10, currency_code: 'USD' })
+      ], windows, 'day', names);
+
+      expect(result.currency).toBe('GBP');
+      expect(computeSalesAnalytics([], windows, 'day', names).currency).toBeNull();
+    });
+  });
+
+  describe('unitsSoldBySellable', () => {
+    it('should count the units of sales in the window', () => {
+      expect(unitsSoldBySellable(orders, windows.current)).toEqual(new Map([[11, 3], [22, 1]]));
+    });
+  });
+
+  describe('VeeqoHandlers.getSalesAnalytics', () => {
+    let client: { list: jest.Mock };
+    let handlers: VeeqoHandlers;
+
+    beforeEach(() => {
+      client = { list: jest.fn() };
+      handlers = new VeeqoHandlers(client as unknown as VeeqoClient);
+      jest.spyOn(handlers, 'getChannels').mockResolvedValue([{ id: 1, name: 'Web shop' }] as never);
+      jest.spyOn(handlers, 'getStores').mockRejectedValue(new Error('Forbidden'));
+    });
+
+    it('should read the orders of both windows and no later ones', async () => {
+      client.list.mockResolvedValue({ items: orders });
+
+      const result = await handlers.getSalesAnalytics({ date_from: '2026-10-05', date_to: '2026-10-18' });
+
+      expect(client.list).toHaveBeenCalledWith('/orders', expect.objectContaining({
+        created_at_min: '2026-09-21T00:00:00.000Z',
+        created_at_max: '2026-10-19T00:00:00.000Z'
+      }), { all: true });
+      expect(result.totals.revenue).toBe(160);
+      expect(result.by_store[0]).toMatchObject({ key: '10', name: 'Store 10' });
+      expect(result.truncated).toBe(false);
+    });
+
+    it('should filter by channel and currency', async () => {
+      client.list.mockResolvedValue({
+        items: [...orders, order({ total_price: 40, channel_id: 1, currency_code: 'EUR' })],
+        nextCursor: 'more'
+      });
+
+      await expect(handlers.getSalesAnalytics({ date_from: '2026-10-05', date_to: '2026-10-18' }))
+        .rejects.toMatchObject({ code: 'MIXED_CURRENCIES' });
+
+      const gbp = await handlers.getSalesAnalytics({ date_from: '2026-10-05', date_to: '2026-10-18', channel_id: 1, currency: 'GBP' });
+      const eur = await handlers.getSalesAnalytics({ date_from: '2026-10-05', date_to: '2026-10-18', currency: 'EUR' });
+
+      expect(gbp).toMatchObject({ currency: 'GBP', totals: { revenue: 100, orders: 1 }, truncated: true });
+      expect(eur).toMatchObject({ currency: 'EUR', totals: { revenue: 40, orders: 1 } });
+    });
+  });
+});
@@ -1,51 +1,322 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Span, SpanStatusCode, context, propagation, trace } from '@opentelemetry/api';
+
+const MCP_PROTOCOL_VERSION = '2025-03-26';
+
+const MCP_SERVERS = {
+  easypost: { url: 'http://localhost:3000', transport: 'streamable-http' },
+  veeqo: { url: 'http://localhost:3002', transport: 'json-rpc' },
+} as const;
+
+type McpServerName = keyof typeof MCP_SERVERS;
+
+const tracer = trace.getTracer('web-dashboard');
+
+/**
+ * Open Streamable HTTP session of each MCP server endpoint, shared by all proxied requests
+ */
+const sessions = new Map<string, Promise<string>>();
+
+/**
+ * Names of each server's read-only tools, listed on first use
+ */
+const readOnlyTools = new Map<McpServerName, Promise<Set<string>>>();
+
+let nextRequestId = 1;
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+interface ToolDefinition {
+  name: string;
+  annotations?: { readOnlyHint?: boolean };
+}
+
+/**
+ * Read a JSON-RPC response from a Streamable HTTP reply, which may be plain
+ * JSON or a single-response SSE stream
+ */
+async function readJsonRpcResponse(response: Response): Promise<JsonRpcMessage> {
+  const contentType = response.headers.get('content-type') || '';
+
+  if (!contentType.includes('text/event-stream')) {
+    return response.json();
+  }
+
+  const text = await response.text();
+  const dataLines = text
+    .split('\n')
+    .filter((line) => line.startsWith('data:'))
+    .map((line) => line.slice(5).trim());
+
+  const lastMessage = dataLines[dataLines.length - 1];
+  if (!lastMessage) {
+    throw new Error('MCP server returned an empty event stream');
+  }
+
+  return JSON.parse(lastMessage);
+}
+
+/**
+ * Add the traceparent and tracestate headers of the active span, so the MCP
+ * servers continue the proxy's trace
+ */
+function withTraceHeaders(headers: Record<string, string>): Record<string, string> {
+  propagation.inject(context.active(), headers);
+  return headers;
+}
+
+/**
+ * Headers of every request to the EasyPost MCP server, which only serves /mcp
+ * behind its bearer token
+ */
+function streamableHeaders(sessionId?: string): Record<string, string> {
+  const token = process.env.EASYPOST_MCP_AUTH_TOKEN;
+
+  return withTraceHeaders({
+    'Content-Type': 'application/json',
+    Accept: 'application/json, text/event-stream',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    ...(sessionId ? { 'Mcp-Session-Id': sessionId, 'Mcp-Protocol-Version': MCP_PROTOCOL_VERSION } : {}),
+  });
+}
+
+/**
+ * Initialize a Streamable HTTP session and return its ID
+ */
+async function openSession(endpoint: string): Promise<string> {
+  const initResponse = await fetch(endpoint, {
+    method: 'POST',
+    headers: streamableHeaders(),
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 0,
+      method: 'initialize',
+      params: {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: 'web-dashboard', version: '1.0.0' },
+      },
+    }),
+  });
+
+  if (!initResponse.ok) {
+    throw new Error(`MCP server responded with status: ${initResponse.status}`);
+  }
+
+  const sessionId = initResponse.headers.get('mcp-session-id');
+  const message = await readJsonRpcResponse(initResponse);
+
+  if (message.error) {
+    throw new Error(`MCP initialize failed: ${message.error.message}`);
+  }
+  if (!sessionId) {
+    throw new Error('MCP server did not return a session ID');
+  }
+
+  await fetch(endpoint, {
+    method: 'POST',
+    headers: streamableHeaders(sessionId),
+    body: JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+  });
+
+  return sessionId;
+}
+
+/**
+ * The shared session of an endpoint, opened on first use. Concurrent requests
+ * wait for the same initialize, and a failed one is retried by the next request.
+ */
+function getSession(endpoint: string): Promise<string> {
+  let session = sessions.get(endpoint);
+
+  if (!session) {
+    session = openSession(endpoint);
+    sessions.set(endpoint, session);
+    session.catch(() => sessions.delete(endpoint));
+  }
+
+  return session;
+}
+
+/**
+ * Call an MCP server over Streamable HTTP on the shared session (tool names are
+ * sent as tools/call). A session the server no longer knows, after its idle
+ * timeout or a restart, is replaced once.
+ */
+async function callStreamableMCP(
+  mcpUrl: string,
+  method: string,
+  params: Record<string, unknown>
+): Promise<JsonRpcMessage> {
+  const endpoint = `${mcpUrl}/mcp`;
+  const request = method.includes('/')
+    ? { jsonrpc: '2.0', id: nextRequestId++, method, params }
+    : { jsonrpc: '2.0', id: nextRequestId++, method: 'tools/call', params: { name: method, arguments: params } };
+
+  for (let attempt = 0; ; attempt++) {
+    const session = getSession(endpoint);
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: streamableHeaders(await session),
+      body: JSON.stringify(request),
+    });
+
+    // Forget the dropped session, unless a concurrent request has already replaced it
+    if (response.status === 404 && attempt === 0) {
+      if (sessions.get(endpoint) === session) {
+        sessions.delete(endpoint);
+      }
+      continue;
+    }
+
+    if (!response.ok) {
+      throw new Error(`MCP server responded with status: ${response.status}`);
+    }
+
+    return readJsonRpcResponse(response);
+  }
+}
+
+/**
+ * Call the Veeqo MCP server's JSON-RPC endpoint, which is only served behind its token
+ */
+async function callJsonRpcMCP(
+  mcpUrl: string,
+  method: string,
+  params: Record<string, unknown>
+): Promise<JsonRpcMessage> {
+  const token = process.env.VEEQO_MCP_AUTH_TOKEN;
+  const response = await fetch(`${mcpUrl}/mcp`, {
+    method: 'POST',
+    headers: withTraceHeaders({
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    }),
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: nextRequestId++,
+      method,
+      params,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`MCP server responded with status: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+function callMCP(server: McpServerName, method: string, params: Record<string, unknown>): Promise<JsonRpcMessage> {
+  const { url, transport } = MCP_SERVERS[server];
+  return transport === 'streamable-http' ? callStreamableMCP(url, method, params) : callJsonRpcMCP(url, method, params);
+}
+
+/**
+ * Tools an MCP server lists, following pagination
+ */
+async function listTools(server: McpServerName): Promise<ToolDefinition[]> {
+  const tools: ToolDefinition[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const message = await callMCP(server, 'tools/list', cursor ? { cursor } : {});
+    if (message.error) {
+      throw new Error(message.error.message);
+    }
+
+    const result = message.result as { tools: ToolDefinition[]; nextCursor?: string };
+    tools.push(...result.tools);
+    cursor = result.nextCursor;
+  } while (cursor);
+
+  return tools;
+}
+
+/**
+ * Names of the tools a server annotates as read-only. A failed listing is
+ * retried by the next request.
+ */
+function getReadOnlyTools(server: McpServerName): Promise<Set<string>> {
+  let names = readOnlyTools.get(server);
+
+  if (!names) {
+    names = listTools(server).then(
+      (tools) => new Set(tools.filter((tool) => tool.annotations?.readOnlyHint === true).map((tool) => tool.name))
+    );
+    readOnlyTools.set(server, names);
+    names.catch(() => readOnlyTools.delete(server));
+  }
+
+  return names;
+}
+
+/**
+ * Whether the proxy forwards a request. It has no authentication of its own and
+ * calls the servers with their tokens, so it only forwards what cannot buy or
+ * change anything: tool and resource listings, resource reads and read-only tools.
+ */
+async function isReadOnlyRequest(server: McpServerName, method: string, params: Record<string, unknown>): Promise<boolean> {
+  if (method === 'tools/list' || method.startsWith('resources/')) {
+    return true;
+  }
+
+  // Bare tool names are tool calls on both servers
+  const tool = method === 'tools/call' ? params.name : method.includes('/') ? undefined : method;
+  return typeof tool === 'string' && (await getReadOnlyTools(server)).has(tool);
+}
 
 export async function POST(request: NextRequest) {
+  return tracer.startActiveSpan('POST /api/mcp', async (span) => {
+    try {
+      const response = await proxyMcpRequest(request, span);
+      span.setAttribute('http.response.status_code', response.status);
+      return response;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+async function proxyMcpRequest(request: NextRequest, span: Span) {
   try {
     const body = await request.json();
     const { server, method, params } = body;
+    span.setAttributes({ 'mcp.server': String(server), 'mcp.method': String(method) });
 
-    if (!server || !method) {
+    if (!server || typeof method !== 'string' || !method) {
       return NextResponse.json(
         { error: 'Missing required fields: server, method' },
         { status: 400 }
       );
     }
 
-    let mcpUrl: string;
-    switch (server) {
-      case 'easypost':
-        mcpUrl = 'http://localhost:3000';
-        break;
-      case 'veeqo':
-        mcpUrl = 'http://localhost:3002';
-        break;
-      default:
-        return NextResponse.json(
-          { error: 'Invalid server. Must be "easypost" or "veeqo"' },
-          { status: 400 }
-        );
+    if (!Object.hasOwn(MCP_SERVERS, server)) {
+      return NextResponse.json(
+        { error: 'Invalid server. Must be "easypost" or "veeqo"' },
+        { status: 400 }
+      );
     }
 
-    // Forward the MCP request to the appropriate server
-    const response = await fetch(`${mcpUrl}/mcp`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        method,
-        params: params || {},
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`MCP server responded with status: ${response.status}`);
+    if (!(await isReadOnlyRequest(server as McpServerName, method, params || {}))) {
+      return NextResponse.json(
+        { error: `Only listings, resources and read-only tools can be called through the dashboard: ${method}` },
+        { status: 403 }
+      );
     }
 
-    const data = await response.json();
-    return NextResponse.json(data);
+    // Forward the MCP request to the appropriate server
+    const message = await callMCP(server as McpServerName, method, params || {});
+    return NextResponse.json(message.error ? { error: message.error } : message.result);
   } catch (error) {
+    span.recordException(error instanceof Error ? error : String(error));
+    span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : 'Unknown error' });
+
     return NextResponse.json(
       {
         error: 'MCP request failed',
@@ -57,20 +328,26 @@ export async function POST(request: NextRequest) {
 }
 
 export async function GET() {
+  // Tool counts come from the servers themselves; an unreachable server has none
+  const servers = Object.fromEntries(
+    await Promise.all(
+      (Object.keys(MCP_SERVERS) as McpServerName[]).map(async (server) => {
+        const info = { url: MCP_SERVERS[server].url, transport: MCP_SERVERS[server].transport };
+
+        try {
+          return [server, { ...info, tools: (await listTools(server)).length }];
+        } catch (error) {
+          return [server, { ...info, tools: null, error: error instanceof Error ? error.message : 'Unknown error' }];
+        }
+      })
+    )
+  );
+
   return NextResponse.json({
     message: 'MCP Proxy API',
     endpoints: {
-      'POST /api/mcp': 'Proxy MCP requests to EasyPost or Veeqo servers',
-    },
-    servers: {
-      easypost: {
-        url: 'http://localhost:3000',
-        tools: 15,
-      },
-      veeqo: {
-        url: 'http://localhost:3002',
-        tools: 37,
-      },
+      'POST /api/mcp': 'Proxy read-only MCP requests (listings, resources and read-only tools) to EasyPost or Veeqo servers',
     },
+    servers,
   });
 }
@@ -0,0 +1,12 @@
+import { startTracing } from '@mcp-shipping/shared';
+
+const exporter = process.env.OTEL_TRACES_EXPORTER ?? 'none';
+
+if (exporter === 'otlp' || exporter === 'file') {
+  startTracing({
+    serviceName: 'web-dashboard',
+    exporter,
+    otlpEndpoint: process.env.OTEL_EXPORTER_OTLP_ENDPOINT,
+    filePath: process.env.OTEL_TRACES_FILE,
+  });
+}
@@ -0,0 +1,9 @@
+/**
+ * Next.js instrumentation hook: registers OpenTelemetry tracing for the
+ * Node.js runtime when OTEL_TRACES_EXPORTER is set
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    await import('./instrumentation.node');
+  }
+}
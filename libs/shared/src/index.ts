@@ -4,4 +4,15 @@ export * from './lib/types/index.js';
 // Export utilities
 export * from './lib/utils/logger.js';
 export * from './lib/utils/validation.js';
-export * from './lib/utils/http-client.js';
\ No newline at end of file
+export * from './lib/utils/http-client.js';
+export * from './lib/utils/endpoints.js';
+export * from './lib/utils/circuit-breaker.js';
+export * from './lib/utils/resilience.js';
+export * from './lib/utils/bearer-auth.js';
+export * from './lib/utils/tracing.js';
+
+// Export services
+export * from './lib/services/response-cache.js';
+export * from './lib/services/audit-log.js';
+export * from './lib/services/health.js';
+export * from './lib/services/tool-registry.js';
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuditLog, FileAuditStore, sanitizeArguments } from './audit-log.js';
+
+const logger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn()
+};
+
+const result = (text: string) => ({ content: [{ type: 'text' as const, text }, { type: 'text' as const, text: '{}' }] });
+
+describe('sanitizeArguments', () => {
+  it('should redact secrets and truncate long values', () => {
+    const sanitized = sanitizeArguments({
+      webhook_secret: 'shh',
+      confirmationToken: 'spc_123',
+      idempotencyKey: 'label-1',
+      label: 'x'.repeat(600),
+      ids: Array.from({ length: 60 }, (_, index) => index)
+    }) as Record<string, unknown>;
+
+    expect(sanitized['webhook_secret']).toBe('[REDACTED]');
+    expect(sanitized['confirmationToken']).toBe('[REDACTED]');
+    expect(sanitized['idempotencyKey']).toBe('label-1');
+    expect(sanitized['label']).toMatch(/\.\.\. \(600 characters\)$/);
+    expect(sanitized['ids']).toHaveLength(51);
+  });
+});
+
+describe('AuditLog', () => {
+  let directory: string;
+  let audit: AuditLog;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'shared-audit-'));
+    audit = new AuditLog(new FileAuditStore(join(directory, 'audit-log.jsonl')), 'test-mcp', logger);
+  });
+
+  afterEach(async () => {
+    await audit.close();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should record successful calls with their caller and cost', async () => {
+    await audit.record('buy_shipment_label', { shipmentId: 'shp_123' }, { requestId: '7', caller: 'claude-ai/0.1.0' }, async () => {
+      audit.annotate({ account: 'acme', mode: 'production' });
+      audit.addCost(7.25);
+      return result('Label purchased successfully for shipment shp_123');
+    });
+
+    const [record] = await audit.query({ limit: 10 });
+    expect(record).toMatchObject({
+      service: 'test-mcp',
+      tool: 'buy_shipment_label',
+      outcome: 'success',
+      arguments: { shipmentId: 'shp_123' },
+      result: 'Label purchased successfully for shipment shp_123',
+      requestId: '7',
+      caller: 'claude-ai/0.1.0',
+      account: 'acme',
+      mode: 'production',
+      cost: 7.25
+    });
+    expect(record!.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should record failed calls and rethrow their error', async () => {
+    await expect(audit.record('refund_shipment', { shipmentId: 'shp_123' }, {}, async () => {
+      throw Object.assign(new Error('Failed to refund shipment'), { code: 'SHIPMENT_REFUND_FAILED' });
+    })).rejects.toThrow('Failed to refund shipment');
+
+    const [record] = await audit.query({ limit: 10 });
+    expect(record).toMatchObject({
+      outcome: 'error',
+      error: { code: 'SHIPMENT_REFUND_FAILED', message: 'Failed to refund shipment' }
+    });
+    expect(record).not.toHaveProperty('result');
+  });
+
+  it('should filter by time, tool and outcome', async () => {
+    await audit.record('create_shipment', {}, {}, async () => result('Shipment created'));
+    await audit.record('refund_shipment', {}, {}, async () => result('Refund submitted'));
+    await audit.record('refund_shipment', {}, {}, async () => { throw new Error('declined'); }).catch(() => undefined);
+
+    expect(await audit.query({ tool: 'refund_shipment', limit: 10 })).toHaveLength(2);
+    expect(await audit.query({ tool: 'refund_shipment', outcome: 'success', limit: 10 })).toHaveLength(1);
+    expect(await audit.query({ to: new Date(Date.now() - 60000), limit: 10 })).toHaveLength(0);
+    expect(await audit.query({ limit: 1 })).toMatchObject([{ tool: 'refund_shipment', outcome: 'error' }]);
+  });
+
+  it('should not fail tool calls when the store fails', async () => {
+    const failing = new AuditLog({
+      kind: 'file',
+      append: jest.fn().mockRejectedValue(new Error('disk full')),
+      query: jest.fn(),
+      close: jest.fn()
+    }, 'test-mcp', logger);
+
+    await expect(failing.record('create_batch', {}, {}, async () => result('Batch created'))).resolves.toBeDefined();
+  });
+
+  it('should not wait for the store before returning the tool result', async () => {
+    let written: () => void = () => undefined;
+    const store = {
+      kind: 'file' as const,
+      append: jest.fn(() => new Promise<void>(resolve => { written = resolve; })),
+      query: jest.fn().mockResolvedValue([]),
+      close: jest.fn().mockResolvedValue(undefined)
+    };
+    const slow = new AuditLog(store, 'test-mcp', logger);
+
+    await expect(slow.record('create_batch', {}, {}, async () => result('Batch created'))).resolves.toBeDefined();
+    expect(store.append).toHaveBeenCalledWith(expect.objectContaining({ tool: 'create_batch', outcome: 'success' }));
+
+    const closed = slow.close();
+    expect(store.close).not.toHaveBeenCalled();
+    written();
+    await closed;
+    expect(store.close).toHaveBeenCalled();
+  });
+});
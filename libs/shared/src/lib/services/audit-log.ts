@@ -0,0 +1,444 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import pg from 'pg';
+import { logger as defaultLogger, type ServiceLogger } from '../utils/logger.js';
+import type { AuditOutcome, AuditQuery, AuditRecord, ToolCallContext } from '../types/index.js';
+
+// Audit trail when no database is configured
+const DEFAULT_AUDIT_LOG_PATH = './data/audit-log.jsonl';
+
+/**
+ * Bounds on the audit database, so an unreachable or slow server cannot hold
+ * writes (and the process shutdown waiting for them) indefinitely
+ */
+export const AUDIT_DATABASE_TIMEOUTS = {
+  connectionTimeoutMs: 5000,
+  statementTimeoutMs: 5000
+};
+
+/**
+ * Result of a tool call, as far as its audit record is concerned
+ */
+interface AuditedResult {
+  content: Array<{ text: string }>;
+}
+
+/**
+ * Storage backend for the audit trail
+ */
+export interface AuditStore {
+  readonly kind: 'postgres' | 'file';
+  append(record: AuditRecord): Promise<void>;
+  /**
+   * Records of one service matching the query, newest first
+   */
+  query(service: string, query: AuditQuery): Promise<AuditRecord[]>;
+  close(): Promise<void>;
+}
+
+// The audit_logs table of scripts/init-db.sql, for databases it did not run on,
+// and the columns added for tool calls
+const POSTGRES_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS audit_logs (
+    id UUID PRIMARY KEY,
+    timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    service VARCHAR(50) NOT NULL,
+    action VARCHAR(100) NOT NULL,
+    user_id VARCHAR(100),
+    request_id VARCHAR(100),
+    details JSONB,
+    ip_address INET,
+    user_agent TEXT
+  );
+  ALTER TABLE audit_logs
+    ADD COLUMN IF NOT EXISTS outcome VARCHAR(10),
+    ADD COLUMN IF NOT EXISTS duration_ms INTEGER,
+    ADD COLUMN IF NOT EXISTS cost NUMERIC(12, 2);
+  CREATE INDEX IF NOT EXISTS idx_audit_logs_outcome ON audit_logs(outcome);
+`;
+
+interface AuditLogRow {
+  id: string;
+  timestamp: Date;
+  service: string;
+  action: string;
+  user_id: string | null;
+  request_id: string | null;
+  outcome: AuditOutcome | null;
+  duration_ms: number | null;
+  cost: string | null;
+  details: Pick<AuditRecord, 'arguments' | 'result' | 'error' | 'account' | 'mode'> | null;
+  ip_address: string | null;
+  user_agent: string | null;
+}
+
+/**
+ * Audit trail in the audit_logs table of the shared PostgreSQL database.
+ * The schema is brought up to date on first use.
+ */
+export class PostgresAuditStore implements AuditStore {
+  readonly kind = 'postgres' as const;
+  private pool: pg.Pool;
+  private schemaReady: Promise<void> | undefined;
+
+  private logger: ServiceLogger;
+
+  constructor(databaseUrl: string, logger: ServiceLogger = defaultLogger) {
+    this.pool = new pg.Pool({
+      connectionString: databaseUrl,
+      max: 5,
+      connectionTimeoutMillis: AUDIT_DATABASE_TIMEOUTS.connectionTimeoutMs,
+      statement_timeout: AUDIT_DATABASE_TIMEOUTS.statementTimeoutMs
+    });
+    this.logger = logger;
+
+    this.pool.on('error', (error) => {
+      logger.error('Audit database error', { error: error.message });
+    });
+  }
+
+  async append(record: AuditRecord): Promise<void> {
+    await this.ensureSchema();
+    await this.pool.query(
+      `INSERT INTO audit_logs
+        (id, timestamp, service, action, user_id, request_id, outcome, duration_ms, cost, details, ip_address, user_agent)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [
+        record.id,
+        record.timestamp,
+        record.service,
+        record.tool,
+        record.caller?.slice(0, 100) ?? null,
+        record.requestId?.slice(0, 100) ?? null,
+        record.outcome,
+        record.durationMs,
+        record.cost ?? null,
+        JSON.stringify({
+          arguments: record.arguments,
+          result: record.result,
+          error: record.error,
+          account: record.account,
+          mode: record.mode
+        }),
+        record.ipAddress ?? null,
+        record.userAgent ?? null
+      ]
+    );
+  }
+
+  async query(service: string, query: AuditQuery): Promise<AuditRecord[]> {
+    await this.ensureSchema();
+
+    const conditions = ['service = $1', 'outcome IS NOT NULL'];
+    const values: unknown[] = [service];
+    const where = (condition: string, value: unknown) => {
+      values.push(value);
+      conditions.push(`${condition} $${values.length}`);
+    };
+
+    if (query.from) where('timestamp >=', query.from);
+    if (query.to) where('timestamp <', query.to);
+    if (query.tool) where('action =', query.tool);
+    if (query.outcome) where('outcome =', query.outcome);
+    values.push(query.limit);
+
+    const { rows } = await this.pool.query<AuditLogRow>(
+      `SELECT id, timestamp, service, action, user_id, request_id, outcome, duration_ms, cost, details, ip_address, user_agent
+       FROM audit_logs WHERE ${conditions.join(' AND ')}
+       ORDER BY timestamp DESC LIMIT $${values.length}`,
+      values
+    );
+
+    return rows.map(row => compactRecord({
+      id: row.id,
+      timestamp: row.timestamp.toISOString(),
+      service: row.service,
+      tool: row.action,
+      outcome: row.outcome ?? 'success',
+      arguments: row.details?.arguments ?? null,
+      result: row.details?.result,
+      error: row.details?.error,
+      durationMs: row.duration_ms ?? 0,
+      requestId: row.request_id ?? undefined,
+      caller: row.user_id ?? undefined,
+      ipAddress: row.ip_address ?? undefined,
+      userAgent: row.user_agent ?? undefined,
+      cost: row.cost !== null ? parseFloat(row.cost) : undefined,
+      account: row.details?.account,
+      mode: row.details?.mode
+    }));
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.pool.query(POSTGRES_SCHEMA).then(() => {
+        this.logger.info('Audit database schema ready');
+      }).catch((error: unknown) => {
+        this.schemaReady = undefined;
+        throw error;
+      });
+    }
+
+    return this.schemaReady;
+  }
+}
+
+/**
+ * Audit trail appended to a JSON Lines file, for setups without a database.
+ * Queries read the whole file.
+ */
+export class FileAuditStore implements AuditStore {
+  readonly kind = 'file' as const;
+  private filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string = DEFAULT_AUDIT_LOG_PATH) {
+    this.filePath = filePath;
+  }
+
+  async append(record: AuditRecord): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      await fs.mkdir(dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, `${JSON.stringify(record)}\n`, 'utf8');
+    });
+
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  async query(service: string, query: AuditQuery): Promise<AuditRecord[]> {
+    await this.writeQueue;
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const matches: AuditRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      let record: AuditRecord;
+      try {
+        record = JSON.parse(line) as AuditRecord;
+      } catch {
+        continue; // A partially written line of a crashed process
+      }
+
+      const timestamp = Date.parse(record.timestamp);
+      if (record.service !== service ||
+          (query.from && timestamp < query.from.getTime()) ||
+          (query.to && timestamp >= query.to.getTime()) ||
+          (query.tool && record.tool !== query.tool) ||
+          (query.outcome && record.outcome !== query.outcome)) {
+        continue;
+      }
+
+      matches.push(record);
+    }
+
+    // Newest first; of calls started in the same millisecond, the last written
+    return matches
+      .reverse()
+      .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))
+      .slice(0, query.limit);
+  }
+
+  async close(): Promise<void> {
+    await this.writeQueue;
+  }
+}
+
+/**
+ * Create the audit store: PostgreSQL when a database URL is configured, a JSON Lines file otherwise
+ */
+export function createAuditStore(databaseUrl?: string, filePath?: string, logger?: ServiceLogger): AuditStore {
+  return databaseUrl ? new PostgresAuditStore(databaseUrl, logger) : new FileAuditStore(filePath);
+}
+
+/**
+ * Details of the running call that are only known inside it
+ */
+type AuditAnnotations = Pick<AuditRecord, 'cost' | 'account' | 'mode'>;
+
+/**
+ * Records state-changing tool calls: who called which tool with what, how it
+ * ended, how long it took and what it cost. Records are written in the
+ * background: a slow or failing store is logged and never delays or fails the
+ * tool call itself.
+ */
+export class AuditLog {
+  private store: AuditStore;
+  private service: string;
+  private logger: ServiceLogger;
+  private current = new AsyncLocalStorage<AuditAnnotations>();
+  private pending = new Set<Promise<void>>();
+
+  constructor(store: AuditStore, service: string, logger: ServiceLogger = defaultLogger) {
+    this.store = store;
+    this.service = service;
+    this.logger = logger;
+
+    logger.info('Audit log initialized', { store: store.kind, service });
+  }
+
+  /**
+   * Run a tool call and record it
+   */
+  async record<T extends AuditedResult>(tool: string, args: unknown, context: ToolCallContext, call: () => Promise<T>): Promise<T> {
+    const startTime = Date.now();
+    const annotations: AuditAnnotations = {};
+
+    let result: T | undefined;
+    let failure: unknown;
+    try {
+      result = await this.current.run(annotations, call);
+      return result;
+    } catch (error) {
+      failure = error;
+      throw error;
+    } finally {
+      this.write(compactRecord({
+        id: randomUUID(),
+        timestamp: new Date(startTime).toISOString(),
+        service: this.service,
+        tool,
+        outcome: result ? 'success' : 'error',
+        arguments: sanitizeArguments(args),
+        result: result ? summarizeResult(result) : undefined,
+        error: result ? undefined : describeError(failure),
+        durationMs: Date.now() - startTime,
+        ...context,
+        ...annotations
+      }));
+    }
+  }
+
+  /**
+   * Add details to the record of the running call, e.g. the account it acts as.
+   * Does nothing outside a recorded call.
+   */
+  annotate(annotations: Omit<AuditAnnotations, 'cost'>): void {
+    const current = this.current.getStore();
+    if (current) {
+      Object.assign(current, annotations);
+    }
+  }
+
+  /**
+   * Add money spent by the running call to its record
+   */
+  addCost(amount: number): void {
+    const current = this.current.getStore();
+    if (current && Number.isFinite(amount)) {
+      current.cost = Math.round(((current.cost ?? 0) + amount) * 100) / 100;
+    }
+  }
+
+  /**
+   * Recorded calls of this server, newest first, including those still being written
+   */
+  async query(query: AuditQuery): Promise<AuditRecord[]> {
+    await this.flush();
+    return this.store.query(this.service, query);
+  }
+
+  /**
+   * Wait for the records being written
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.pending);
+  }
+
+  get kind(): AuditStore['kind'] {
+    return this.store.kind;
+  }
+
+  async close(): Promise<void> {
+    await this.flush();
+    await this.store.close();
+  }
+
+  private write(record: AuditRecord): void {
+    const write = this.store.append(record).catch((error: unknown) => {
+      this.logger.error('Audit record write failed', {
+        tool: record.tool,
+        ...(record.requestId ? { requestId: record.requestId } : {}),
+        store: this.store.kind,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }).finally(() => {
+      this.pending.delete(write);
+    });
+
+    this.pending.add(write);
+  }
+}
+
+const SENSITIVE_ARGUMENT = /password|secret|token|api_?key|authorization|credential|registration_data/i;
+const MAX_ARGUMENT_LENGTH = 500;
+const MAX_ARGUMENT_ITEMS = 50;
+const MAX_RESULT_LENGTH = 1000;
+
+/**
+ * Redact secrets and truncate long strings and arrays in tool arguments
+ */
+export function sanitizeArguments(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_ARGUMENT_LENGTH ? `${value.slice(0, MAX_ARGUMENT_LENGTH)}... (${value.length} characters)` : value;
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  if (depth >= 6) {
+    return '[TRUNCATED]';
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARGUMENT_ITEMS).map(item => sanitizeArguments(item, depth + 1));
+    return value.length > MAX_ARGUMENT_ITEMS ? [...items, `... (${value.length} items)`] : items;
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [
+    key,
+    SENSITIVE_ARGUMENT.test(key) ? '[REDACTED]' : sanitizeArguments(entry, depth + 1)
+  ]));
+}
+
+/**
+ * Summary lines of a tool result, without its JSON payload
+ */
+function summarizeResult(result: AuditedResult): string {
+  const lines = result.content.map(item => item.text);
+  const summary = (lines.length > 1 ? lines.slice(0, -1) : lines).join('\n');
+  return summary.length > MAX_RESULT_LENGTH ? `${summary.slice(0, MAX_RESULT_LENGTH)}...` : summary;
+}
+
+function describeError(error: unknown): { code: string; message: string } {
+  const code = (error as { code?: unknown } | null | undefined)?.code;
+
+  return {
+    code: typeof code === 'string' || typeof code === 'number' ? String(code) : 'INTERNAL_ERROR',
+    message: error instanceof Error ? error.message : String(error)
+  };
+}
+
+// Drop unset fields, so records read back equal the records written
+function compactRecord(record: AuditRecord): AuditRecord {
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined)) as unknown as AuditRecord;
+}
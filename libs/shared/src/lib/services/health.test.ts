@@ -0,0 +1,84 @@
+import { HEALTH_CHECK_DEFAULTS, HealthMonitor } from './health.js';
+
+const logger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn()
+};
+
+describe('HealthMonitor', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should be unhealthy only when a critical dependency is', async () => {
+    const healthy = new HealthMonitor([
+      { name: 'upstream', critical: true, check: async () => undefined },
+      { name: 'redis', critical: false, check: async () => { throw new Error('ECONNREFUSED'); } }
+    ], logger);
+    const report = await healthy.check();
+
+    expect(report.status).toBe('degraded');
+    expect(report.dependencies['upstream']).toMatchObject({ status: 'healthy', critical: true, circuit: 'closed' });
+    expect(report.dependencies['redis']).toMatchObject({ status: 'unhealthy', critical: false, message: 'ECONNREFUSED' });
+
+    const unhealthy = new HealthMonitor([
+      { name: 'upstream', critical: true, check: async () => { throw new Error('Connection failed'); } }
+    ], logger);
+    expect((await unhealthy.check()).status).toBe('unhealthy');
+  });
+
+  it('should reuse probe results until they expire', async () => {
+    const check = jest.fn().mockResolvedValue(undefined);
+    const monitor = new HealthMonitor([{ name: 'upstream', critical: true, check }], logger);
+
+    await Promise.all([monitor.check(), monitor.check()]);
+    await monitor.check();
+    expect(check).toHaveBeenCalledTimes(1);
+
+    jest.setSystemTime(Date.now() + HEALTH_CHECK_DEFAULTS.cacheTtlMs + 1);
+    await monitor.check();
+    expect(check).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop probing a failing dependency while its circuit is open', async () => {
+    const check = jest.fn().mockRejectedValue(new Error('Connection failed'));
+    const monitor = new HealthMonitor([{ name: 'upstream', critical: true, check }], logger);
+    const expire = () => jest.setSystemTime(Date.now() + HEALTH_CHECK_DEFAULTS.cacheTtlMs + 1);
+
+    for (let attempt = 0; attempt < HEALTH_CHECK_DEFAULTS.failureThreshold; attempt++) {
+      await monitor.check();
+      expire();
+    }
+
+    const open = await monitor.check();
+    expect(open.dependencies['upstream']).toMatchObject({ status: 'unhealthy', circuit: 'open' });
+    expect(open.dependencies['upstream']!.message).toMatch(/^Connection failed; next probe in \d+s$/);
+    expect(check).toHaveBeenCalledTimes(HEALTH_CHECK_DEFAULTS.failureThreshold);
+
+    check.mockResolvedValue(undefined);
+    jest.setSystemTime(Date.now() + HEALTH_CHECK_DEFAULTS.resetTimeoutMs);
+
+    const recovered = await monitor.check();
+    expect(recovered.dependencies['upstream']).toMatchObject({ status: 'healthy', circuit: 'closed' });
+  });
+
+  it('should report slow dependencies as degraded', async () => {
+    const monitor = new HealthMonitor([{
+      name: 'upstream',
+      critical: true,
+      check: async () => {
+        jest.setSystemTime(Date.now() + HEALTH_CHECK_DEFAULTS.slowMs + 500);
+      }
+    }], logger);
+
+    const report = await monitor.check();
+    expect(report.status).toBe('degraded');
+    expect(report.dependencies['upstream']).toMatchObject({ status: 'degraded', latencyMs: HEALTH_CHECK_DEFAULTS.slowMs + 500 });
+  });
+});
@@ -0,0 +1,224 @@
+import { logger as defaultLogger, type ServiceLogger } from '../utils/logger.js';
+import { CircuitBreaker } from '../utils/circuit-breaker.js';
+import type { CircuitState, DependencyHealth, HealthState } from '../types/index.js';
+
+/**
+ * A dependency of the server. check() resolves, optionally with a note, when the
+ * dependency is usable and throws when it is not.
+ */
+export interface HealthProbe {
+  name: string;
+  critical: boolean;
+  check(): Promise<string | void>;
+  /**
+   * Circuit states of the dependency's endpoints, for an upstream API
+   */
+  circuits?(): Record<string, CircuitState>;
+}
+
+export interface HealthReport {
+  status: HealthState;
+  dependencies: Record<string, DependencyHealth>;
+}
+
+export interface HealthMonitorOptions {
+  /**
+   * A probe taking longer counts as failed
+   */
+  timeoutMs: number;
+  /**
+   * A slower successful probe reports the dependency as degraded
+   */
+  slowMs: number;
+  /**
+   * How long a probe result is reused
+   */
+  cacheTtlMs: number;
+  /**
+   * Consecutive failed probes before a dependency's circuit opens
+   */
+  failureThreshold: number;
+  /**
+   * How long an open circuit waits before the dependency is probed again
+   */
+  resetTimeoutMs: number;
+}
+
+/**
+ * Probes time out after 5 seconds and are slow after 2; results are reused for
+ * 15 seconds, and a dependency failing 3 probes in a row is probed again after a minute
+ */
+export const HEALTH_CHECK_DEFAULTS: HealthMonitorOptions = {
+  timeoutMs: 5000,
+  slowMs: 2000,
+  cacheTtlMs: 15000,
+  failureThreshold: 3,
+  resetTimeoutMs: 60000
+};
+
+interface ProbeEntry {
+  probe: HealthProbe;
+  circuit: CircuitBreaker;
+  result?: DependencyHealth;
+  lastFailure?: string;
+  expiresAt: number;
+  pending?: Promise<DependencyHealth> | undefined;
+}
+
+/**
+ * Probes the dependencies of the server for the readiness endpoint. Results are
+ * cached so that frequent health checks do not load the upstream API, and a
+ * dependency failing repeatedly is not probed again until its circuit half-opens.
+ */
+export class HealthMonitor {
+  private entries: ProbeEntry[];
+  private logger: ServiceLogger;
+  private options: HealthMonitorOptions;
+
+  constructor(
+    probes: HealthProbe[],
+    logger: ServiceLogger = defaultLogger,
+    options: HealthMonitorOptions = HEALTH_CHECK_DEFAULTS
+  ) {
+    this.logger = logger;
+    this.options = options;
+    this.entries = probes.map(probe => ({
+      probe,
+      circuit: new CircuitBreaker({
+        failureThreshold: options.failureThreshold,
+        resetTimeoutMs: options.resetTimeoutMs
+      }),
+      expiresAt: 0
+    }));
+  }
+
+  /**
+   * Health of every dependency, probing those whose cached result has expired.
+   * The server is unhealthy when a critical dependency is, and degraded when
+   * any other dependency is not healthy.
+   */
+  async check(): Promise<HealthReport> {
+    const probed = await Promise.all(this.entries.map(entry => this.probe(entry)));
+    const results = this.entries.map((entry, index) => withEndpoints(entry.probe, probed[index]!));
+
+    const dependencies: Record<string, DependencyHealth> = {};
+    this.entries.forEach((entry, index) => {
+      dependencies[entry.probe.name] = results[index]!;
+    });
+
+    const status: HealthState = results.some(result => result.critical && result.status === 'unhealthy')
+      ? 'unhealthy'
+      : results.some(result => result.status !== 'healthy') ? 'degraded' : 'healthy';
+
+    return { status, dependencies };
+  }
+
+  private probe(entry: ProbeEntry): Promise<DependencyHealth> {
+    if (entry.result && Date.now() < entry.expiresAt) {
+      return Promise.resolve(entry.result);
+    }
+
+    // Concurrent health checks share one probe
+    entry.pending ??= this.runProbe(entry).finally(() => {
+      entry.pending = undefined;
+    });
+
+    return entry.pending;
+  }
+
+  private async runProbe(entry: ProbeEntry): Promise<DependencyHealth> {
+    const { probe, circuit } = entry;
+
+    if (!circuit.tryAcquire()) {
+      return this.store(entry, {
+        status: 'unhealthy',
+        critical: probe.critical,
+        circuit: circuit.state,
+        checkedAt: entry.result?.checkedAt ?? new Date().toISOString(),
+        message: `${entry.lastFailure ?? 'Probe failed'}; next probe in ${Math.ceil(circuit.retryAfterMs / 1000)}s`
+      });
+    }
+
+    const startTime = Date.now();
+
+    try {
+      const note = await withTimeout(probe.check(), this.options.timeoutMs);
+      const latencyMs = Date.now() - startTime;
+      const slow = latencyMs > this.options.slowMs;
+      circuit.recordSuccess();
+
+      const message = note ? note : slow ? `Responded in ${latencyMs}ms` : undefined;
+      return this.store(entry, {
+        status: slow ? 'degraded' : 'healthy',
+        critical: probe.critical,
+        circuit: circuit.state,
+        checkedAt: new Date().toISOString(),
+        latencyMs,
+        ...(message ? { message } : {})
+      });
+
+    } catch (error) {
+      circuit.recordFailure();
+      entry.lastFailure = error instanceof Error ? error.message : String(error);
+
+      return this.store(entry, {
+        status: 'unhealthy',
+        critical: probe.critical,
+        circuit: circuit.state,
+        checkedAt: new Date().toISOString(),
+        latencyMs: Date.now() - startTime,
+        message: entry.lastFailure
+      });
+    }
+  }
+
+  private store(entry: ProbeEntry, result: DependencyHealth): DependencyHealth {
+    if (entry.result?.status !== result.status) {
+      const details = {
+        dependency: entry.probe.name,
+        status: result.status,
+        circuit: result.circuit,
+        ...(result.message ? { message: result.message } : {})
+      };
+
+      if (result.status === 'healthy') {
+        this.logger.info('Dependency health changed', details);
+      } else {
+        this.logger.warn('Dependency health changed', details);
+      }
+    }
+
+    entry.result = result;
+    entry.expiresAt = Date.now() + this.options.cacheTtlMs;
+    return result;
+  }
+}
+
+/**
+ * Add the current endpoint circuits of an upstream to its cached probe result.
+ * An upstream that answers its probe but has endpoints failing fast is degraded.
+ */
+function withEndpoints(probe: HealthProbe, result: DependencyHealth): DependencyHealth {
+  if (!probe.circuits) {
+    return result;
+  }
+
+  const endpoints = probe.circuits();
+  const tripped = Object.keys(endpoints).filter(endpoint => endpoints[endpoint] !== 'closed');
+
+  if (tripped.length === 0 || result.status !== 'healthy') {
+    return { ...result, endpoints };
+  }
+
+  return { ...result, endpoints, status: 'degraded', message: `Circuit not closed for ${tripped.join(', ')}` };
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`No response within ${timeoutMs}ms`)), timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
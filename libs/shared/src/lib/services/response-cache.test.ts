@@ -0,0 +1,113 @@
+import { MemoryCacheStore, ResponseCache, resourceTags } from './response-cache.js';
+
+const logger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn()
+};
+
+const policy = { ttl: 60, staleTtl: 300 };
+
+function deferred<T>() {
+  let resolve: (value: T) => void = () => undefined;
+  const promise = new Promise<T>(settle => { resolve = settle; });
+  return { promise, resolve };
+}
+
+describe('resourceTags', () => {
+  it('should tag objects by ID and listings with a wildcard', () => {
+    expect(resourceTags('/shipments/shp_123')).toEqual(['shipment:shp_123']);
+    expect(resourceTags('/shipments/shp_123/smartrate')).toEqual(['shipment:shp_123']);
+    expect(resourceTags('/addresses?page_size=20')).toEqual(['address:*']);
+    expect(resourceTags('/batches/batch_123')).toEqual(['batch:batch_123']);
+    expect(resourceTags('/carrier_types')).toEqual(['carrier_type:*']);
+  });
+
+  it('should add the listing tag for writes', () => {
+    expect(resourceTags('/shipments/shp_123/buy', true)).toEqual(['shipment:shp_123', 'shipment:*']);
+    expect(resourceTags('/trackers', true)).toEqual(['tracker:*']);
+  });
+});
+
+describe('ResponseCache', () => {
+  let store: MemoryCacheStore;
+  let cache: ResponseCache;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z'), doNotFake: ['setTimeout'] });
+    store = new MemoryCacheStore();
+    cache = new ResponseCache(store, 'test:cache:a', { logger });
+  });
+
+  afterEach(async () => {
+    await store.close();
+    jest.useRealTimers();
+  });
+
+  it('should serve fresh entries without loading', async () => {
+    const load = jest.fn().mockResolvedValue({ id: 'shp_123' });
+
+    await cache.getOrLoad('GET:/shipments/shp_123', ['shipment:shp_123'], policy, load);
+    await expect(cache.getOrLoad('GET:/shipments/shp_123', ['shipment:shp_123'], policy, load)).resolves.toEqual({ id: 'shp_123' });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should serve stale entries while a single background load refreshes them', async () => {
+    const refresh = deferred<string>();
+    const load = jest.fn()
+      .mockResolvedValueOnce('v1')
+      .mockReturnValueOnce(refresh.promise);
+
+    await cache.getOrLoad('key', [], policy, load);
+    jest.setSystemTime(Date.now() + (policy.ttl + 1) * 1000);
+
+    await expect(cache.getOrLoad('key', [], policy, load)).resolves.toBe('v1');
+    await expect(cache.getOrLoad('key', [], policy, load)).resolves.toBe('v1');
+    expect(load).toHaveBeenCalledTimes(2);
+
+    refresh.resolve('v2');
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    await expect(cache.getOrLoad('key', [], policy, load)).resolves.toBe('v2');
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache a refresh overtaken by an invalidation', async () => {
+    const refresh = deferred<string>();
+    const load = jest.fn()
+      .mockResolvedValueOnce('v1')
+      .mockReturnValueOnce(refresh.promise)
+      .mockResolvedValueOnce('v3');
+
+    await cache.getOrLoad('key', ['shipment:shp_1'], policy, load);
+    jest.setSystemTime(Date.now() + (policy.ttl + 1) * 1000);
+    await expect(cache.getOrLoad('key', ['shipment:shp_1'], policy, load)).resolves.toBe('v1');
+
+    await cache.invalidate(['shipment:shp_1']);
+    refresh.resolve('v2');
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    await expect(cache.getOrLoad('key', ['shipment:shp_1'], policy, load)).resolves.toBe('v3');
+    expect(load).toHaveBeenCalledTimes(3);
+  });
+
+  it('should invalidate only the tagged entries', async () => {
+    await cache.getOrLoad('one', ['shipment:shp_1'], policy, async () => 'one');
+    await cache.getOrLoad('two', ['shipment:shp_2'], policy, async () => 'two');
+
+    await cache.invalidate(['shipment:shp_1']);
+
+    await expect(cache.getOrLoad('one', ['shipment:shp_1'], policy, async () => 'reloaded')).resolves.toBe('reloaded');
+    await expect(cache.getOrLoad('two', ['shipment:shp_2'], policy, async () => 'reloaded')).resolves.toBe('two');
+  });
+
+  it('should clear its own namespace only', async () => {
+    const other = new ResponseCache(store, 'test:cache:b', { logger });
+    await cache.getOrLoad('key', [], policy, async () => 'a');
+    await other.getOrLoad('key', [], policy, async () => 'b');
+
+    await expect(cache.clear()).resolves.toBe(1);
+    await expect(other.getOrLoad('key', [], policy, async () => 'reloaded')).resolves.toBe('b');
+  });
+});
@@ -0,0 +1,469 @@
+import { createHash } from 'crypto';
+import NodeCache from 'node-cache';
+import { Redis } from 'ioredis';
+import { logger as defaultLogger, type ServiceLogger } from '../utils/logger.js';
+import { isObjectId } from '../utils/endpoints.js';
+
+// Tag indexes outlive every cached response they point to
+const TAG_TTL_SECONDS = 172800;
+
+/**
+ * How long a cached response is served: fresh for ttl seconds, then for up to
+ * staleTtl more seconds while it is revalidated in the background
+ */
+export interface CachePolicy {
+  ttl: number;
+  staleTtl: number;
+}
+
+/**
+ * Tags of a cached response, or a function deriving them from the response
+ * for objects it embeds
+ */
+export type CacheTags<T> = string[] | ((value: T) => string[]);
+
+/**
+ * Where a ResponseCache reports to: the server's logger and metrics. A stale
+ * entry served counts as a hit.
+ */
+export interface ResponseCacheHooks {
+  logger?: ServiceLogger;
+  onLookup?: (hit: boolean, stale: boolean) => void;
+}
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  tags: string[];
+  storedAt: number;
+  freshUntil: number;
+}
+
+/**
+ * Storage backend for cached responses. Keys and tags arrive fully namespaced.
+ */
+export interface CacheStore {
+  readonly kind: 'memory' | 'redis';
+  /**
+   * Whether the backend is ready to serve commands
+   */
+  readonly connected: boolean;
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  /**
+   * Store an entry and add its key to the index of each of its tags
+   */
+  set(key: string, entry: CacheEntry, ttlSeconds: number): Promise<void>;
+  /**
+   * Delete every entry carrying one of the tags. Returns the number deleted.
+   */
+  deleteTagged(tags: string[]): Promise<number>;
+  /**
+   * Delete every key under a prefix. Returns the number deleted.
+   */
+  deletePrefix(prefix: string): Promise<number>;
+  /**
+   * Throws when the backend is unreachable
+   */
+  ping(): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Process-local cache store with an in-memory tag index
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly kind = 'memory' as const;
+  readonly connected = true;
+  private entries = new NodeCache({ checkperiod: 60, useClones: false, deleteOnExpire: true, maxKeys: 10000 });
+  private tagIndex = new Map<string, Set<string>>();
+
+  constructor() {
+    // Keep the tag index in step with expired and deleted entries
+    const unindex = (key: string, entry: CacheEntry) => {
+      for (const tag of entry.tags) {
+        const keys = this.tagIndex.get(tag);
+        keys?.delete(key);
+        if (keys?.size === 0) {
+          this.tagIndex.delete(tag);
+        }
+      }
+    };
+    this.entries.on('expired', unindex);
+    this.entries.on('del', unindex);
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    return this.entries.get<CacheEntry<T>>(key);
+  }
+
+  async set(key: string, entry: CacheEntry, ttlSeconds: number): Promise<void> {
+    this.entries.set(key, entry, ttlSeconds);
+
+    for (const tag of entry.tags) {
+      const keys = this.tagIndex.get(tag) ?? new Set<string>();
+      keys.add(key);
+      this.tagIndex.set(tag, keys);
+    }
+  }
+
+  async deleteTagged(tags: string[]): Promise<number> {
+    const keys = new Set(tags.flatMap(tag => [...(this.tagIndex.get(tag) ?? [])]));
+    return this.entries.del([...keys]);
+  }
+
+  async deletePrefix(prefix: string): Promise<number> {
+    return this.entries.del(this.entries.keys().filter(key => key.startsWith(prefix)));
+  }
+
+  async ping(): Promise<void> {
+    // Always reachable
+  }
+
+  async close(): Promise<void> {
+    this.entries.close();
+    this.tagIndex.clear();
+  }
+}
+
+/**
+ * Redis cache store, shared by all server instances. Each tag is a set of the
+ * keys carrying it; bulk deletion walks keys with SCAN and never touches keys
+ * outside the given prefix.
+ */
+export class RedisCacheStore implements CacheStore {
+  readonly kind = 'redis' as const;
+  private redis: Redis;
+
+  constructor(redisUrl: string, logger: ServiceLogger = defaultLogger) {
+    this.redis = new Redis(redisUrl, {
+      maxRetriesPerRequest: 3,
+      lazyConnect: true,
+      keepAlive: 30000
+    });
+
+    this.redis.on('connect', () => {
+      logger.info('Redis cache connected');
+    });
+
+    this.redis.on('error', (error) => {
+      logger.error('Redis cache error', { error: error.message });
+    });
+  }
+
+  get connected(): boolean {
+    return this.redis.status === 'ready';
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const value = await this.redis.get(key);
+    return value ? JSON.parse(value) as CacheEntry<T> : undefined;
+  }
+
+  async set(key: string, entry: CacheEntry, ttlSeconds: number): Promise<void> {
+    const pipeline = this.redis.multi().set(key, JSON.stringify(entry), 'EX', ttlSeconds);
+
+    // Tag sets outlive the entries they index, so an invalidation never misses one
+    for (const tag of entry.tags) {
+      pipeline.sadd(tag, key).expire(tag, TAG_TTL_SECONDS);
+    }
+
+    await pipeline.exec();
+  }
+
+  async deleteTagged(tags: string[]): Promise<number> {
+    if (tags.length === 0) {
+      return 0;
+    }
+
+    const members = await Promise.all(tags.map(tag => this.redis.smembers(tag)));
+    const keys = [...new Set(members.flat())];
+
+    const [deleted] = await Promise.all([
+      keys.length > 0 ? this.redis.unlink(...keys) : Promise.resolve(0),
+      this.redis.unlink(...tags)
+    ]);
+
+    return deleted;
+  }
+
+  async deletePrefix(prefix: string): Promise<number> {
+    let deleted = 0;
+    let cursor = '0';
+
+    do {
+      const [next, keys] = await this.redis.scan(cursor, 'MATCH', `${escapeGlob(prefix)}*`, 'COUNT', 500);
+      cursor = next;
+      if (keys.length > 0) {
+        deleted += await this.redis.unlink(...keys);
+      }
+    } while (cursor !== '0');
+
+    return deleted;
+  }
+
+  async ping(): Promise<void> {
+    await this.redis.ping();
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
+
+/**
+ * Create the response cache store: Redis when a URL is configured, in-memory otherwise
+ */
+export function createCacheStore(redisUrl?: string, logger?: ServiceLogger): CacheStore {
+  return redisUrl ? new RedisCacheStore(redisUrl, logger) : new MemoryCacheStore();
+}
+
+/**
+ * Namespace of the responses a service cached for an API key. Responses depend on
+ * the key's account, and the key itself never reaches the store.
+ */
+export function cacheNamespace(service: string, apiKey: string): string {
+  return `${service}:cache:${createHash('sha256').update(apiKey).digest('hex').slice(0, 12)}`;
+}
+
+/**
+ * Cached upstream responses in one namespace of a store. Entries carry tags
+ * such as `order:123` for an object or `order:*` for its listings, so
+ * that writes and webhooks drop exactly the entries they affect. An expired entry
+ * is still served during its stale window while a single background request
+ * refreshes it. A value whose tags are invalidated while it loads is returned
+ * but not cached, as it may predate the change.
+ */
+export class ResponseCache {
+  private store: CacheStore;
+  private namespace: string;
+  private revalidations = new Map<string, Promise<void>>();
+  private lookups = { hits: 0, misses: 0 };
+  // Invalidations are numbered; while loads are in flight each tag keeps the
+  // number of its latest invalidation
+  private generation = 0;
+  private clearedAt = 0;
+  private invalidatedAt = new Map<string, number>();
+  private loading = 0;
+  private hooks: ResponseCacheHooks;
+  private logger: ServiceLogger;
+
+  constructor(store: CacheStore, namespace: string, hooks: ResponseCacheHooks = {}) {
+    this.store = store;
+    this.namespace = namespace;
+    this.hooks = hooks;
+    this.logger = hooks.logger ?? defaultLogger;
+  }
+
+  get kind(): CacheStore['kind'] {
+    return this.store.kind;
+  }
+
+  /**
+   * Lookups since start; stale entries served count as hits
+   */
+  get stats(): { hits: number; misses: number } {
+    return { ...this.lookups };
+  }
+
+  /**
+   * Return the cached value for a key, or load and cache it
+   */
+  async getOrLoad<T>(key: string, tags: CacheTags<T>, policy: CachePolicy, load: () => Promise<T>): Promise<T> {
+    const entryKey = this.entryKey(key);
+    const entry = await this.read<T>(entryKey);
+
+    if (entry) {
+      this.lookups.hits++;
+    } else {
+      this.lookups.misses++;
+    }
+
+    if (entry && Date.now() < entry.freshUntil) {
+      this.hooks.onLookup?.(true, false);
+      this.logger.debug('Cache hit', { key });
+      return entry.value;
+    }
+
+    if (entry) {
+      this.hooks.onLookup?.(true, true);
+      this.logger.debug('Serving stale cache entry while revalidating', { key });
+      this.revalidate(entryKey, tags, policy, load);
+      return entry.value;
+    }
+
+    this.hooks.onLookup?.(false, false);
+    return this.load(entryKey, tags, policy, load);
+  }
+
+  /**
+   * Drop every entry carrying one of the tags
+   */
+  async invalidate(tags: string[]): Promise<void> {
+    if (tags.length === 0) {
+      return;
+    }
+
+    this.generation++;
+    if (this.loading > 0) {
+      tags.forEach(tag => this.invalidatedAt.set(tag, this.generation));
+    }
+
+    try {
+      const deleted = await this.store.deleteTagged(tags.map(tag => this.tagKey(tag)));
+      this.logger.debug('Cache invalidated', { tags, deleted });
+    } catch (error) {
+      this.logger.error('Cache invalidation failed', {
+        tags,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Drop every entry of this namespace, leaving other keys in the store alone
+   */
+  async clear(): Promise<number> {
+    this.clearedAt = ++this.generation;
+    const deleted = await this.store.deletePrefix(`${this.namespace}:`);
+    this.logger.info('Cache cleared', { namespace: this.namespace, deleted });
+    return deleted;
+  }
+
+  ping(): Promise<void> {
+    return this.store.ping();
+  }
+
+  private revalidate<T>(entryKey: string, tags: CacheTags<T>, policy: CachePolicy, load: () => Promise<T>): void {
+    if (this.revalidations.has(entryKey)) {
+      return;
+    }
+
+    const revalidation = this.load(entryKey, tags, policy, load)
+      .then(() => undefined)
+      .catch(error => {
+        this.logger.warn('Cache revalidation failed', {
+          key: entryKey,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      })
+      .finally(() => this.revalidations.delete(entryKey));
+
+    this.revalidations.set(entryKey, revalidation);
+  }
+
+  /**
+   * Load a value and cache it unless it was invalidated while loading
+   */
+  private async load<T>(entryKey: string, tags: CacheTags<T>, policy: CachePolicy, load: () => Promise<T>): Promise<T> {
+    const generation = this.generation;
+    this.loading++;
+
+    try {
+      const value = await load();
+
+      if (this.invalidatedSince(generation, tags, value)) {
+        this.logger.debug('Not caching a value invalidated while loading', { key: entryKey });
+      } else {
+        await this.write(entryKey, tags, policy, value);
+      }
+
+      return value;
+    } finally {
+      if (--this.loading === 0) {
+        this.invalidatedAt.clear();
+      }
+    }
+  }
+
+  private invalidatedSince<T>(generation: number, tags: CacheTags<T>, value: T): boolean {
+    if (this.clearedAt > generation) {
+      return true;
+    }
+
+    const entryTags = typeof tags === 'function' ? tags(value) : tags;
+    return entryTags.some(tag => (this.invalidatedAt.get(tag) ?? 0) > generation);
+  }
+
+  private async read<T>(entryKey: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      return await this.store.get<T>(entryKey);
+    } catch (error) {
+      this.logger.error('Cache get error', {
+        key: entryKey,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return undefined;
+    }
+  }
+
+  private async write<T>(entryKey: string, tags: CacheTags<T>, policy: CachePolicy, value: T): Promise<void> {
+    const now = Date.now();
+
+    try {
+      const entryTags = typeof tags === 'function' ? tags(value) : tags;
+      await this.store.set(entryKey, {
+        value,
+        tags: [...new Set(entryTags)].map(tag => this.tagKey(tag)),
+        storedAt: now,
+        freshUntil: now + policy.ttl * 1000
+      }, policy.ttl + policy.staleTtl);
+    } catch (error) {
+      this.logger.error('Cache set error', {
+        key: entryKey,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private entryKey(key: string): string {
+    return `${this.namespace}:entry:${key}`;
+  }
+
+  private tagKey(tag: string): string {
+    return `${this.namespace}:tag:${tag}`;
+  }
+}
+
+/**
+ * Tags of a request path: `order:123` for /orders/123 and its
+ * sub-resources, `order:*` for the /orders listing. A write also carries
+ * the listing tag, as the listings show the changed object.
+ */
+export function resourceTags(url: string, write = false): string[] {
+  const resource = resourceName(url);
+  if (!resource) {
+    return [];
+  }
+
+  const id = pathSegments(url)[1];
+  if (id !== undefined && isObjectId(id)) {
+    return write ? [`${resource}:${id}`, `${resource}:*`] : [`${resource}:${id}`];
+  }
+
+  return [`${resource}:*`];
+}
+
+/**
+ * Resource a request path addresses, named in the singular: `address` for /addresses/adr_123
+ */
+export function resourceName(url: string): string | undefined {
+  const collection = pathSegments(url)[0];
+  return collection ? singular(collection) : undefined;
+}
+
+function pathSegments(url: string): string[] {
+  return url.split('?')[0]!.split('/').filter(Boolean);
+}
+
+function singular(collection: string): string {
+  if (collection.endsWith('ies')) {
+    return `${collection.slice(0, -3)}y`;
+  }
+  if (/(ss|ch|sh|x)es$/.test(collection)) {
+    return collection.slice(0, -2);
+  }
+  return collection.endsWith('s') ? collection.slice(0, -1) : collection;
+}
+
+function escapeGlob(pattern: string): string {
+  return pattern.replace(/[*?[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,176 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { logger as defaultLogger, type ServiceLogger } from '../utils/logger.js';
+import type { AuditLog } from './audit-log.js';
+import type { ToolAnnotations, ToolCallContext, ToolDefinition, ToolResult } from '../types/index.js';
+
+/**
+ * Declarative MCP tool specification.
+ * The zod input schema is the single source for the advertised JSON Schema,
+ * input validation and the handler's argument type.
+ */
+export interface ToolSpec<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  inputSchema: S;
+  annotations: ToolAnnotations;
+  handler(args: z.output<S>): Promise<ToolResult>;
+}
+
+export interface ToolRegistryOptions {
+  /**
+   * Records the calls of tools that are not read-only
+   */
+  audit?: AuditLog | undefined;
+  logger?: ServiceLogger | undefined;
+}
+
+/**
+ * Declare a tool. Exists to infer the handler argument type from the schema.
+ */
+export function defineTool<S extends z.ZodTypeAny>(spec: ToolSpec<S>): ToolSpec<S> {
+  return spec;
+}
+
+/**
+ * Build a tool result from a summary line (or lines) followed by a JSON payload
+ */
+export function toolResult(summary: string | string[], data: unknown): ToolResult {
+  const lines = Array.isArray(summary) ? summary : [summary];
+
+  return {
+    content: [
+      ...lines.map(text => ({ type: 'text' as const, text })),
+      {
+        type: 'text' as const,
+        text: JSON.stringify(data, null, 2)
+      }
+    ]
+  };
+}
+
+/**
+ * Registry of declared tools: advertises definitions, validates input and dispatches calls.
+ * With an audit log, calls of tools that are not read-only are recorded in it.
+ * Servers that run every tool in a context of their own override definition() and invoke().
+ */
+export class ToolRegistry {
+  private tools = new Map<string, ToolSpec>();
+  private definitions: ToolDefinition[] | undefined;
+  protected audit: AuditLog | undefined;
+  private logger: ServiceLogger;
+
+  constructor(specs: ToolSpec[] = [], options: ToolRegistryOptions = {}) {
+    this.audit = options.audit;
+    this.logger = options.logger ?? defaultLogger;
+    specs.forEach(spec => this.register(spec));
+  }
+
+  /**
+   * Register a tool. Names must be unique.
+   */
+  register(spec: ToolSpec): void {
+    if (this.tools.has(spec.name)) {
+      throw new Error(`Tool already registered: ${spec.name}`);
+    }
+
+    this.tools.set(spec.name, spec);
+    this.definitions = undefined;
+  }
+
+  /**
+   * Check whether a tool is registered
+   */
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * Get registered tool names
+   */
+  names(): string[] {
+    return Array.from(this.tools.keys());
+  }
+
+  /**
+   * Get MCP tool definitions, with JSON Schemas generated from the zod input schemas
+   */
+  getDefinitions(): ToolDefinition[] {
+    if (!this.definitions) {
+      this.definitions = Array.from(this.tools.values()).map(spec => this.definition(spec));
+    }
+
+    return this.definitions;
+  }
+
+  /**
+   * Validate arguments against the tool's schema and invoke its handler
+   */
+  async call(name: string, args: unknown, context: ToolCallContext = {}): Promise<ToolResult> {
+    const spec = this.tools.get(name);
+
+    if (!spec) {
+      throw new McpError(
+        ErrorCode.MethodNotFound,
+        `Unknown tool: ${name}`
+      );
+    }
+
+    if (this.audit && spec.annotations.readOnlyHint !== true) {
+      return this.audit.record(name, args, context, () => this.invoke(spec, args));
+    }
+
+    return this.invoke(spec, args);
+  }
+
+  protected definition(spec: ToolSpec): ToolDefinition {
+    return {
+      name: spec.name,
+      description: spec.description,
+      inputSchema: toInputJsonSchema(spec.inputSchema),
+      annotations: spec.annotations
+    };
+  }
+
+  protected async invoke(spec: ToolSpec, args: unknown): Promise<ToolResult> {
+    return spec.handler(this.validate(spec.name, spec.inputSchema, args));
+  }
+
+  /**
+   * Parse arguments with a schema, failing the call with InvalidParams
+   */
+  protected validate<S extends z.ZodTypeAny>(name: string, schema: S, args: unknown): z.output<S> {
+    const validation = schema.safeParse(args ?? {});
+    if (!validation.success) {
+      this.logger.warn('Tool input validation failed', { tool: name, errors: validation.error.errors });
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid ${name} parameters`,
+        validation.error.errors
+      );
+    }
+
+    return validation.data;
+  }
+}
+
+/**
+ * Convert a zod object schema to the JSON Schema shape MCP expects for tool input
+ */
+export function toInputJsonSchema(schema: z.ZodTypeAny): ToolDefinition['inputSchema'] {
+  // Called through a loose signature: zod-to-json-schema's generic options type
+  // recurses too deeply for the compiler on large object schemas
+  const convert = zodToJsonSchema as (schema: unknown, options: Record<string, unknown>) => Record<string, unknown>;
+  const { $schema: _schema, ...jsonSchema } = convert(schema, {
+    $refStrategy: 'none',
+    removeAdditionalStrategy: 'strict',
+    target: 'jsonSchema7'
+  });
+
+  return {
+    ...jsonSchema,
+    type: 'object',
+    properties: (jsonSchema['properties'] as Record<string, unknown> | undefined) ?? {}
+  };
+}
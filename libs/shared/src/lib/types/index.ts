@@ -139,4 +139,108 @@ export interface ServiceHealth {
   status: 'healthy' | 'degraded' | 'down';
   lastCheck: string;
   responseTime?: number;
-}
\ No newline at end of file
+}
+
+// Resilience Types
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Health Types
+export type HealthState = 'healthy' | 'degraded' | 'unhealthy';
+
+/**
+ * Result of the latest probe of a dependency. An unhealthy critical dependency
+ * makes the server unready; any other problem only degrades it.
+ */
+export interface DependencyHealth {
+  status: HealthState;
+  critical: boolean;
+  circuit: CircuitState;
+  checkedAt: string;
+  latencyMs?: number | undefined;
+  message?: string | undefined;
+  /**
+   * Circuit state of each upstream endpoint called so far
+   */
+  endpoints?: Record<string, CircuitState> | undefined;
+}
+
+// Audit Types
+export type AuditOutcome = 'success' | 'error';
+
+/**
+ * Audit trail entry of a state-changing tool call
+ */
+export interface AuditRecord {
+  id: string;
+  timestamp: string;
+  service: string; // Server that handled the call, e.g. easypost-mcp
+  tool: string;
+  outcome: AuditOutcome;
+  arguments: unknown; // Sanitized: secrets redacted, long values truncated
+  result?: string | undefined; // Summary lines of the tool result
+  error?: { code: string; message: string } | undefined;
+  durationMs: number;
+  requestId?: string | undefined;
+  caller?: string | undefined;
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+  cost?: number | undefined; // USD spent by the call
+  account?: string | undefined; // Account the call acted as, on servers with several
+  mode?: 'test' | 'production' | undefined; // API key mode, on servers with test and production keys
+}
+
+/**
+ * Who made a tool call, as far as the transport it arrived on knows
+ */
+export interface ToolCallContext {
+  requestId?: string | undefined;
+  caller?: string | undefined;
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+export interface AuditQuery {
+  from?: Date | undefined;
+  to?: Date | undefined;
+  tool?: string | undefined;
+  outcome?: AuditOutcome | undefined;
+  limit: number;
+}
+
+// Tool Types
+/**
+ * MCP Tool Annotations (behaviour hints advertised to clients)
+ */
+export interface ToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+/**
+ * MCP Tool Definition
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+    [key: string]: unknown;
+  };
+  annotations?: ToolAnnotations;
+}
+
+/**
+ * MCP Tool Call Result
+ */
+export interface ToolResult {
+  content: Array<{
+    type: 'text';
+    text: string;
+  }>;
+  [key: string]: unknown;
+}
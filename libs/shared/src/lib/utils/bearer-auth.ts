@@ -0,0 +1,29 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+const BEARER_PREFIX = /^Bearer\s+/i;
+
+/**
+ * Whether a received credential equals the expected token. Both sides are hashed
+ * first so the comparison takes the same time whatever their lengths.
+ */
+export function tokenMatches(received: string | undefined, token: string): boolean {
+  if (!received) {
+    return false;
+  }
+
+  const receivedHash = createHash('sha256').update(received).digest();
+  const expectedHash = createHash('sha256').update(token).digest();
+
+  return timingSafeEqual(receivedHash, expectedHash);
+}
+
+/**
+ * Whether an Authorization header carries the expected bearer token
+ */
+export function bearerTokenMatches(authorization: string | undefined, token: string): boolean {
+  if (!authorization || !BEARER_PREFIX.test(authorization)) {
+    return false;
+  }
+
+  return tokenMatches(authorization.replace(BEARER_PREFIX, '').trim(), token);
+}
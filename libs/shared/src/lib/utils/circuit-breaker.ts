@@ -0,0 +1,76 @@
+import type { CircuitState } from '../types/index.js';
+
+export interface CircuitBreakerOptions {
+  /**
+   * Consecutive failures that open the circuit
+   */
+  failureThreshold: number;
+  /**
+   * Milliseconds an open circuit waits before letting a trial call through
+   */
+  resetTimeoutMs: number;
+}
+
+/**
+ * Circuit breaker over consecutive failures. A closed circuit lets every call
+ * through; an open one rejects calls until the reset timeout has passed, after
+ * which it is half-open and a single trial call decides whether it closes again.
+ */
+export class CircuitBreaker {
+  private readonly options: CircuitBreakerOptions;
+  private failures = 0;
+  private openedAt: number | undefined;
+  private trialInFlight = false;
+
+  constructor(options: CircuitBreakerOptions) {
+    this.options = options;
+  }
+
+  get state(): CircuitState {
+    if (this.openedAt === undefined) {
+      return 'closed';
+    }
+
+    return Date.now() - this.openedAt >= this.options.resetTimeoutMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Milliseconds until an open circuit lets a trial call through
+   */
+  get retryAfterMs(): number {
+    return this.openedAt === undefined ? 0 : Math.max(0, this.openedAt + this.options.resetTimeoutMs - Date.now());
+  }
+
+  /**
+   * Whether a call may go through now. In the half-open state only one trial
+   * call is let through until its outcome is recorded.
+   */
+  tryAcquire(): boolean {
+    const state = this.state;
+    if (state === 'closed') {
+      return true;
+    }
+
+    if (state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+
+    if (this.openedAt !== undefined || this.failures >= this.options.failureThreshold) {
+      this.openedAt = Date.now();
+    }
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Endpoint label of a request URL: the path with object IDs replaced, so that
+ * /orders/123/notes and /orders/456/notes share a metric series and a circuit
+ */
+export function normalizeEndpoint(url: string): string {
+  const path = url.replace(/^[a-z]+:\/\/[^/]+/i, '').split('?')[0] ?? '';
+
+  return path
+    .split('/')
+    .map(segment => isObjectId(segment) ? ':id' : segment)
+    .join('/') || '/';
+}
+
+/**
+ * Whether a path segment is an object ID: numeric, prefixed like shp_123, or a UUID
+ */
+export function isObjectId(segment: string): boolean {
+  return /^(\d+|[a-z]+_(?=[0-9a-z]*\d)[0-9a-z]+|[0-9a-f]{8}-[0-9a-f-]{27})$/i.test(segment);
+}
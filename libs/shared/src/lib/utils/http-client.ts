@@ -1,5 +1,7 @@
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import type { Span } from '@opentelemetry/api';
 import { logger } from './logger.js';
+import { endRequestSpan, startRequestSpan } from './tracing.js';
 
 export interface HttpClientConfig {
   baseURL?: string;
@@ -13,6 +15,7 @@ export class HttpClient {
   private client: AxiosInstance;
   private retries: number;
   private retryDelay: number;
+  private spans = new WeakMap<InternalAxiosRequestConfig, Span>();
 
   constructor(config: HttpClientConfig = {}) {
     this.retries = config.retries ?? 3;
@@ -34,6 +37,8 @@ export class HttpClient {
     // Request interceptor
     this.client.interceptors.request.use(
       (config) => {
+        this.startSpan(config);
+
         logger.debug('HTTP Request', {
           method: config.method?.toUpperCase(),
           url: config.url,
@@ -50,6 +55,8 @@ export class HttpClient {
     // Response interceptor
     this.client.interceptors.response.use(
       (response) => {
+        this.endSpan(response.config, response.status);
+
         logger.debug('HTTP Response', {
           status: response.status,
           url: response.config.url,
@@ -59,6 +66,9 @@ export class HttpClient {
       },
       async (error) => {
         const config = error.config;
+        if (config) {
+          this.endSpan(config, error.response?.status, error);
+        }
 
         logger.error('HTTP Response Error', {
           status: error.response?.status,
@@ -89,6 +99,18 @@ export class HttpClient {
     );
   }
 
+  /**
+   * Start a client span for the request and propagate its trace context in the headers
+   */
+  private startSpan(config: InternalAxiosRequestConfig) {
+    this.spans.set(config, startRequestSpan('mcp-shipping-shared', config));
+  }
+
+  private endSpan(config: InternalAxiosRequestConfig, status?: number, error?: Error) {
+    endRequestSpan(this.spans.get(config), status, error);
+    this.spans.delete(config);
+  }
+
   private shouldRetry(error: any): boolean {
     return (
       !error.response || // Network error
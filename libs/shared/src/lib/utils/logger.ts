@@ -1,4 +1,16 @@
 import winston from 'winston';
+import { trace } from '@opentelemetry/api';
+
+/**
+ * Logger the shared services write to. Servers pass their own logger, so the
+ * lines carry the server's service name and context.
+ */
+export interface ServiceLogger {
+  debug(message: string, meta?: Record<string, unknown>): void;
+  info(message: string, meta?: Record<string, unknown>): void;
+  warn(message: string, meta?: Record<string, unknown>): void;
+  error(message: string, meta?: Record<string, unknown>): void;
+}
 
 export interface LoggerConfig {
   level?: string;
@@ -6,6 +18,18 @@ export interface LoggerConfig {
   environment?: string;
 }
 
+/**
+ * Attach the IDs of the active trace span, so log lines can be joined with traces
+ */
+const traceContext = winston.format(info => {
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  if (spanContext && trace.isSpanContextValid(spanContext)) {
+    info['trace_id'] = spanContext.traceId;
+    info['span_id'] = spanContext.spanId;
+  }
+  return info;
+});
+
 export function createLogger(config: LoggerConfig = {}) {
   const {
     level = process.env.LOG_LEVEL || 'info',
@@ -16,6 +40,7 @@ export function createLogger(config: LoggerConfig = {}) {
   const logger = winston.createLogger({
     level,
     format: winston.format.combine(
+      traceContext(),
       winston.format.timestamp(),
       winston.format.errors({ stack: true }),
       winston.format.json(),
@@ -0,0 +1,126 @@
+import {
+  CircuitOpenError,
+  UPSTREAM_CIRCUIT_DEFAULTS,
+  UpstreamFailure,
+  UpstreamResilience,
+  backoffDelay,
+  createUpstreamCircuits,
+  parseRetryAfter
+} from './resilience.js';
+
+const logger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn()
+};
+
+class FakeFailure extends Error {
+  readonly failure: UpstreamFailure;
+
+  constructor(failure: UpstreamFailure) {
+    super(`HTTP ${failure.status ?? 'none'}`);
+    this.failure = failure;
+  }
+}
+
+const describeFailure = (error: unknown): UpstreamFailure =>
+  error instanceof FakeFailure ? error.failure : { unprocessed: false };
+
+function createResilience(retries = 2) {
+  return new UpstreamResilience(
+    { retries, baseDelayMs: 1, maxDelayMs: 50 },
+    createUpstreamCircuits(),
+    describeFailure,
+    { logger }
+  );
+}
+
+describe('Retry-After', () => {
+  it('should parse delay-seconds and HTTP dates', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+});
+
+describe('Full-jitter backoff', () => {
+  it('should stay below the exponential cap', () => {
+    for (let attempt = 1; attempt <= 10; attempt++) {
+      const delay = backoffDelay(attempt, 100, 1000);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThan(Math.min(1000, 100 * 2 ** (attempt - 1)));
+    }
+  });
+});
+
+describe('UpstreamResilience', () => {
+  it('should retry idempotent requests on server errors', async () => {
+    const resilience = createResilience();
+    const send = jest.fn()
+      .mockRejectedValueOnce(new FakeFailure({ status: 502, unprocessed: false }))
+      .mockResolvedValueOnce('ok');
+
+    await expect(resilience.execute({ method: 'GET', url: '/shipments/shp_123' }, send)).resolves.toBe('ok');
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only retry non-idempotent requests the upstream cannot have processed', async () => {
+    const resilience = createResilience();
+
+    const ambiguous = jest.fn().mockRejectedValue(new FakeFailure({ status: 500, unprocessed: false }));
+    await expect(resilience.execute({ method: 'POST', url: '/shipments/shp_123/buy' }, ambiguous)).rejects.toThrow('HTTP 500');
+    expect(ambiguous).toHaveBeenCalledTimes(1);
+
+    const rateLimited = jest.fn()
+      .mockRejectedValueOnce(new FakeFailure({ status: 429, retryAfterMs: 10, unprocessed: true }))
+      .mockResolvedValueOnce('bought');
+    await expect(resilience.execute({ method: 'POST', url: '/shipments/shp_123/buy' }, rateLimited)).resolves.toBe('bought');
+    expect(rateLimited).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry client errors or wait longer than the policy allows', async () => {
+    const resilience = createResilience();
+
+    const invalid = jest.fn().mockRejectedValue(new FakeFailure({ status: 422, unprocessed: false }));
+    await expect(resilience.execute({ method: 'GET', url: '/addresses' }, invalid)).rejects.toThrow('HTTP 422');
+    expect(invalid).toHaveBeenCalledTimes(1);
+
+    const busy = jest.fn().mockRejectedValue(new FakeFailure({ status: 503, retryAfterMs: 60000, unprocessed: true }));
+    await expect(resilience.execute({ method: 'GET', url: '/addresses' }, busy)).rejects.toThrow('HTTP 503');
+    expect(busy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should open the circuit of a failing endpoint and fail fast', async () => {
+    const resilience = createResilience(0);
+    const down = jest.fn().mockRejectedValue(new FakeFailure({ status: 503, unprocessed: false }));
+
+    for (let call = 0; call < UPSTREAM_CIRCUIT_DEFAULTS.failureThreshold; call++) {
+      await expect(resilience.execute({ method: 'GET', url: '/trackers/trk_123' }, down)).rejects.toThrow('HTTP 503');
+    }
+
+    await expect(resilience.execute({ method: 'GET', url: '/trackers/trk_456' }, down)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(down).toHaveBeenCalledTimes(UPSTREAM_CIRCUIT_DEFAULTS.failureThreshold);
+    expect(resilience.circuits.states()).toEqual({ '/trackers/:id': 'open' });
+
+    // Other endpoints keep working
+    await expect(resilience.execute({ method: 'GET', url: '/addresses' }, async () => 'ok')).resolves.toBe('ok');
+  });
+
+  it('should keep the circuit closed on rate limiting and client errors', async () => {
+    const resilience = createResilience(0);
+
+    for (let call = 0; call < UPSTREAM_CIRCUIT_DEFAULTS.failureThreshold + 1; call++) {
+      const status = call % 2 === 0 ? 429 : 404;
+      await expect(
+        resilience.execute({ method: 'GET', url: '/shipments' }, async () => { throw new FakeFailure({ status, unprocessed: status === 429 }); })
+      ).rejects.toBeInstanceOf(FakeFailure);
+    }
+
+    expect(resilience.circuits.states()).toEqual({ '/shipments': 'closed' });
+  });
+});
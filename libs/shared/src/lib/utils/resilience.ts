@@ -0,0 +1,263 @@
+import { logger as defaultLogger, type ServiceLogger } from './logger.js';
+import { normalizeEndpoint } from './endpoints.js';
+import { CircuitBreaker, CircuitBreakerOptions } from './circuit-breaker.js';
+import type { CircuitState } from '../types/index.js';
+
+/**
+ * HTTP methods that can be repeated without changing the outcome
+ */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+export interface RetryPolicy {
+  /**
+   * Attempts after the first one
+   */
+  retries: number;
+  /**
+   * Cap of the first backoff delay, doubled on every further attempt
+   */
+  baseDelayMs: number;
+  /**
+   * Longest wait before a retry, including one asked for by Retry-After
+   */
+  maxDelayMs: number;
+}
+
+/**
+ * What went wrong with a failed upstream call, as far as retries and circuits are concerned
+ */
+export interface UpstreamFailure {
+  /**
+   * HTTP status, undefined when no response was received
+   */
+  status?: number | undefined;
+  /**
+   * Wait asked for by a Retry-After header
+   */
+  retryAfterMs?: number | undefined;
+  /**
+   * Whether the upstream certainly did not act on the request (refused connection, rate limited)
+   */
+  unprocessed: boolean;
+}
+
+export interface UpstreamCall {
+  method: string;
+  url: string;
+}
+
+/**
+ * Where UpstreamResilience reports to: the server's logger and metrics
+ */
+export interface UpstreamResilienceHooks {
+  logger?: ServiceLogger;
+  onRetry?: (method: string, endpoint: string, status: number | undefined) => void;
+  onCircuitRejection?: (method: string, endpoint: string) => void;
+}
+
+/**
+ * Endpoint circuits of an upstream API open after 5 consecutive faults and let a
+ * trial request through after 30 seconds
+ */
+export const UPSTREAM_CIRCUIT_DEFAULTS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30000
+};
+
+/**
+ * Rejection of a call whose endpoint circuit is open, without contacting the upstream
+ */
+export class CircuitOpenError extends Error {
+  public readonly endpoint: string;
+  public readonly retryAfterMs: number;
+
+  constructor(endpoint: string, retryAfterMs: number) {
+    super(`Circuit open for ${endpoint} after repeated upstream failures; retry in ${Math.max(1, Math.ceil(retryAfterMs / 1000))}s`);
+    this.name = 'CircuitOpenError';
+    this.endpoint = endpoint;
+    this.retryAfterMs = retryAfterMs;
+
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
+}
+
+export function isIdempotentMethod(method: string): boolean {
+  return IDEMPOTENT_METHODS.has(method.toUpperCase());
+}
+
+/**
+ * Full-jitter backoff: a random delay between zero and an exponentially growing cap
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+}
+
+/**
+ * Milliseconds to wait according to a Retry-After header, given in seconds or as an HTTP date
+ */
+export function parseRetryAfter(value: unknown, now = Date.now()): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const text = String(value).trim();
+  if (/^\d+$/.test(text)) {
+    return Number(text) * 1000;
+  }
+
+  const date = Date.parse(text);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Whether a failure may succeed on a later attempt: no response, timeouts,
+ * rate limiting and server errors
+ */
+export function isTransientFailure(failure: UpstreamFailure): boolean {
+  const { status } = failure;
+  return status === undefined || status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Whether a failure says the upstream itself is unwell. Rate limiting and client
+ * errors come from a working upstream and keep its circuit closed.
+ */
+function isUpstreamFault(failure: UpstreamFailure): boolean {
+  const { status } = failure;
+  return status === undefined || status === 408 || status >= 500;
+}
+
+/**
+ * Circuit breakers of an upstream API, one per endpoint with IDs normalized away
+ */
+export class CircuitBreakerRegistry {
+  private readonly options: CircuitBreakerOptions;
+  private breakers = new Map<string, CircuitBreaker>();
+
+  constructor(options: CircuitBreakerOptions) {
+    this.options = options;
+  }
+
+  get(endpoint: string): CircuitBreaker {
+    let breaker = this.breakers.get(endpoint);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.options);
+      this.breakers.set(endpoint, breaker);
+    }
+
+    return breaker;
+  }
+
+  /**
+   * State of every endpoint called so far
+   */
+  states(): Record<string, CircuitState> {
+    const states: Record<string, CircuitState> = {};
+    for (const [endpoint, breaker] of this.breakers) {
+      states[endpoint] = breaker.state;
+    }
+
+    return states;
+  }
+}
+
+/**
+ * Endpoint circuits of an upstream API, with the default thresholds unless given
+ */
+export function createUpstreamCircuits(options: CircuitBreakerOptions = UPSTREAM_CIRCUIT_DEFAULTS): CircuitBreakerRegistry {
+  return new CircuitBreakerRegistry(options);
+}
+
+/**
+ * Retries and circuit breaking around upstream API calls. Every endpoint has its
+ * own circuit, so one failing resource does not take the others down. Transient
+ * failures are retried with full-jitter backoff, or after the delay of a
+ * Retry-After header; non-idempotent calls only when the upstream cannot have
+ * acted on them.
+ */
+export class UpstreamResilience {
+  readonly circuits: CircuitBreakerRegistry;
+  private readonly policy: RetryPolicy;
+  private readonly describe: (error: unknown) => UpstreamFailure;
+  private readonly hooks: UpstreamResilienceHooks;
+  private readonly logger: ServiceLogger;
+
+  constructor(
+    policy: RetryPolicy,
+    circuits: CircuitBreakerRegistry,
+    describe: (error: unknown) => UpstreamFailure,
+    hooks: UpstreamResilienceHooks = {}
+  ) {
+    this.policy = policy;
+    this.circuits = circuits;
+    this.describe = describe;
+    this.hooks = hooks;
+    this.logger = hooks.logger ?? defaultLogger;
+  }
+
+  async execute<T>(call: UpstreamCall, send: (attempt: number) => Promise<T>): Promise<T> {
+    const endpoint = normalizeEndpoint(call.url);
+    const circuit = this.circuits.get(endpoint);
+    const idempotent = isIdempotentMethod(call.method);
+
+    for (let attempt = 1; ; attempt++) {
+      if (!circuit.tryAcquire()) {
+        this.hooks.onCircuitRejection?.(call.method, endpoint);
+        throw new CircuitOpenError(endpoint, circuit.retryAfterMs);
+      }
+
+      try {
+        const result = await send(attempt);
+        circuit.recordSuccess();
+        return result;
+
+      } catch (error) {
+        const failure = this.describe(error);
+        if (isUpstreamFault(failure)) {
+          circuit.recordFailure();
+        } else {
+          circuit.recordSuccess();
+        }
+
+        const delay = this.retryDelay(attempt, failure, idempotent);
+        if (delay === undefined) {
+          throw error;
+        }
+
+        this.logger.warn('Retrying upstream request', {
+          method: call.method,
+          endpoint,
+          attempt,
+          status: failure.status,
+          delay: Math.round(delay)
+        });
+        this.hooks.onRetry?.(call.method, endpoint, failure.status);
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Delay before the next attempt, or undefined when the call must not be retried
+   */
+  private retryDelay(attempt: number, failure: UpstreamFailure, idempotent: boolean): number | undefined {
+    if (attempt > this.policy.retries || !isTransientFailure(failure)) {
+      return undefined;
+    }
+
+    // A timed out or failed write may still have gone through; repeating it could apply it twice
+    if (!idempotent && !failure.unprocessed) {
+      return undefined;
+    }
+
+    if (failure.retryAfterMs !== undefined) {
+      return failure.retryAfterMs <= this.policy.maxDelayMs ? failure.retryAfterMs : undefined;
+    }
+
+    return backoffDelay(attempt, this.policy.baseDelayMs, this.policy.maxDelayMs);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
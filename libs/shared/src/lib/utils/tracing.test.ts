@@ -0,0 +1,57 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { extractTraceContext, getTracer, startTracing, stopTracing, withSpan } from './tracing.js';
+
+describe('Tracing', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'shared-traces-'));
+    filePath = join(directory, 'traces.jsonl');
+    startTracing({ serviceName: 'test-mcp', serviceVersion: '1.0.0', exporter: 'file', filePath });
+  });
+
+  afterEach(async () => {
+    await stopTracing();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const readSpans = async () => (await fs.readFile(filePath, 'utf8'))
+    .trim()
+    .split('\n')
+    .map(line => JSON.parse(line));
+
+  it('should continue the trace of incoming traceparent headers', async () => {
+    const headers = { traceparent: '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01' };
+
+    await withSpan('test-mcp', 'tools/call create_shipment', { 'mcp.tool.name': 'create_shipment' }, async () => {
+      getTracer('test-mcp').startSpan('HTTP POST').end();
+    }, extractTraceContext(headers));
+    await stopTracing();
+
+    const spans = await readSpans();
+    const toolSpan = spans.find(span => span.name === 'tools/call create_shipment');
+    const httpSpan = spans.find(span => span.name === 'HTTP POST');
+
+    expect(toolSpan).toMatchObject({
+      traceId: '0af7651916cd43dd8448eb211c80319c',
+      parentSpanId: 'b7ad6b7169203331',
+      kind: 'SERVER',
+      service: 'test-mcp',
+      attributes: { 'mcp.tool.name': 'create_shipment' }
+    });
+    expect(httpSpan).toMatchObject({ traceId: toolSpan.traceId, parentSpanId: toolSpan.spanId });
+  });
+
+  it('should mark spans of failed calls as errors', async () => {
+    await expect(withSpan('test-mcp', 'tools/call refund_shipment', {}, async () => {
+      throw new Error('declined');
+    })).rejects.toThrow('declined');
+    await stopTracing();
+
+    const [span] = await readSpans();
+    expect(span).toMatchObject({ status: 'ERROR', statusMessage: 'declined' });
+  });
+});
@@ -0,0 +1,193 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import {
+  Context,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  Tracer,
+  context,
+  propagation,
+  trace
+} from '@opentelemetry/api';
+import { ExportResult, ExportResultCode, hrTimeToMilliseconds } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { BatchSpanProcessor, ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from '@opentelemetry/semantic-conventions';
+import type { InternalAxiosRequestConfig } from 'axios';
+
+// Spans when OTEL_TRACES_EXPORTER=file
+const DEFAULT_TRACES_FILE = './data/traces.jsonl';
+
+export type TracesExporter = 'none' | 'otlp' | 'file';
+
+export interface TracingOptions {
+  serviceName: string;
+  serviceVersion?: string | undefined;
+  exporter: TracesExporter;
+  otlpEndpoint?: string | undefined;
+  filePath?: string | undefined;
+}
+
+/**
+ * Tracer of a service. Spans are no-ops until startTracing registers a provider.
+ * Looked up on every use, as stopTracing unregisters the provider it came from.
+ */
+export function getTracer(serviceName: string): Tracer {
+  return trace.getTracer(serviceName);
+}
+
+let provider: NodeTracerProvider | undefined;
+
+/**
+ * Writes finished spans as JSON lines, for local inspection without a collector
+ */
+export class FileSpanExporter implements SpanExporter {
+  private readonly filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    const lines = spans.map(span => JSON.stringify({
+      traceId: span.spanContext().traceId,
+      spanId: span.spanContext().spanId,
+      parentSpanId: span.parentSpanContext?.spanId,
+      name: span.name,
+      kind: SpanKind[span.kind],
+      startTime: new Date(hrTimeToMilliseconds(span.startTime)).toISOString(),
+      durationMs: hrTimeToMilliseconds(span.duration),
+      status: SpanStatusCode[span.status.code],
+      ...(span.status.message ? { statusMessage: span.status.message } : {}),
+      attributes: span.attributes,
+      service: span.resource.attributes[ATTR_SERVICE_NAME]
+    }) + '\n').join('');
+
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await fs.mkdir(dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, lines, 'utf8');
+      })
+      .then(
+        () => resultCallback({ code: ExportResultCode.SUCCESS }),
+        (error: Error) => resultCallback({ code: ExportResultCode.FAILED, error })
+      );
+  }
+
+  async shutdown(): Promise<void> {
+    await this.writeQueue;
+  }
+}
+
+/**
+ * Register the tracer provider and W3C trace context propagation for the process
+ */
+export function startTracing(options: TracingOptions): void {
+  if (provider || options.exporter === 'none') {
+    return;
+  }
+
+  const exporter = options.exporter === 'file'
+    ? new FileSpanExporter(options.filePath ?? DEFAULT_TRACES_FILE)
+    : new OTLPTraceExporter(options.otlpEndpoint ? { url: `${options.otlpEndpoint.replace(/\/$/, '')}/v1/traces` } : {});
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: options.serviceName,
+      ...(options.serviceVersion !== undefined ? { [ATTR_SERVICE_VERSION]: options.serviceVersion } : {})
+    }),
+    spanProcessors: [new BatchSpanProcessor(exporter)]
+  });
+  provider.register();
+}
+
+/**
+ * Flush pending spans and unregister the tracer provider
+ */
+export async function stopTracing(): Promise<void> {
+  if (!provider) {
+    return;
+  }
+
+  const stopping = provider;
+  provider = undefined;
+  await stopping.shutdown();
+  trace.disable();
+  propagation.disable();
+  context.disable();
+}
+
+/**
+ * Context carried by the traceparent and tracestate headers of an incoming request
+ */
+export function extractTraceContext(headers: Record<string, string | string[] | undefined> | undefined): Context {
+  return headers ? propagation.extract(context.active(), headers) : context.active();
+}
+
+/**
+ * Run a function inside a new active span of the service, which records a
+ * thrown error and is ended when the function settles
+ */
+export async function withSpan<T>(
+  serviceName: string,
+  name: string,
+  attributes: Record<string, string | number | boolean>,
+  fn: (span: Span) => Promise<T>,
+  parent: Context = context.active()
+): Promise<T> {
+  return getTracer(serviceName).startActiveSpan(name, { kind: SpanKind.SERVER, attributes }, parent, async span => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Start a client span for an outgoing axios request and inject its trace context
+ * into the request headers
+ */
+export function startRequestSpan(serviceName: string, config: InternalAxiosRequestConfig): Span {
+  const method = config.method?.toUpperCase() ?? 'GET';
+  const span = getTracer(serviceName).startSpan(`HTTP ${method}`, {
+    kind: SpanKind.CLIENT,
+    attributes: {
+      'http.request.method': method,
+      'url.full': `${config.baseURL ?? ''}${config.url ?? ''}`
+    }
+  });
+
+  propagation.inject(trace.setSpan(context.active(), span), config.headers);
+  return span;
+}
+
+/**
+ * End the client span of an axios request with its response status
+ */
+export function endRequestSpan(span: Span | undefined, status: number | undefined, error?: Error): void {
+  if (!span) {
+    return;
+  }
+
+  if (status !== undefined) {
+    span.setAttribute('http.response.status_code', status);
+  }
+
+  if (error || (status !== undefined && status >= 400)) {
+    if (error) {
+      span.recordException(error);
+    }
+    span.setStatus({ code: SpanStatusCode.ERROR, ...(error ? { message: error.message } : {}) });
+  }
+
+  span.end();
+}
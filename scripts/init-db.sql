@@ -18,13 +18,18 @@ CREATE TABLE IF NOT EXISTS audit_logs (
     request_id VARCHAR(100),
     details JSONB,
     ip_address INET,
-    user_agent TEXT
+    user_agent TEXT,
+    -- MCP tool calls: action is the tool name, user_id the caller
+    outcome VARCHAR(10),
+    duration_ms INTEGER,
+    cost NUMERIC(12, 2)
 );
 
 -- Create index for audit logs
 CREATE INDEX IF NOT EXISTS idx_audit_logs_timestamp ON audit_logs(timestamp);
 CREATE INDEX IF NOT EXISTS idx_audit_logs_service ON audit_logs(service);
 CREATE INDEX IF NOT EXISTS idx_audit_logs_action ON audit_logs(action);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_outcome ON audit_logs(outcome);
 
 -- Create configuration table
 CREATE TABLE IF NOT EXISTS configurations (